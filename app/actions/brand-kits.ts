@@ -0,0 +1,133 @@
+'use server'
+
+import { requireUser } from '@/lib/supabase/server'
+import { createBrandKit, updateBrandKit, deleteBrandKit } from '@/lib/db/brand-kits'
+import { validateBrandKit, type BrandKitSettings } from '@/lib/brand-kits'
+import type { NewBrandKit } from '@/lib/db/brand-kit-types'
+import { revalidatePath } from 'next/cache'
+
+type BrandKitInput = { name: string } & BrandKitSettings
+
+// Validate a submitted kit and map it to brand_kits columns
+function toBrandKitRow(input: BrandKitInput): { row: NewBrandKit } | { error: string } {
+  const result = validateBrandKit(input)
+
+  if ('errors' in result) {
+    return { error: result.errors.join('\n') }
+  }
+
+  const { kit } = result
+
+  return {
+    row: {
+      name: kit.name,
+      tone: kit.tone,
+      color_palette: kit.colorPalette,
+      scene_styles: kit.sceneStyles,
+      banned_terms: kit.bannedTerms,
+      callout_typography: kit.calloutTypography,
+      default_constraints: kit.defaultConstraints,
+    },
+  }
+}
+
+/**
+ * Create a brand kit
+ */
+export async function createBrandKitAction(
+  input: BrandKitInput
+): Promise<{ success: boolean; brandKitId?: string; error?: string }> {
+  try {
+    await requireUser()
+
+    const validated = toBrandKitRow(input)
+
+    if ('error' in validated) {
+      return { success: false, error: validated.error }
+    }
+
+    const result = await createBrandKit(validated.row)
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidatePath('/app/brand-kits')
+
+    return { success: true, brandKitId: result.brandKit.id }
+  } catch (error) {
+    console.error('Error in createBrandKitAction:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Update a brand kit
+ * Jobs already queued keep the settings they were queued with
+ */
+export async function updateBrandKitAction(
+  brandKitId: string,
+  input: BrandKitInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser()
+
+    const validated = toBrandKitRow(input)
+
+    if ('error' in validated) {
+      return { success: false, error: validated.error }
+    }
+
+    const result = await updateBrandKit(brandKitId, validated.row)
+
+    if (!result) {
+      return { success: false, error: 'Brand kit not found' }
+    }
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidatePath('/app/brand-kits')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updateBrandKitAction:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Delete a brand kit
+ * Projects using it continue without a kit
+ */
+export async function deleteBrandKitAction(
+  brandKitId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser()
+
+    const deleted = await deleteBrandKit(brandKitId)
+
+    if (!deleted) {
+      return { success: false, error: 'Failed to delete brand kit' }
+    }
+
+    revalidatePath('/app/brand-kits')
+    revalidatePath('/app/projects', 'layout')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deleteBrandKitAction:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
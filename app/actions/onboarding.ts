@@ -8,6 +8,7 @@ import {
   shouldShowOnboarding,
   getOnboardingCompletionPercentage,
 } from '@/lib/db/onboarding'
+import { markAssetsDownloaded } from '@/lib/db/assets'
 import { revalidatePath } from 'next/cache'
 
 export async function getOnboardingProgressAction() {
@@ -79,11 +80,16 @@ export async function dismissOnboardingAction() {
   }
 }
 
-export async function markAssetDownloadedAction() {
+export async function markAssetDownloadedAction(assetId?: string) {
   const user = await requireUser()
 
   try {
     await markTaskComplete(user.id, 'downloaded_asset')
+
+    // Per-output downloads feed prompt experiment results
+    if (assetId) {
+      await markAssetsDownloaded([assetId])
+    }
     
     revalidatePath('/app')
 
@@ -3,11 +3,16 @@
 import { requireUser } from '@/lib/supabase/server'
 import { createProject, updateProject, deleteProject } from '@/lib/db/projects'
 import { revalidatePath } from 'next/cache'
+import { isMarketplaceId, type MarketplaceId } from '@/lib/marketplaces'
+import { getBrandKit } from '@/lib/db/brand-kits'
 
 /**
  * Create a new project
  */
-export async function createProjectAction(name: string): Promise<{ 
+export async function createProjectAction(
+  name: string,
+  marketplace?: MarketplaceId
+): Promise<{ 
   success: boolean
   projectId?: string
   error?: string 
@@ -15,6 +20,13 @@ export async function createProjectAction(name: string): Promise<{
   try {
     await requireUser()
 
+    if (marketplace !== undefined && !isMarketplaceId(marketplace)) {
+      return {
+        success: false,
+        error: 'Unknown marketplace'
+      }
+    }
+
     if (!name || name.trim().length === 0) {
       return {
         success: false,
@@ -29,7 +41,7 @@ export async function createProjectAction(name: string): Promise<{
       }
     }
 
-    const project = await createProject({ name: name.trim() })
+    const project = await createProject({ name: name.trim(), marketplace })
 
     if (!project) {
       return {
@@ -103,6 +115,83 @@ export async function renameProjectAction(
   }
 }
 
+/**
+ * Change the marketplace profile a project generates for
+ */
+export async function setProjectMarketplaceAction(
+  projectId: string,
+  marketplace: MarketplaceId
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser()
+
+    if (!isMarketplaceId(marketplace)) {
+      return {
+        success: false,
+        error: 'Unknown marketplace'
+      }
+    }
+
+    const project = await updateProject(projectId, { marketplace })
+
+    if (!project) {
+      return {
+        success: false,
+        error: 'Failed to update marketplace'
+      }
+    }
+
+    revalidatePath(`/app/projects/${projectId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in setProjectMarketplaceAction:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Attach a brand kit to a project (null to detach)
+ */
+export async function setProjectBrandKitAction(
+  projectId: string,
+  brandKitId: string | null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await requireUser()
+
+    // RLS limits lookups to the user's own kits
+    if (brandKitId !== null && !await getBrandKit(brandKitId)) {
+      return {
+        success: false,
+        error: 'Brand kit not found'
+      }
+    }
+
+    const project = await updateProject(projectId, { brand_kit_id: brandKitId })
+
+    if (!project) {
+      return {
+        success: false,
+        error: 'Failed to update brand kit'
+      }
+    }
+
+    revalidatePath(`/app/projects/${projectId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in setProjectBrandKitAction:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
 /**
  * Delete a project
  */
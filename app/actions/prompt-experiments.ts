@@ -0,0 +1,116 @@
+'use server'
+
+import { requireAdmin } from '@/lib/auth/admin'
+import {
+  createPromptExperiment,
+  promotePromptExperimentWinner,
+  stopPromptExperiment,
+} from '@/lib/db/prompt-experiments'
+import { isGenerationMode } from '@/lib/generation/modes'
+import { validateExperimentVariants } from '@/lib/generation/experiments'
+import type { ExperimentVariant } from '@/lib/db/experiment-types'
+import { revalidatePath } from 'next/cache'
+
+/**
+ * Start an A/B experiment between prompt versions of a mode
+ */
+export async function createPromptExperimentAction(experiment: {
+  mode: string
+  name: string
+  notes?: string
+  variants: ExperimentVariant[]
+}): Promise<{ success: boolean; error?: string }> {
+  const user = await requireAdmin()
+
+  if (!isGenerationMode(experiment.mode)) {
+    return { success: false, error: `Unknown mode: ${experiment.mode}` }
+  }
+
+  if (!experiment.name.trim()) {
+    return { success: false, error: 'Experiment name is required' }
+  }
+
+  const errors = validateExperimentVariants(experiment.variants)
+
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('\n') }
+  }
+
+  try {
+    const result = await createPromptExperiment({
+      mode: experiment.mode,
+      name: experiment.name.trim(),
+      notes: experiment.notes?.trim() || null,
+      variants: experiment.variants.map(({ version, weight }) => ({ version, weight })),
+      created_by: user.id,
+    })
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidatePath('/app/admin/experiments')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error creating prompt experiment:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start experiment',
+    }
+  }
+}
+
+/**
+ * Stop an experiment without changing the mode's current version
+ */
+export async function stopPromptExperimentAction(id: string): Promise<{ success: boolean; error?: string }> {
+  await requireAdmin()
+
+  try {
+    const stopped = await stopPromptExperiment(id)
+
+    if (!stopped) {
+      return { success: false, error: 'Experiment is not running' }
+    }
+
+    revalidatePath('/app/admin/experiments')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error stopping prompt experiment:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to stop experiment',
+    }
+  }
+}
+
+/**
+ * End an experiment and make the winning version its mode's current version
+ */
+export async function promotePromptExperimentWinnerAction(
+  id: string,
+  version: string
+): Promise<{ success: boolean; error?: string }> {
+  const user = await requireAdmin()
+
+  try {
+    const experiment = await promotePromptExperimentWinner(id, version, user.id)
+
+    if (!experiment) {
+      return { success: false, error: `Experiment is not running or has no variant ${version}` }
+    }
+
+    revalidatePath('/app/admin/experiments')
+    revalidatePath('/app/admin/prompts')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error promoting prompt experiment winner:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to promote winner',
+    }
+  }
+}
@@ -0,0 +1,187 @@
+'use server'
+
+import { requireAdmin } from '@/lib/auth/admin'
+import {
+  createPromptTemplateDraft,
+  publishPromptTemplate,
+  setCurrentPromptVersion,
+  updatePromptTemplateDraft,
+} from '@/lib/db/prompt-templates'
+import {
+  buildPrompt,
+  validatePromptTemplateBody,
+  type PromptInputs,
+} from '@/lib/prompts'
+import { isGenerationMode } from '@/lib/generation/modes'
+import { isMarketplaceId } from '@/lib/marketplaces'
+import type { PromptTemplateRecord } from '@/lib/db/prompt-template-types'
+import { revalidatePath } from 'next/cache'
+
+/**
+ * Render a template body for sample inputs without saving it
+ * Runs the same sanitization and marketplace rules as generation
+ */
+export async function previewPromptTemplate(preview: {
+  mode: string
+  body: string
+  inputs: PromptInputs
+  marketplace: string
+}): Promise<{ success: boolean; prompt?: string; warnings?: string[]; error?: string }> {
+  await requireAdmin()
+
+  if (!isGenerationMode(preview.mode)) {
+    return { success: false, error: `Unknown mode: ${preview.mode}` }
+  }
+
+  if (!isMarketplaceId(preview.marketplace)) {
+    return { success: false, error: `Unknown marketplace: ${preview.marketplace}` }
+  }
+
+  const errors = validatePromptTemplateBody(preview.body)
+
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('\n') }
+  }
+
+  try {
+    const { prompt, promptPayload } = buildPrompt(
+      preview.mode,
+      preview.inputs,
+      preview.marketplace,
+      { mode: preview.mode, version: 'preview', body: preview.body }
+    )
+
+    return { success: true, prompt, warnings: promptPayload.complianceWarnings }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to render prompt',
+    }
+  }
+}
+
+/**
+ * Save a new draft as the mode's next version
+ */
+export async function createPromptTemplateDraftAction(
+  mode: string,
+  body: string,
+  notes?: string
+): Promise<{ success: boolean; template?: PromptTemplateRecord; error?: string }> {
+  const user = await requireAdmin()
+
+  if (!isGenerationMode(mode)) {
+    return { success: false, error: `Unknown mode: ${mode}` }
+  }
+
+  const errors = validatePromptTemplateBody(body)
+
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('\n') }
+  }
+
+  try {
+    const template = await createPromptTemplateDraft({
+      mode,
+      body,
+      notes: notes?.trim() || null,
+      created_by: user.id,
+    })
+
+    revalidatePath('/app/admin/prompts')
+
+    return { success: true, template }
+  } catch (error) {
+    console.error('Error creating prompt template draft:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create draft',
+    }
+  }
+}
+
+/**
+ * Save changes to a draft
+ */
+export async function updatePromptTemplateDraftAction(
+  id: string,
+  body: string,
+  notes?: string
+): Promise<{ success: boolean; template?: PromptTemplateRecord; error?: string }> {
+  await requireAdmin()
+
+  const errors = validatePromptTemplateBody(body)
+
+  if (errors.length > 0) {
+    return { success: false, error: errors.join('\n') }
+  }
+
+  const template = await updatePromptTemplateDraft(id, { body, notes: notes?.trim() || null })
+
+  if (!template) {
+    return { success: false, error: 'Draft not found (published templates cannot be edited)' }
+  }
+
+  revalidatePath('/app/admin/prompts')
+
+  return { success: true, template }
+}
+
+/**
+ * Publish a draft; it becomes its mode's current version
+ */
+export async function publishPromptTemplateAction(
+  id: string
+): Promise<{ success: boolean; template?: PromptTemplateRecord; error?: string }> {
+  const user = await requireAdmin()
+
+  try {
+    const template = await publishPromptTemplate(id, user.id)
+
+    if (!template) {
+      return { success: false, error: 'Draft not found or already published' }
+    }
+
+    revalidatePath('/app/admin/prompts')
+
+    return { success: true, template }
+  } catch (error) {
+    console.error('Error publishing prompt template:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to publish template',
+    }
+  }
+}
+
+/**
+ * Make v1 or a published version the mode's current version (rollback)
+ */
+export async function setCurrentPromptVersionAction(
+  mode: string,
+  version: string
+): Promise<{ success: boolean; error?: string }> {
+  const user = await requireAdmin()
+
+  if (!isGenerationMode(mode)) {
+    return { success: false, error: `Unknown mode: ${mode}` }
+  }
+
+  try {
+    const updated = await setCurrentPromptVersion(mode, version, user.id)
+
+    if (!updated) {
+      return { success: false, error: `Version ${version} is not published for ${mode}` }
+    }
+
+    revalidatePath('/app/admin/prompts')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error setting current prompt version:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to set current version',
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { requireUser } from '@/lib/supabase/server'
+import { getAsset, getAssetDerivatives, updateAsset, deleteAsset } from '@/lib/db/assets'
+import { downloadFile, uploadFile, deleteFile, deleteFiles, BUCKETS } from '@/lib/storage/server'
+import { getRequestId } from '@/lib/request-context'
+import { createContextLogger } from '@/lib/logger'
+import { removeBannedTermsFromCallouts, sanitizeCallouts } from '@/lib/prompts'
+import { validateCallouts } from '@/lib/generation/callouts'
+import { CALLOUT_COMPOSITOR_VERSION, compositeCallouts } from '@/lib/generation/callout-compositor'
+import type { Asset, CalloutLayer } from '@/lib/db/asset-types'
+import type { BrandKitSnapshot } from '@/lib/brand-kits'
+
+export const dynamic = 'force-dynamic'
+
+interface CalloutsRequestBody {
+  callouts?: unknown
+  calloutLayout?: string
+}
+
+/**
+ * PUT /api/assets/[id]/callouts
+ *
+ * Edit the callout text of a feature_callout output and re-render it.
+ * Only outputs generated with structured callouts have a callout layer:
+ * the text is composited again onto the kept text-free visual, so no
+ * image is generated and no credit is spent.
+ *
+ * Request (JSON):
+ * - callouts: { headline, text?, icon?, anchor? }[] (required, 1-4) -
+ *   Replaces every callout (see lib/generation/callouts.ts); banned words
+ *   of the brand kit the output was generated with (prompt_payload.brandKit)
+ *   and unverifiable claims are removed as at generation time
+ * - calloutLayout: 'sides' | 'left_column' | 'right_column' | 'bottom_row'
+ *   (optional, default: the current layout)
+ *
+ * The output's file is replaced (storage_path changes) and its cached
+ * download conversions are dropped. Upscaled copies keep the old text.
+ *
+ * Response (200):
+ * - asset: Asset - The updated output (callout_layer holds the new callouts)
+ * - warnings: string[] - Banned words and claims removed from the callouts
+ *
+ * Errors:
+ * - 400: Invalid callouts, or the output has no callout layer
+ * - 403: Unauthorized (not asset owner)
+ * - 404: Asset not found
+ * - 500: Server error
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = await getRequestId()
+  const log = createContextLogger({ requestId, endpoint: '/api/assets/[id]/callouts' })
+
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { id: assetId } = await params
+
+    const asset = await getAsset(assetId)
+
+    if (!asset) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify user owns the asset (RLS should handle this, but double-check)
+    if (asset.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    const layer = asset.callout_layer
+
+    if (asset.kind !== 'output' || !layer) {
+      return NextResponse.json(
+        { error: 'Only feature callout outputs generated with callouts can be edited' },
+        { status: 400 }
+      )
+    }
+
+    const body: CalloutsRequestBody = await request.json().catch(() => ({}))
+    const validated = validateCallouts(body.callouts, body.calloutLayout ?? layer.layout)
+
+    if ('error' in validated) {
+      return NextResponse.json(
+        { error: validated.error },
+        { status: 400 }
+      )
+    }
+
+    // Same order as generation: the brand kit first, then the claim guardrails
+    const brandKit: BrandKitSnapshot | undefined = asset.prompt_payload?.brandKit
+    const branded = brandKit
+      ? removeBannedTermsFromCallouts(validated.callouts, brandKit)
+      : { callouts: validated.callouts, warnings: [] }
+
+    const sanitized = sanitizeCallouts(branded.callouts)
+    const callouts = sanitized.callouts
+    const warnings = [...branded.warnings, ...sanitized.warnings]
+
+    if (callouts.length === 0) {
+      return NextResponse.json(
+        { error: 'No callouts left after removing banned words and unverifiable claims', warnings },
+        { status: 400 }
+      )
+    }
+
+    const base = await downloadFile(BUCKETS.OUTPUTS, layer.base_storage_path)
+
+    if (!base.data) {
+      return NextResponse.json(
+        { error: 'Failed to read the callout base image from storage' },
+        { status: 500 }
+      )
+    }
+
+    const rendered = await compositeCallouts(base.data, {
+      layout: validated.layout,
+      callouts,
+      accentColor: layer.accent_color,
+    })
+
+    // New file, so signed URLs and browser caches never serve the old text
+    const storagePath = `${asset.user_id}/${asset.project_id}/${uuidv4()}.png`
+    const uploadResult = await uploadFile(BUCKETS.OUTPUTS, storagePath, rendered, {
+      contentType: 'image/png',
+      cacheControl: '3600',
+      upsert: false,
+    })
+
+    if (uploadResult.error) {
+      return NextResponse.json(
+        { error: 'Failed to upload re-rendered image' },
+        { status: 500 }
+      )
+    }
+
+    const calloutLayer: CalloutLayer = {
+      ...layer,
+      version: CALLOUT_COMPOSITOR_VERSION,
+      layout: validated.layout,
+      callouts,
+      rendered_at: new Date().toISOString(),
+    }
+
+    let updated: Asset | null
+    try {
+      updated = await updateAsset(asset.id, {
+        storage_path: storagePath,
+        mime_type: 'image/png',
+        callout_layer: calloutLayer,
+      })
+    } catch (error) {
+      await deleteFile(BUCKETS.OUTPUTS, storagePath)
+      throw error
+    }
+
+    // The old file and its conversions now show stale text (best effort)
+    await deleteFile(BUCKETS.OUTPUTS, asset.storage_path)
+
+    const derivatives = await getAssetDerivatives(asset.id)
+    if (derivatives.length > 0) {
+      await deleteFiles(BUCKETS.OUTPUTS, derivatives.map((derivative) => derivative.storage_path))
+      await Promise.all(derivatives.map((derivative) => deleteAsset(derivative.id)))
+    }
+
+    log.info('Callouts re-rendered', {
+      assetId: asset.id,
+      layout: validated.layout,
+      callouts: callouts.length,
+      droppedConversions: derivatives.length,
+    })
+
+    return NextResponse.json({ asset: updated, warnings })
+  } catch (error) {
+    console.error('Callouts API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to re-render callouts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getAsset, markAssetsDownloaded } from '@/lib/db/assets'
+import { markAssetDownloaded } from '@/lib/db/onboarding'
+import { getRequestId } from '@/lib/request-context'
+import { createContextLogger } from '@/lib/logger'
+import { getConvertedOutput } from '@/lib/generation/converted-outputs'
+import { getDownloadFileName, parseDownloadOptions } from '@/lib/generation/download-formats'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/assets/[id]/download
+ *
+ * Download an output converted for marketplace upload: alpha flattened
+ * onto white, sRGB with the sRGB ICC profile tagged, encoded as JPEG,
+ * WebP or PNG (see lib/generation/convert.ts)
+ *
+ * Conversions are cached as derivatives of the output, so repeats are served
+ * from storage (see lib/generation/converted-outputs.ts).
+ *
+ * Query:
+ * - format: 'jpeg' | 'webp' | 'png' (optional, default: 'png')
+ * - quality: 1-100 (optional, default: 90) - Highest encoder quality; PNG is
+ *   lossless unless it has to shrink to maxBytes
+ * - maxBytes: number (optional, at least 20480) - Lower the quality until
+ *   the file fits; dimensions never change
+ *
+ * Response (200): the image as an attachment
+ * - X-Conversion-Cache: 'hit' | 'miss'
+ * - X-Target-Met: 'true' | 'false' - Whether the file fits maxBytes
+ *
+ * Errors:
+ * - 400: Invalid options, or not an output
+ * - 403: Unauthorized (not asset owner)
+ * - 404: Asset not found
+ * - 500: Conversion or storage failure
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = await getRequestId()
+  const log = createContextLogger({ requestId, endpoint: '/api/assets/[id]/download' })
+
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { id: assetId } = await params
+
+    const parsed = parseDownloadOptions(request.nextUrl.searchParams)
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const asset = await getAsset(assetId)
+
+    if (!asset) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify user owns the asset (RLS should handle this, but double-check)
+    if (asset.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    if (asset.kind !== 'output' || asset.derivative_key) {
+      return NextResponse.json(
+        { error: 'Only generated outputs can be downloaded' },
+        { status: 400 }
+      )
+    }
+
+    const { options } = parsed
+    const file = await getConvertedOutput(asset, options, log)
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Failed to read image from storage' },
+        { status: 500 }
+      )
+    }
+
+    // Downloads count toward the onboarding checklist and experiment results
+    await markAssetDownloaded(user.id)
+    await markAssetsDownloaded([asset.id])
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Length': String(file.data.length),
+        'Content-Disposition': `attachment; filename="${getDownloadFileName(asset, options.format)}"`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Conversion-Cache': file.cache,
+        'X-Target-Met': String(file.targetMet),
+      },
+    })
+  } catch (error) {
+    console.error('Download API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to convert image' },
+      { status: 500 }
+    )
+  }
+}
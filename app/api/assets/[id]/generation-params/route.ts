@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getAsset } from '@/lib/db/assets'
+import { getGenerationParams } from '@/lib/generation/params'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/assets/[id]/generation-params
+ *
+ * Get the parameters an output was generated with, to regenerate it
+ * or prefill the workspace for "Edit and regenerate"
+ *
+ * Response:
+ * - params: { assetId, projectId, jobId, mode, inputAssetId, inputAssetIds,
+ *   inputs, promptVersion, provider, model, variants, marketplace, brandKitId }
+ *   (inputAssetIds: every input of a bundle, null otherwise)
+ *   Send them back to POST /api/generate with parentAssetId = assetId
+ *   to create a lineage-linked output.
+ *
+ * Errors:
+ * - 400: Asset is not an output
+ * - 403: Unauthorized (not asset owner)
+ * - 404: Asset not found
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { id: assetId } = await params
+
+    const asset = await getAsset(assetId)
+
+    if (!asset) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify user owns the asset (RLS should handle this, but double-check)
+    if (asset.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    if (asset.kind !== 'output') {
+      return NextResponse.json(
+        { error: 'Only generated outputs can be regenerated' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      params: await getGenerationParams(asset),
+    })
+  } catch (error) {
+    console.error('Generation params API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get generation parameters' },
+      { status: 500 }
+    )
+  }
+}
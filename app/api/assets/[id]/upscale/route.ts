@@ -0,0 +1,238 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getAsset, getUpscaledAsset } from '@/lib/db/assets'
+import { createUpscaleJobWithHold } from '@/lib/db/generation-jobs'
+import { getRequestId } from '@/lib/request-context'
+import { createContextLogger } from '@/lib/logger'
+import { getImageProvider, type ImageProvider } from '@/lib/providers'
+import { resolveMarketplace } from '@/lib/generation/marketplace'
+import { DEFAULT_UPSCALE_SIZE, UPSCALE_SIZES, isUpscaleSize } from '@/lib/generation/upscale-sizes'
+import { getIdempotencyKey, hashRequestPayload, withIdempotency } from '@/lib/idempotency'
+
+export const dynamic = 'force-dynamic'
+
+interface UpscaleRequestBody {
+  targetSize?: number
+  marketplace?: string
+}
+
+/**
+ * POST /api/assets/[id]/upscale
+ *
+ * Queue an upscale of a generated output to a marketplace zoom resolution
+ * (outputs are generated at 1024x1024). The worker upscales it with the
+ * configured provider when it supports upscaling to the target size, and
+ * resamples it locally otherwise (see lib/generation/upscale.ts).
+ *
+ * The result is a new output with the same mode, linked to this one
+ * through parent_asset_id, with its real width and height recorded.
+ *
+ * Headers:
+ * - Idempotency-Key: string (optional) - Repeats with the same key and body
+ *   return the original jobId instead of queueing another job
+ *
+ * Request (JSON):
+ * - targetSize: 1600 | 2000 | 3000 (optional, default: 2000) - Longest side
+ *   of the upscaled output in pixels
+ * - marketplace: 'amazon' | 'walmart' | 'etsy' | 'ebay' | 'shopify' (optional,
+ *   default: the project's marketplace) - Profile for the compliance checks
+ *
+ * Credits: the plan's upscale price (plans.upscale_credits) is held when the
+ * job is queued, charged when it succeeds and released if it fails.
+ *
+ * Response (200):
+ * - jobId: string - Upscale job UUID (track it like a generation job)
+ * - targetSize: number
+ * - credits: number - Credits held for the upscale
+ * - message: string - Status message
+ *
+ * Errors:
+ * - 400: Invalid target size, not an output, or already at least that large
+ * - 402: Insufficient credits (code: 'NO_CREDITS')
+ * - 403: Unauthorized (not asset owner)
+ * - 404: Asset not found
+ * - 409: Already upscaled to that size (upscaledAssetId), or Idempotency-Key conflict
+ * - 500: Server error
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = await getRequestId()
+  const log = createContextLogger({ requestId, endpoint: '/api/assets/[id]/upscale' })
+
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { id: assetId } = await params
+
+    const { key: idempotencyKey, error: idempotencyKeyError } = getIdempotencyKey(request.headers)
+
+    if (idempotencyKeyError) {
+      return NextResponse.json(
+        { error: idempotencyKeyError },
+        { status: 400 }
+      )
+    }
+
+    const body: UpscaleRequestBody = await request.json().catch(() => ({}))
+
+    return await withIdempotency(
+      idempotencyKey ? { endpoint: `/api/assets/${assetId}/upscale`, key: idempotencyKey } : null,
+      hashRequestPayload(body),
+      () => enqueueUpscale(user.id, assetId, body, requestId, log)
+    )
+  } catch (error) {
+    console.error('Upscale API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start upscale' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Validate an upscale request and enqueue the job
+ */
+async function enqueueUpscale(
+  userId: string,
+  assetId: string,
+  body: UpscaleRequestBody,
+  requestId: string,
+  log: ReturnType<typeof createContextLogger>
+): Promise<NextResponse> {
+  const targetSize = body.targetSize ?? DEFAULT_UPSCALE_SIZE
+
+  if (!isUpscaleSize(targetSize)) {
+    return NextResponse.json(
+      { error: `targetSize must be one of: ${UPSCALE_SIZES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const asset = await getAsset(assetId)
+
+  if (!asset) {
+    return NextResponse.json(
+      { error: 'Asset not found' },
+      { status: 404 }
+    )
+  }
+
+  // Verify user owns the asset (RLS should handle this, but double-check)
+  if (asset.user_id !== userId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 403 }
+    )
+  }
+
+  if (asset.kind !== 'output') {
+    return NextResponse.json(
+      { error: 'Only generated outputs can be upscaled' },
+      { status: 400 }
+    )
+  }
+
+  const longestSide = Math.max(asset.width ?? 0, asset.height ?? 0)
+
+  if (longestSide >= targetSize) {
+    return NextResponse.json(
+      { error: `Image is already ${asset.width}x${asset.height}px` },
+      { status: 400 }
+    )
+  }
+
+  const existing = await getUpscaledAsset(asset.id, targetSize)
+
+  if (existing) {
+    return NextResponse.json(
+      {
+        error: `Image was already upscaled to ${targetSize}px`,
+        upscaledAssetId: existing.id,
+      },
+      { status: 409 }
+    )
+  }
+
+  const marketplace = await resolveMarketplace(asset.project_id, asset.mode, body.marketplace)
+
+  if ('error' in marketplace) {
+    return NextResponse.json(
+      { error: marketplace.error },
+      { status: marketplace.status }
+    )
+  }
+
+  // Without a configured provider the worker resamples locally
+  let provider: ImageProvider | null = null
+  try {
+    provider = getImageProvider()
+  } catch (error) {
+    log.warn('Image provider not available, upscaling locally', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  const providerUpscales = Boolean(
+    provider?.capabilities.upscale && targetSize <= (provider.capabilities.maxUpscaleSize ?? 0)
+  )
+
+  const result = await createUpscaleJobWithHold(asset.id, {
+    cost_cents: providerUpscales ? provider?.capabilities.costPerUpscaleCents ?? 0 : 0,
+    provider: provider?.name ?? null,
+    model: provider?.model ?? null,
+    payload: {
+      requestId,
+      marketplace: marketplace.id,
+      upscale: { targetSize },
+    },
+  })
+
+  if (!result.success && result.error === 'Insufficient credits') {
+    log.info('Insufficient available credits', { available: result.available })
+    return NextResponse.json(
+      {
+        error: 'Insufficient credits',
+        message: `Upscaling needs ${result.required} available credit${result.required === 1 ? '' : 's'} on your plan. Please upgrade your plan.`,
+        code: 'NO_CREDITS',
+        available: result.available,
+        required: result.required,
+      },
+      { status: 402 } // 402 Payment Required
+    )
+  }
+
+  const job = result.job
+
+  if (!result.success || !job) {
+    log.error('Failed to create upscale job', { error: result.error })
+    return NextResponse.json(
+      { error: result.error || 'Failed to create upscale job' },
+      { status: result.error === 'Asset not found' ? 404 : 500 }
+    )
+  }
+
+  log.info('Upscale job queued', {
+    jobId: job.id,
+    assetId: asset.id,
+    targetSize,
+    credits: result.credits,
+    provider: providerUpscales ? provider?.name : 'local',
+  })
+
+  return NextResponse.json({
+    jobId: job.id,
+    targetSize,
+    credits: result.credits,
+    message: 'Upscale job queued',
+    status: 'queued',
+  })
+}
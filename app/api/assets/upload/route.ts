@@ -3,6 +3,7 @@ import { requireUser } from '@/lib/supabase/server'
 import { uploadAsset, BUCKETS } from '@/lib/storage/server'
 import { createAsset } from '@/lib/db/assets'
 import { markPhotoUploaded } from '@/lib/db/onboarding'
+import { DEFAULT_GENERATION_MODE, GENERATION_MODE_IDS, isGenerationMode } from '@/lib/generation/modes'
 import { v4 as uuidv4 } from 'uuid'
 
 export const dynamic = 'force-dynamic'
@@ -31,7 +32,7 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     const file = formData.get('file') as File
     const projectId = formData.get('projectId') as string
-    const mode = (formData.get('mode') as string) || 'main_white' // Default to main_white
+    const mode = (formData.get('mode') as string) || DEFAULT_GENERATION_MODE
     const promptVersion = (formData.get('promptVersion') as string) || 'v1'
     const promptPayloadStr = (formData.get('promptPayload') as string) || '{}'
 
@@ -51,10 +52,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate mode
-    const validModes = ['main_white', 'lifestyle', 'feature_callout', 'packaging']
-    if (!validModes.includes(mode)) {
+    if (!isGenerationMode(mode)) {
       return NextResponse.json(
-        { error: `Mode must be one of: ${validModes.join(', ')}` },
+        { error: `Mode must be one of: ${GENERATION_MODE_IDS.join(', ')}` },
         { status: 400 }
       )
     }
@@ -123,7 +123,7 @@ export async function POST(request: NextRequest) {
       user_id: user.id,
       project_id: projectId,
       kind: 'input',
-      mode: mode as any,
+      mode,
       prompt_version: promptVersion,
       prompt_payload: promptPayload,
       width,
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getGenerationBatch, getBatchJobs, summarizeBatchProgress } from '@/lib/db/generation-batches'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/generate/batch/[id]
+ *
+ * Get a generation batch with its child jobs and aggregate progress
+ *
+ * Response:
+ * - batch: Batch object (items, total_jobs, total_credits)
+ * - jobs: Child job objects, in creation order
+ * - progress: { status, total, completed, percent, counts }
+ *   status is 'in_progress' until every job finished, then
+ *   'succeeded', 'partial', 'failed' or 'canceled'
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user (RLS limits lookups to their batches)
+    await requireUser()
+
+    const { id: batchId } = await params
+
+    if (!batchId) {
+      return NextResponse.json(
+        { error: 'Batch ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const batch = await getGenerationBatch(batchId)
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Batch not found' },
+        { status: 404 }
+      )
+    }
+
+    const jobs = await getBatchJobs(batchId)
+
+    return NextResponse.json({
+      batch,
+      jobs,
+      progress: summarizeBatchProgress(jobs),
+    })
+  } catch (error) {
+    console.error('Batch status API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get batch status' },
+      { status: 500 }
+    )
+  }
+}
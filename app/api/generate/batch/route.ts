@@ -0,0 +1,447 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { requireUser } from '@/lib/supabase/server'
+import { getAsset } from '@/lib/db/assets'
+import { createGenerationBatchWithHolds } from '@/lib/db/generation-batches'
+import { checkAllRateLimits, rateLimitExceededResponse, recordGenerationUsage } from '@/lib/rate-limit'
+import { getRequestId } from '@/lib/request-context'
+import { createContextLogger } from '@/lib/logger'
+import { getImageProvider, type ImageProvider } from '@/lib/providers'
+import { OUTPUT_SIZE } from '@/lib/generation/process'
+import { MAX_BATCH_ITEM_COUNT, MAX_BATCH_JOBS, getBatchJobCount } from '@/lib/generation/batch'
+import { getIdempotencyKey, hashRequestPayload, withIdempotency } from '@/lib/idempotency'
+import { resolveMarketplace } from '@/lib/generation/marketplace'
+import { assignPromptVersion, resolvePromptVersions } from '@/lib/generation/prompt-version'
+import { resolveBrandKit } from '@/lib/generation/brand-kit'
+import { checkComparisonRows } from '@/lib/prompts'
+import { GENERATION_MODES, GENERATION_MODE_IDS, MODE_INPUT_FIELDS, getModeCredits, isGenerationMode, isModeOnPlan, validateModeInputs } from '@/lib/generation/modes'
+import { getUserPlanId } from '@/lib/db/billing'
+import type { GenerationBatchItem, GenerationJobPayload } from '@/lib/db/job-types'
+
+export const dynamic = 'force-dynamic'
+
+type PromptInputs = NonNullable<GenerationJobPayload['promptInputs']>
+
+interface BatchRequestBody {
+  projectId?: string
+  inputAssetId?: string
+  items?: { mode?: string; count?: number; inputs?: PromptInputs }[]
+  inputs?: PromptInputs
+  promptVersion?: string
+  marketplace?: string
+  brandKitId?: string | null
+}
+
+/**
+ * POST /api/generate/batch
+ *
+ * Queue several generations from one input in a single request,
+ * e.g. a full Amazon listing set (main image, lifestyle shots,
+ * feature callout, packaging)
+ *
+ * Headers:
+ * - Idempotency-Key: string (optional) - see POST /api/generate
+ *
+ * Request (JSON):
+ * - projectId: string (required) - Project UUID
+ * - inputAssetId: string (required) - Input asset UUID
+ * - items: { mode, count, inputs? }[] (required)
+ *   - mode: 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging' |
+ *     'infographic' | 'dimensions' (see lib/generation/modes.ts; each must
+ *     be in the user's plan). Bundle shots take several input assets, so
+ *     they are queued with POST /api/generate instead
+ *   - count: number of images for this mode (1-6)
+ *   - inputs: prompt inputs for this entry (productCategory, brandTone,
+ *     productDescription, constraints, callouts and calloutLayout on
+ *     feature_callout entries, comparisonRows and chartTitle on infographic
+ *     entries, dimensions and scaleReference on dimensions entries);
+ *     override the shared inputs
+ * - inputs: shared prompt inputs for every entry (optional, no mode-specific
+ *   inputs such as callouts)
+ * - promptVersion: string (optional, default: each mode's current version) -
+ *   Prompt template version for every entry; must exist for each mode
+ * - marketplace: string (optional, default: the project's marketplace) -
+ *   Profile for every job; each entry's mode must be allowed on it
+ * - brandKitId: string | null (optional, default: the project's brand kit) -
+ *   Brand kit for every job, or null for none (see POST /api/generate)
+ *
+ * Flow:
+ * 1. Authenticate user and check rate limits once for the whole batch
+ *    (every image still counts against the daily limit)
+ * 2. Validate the input asset and every entry (at most 12 jobs in total)
+ * 3. Create a generation_batches row with one queued child job per image,
+ *    holding the mode's credit price per job; nothing is created (402)
+ *    unless the user has enough available credits for the whole batch
+ * 4. Workers run the child jobs like any other job
+ *    (follow progress with GET /api/generate/batch/[id])
+ *
+ * Response (200):
+ * - batchId: string - Batch UUID
+ * - jobIds: string[] - Child job UUIDs, in entry order
+ * - totalJobs: number - Number of jobs (and credits held)
+ * - rateLimit: object - Rate limit info
+ *
+ * Errors:
+ * - 400: Missing/invalid parameters
+ * - 402: Insufficient credits for the whole batch (code: 'NO_CREDITS')
+ * - 403: Unauthorized (not asset owner), or an entry's mode is not in the
+ *   user's plan (code: 'MODE_NOT_IN_PLAN')
+ * - 404: Asset, project or brand kit not found
+ * - 409: Idempotency-Key reused with a different body, or still in progress
+ * - 429: Rate limit exceeded
+ * - 500: Server error
+ */
+export async function POST(request: NextRequest) {
+  const requestId = await getRequestId()
+  const log = createContextLogger({ requestId, endpoint: '/api/generate/batch' })
+
+  log.info('Batch generation request received')
+
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { key: idempotencyKey, error: idempotencyKeyError } = getIdempotencyKey(request.headers)
+
+    if (idempotencyKeyError) {
+      return NextResponse.json(
+        { error: idempotencyKeyError },
+        { status: 400 }
+      )
+    }
+
+    // Parse request body
+    const body = await request.json()
+
+    // Repeats with the same Idempotency-Key replay the original response
+    return await withIdempotency(
+      idempotencyKey ? { endpoint: '/api/generate/batch', key: idempotencyKey } : null,
+      hashRequestPayload(body),
+      () => enqueueBatch(user, body, requestId, log)
+    )
+  } catch (error) {
+    console.error('Batch generate API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start batch generation' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Validate the batch entries
+ * Returns the normalized entries, or an error message
+ */
+function parseBatchItems(
+  items: BatchRequestBody['items']
+): { items: GenerationBatchItem[] } | { error: string } {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: 'items must be a non-empty array of { mode, count }' }
+  }
+
+  const parsed: GenerationBatchItem[] = []
+
+  for (const [index, item] of items.entries()) {
+    if (!isGenerationMode(item?.mode)) {
+      return { error: `items[${index}].mode must be one of: ${GENERATION_MODE_IDS.join(', ')}` }
+    }
+
+    // A batch shares one input asset
+    if (GENERATION_MODES[item.mode].inputAssets.min > 1) {
+      return { error: `items[${index}].mode: ${GENERATION_MODES[item.mode].label} needs several input assets; use POST /api/generate` }
+    }
+
+    const count = item.count ?? 1
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_ITEM_COUNT) {
+      return { error: `items[${index}].count must be an integer from 1 to ${MAX_BATCH_ITEM_COUNT}` }
+    }
+
+    // Mode-specific inputs belong to their entry, not the shared inputs
+    const modeInputs = validateModeInputs(item.mode, {
+      callouts: item.inputs?.callouts,
+      calloutLayout: item.inputs?.calloutLayout,
+      comparisonRows: item.inputs?.comparisonRows,
+      chartTitle: item.inputs?.chartTitle,
+      dimensions: item.inputs?.dimensions,
+      scaleReference: item.inputs?.scaleReference,
+      bundleLayout: item.inputs?.bundleLayout,
+    })
+    if ('error' in modeInputs) {
+      return { error: `items[${index}].inputs: ${modeInputs.error}` }
+    }
+
+    parsed.push({ mode: item.mode, count, inputs: item.inputs && { ...item.inputs, ...modeInputs } })
+  }
+
+  if (getBatchJobCount(parsed) > MAX_BATCH_JOBS) {
+    return { error: `A batch can create at most ${MAX_BATCH_JOBS} images` }
+  }
+
+  return { items: parsed }
+}
+
+/**
+ * Validate a batch request and enqueue its jobs
+ */
+async function enqueueBatch(
+  user: User,
+  body: BatchRequestBody,
+  requestId: string,
+  log: ReturnType<typeof createContextLogger>
+): Promise<NextResponse> {
+  const {
+    projectId,
+    inputAssetId,
+    inputs: sharedInputs,
+    promptVersion: requestedPromptVersion,
+    marketplace: requestedMarketplace,
+    brandKitId: requestedBrandKitId,
+  } = body
+
+  // Validate required fields
+  if (!projectId) {
+    return NextResponse.json(
+      { error: 'Project ID is required' },
+      { status: 400 }
+    )
+  }
+
+  if (!inputAssetId) {
+    return NextResponse.json(
+      { error: 'Input asset ID is required' },
+      { status: 400 }
+    )
+  }
+
+  // Mode-specific inputs only make sense on the entry of their mode
+  const sharedModeField = MODE_INPUT_FIELDS.find((field) => sharedInputs?.[field] !== undefined)
+
+  if (sharedModeField) {
+    return NextResponse.json(
+      { error: `Set ${sharedModeField} in the inputs of the entry whose mode uses it` },
+      { status: 400 }
+    )
+  }
+
+  const parsed = parseBatchItems(body.items)
+
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: parsed.error },
+      { status: 400 }
+    )
+  }
+
+  const { items } = parsed
+
+  // Some modes are limited to higher plans
+  if (items.some((item) => GENERATION_MODES[item.mode].plans !== null)) {
+    const planId = await getUserPlanId(user.id)
+    const excluded = items.find((item) => !isModeOnPlan(item.mode, planId))
+
+    if (excluded) {
+      return NextResponse.json(
+        {
+          error: `${GENERATION_MODES[excluded.mode].label} images are not included in your plan`,
+          code: 'MODE_NOT_IN_PLAN',
+        },
+        { status: 403 }
+      )
+    }
+  }
+
+  const totalJobs = getBatchJobCount(items)
+
+  // One rate limit check for the whole batch
+  const rateLimitCheck = await checkAllRateLimits(user.id, totalJobs)
+
+  if (!rateLimitCheck.allowed) {
+    log.warn('Rate limit exceeded', {
+      userId: user.id,
+      blockedBy: rateLimitCheck.blockedBy,
+      totalJobs,
+    })
+    return rateLimitExceededResponse(rateLimitCheck)
+  }
+
+  // Resolve the configured image provider (fails if e.g. the API key is missing)
+  let provider: ImageProvider
+  try {
+    provider = getImageProvider()
+  } catch (error) {
+    log.error('Image provider not available', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Image provider not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (!provider.capabilities.edit || !provider.capabilities.sizes.includes(OUTPUT_SIZE)) {
+    return NextResponse.json(
+      { error: `Image provider ${provider.name} does not support ${OUTPUT_SIZE} image editing` },
+      { status: 500 }
+    )
+  }
+
+  const marketplace = await resolveMarketplace(
+    projectId,
+    items.map((item) => item.mode),
+    requestedMarketplace
+  )
+
+  if ('error' in marketplace) {
+    return NextResponse.json(
+      { error: marketplace.error },
+      { status: marketplace.status }
+    )
+  }
+
+  const promptVersions = await resolvePromptVersions(
+    items.map((item) => item.mode),
+    requestedPromptVersion
+  )
+
+  if ('error' in promptVersions) {
+    return NextResponse.json(
+      { error: promptVersions.error },
+      { status: promptVersions.status }
+    )
+  }
+
+  const brandKit = await resolveBrandKit(projectId, requestedBrandKitId)
+
+  if ('error' in brandKit) {
+    return NextResponse.json(
+      { error: brandKit.error },
+      { status: brandKit.status }
+    )
+  }
+
+  // Rows may not name the kit's banned words (e.g. competitors), and the
+  // worker drops rows with claims or brand references; enough must be left
+  for (const [index, item] of items.entries()) {
+    if (!item.inputs?.comparisonRows) {
+      continue
+    }
+
+    const rowCheck = checkComparisonRows(item.inputs.comparisonRows, brandKit.brandKit)
+
+    if ('error' in rowCheck) {
+      return NextResponse.json(
+        { error: `items[${index}].inputs: ${rowCheck.error}` },
+        { status: 400 }
+      )
+    }
+  }
+
+  // Fetch input asset
+  const inputAsset = await getAsset(inputAssetId)
+
+  if (!inputAsset) {
+    return NextResponse.json(
+      { error: 'Input asset not found' },
+      { status: 404 }
+    )
+  }
+
+  // Verify user owns the input asset
+  if (inputAsset.user_id !== user.id) {
+    return NextResponse.json(
+      { error: 'Unauthorized: You do not own this asset' },
+      { status: 403 }
+    )
+  }
+
+  // Verify input asset belongs to the specified project
+  if (inputAsset.project_id !== projectId) {
+    return NextResponse.json(
+      { error: 'Asset does not belong to the specified project' },
+      { status: 400 }
+    )
+  }
+
+  // One child job per requested image, in entry order
+  const jobs = items.flatMap((item) =>
+    Array.from({ length: item.count }, () => ({
+      mode: item.mode,
+      credits: getModeCredits(item.mode),
+      payload: {
+        promptInputs: { ...sharedInputs, ...item.inputs },
+        ...assignPromptVersion(promptVersions.versions[item.mode]),
+        requestId,
+        marketplace: marketplace.id,
+        brandKit: brandKit.brandKit ?? undefined,
+      },
+    }))
+  )
+
+  const result = await createGenerationBatchWithHolds({
+    project_id: projectId,
+    input_asset_id: inputAssetId,
+    items,
+    jobs,
+    cost_cents: provider.capabilities.costPerImageCents,
+    provider: provider.name,
+    model: provider.model,
+  })
+
+  if (!result.success && result.error === 'Insufficient credits') {
+    log.info('Insufficient available credits for batch', {
+      available: result.available,
+      required: result.required,
+    })
+    return NextResponse.json(
+      {
+        error: 'Insufficient credits',
+        message: `This batch needs ${result.required} credits but you have ${result.available} available. Please upgrade your plan or generate fewer images.`,
+        code: 'NO_CREDITS',
+        available: result.available,
+        required: result.required,
+      },
+      { status: 402 } // 402 Payment Required
+    )
+  }
+
+  const batch = result.batch
+
+  if (!result.success || !batch) {
+    log.error('Failed to create generation batch', { error: result.error })
+    return NextResponse.json(
+      { error: result.error || 'Failed to create generation batch' },
+      { status: result.error === 'Project not found' ? 404 : 500 }
+    )
+  }
+
+  const jobIds = (result.jobs || []).map((job) => job.id)
+
+  log.info('Generation batch queued', { batchId: batch.id, totalJobs, provider: provider.name })
+
+  // Record usage AFTER successful batch creation (for rate limiting)
+  await recordGenerationUsage(user.id, totalJobs)
+
+  return NextResponse.json({
+    batchId: batch.id,
+    jobIds,
+    totalJobs,
+    message: 'Generation batch queued',
+    status: 'queued',
+    rateLimit: {
+      perMinute: {
+        current: rateLimitCheck.perMinute.current + 1,
+        limit: rateLimitCheck.perMinute.limit,
+        remaining: Math.max(0, rateLimitCheck.perMinute.remaining - 1),
+      },
+      perDay: {
+        current: rateLimitCheck.perDay.current + totalJobs,
+        limit: rateLimitCheck.perDay.limit,
+        remaining: Math.max(0, rateLimitCheck.perDay.remaining - totalJobs),
+      },
+    },
+  })
+}
@@ -1,67 +1,161 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
 import { requireUser } from '@/lib/supabase/server'
-import { getAsset, createAsset } from '@/lib/db/assets'
-import { createGenerationJob, updateGenerationJob } from '@/lib/db/generation-jobs'
-import { uploadFile, getSignedUrl, BUCKETS } from '@/lib/storage/server'
-import { buildPrompt, type PromptInputs } from '@/lib/prompts'
-import { checkAllRateLimits, recordGenerationUsage } from '@/lib/rate-limit'
-import { spendCredits, hasSufficientCredits } from '@/lib/db/billing'
-import { markMainImageGenerated, markLifestyleImageGenerated } from '@/lib/db/onboarding'
+import { getAsset, getAssetsByIds } from '@/lib/db/assets'
+import { createGenerationJobWithHold } from '@/lib/db/generation-jobs'
+import { checkAllRateLimits, rateLimitExceededResponse, recordGenerationUsage } from '@/lib/rate-limit'
 import { getRequestId } from '@/lib/request-context'
 import { createContextLogger } from '@/lib/logger'
-import OpenAI from 'openai'
-import { v4 as uuidv4 } from 'uuid'
+import { getImageProvider, type ImageProvider } from '@/lib/providers'
+import { OUTPUT_SIZE } from '@/lib/generation/process'
+import { MAX_VARIANTS } from '@/lib/generation/variants'
+import { getIdempotencyKey, hashRequestPayload, withIdempotency } from '@/lib/idempotency'
+import { resolveMarketplace } from '@/lib/generation/marketplace'
+import { assignPromptVersion, resolvePromptVersions } from '@/lib/generation/prompt-version'
+import { resolveBrandKit } from '@/lib/generation/brand-kit'
+import { checkComparisonRows } from '@/lib/prompts'
+import {
+  GENERATION_MODES,
+  GENERATION_MODE_IDS,
+  getModeCredits,
+  isGenerationMode,
+  isModeOnPlan,
+  validateInputAssetIds,
+  validateModeInputs,
+} from '@/lib/generation/modes'
+import { getUserPlanId } from '@/lib/db/billing'
+import type { Callout } from '@/lib/generation/callouts'
+import type { ProductDimensions } from '@/lib/generation/dimensions'
+import type { ComparisonRow } from '@/lib/generation/infographic'
 
 export const dynamic = 'force-dynamic'
 
-// Initialize OpenAI client (server-side only)
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+interface GenerateRequestBody {
+  projectId?: string
+  inputAssetId?: string
+  inputAssetIds?: string[]
+  mode?: string
+  productCategory?: string
+  brandTone?: string
+  productDescription?: string
+  constraints?: string[]
+  callouts?: Callout[]
+  calloutLayout?: string
+  comparisonRows?: ComparisonRow[]
+  chartTitle?: string
+  dimensions?: ProductDimensions
+  scaleReference?: string
+  bundleLayout?: string
+  promptVersion?: string
+  variants?: number
+  parentAssetId?: string
+  marketplace?: string
+  brandKitId?: string | null
+}
 
 /**
  * POST /api/generate
  * 
- * Generate AI product images using OpenAI DALL-E 2 image editing
+ * Generate AI product images using the configured image provider
+ * (OpenAI DALL-E 2 image editing by default, see lib/providers)
+ * 
+ * Transforms uploaded product images based on selected mode using prompts
+ * built for the project's marketplace profile (see lib/marketplaces.ts).
+ * This route only validates and enqueues; the generation worker
+ * (scripts/generation-worker.ts) claims the job and does the work.
  * 
- * Transforms uploaded product images based on selected mode using Amazon-focused prompts.
- * Handles credits, job tracking, OpenAI integration, and output storage.
+ * Headers:
+ * - Idempotency-Key: string (optional) - Repeats with the same key and body
+ *   return the original jobId instead of queueing another job (see lib/idempotency.ts)
  * 
  * Request (JSON):
  * - projectId: string (required) - Project UUID
- * - inputAssetId: string (required) - Input asset UUID
- * - mode: 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging' (required)
+ * - inputAssetId: string (required unless inputAssetIds is set) - Input asset UUID
+ * - inputAssetIds: string[] (required for bundle, bundle only, 2-6) - Input
+ *   assets of the project whose products are shown together, in layout
+ *   order; inputAssetId, when also set, must be the first. Every input is
+ *   recorded on the output (assets.source_asset_ids)
+ * - mode: 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging' |
+ *   'infographic' | 'dimensions' | 'bundle' (required) -
+ *   See lib/generation/modes.ts; some modes are limited to higher plans
  * - productCategory: string (optional) - e.g., "electronics", "clothing"
  * - brandTone: string (optional) - e.g., "professional", "luxury"
  * - productDescription: string (optional) - e.g., "wireless headphones"
  * - constraints: string[] (optional) - Additional constraints
- * - promptVersion: string (optional, default: 'v1')
+ * - callouts: { headline, text?, icon?, anchor? }[] (optional, feature_callout
+ *   only, 1-4) - Callout text composited onto the generated image instead of
+ *   drawn by the model; kept on the output for re-rendering
+ *   (see PUT /api/assets/[id]/callouts and lib/generation/callouts.ts)
+ * - calloutLayout: 'sides' | 'left_column' | 'right_column' | 'bottom_row'
+ *   (optional, default: 'sides') - Where the callouts go
+ * - comparisonRows: { feature, ours, competitor }[] (required for infographic,
+ *   infographic only, 2-6) - Chart rows; values are text or true/false
+ *   (check or cross). The model generates the product on white and the
+ *   worker composites the chart around it (see lib/generation/infographic.ts).
+ *   400 if a row names a banned word of the brand kit, or if fewer than 2
+ *   rows are left once rows with unverifiable claims or generic brand
+ *   references are dropped
+ * - chartTitle: string (optional, infographic only) - Heading above the chart
+ * - dimensions: { unitSystem, width, height, depth?, weight? } (required for
+ *   dimensions, dimensions only) - 'metric' (cm, kg) or 'imperial' (in, lb).
+ *   The model generates the product straight on and the worker composites
+ *   the dimension lines and labels, in both unit systems
+ *   (see lib/generation/dimensions.ts)
+ * - scaleReference: 'credit_card' | 'smartphone' | 'soda_can' | 'person'
+ *   (optional, dimensions only) - Object drawn beside the product to scale
+ * - bundleLayout: 'row' | 'pyramid' | 'flat_lay' (optional, bundle only,
+ *   default: 'row') - How the worker arranges the cut-out products before
+ *   the model fills in the scene (see lib/generation/bundle.ts)
+ * - promptVersion: string (optional, default: the mode's current version) -
+ *   Prompt template version, e.g. 'v1' (built in) or a published 'v2'
+ *   (see lib/db/prompt-templates.ts); the job records the concrete version
+ * - variants: number (optional, 1-4, default: 1) - Variants to generate;
+ *   shown together for the user to pick from, and only kept ones are charged
+ * - parentAssetId: string (optional) - Output being regenerated; the new
+ *   output records it as parent_asset_id (see GET /api/assets/[id]/generation-params)
+ * - marketplace: 'amazon' | 'walmart' | 'etsy' | 'ebay' | 'shopify' (optional,
+ *   default: the project's marketplace) - Profile for prompt rules and
+ *   compliance checks; the mode must be allowed on it
+ * - brandKitId: string | null (optional, default: the project's brand kit) -
+ *   Brand kit merged into the prompt inputs, or null for none; request
+ *   inputs win where both set a value (see applyBrandKit in lib/prompts.ts)
  * 
  * Flow:
  * 1. Authenticate user
  * 2. Validate project ownership
- * 3. Check credits >= 1 (return 402 if insufficient)
- * 4. Create generation_jobs row (status: 'queued')
- * 5. Process generation asynchronously:
- *    a. Update job status to 'running'
- *    b. Build Amazon-compliant prompt
- *    c. Call OpenAI DALL-E 2 API
- *    d. Upload output to commercepix-outputs bucket
- *    e. Create assets row (kind='output', source_asset_id, mode, prompt_payload)
- *    f. Spend 1 credit (insert into credit_ledger)
- *    g. Mark job 'succeeded'
- * 6. On failure: Mark job 'failed', do NOT spend credits
+ * 3. Create generation_jobs row (status: 'queued', provider, model, payload,
+ *    variant_count) and hold the mode's credit price per variant in the
+ *    same transaction
+ *    (return 402 if not enough credits are available after existing holds)
+ * 4. A worker claims the job with a lease (status: 'running') and runs
+ *    processGeneration (lib/generation/process.ts):
+ *    a. Build a prompt compliant with the marketplace profile
+ *    b. Arrange the products of a bundle's inputs in its layout, call the
+ *       image provider's edit API, then composite structured callouts onto
+ *       the image (feature_callout with callouts) or the comparison chart
+ *       (infographic) or dimension lines (dimensions) around the product
+ *    c. Upload output to commercepix-outputs bucket
+ *    d. Create assets row (kind='output', source_asset_id, mode, prompt_payload,
+ *       provider, model; source_asset_ids for a bundle)
+ *    e. Mark job 'succeeded', which captures the credit hold into credit_ledger
+ *       (multi-variant jobs keep the hold until POST /api/jobs/[id]/variants
+ *       charges the kept variants and releases the rest)
+ * 5. On failure: Mark job 'failed', which releases the hold
+ * 6. If the worker dies, the lease expires and the sweeper re-queues the job
  * 
  * Response (200):
  * - jobId: string - Generation job UUID
+ * - variants: number - Variants requested (credits held)
  * - message: string - Status message
  * - rateLimit: object - Rate limit info
  * 
  * Errors:
  * - 400: Missing/invalid parameters
  * - 402: Insufficient credits (code: 'NO_CREDITS')
- * - 403: Unauthorized (not asset owner)
- * - 404: Asset not found
+ * - 403: Unauthorized (not owner of an input asset), or the mode is not in the user's
+ *   plan (code: 'MODE_NOT_IN_PLAN')
+ * - 404: Project, input asset (or parent asset) or brand kit not found
+ * - 409: Idempotency-Key reused with a different body, or still in progress
  * - 429: Rate limit exceeded
  * - 500: Server error
  */
@@ -76,205 +170,24 @@ export async function POST(request: NextRequest) {
     const user = await requireUser()
     log.info('User authenticated', { userId: user.id, userEmail: user.email })
 
-    // Check rate limits BEFORE any processing
-    const rateLimitCheck = await checkAllRateLimits(user.id)
-    log.debug('Rate limit check completed', { 
-      allowed: rateLimitCheck.allowed, 
-      blockedBy: rateLimitCheck.blockedBy 
-    })
-
-    if (!rateLimitCheck.allowed) {
-      const blockedLimit = rateLimitCheck.blockedBy === 'per_minute' 
-        ? rateLimitCheck.perMinute 
-        : rateLimitCheck.perDay
-
-      const isPerMinuteLimit = rateLimitCheck.blockedBy === 'per_minute'
-      const isDailyLimit = rateLimitCheck.blockedBy === 'per_day'
-      const upgradeRequired = blockedLimit.upgradeRequired || false
-      const isTrialUser = blockedLimit.isTrialUser || false
-
-      log.warn('Rate limit exceeded', {
-        userId: user.id,
-        blockedBy: rateLimitCheck.blockedBy,
-        limit: blockedLimit.limit,
-        current: blockedLimit.current,
-      })
-
-      // Return friendly error with upgrade CTA if applicable
-      return NextResponse.json(
-        { 
-          error: 'Rate limit exceeded',
-          message: blockedLimit.message,
-          code: upgradeRequired ? 'UPGRADE_REQUIRED' : 'RATE_LIMIT_EXCEEDED',
-          rateLimit: {
-            type: rateLimitCheck.blockedBy,
-            limit: blockedLimit.limit,
-            current: blockedLimit.current,
-            remaining: blockedLimit.remaining,
-            resetAt: blockedLimit.resetAt.toISOString(),
-            isPerMinuteLimit,
-            isDailyLimit,
-            upgradeRequired,
-            isTrialUser,
-          }
-        },
-        { 
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': String(blockedLimit.limit),
-            'X-RateLimit-Remaining': String(blockedLimit.remaining),
-            'X-RateLimit-Reset': blockedLimit.resetAt.toISOString(),
-            'Retry-After': String(Math.ceil((blockedLimit.resetAt.getTime() - Date.now()) / 1000)),
-          }
-        }
-      )
-    }
-
-    // Check if user has sufficient credits (1 credit per generation)
-    const hasCredits = await hasSufficientCredits(user.id, 1)
+    const { key: idempotencyKey, error: idempotencyKeyError } = getIdempotencyKey(request.headers)
 
-    if (!hasCredits) {
+    if (idempotencyKeyError) {
       return NextResponse.json(
-        { 
-          error: 'Insufficient credits',
-          message: 'You do not have enough credits to generate an image. Please upgrade your plan.',
-          code: 'NO_CREDITS'
-        },
-        { status: 402 } // 402 Payment Required
-      )
-    }
-
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
+        { error: idempotencyKeyError },
+        { status: 400 }
       )
     }
 
     // Parse request body
     const body = await request.json()
-    const {
-      projectId,
-      inputAssetId,
-      mode,
-      productCategory,
-      brandTone,
-      productDescription,
-      constraints,
-      promptVersion = 'v1',
-    } = body
-
-    // Validate required fields
-    if (!projectId) {
-      return NextResponse.json(
-        { error: 'Project ID is required' },
-        { status: 400 }
-      )
-    }
-
-    if (!inputAssetId) {
-      return NextResponse.json(
-        { error: 'Input asset ID is required' },
-        { status: 400 }
-      )
-    }
-
-    const validModes = ['main_white', 'lifestyle', 'feature_callout', 'packaging']
-    if (!mode || !validModes.includes(mode)) {
-      return NextResponse.json(
-        { error: `Mode must be one of: ${validModes.join(', ')}` },
-        { status: 400 }
-      )
-    }
-
-    // Fetch input asset
-    const inputAsset = await getAsset(inputAssetId)
-
-    if (!inputAsset) {
-      return NextResponse.json(
-        { error: 'Input asset not found' },
-        { status: 404 }
-      )
-    }
-
-    // Verify user owns the input asset
-    if (inputAsset.user_id !== user.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized: You do not own this asset' },
-        { status: 403 }
-      )
-    }
-
-    // Verify input asset belongs to the specified project
-    if (inputAsset.project_id !== projectId) {
-      return NextResponse.json(
-        { error: 'Asset does not belong to the specified project' },
-        { status: 400 }
-      )
-    }
-
-    // Estimate cost (DALL-E 2 edit: $0.020 per image = 2 cents)
-    const estimatedCostCents = 2
-
-    // Create generation job (status defaults to 'queued' in createGenerationJob)
-    const job = await createGenerationJob({
-      project_id: projectId,
-      mode,
-      input_asset_id: inputAssetId,
-      cost_cents: estimatedCostCents,
-    })
-
-    if (!job) {
-      return NextResponse.json(
-        { error: 'Failed to create generation job' },
-        { status: 500 }
-      )
-    }
 
-    // Start generation asynchronously
-    // Note: Credits are only spent AFTER successful generation
-    // If generation fails, job is marked 'failed' and credits are NOT spent
-    log.info('Starting async generation', { jobId: job.id, mode })
-    
-    processGeneration(
-      job.id,
-      inputAsset,
-      mode,
-      {
-        productCategory,
-        brandTone,
-        productDescription,
-        constraints,
-      },
-      promptVersion,
-      user.id,
-      requestId
-    ).catch(error => {
-      log.error('Background generation error', error)
-    })
-
-    // Record usage AFTER successful job creation (for rate limiting)
-    await recordGenerationUsage(user.id)
-
-    // Return job ID and status
-    return NextResponse.json({
-      jobId: job.id,
-      message: 'Generation job created and processing',
-      status: 'queued',
-      rateLimit: {
-        perMinute: {
-          current: rateLimitCheck.perMinute.current + 1,
-          limit: rateLimitCheck.perMinute.limit,
-          remaining: Math.max(0, rateLimitCheck.perMinute.remaining - 1),
-        },
-        perDay: {
-          current: rateLimitCheck.perDay.current + 1,
-          limit: rateLimitCheck.perDay.limit,
-          remaining: Math.max(0, rateLimitCheck.perDay.remaining - 1),
-        },
-      },
-    })
+    // Repeats with the same Idempotency-Key replay the original response
+    return await withIdempotency(
+      idempotencyKey ? { endpoint: '/api/generate', key: idempotencyKey } : null,
+      hashRequestPayload(body),
+      () => enqueueGeneration(user, body, requestId, log)
+    )
   } catch (error) {
     console.error('Generate API error:', error)
     
@@ -291,189 +204,315 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Process generation (runs asynchronously)
+ * Validate a generation request and enqueue the job
  */
-async function processGeneration(
-  jobId: string,
-  inputAsset: any,
-  mode: string,
-  promptInputs: PromptInputs,
-  promptVersion: string,
-  userId: string,
-  requestId: string
-) {
-  const log = createContextLogger({ requestId, jobId, userId, mode })
-  
-  try {
-    log.info('Starting generation job', { jobId, mode, userId })
-    
-    // Update job status to running
-    await updateGenerationJob(jobId, { status: 'running' })
-    log.debug('Job status updated to running')
-
-    // Build prompt using prompt library
-    const { prompt, promptPayload } = buildPrompt(mode as any, promptInputs)
-    log.debug('Prompt built', { 
-      promptVersion, 
-      hasWarnings: promptPayload.complianceWarnings && promptPayload.complianceWarnings.length > 0 
+async function enqueueGeneration(
+  user: User,
+  body: GenerateRequestBody,
+  requestId: string,
+  log: ReturnType<typeof createContextLogger>
+): Promise<NextResponse> {
+  const variants = body.variants ?? 1
+
+  if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+    return NextResponse.json(
+      { error: `variants must be an integer from 1 to ${MAX_VARIANTS}` },
+      { status: 400 }
+    )
+  }
+
+  // Check rate limits BEFORE any processing (every variant counts against the daily limit)
+  const rateLimitCheck = await checkAllRateLimits(user.id, variants)
+  log.debug('Rate limit check completed', { 
+    allowed: rateLimitCheck.allowed, 
+    blockedBy: rateLimitCheck.blockedBy 
+  })
+
+  if (!rateLimitCheck.allowed) {
+    const blockedLimit = rateLimitCheck.blockedBy === 'per_minute' 
+      ? rateLimitCheck.perMinute 
+      : rateLimitCheck.perDay
+
+    log.warn('Rate limit exceeded', {
+      userId: user.id,
+      blockedBy: rateLimitCheck.blockedBy,
+      limit: blockedLimit.limit,
+      current: blockedLimit.current,
     })
 
-    // Download input image from storage
-    const inputImageUrl = await getSignedUrl(
-      BUCKETS.INPUTS,
-      inputAsset.storage_path,
-      3600 // 1 hour
+    // Return friendly error with upgrade CTA if applicable
+    return rateLimitExceededResponse(rateLimitCheck)
+  }
+
+  // Resolve the configured image provider (fails if e.g. the API key is missing)
+  let provider: ImageProvider
+  try {
+    provider = getImageProvider()
+  } catch (error) {
+    log.error('Image provider not available', error instanceof Error ? error : new Error(String(error)))
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Image provider not configured' },
+      { status: 500 }
     )
+  }
 
-    if (!inputImageUrl.data?.signedUrl) {
-      throw new Error('Failed to get signed URL for input image')
-    }
+  if (!provider.capabilities.edit || !provider.capabilities.sizes.includes(OUTPUT_SIZE)) {
+    return NextResponse.json(
+      { error: `Image provider ${provider.name} does not support ${OUTPUT_SIZE} image editing` },
+      { status: 500 }
+    )
+  }
 
-    console.log('Downloading input image from storage...')
-    const inputImageResponse = await fetch(inputImageUrl.data.signedUrl)
-    if (!inputImageResponse.ok) {
-      throw new Error('Failed to download input image from storage')
-    }
+  const {
+    projectId,
+    inputAssetId,
+    inputAssetIds: requestedInputAssetIds,
+    mode,
+    productCategory,
+    brandTone,
+    productDescription,
+    constraints,
+    callouts: requestedCallouts,
+    calloutLayout,
+    comparisonRows,
+    chartTitle,
+    dimensions,
+    scaleReference,
+    bundleLayout,
+    promptVersion: requestedPromptVersion,
+    parentAssetId,
+    marketplace: requestedMarketplace,
+    brandKitId: requestedBrandKitId,
+  } = body
+
+  // Validate required fields
+  if (!projectId) {
+    return NextResponse.json(
+      { error: 'Project ID is required' },
+      { status: 400 }
+    )
+  }
 
-    const inputImageBuffer = Buffer.from(await inputImageResponse.arrayBuffer())
+  if (!isGenerationMode(mode)) {
+    return NextResponse.json(
+      { error: `Mode must be one of: ${GENERATION_MODE_IDS.join(', ')}` },
+      { status: 400 }
+    )
+  }
 
-    // Convert to File object for OpenAI API
-    const inputFile = new File([inputImageBuffer], 'input.png', {
-      type: inputAsset.mime_type || 'image/png',
-    })
+  // One input asset, or several for a bundle
+  const inputAssetSelection = validateInputAssetIds(mode, inputAssetId, requestedInputAssetIds)
 
-    console.log('Calling OpenAI DALL-E 2 image edit API...')
-    
-    // Call OpenAI DALL-E 2 Edit API (supports image + prompt)
-    // Note: DALL-E 2 is used for image editing, DALL-E 3 only supports text-to-image
-    const response = await openai.images.edit({
-      model: 'dall-e-2',
-      image: inputFile,
-      prompt,
-      n: 1,
-      size: '1024x1024',
-      response_format: 'b64_json', // Get base64 to avoid extra download
-    })
+  if ('error' in inputAssetSelection) {
+    return NextResponse.json(
+      { error: inputAssetSelection.error },
+      { status: 400 }
+    )
+  }
 
-    const b64Image = response.data?.[0]?.b64_json
+  const { inputAssetIds } = inputAssetSelection
 
-    if (!b64Image) {
-      throw new Error('No image data returned from OpenAI')
-    }
+  const modeInputs = validateModeInputs(mode, {
+    callouts: requestedCallouts,
+    calloutLayout,
+    comparisonRows,
+    chartTitle,
+    dimensions,
+    scaleReference,
+    bundleLayout,
+  })
 
-    console.log('Received generated image from OpenAI')
+  if ('error' in modeInputs) {
+    return NextResponse.json(
+      { error: modeInputs.error },
+      { status: 400 }
+    )
+  }
 
-    // Convert base64 to buffer
-    const imageBuffer = Buffer.from(b64Image, 'base64')
+  if (GENERATION_MODES[mode].plans !== null && !isModeOnPlan(mode, await getUserPlanId(user.id))) {
+    return NextResponse.json(
+      {
+        error: `${GENERATION_MODES[mode].label} images are not included in your plan`,
+        code: 'MODE_NOT_IN_PLAN',
+      },
+      { status: 403 }
+    )
+  }
 
-    // Generate unique filename for storage
-    const uniqueFilename = uuidv4()
+  // The request may target another marketplace than the project's default
+  const marketplace = await resolveMarketplace(projectId, mode, requestedMarketplace)
 
-    // Upload to storage
-    const storagePath = `${userId}/${inputAsset.project_id}/${uniqueFilename}.png`
-    const uploadResult = await uploadFile(
-      BUCKETS.OUTPUTS,
-      storagePath,
-      imageBuffer,
-      {
-        contentType: 'image/png',
-        cacheControl: '3600',
-        upsert: false,
-      }
+  if ('error' in marketplace) {
+    return NextResponse.json(
+      { error: marketplace.error },
+      { status: marketplace.status }
     )
+  }
 
-    if (uploadResult.error) {
-      throw new Error('Failed to upload generated image to storage')
-    }
+  // Unknown (or unpublished) prompt versions are rejected up front
+  const promptVersions = await resolvePromptVersions(mode, requestedPromptVersion)
 
-    // Create output asset record
-    // Note: ID and user_id are auto-generated/set by createAsset
-    const outputAsset = await createAsset({
-      project_id: inputAsset.project_id,
-      kind: 'output',
-      mode: mode as any,
-      source_asset_id: inputAsset.id,
-      prompt_version: promptVersion,
-      prompt_payload: promptPayload, // Store the full audit trail
-      width: 1024,
-      height: 1024,
-      mime_type: 'image/png',
-      storage_path: storagePath,
-    })
+  if ('error' in promptVersions) {
+    return NextResponse.json(
+      { error: promptVersions.error },
+      { status: promptVersions.status }
+    )
+  }
 
-    if (!outputAsset) {
-      throw new Error('Failed to create output asset record')
-    }
+  // The job keeps a snapshot of the kit, so later edits do not affect it
+  const brandKit = await resolveBrandKit(projectId, requestedBrandKitId)
 
-    console.log(`   Created output asset: ${outputAsset.id}`)
+  if ('error' in brandKit) {
+    return NextResponse.json(
+      { error: brandKit.error },
+      { status: brandKit.status }
+    )
+  }
 
-    // Calculate actual cost (DALL-E 2 edit: $0.020 per image = 2 cents)
-    const costCents = 2
+  // Rows may not name the kit's banned words (e.g. competitors), and the
+  // worker drops rows with claims or brand references; enough must be left
+  if (modeInputs.comparisonRows) {
+    const rowCheck = checkComparisonRows(modeInputs.comparisonRows, brandKit.brandKit)
 
-    // Spend 1 credit for the successful generation
-    // This must happen BEFORE marking job as succeeded
-    // If credit spending fails, the entire generation is rolled back
-    const creditResult = await spendCredits(userId, 1, 'generation', 'job', jobId)
-    
-    if (!creditResult.success) {
-      throw new Error(`Failed to spend credits: ${creditResult.error}`)
+    if ('error' in rowCheck) {
+      return NextResponse.json(
+        { error: rowCheck.error },
+        { status: 400 }
+      )
     }
+  }
 
-    console.log(`   Credits spent: 1`)
+  // Fetch input assets
+  const inputAssets = await getAssetsByIds(inputAssetIds)
 
-    // Update job as succeeded (only after credits are spent)
-    await updateGenerationJob(jobId, {
-      status: 'succeeded',
-      cost_cents: costCents,
-    })
+  if (inputAssets.length !== inputAssetIds.length) {
+    return NextResponse.json(
+      { error: 'Input asset not found' },
+      { status: 404 }
+    )
+  }
+
+  // Verify user owns the input assets
+  if (inputAssets.some((inputAsset) => inputAsset.user_id !== user.id)) {
+    return NextResponse.json(
+      { error: 'Unauthorized: You do not own this asset' },
+      { status: 403 }
+    )
+  }
+
+  // Verify input assets belong to the specified project
+  if (inputAssets.some((inputAsset) => inputAsset.project_id !== projectId)) {
+    return NextResponse.json(
+      { error: 'Asset does not belong to the specified project' },
+      { status: 400 }
+    )
+  }
 
-    // Track onboarding progress based on mode
-    try {
-      if (mode === 'main_white') {
-        await markMainImageGenerated(userId)
-      } else if (mode === 'lifestyle') {
-        await markLifestyleImageGenerated(userId)
-      }
-    } catch (error) {
-      // Don't fail generation if onboarding tracking fails
-      log.warn('Failed to update onboarding progress', error instanceof Error ? error : undefined)
+  // A regenerated output must come from the same project
+  if (parentAssetId) {
+    const parentAsset = await getAsset(parentAssetId)
+
+    if (!parentAsset || parentAsset.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Parent asset not found' },
+        { status: 404 }
+      )
     }
 
-    log.info('Generation job completed successfully', {
-      jobId,
-      outputAssetId: outputAsset.id,
-      storagePath,
-      costCents,
-      creditsSpent: 1,
-    })
-    
-  } catch (error) {
-    log.error('Generation job failed', error instanceof Error ? error : new Error(String(error)))
+    if (parentAsset.kind !== 'output' || parentAsset.project_id !== projectId) {
+      return NextResponse.json(
+        { error: 'Parent asset must be an output of the specified project' },
+        { status: 400 }
+      )
+    }
+  }
 
-    const errorMessage = error instanceof Error ? error.message : 'Unknown generation error'
-    const errorStack = error instanceof Error ? error.stack : undefined
-    
-    // Build detailed error info for DB (store as JSON string for better structure)
-    const detailedError = JSON.stringify({
-      message: errorMessage,
-      stack: errorStack?.split('\n').slice(0, 10).join('\n'), // Limit stack trace length
-      timestamp: new Date().toISOString(),
-      mode,
-      userId,
+  // Estimate cost from the provider's per-image price
+  const estimatedCostCents = provider.capabilities.costPerImageCents * variants
+
+  // Enqueue generation job and hold the mode's price per variant atomically
+  // The payload carries everything the worker needs to run it later
+  const result = await createGenerationJobWithHold({
+    project_id: projectId,
+    mode,
+    input_asset_id: inputAssetIds[0],
+    cost_cents: estimatedCostCents,
+    provider: provider.name,
+    model: provider.model,
+    payload: {
+      promptInputs: {
+        productCategory,
+        brandTone,
+        productDescription,
+        constraints,
+        ...modeInputs,
+      },
+      inputAssetIds: inputAssetIds.length > 1 ? inputAssetIds : undefined,
+      ...assignPromptVersion(promptVersions.versions[mode]),
       requestId,
-    })
+      parentAssetId,
+      marketplace: marketplace.id,
+      brandKit: brandKit.brandKit ?? undefined,
+    },
+    variant_count: variants,
+  }, getModeCredits(mode, variants))
+
+  if (!result.success && result.error === 'Insufficient credits') {
+    log.info('Insufficient available credits', { available: result.available })
+    return NextResponse.json(
+      { 
+        error: 'Insufficient credits',
+        message: variants > 1
+          ? `Generating ${variants} variants needs ${result.required} available credits. Please upgrade your plan or request fewer variants.`
+          : 'You do not have enough credits to generate an image. Please upgrade your plan.',
+        code: 'NO_CREDITS',
+        available: result.available,
+        required: result.required,
+      },
+      { status: 402 } // 402 Payment Required
+    )
+  }
 
-    // Update job as failed with detailed error
-    // CRITICAL: Do NOT spend credits when generation fails
-    await updateGenerationJob(jobId, {
-      status: 'failed',
-      error: detailedError,
-    })
+  const job = result.job
 
-    log.warn('Job marked as failed, credits NOT spent', {
-      jobId,
-      errorMessage,
-    })
+  if (!result.success || !job) {
+    log.error('Failed to create generation job', { error: result.error })
+    return NextResponse.json(
+      { error: result.error || 'Failed to create generation job' },
+      { status: result.error === 'Project not found' ? 404 : 500 }
+    )
   }
+
+  log.info('Generation job queued', {
+    jobId: job.id,
+    mode,
+    variants,
+    marketplace: marketplace.id,
+    provider: provider.name,
+    model: provider.model,
+  })
+
+  // Record usage AFTER successful job creation (for rate limiting)
+  await recordGenerationUsage(user.id, variants)
+
+  // Return job ID and status
+  return NextResponse.json({
+    jobId: job.id,
+    variants,
+    message: 'Generation job queued',
+    status: 'queued',
+    rateLimit: {
+      perMinute: {
+        current: rateLimitCheck.perMinute.current + 1,
+        limit: rateLimitCheck.perMinute.limit,
+        remaining: Math.max(0, rateLimitCheck.perMinute.remaining - 1),
+      },
+      perDay: {
+        current: rateLimitCheck.perDay.current + variants,
+        limit: rateLimitCheck.perDay.limit,
+        remaining: Math.max(0, rateLimitCheck.perDay.remaining - variants),
+      },
+    },
+  })
 }
 
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, requireUser } from '@/lib/supabase/server'
+import { getGenerationJob } from '@/lib/db/generation-jobs'
+import { createJobEventStream, parseLastEventId } from '@/lib/generation/event-stream'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/jobs/[id]/events
+ *
+ * Server-Sent Events stream of a generation job's progress
+ *
+ * Events (each `data` is JSON with jobId, status, stage, outputAssetId, errorCode):
+ * - status: Status transition (queued, running, succeeded, failed, canceled);
+ *   the succeeded event carries the output asset ID
+ * - stage: Worker stage while running (downloading_input, calling_provider, uploading_output)
+ *
+ * Replays the job's events, then streams new ones until the job finishes.
+ * Reconnects resume from the Last-Event-ID header.
+ * Clients without EventSource support should poll GET /api/jobs/[id].
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { id: jobId } = await params
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Job ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const job = await getGenerationJob(jobId)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify user owns the job
+    if (job.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    return await createJobEventStream({
+      supabase: await createClient(),
+      jobId,
+      lastEventId: parseLastEventId(request.headers),
+      signal: request.signal,
+    })
+  } catch (error) {
+    console.error('Job events API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to stream job events' },
+      { status: 500 }
+    )
+  }
+}
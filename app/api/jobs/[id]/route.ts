@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireUser } from '@/lib/supabase/server'
-import { getGenerationJob } from '@/lib/db/generation-jobs'
+import { getGenerationJob, cancelGenerationJob } from '@/lib/db/generation-jobs'
 
 export const dynamic = 'force-dynamic'
 
@@ -14,13 +14,13 @@ export const dynamic = 'force-dynamic'
  */
 export async function GET(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     // Authenticate user
     const user = await requireUser()
 
-    const jobId = params.id
+    const { id: jobId } = await params
 
     if (!jobId) {
       return NextResponse.json(
@@ -63,3 +63,82 @@ export async function GET(
   }
 }
 
+
+/**
+ * DELETE /api/jobs/[id]
+ * 
+ * Cancel a generation job
+ * 
+ * - Queued jobs are canceled immediately
+ * - Running jobs stop at the worker's next stage boundary
+ *   (follow /api/jobs/[id]/events for the 'canceled' status)
+ * The job's credit hold is released either way.
+ * 
+ * Response (200):
+ * - job: Job object after the cancel request
+ * - canceled: true if the job is already canceled
+ * - cancelRequested: true if a running job will stop shortly
+ * 
+ * Errors:
+ * - 404: Job not found
+ * - 409: Job already finished (JOB_FINISHED)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    await requireUser()
+
+    const { id: jobId } = await params
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Job ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Ownership is checked by cancel_generation_job
+    const result = await cancelGenerationJob(jobId)
+
+    if (!result.success) {
+      if (result.error === 'Job not found') {
+        return NextResponse.json(
+          { error: 'Job not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          error: `Job already ${result.status}`,
+          code: 'JOB_FINISHED',
+          status: result.status,
+        },
+        { status: 409 }
+      )
+    }
+
+    const job = await getGenerationJob(jobId)
+
+    return NextResponse.json({
+      job,
+      canceled: result.status === 'canceled',
+      cancelRequested: result.cancel_requested === true,
+    })
+  } catch (error) {
+    console.error('Job cancel API error:', error)
+    
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
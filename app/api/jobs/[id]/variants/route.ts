@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getGenerationJob, selectJobVariants } from '@/lib/db/generation-jobs'
+import { getJobVariants } from '@/lib/db/assets'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/jobs/[id]/variants
+ *
+ * Get the variant set of a multi-variant generation job
+ *
+ * Response:
+ * - job: Job object (variant_count, variants_generated, variants_kept)
+ * - variants: Output assets in variant order, each with variant_status
+ *   'pending' (awaiting selection), 'kept' or 'discarded'
+ * - pending: true while the user still has to pick which variants to keep
+ *
+ * Errors:
+ * - 404: Job not found
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user (RLS limits lookups to their jobs and assets)
+    await requireUser()
+
+    const { id: jobId } = await params
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Job ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const job = await getGenerationJob(jobId)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    const variants = await getJobVariants(jobId)
+
+    return NextResponse.json({
+      job,
+      variants,
+      pending: job.status === 'succeeded' && job.variant_count > 1 && !job.variants_selected_at,
+    })
+  } catch (error) {
+    console.error('Job variants API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get job variants' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/jobs/[id]/variants
+ *
+ * Choose which variants of a succeeded multi-variant job to keep
+ *
+ * Kept variants are charged 1 credit each and the rest of the job's
+ * credit hold is released. Discarded variants disappear from the
+ * project and are removed from storage after a 24 hour grace period.
+ * The selection is final.
+ *
+ * Request (JSON):
+ * - keep: string[] (required) - Asset IDs of the variants to keep (may be empty)
+ *
+ * Response (200):
+ * - kept: number - Variants kept
+ * - discarded: number - Variants discarded
+ * - creditsCharged: number - Credits charged for the job
+ *
+ * Errors:
+ * - 400: Missing/invalid parameters, or an ID that is not one of the job's variants
+ * - 404: Job not found
+ * - 409: Job has no pending variant selection (code: 'SELECTION_CLOSED')
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    await requireUser()
+
+    const { id: jobId } = await params
+    const body = await request.json()
+    const keep: unknown = body?.keep
+
+    if (!Array.isArray(keep) || !keep.every((id) => typeof id === 'string')) {
+      return NextResponse.json(
+        { error: 'keep must be an array of variant asset IDs' },
+        { status: 400 }
+      )
+    }
+
+    // Ownership is checked by select_job_variants
+    const result = await selectJobVariants(jobId, keep)
+
+    if (!result.success) {
+      switch (result.error) {
+        case 'Job not found':
+          return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+          )
+        case 'Unknown variant':
+          return NextResponse.json(
+            { error: 'keep contains an asset that is not a pending variant of this job' },
+            { status: 400 }
+          )
+        default:
+          return NextResponse.json(
+            {
+              error: result.error || 'Variant selection is closed',
+              code: 'SELECTION_CLOSED',
+            },
+            { status: 409 }
+          )
+      }
+    }
+
+    return NextResponse.json({
+      kept: result.kept ?? 0,
+      discarded: result.discarded ?? 0,
+      creditsCharged: result.credits_charged ?? 0,
+    })
+  } catch (error) {
+    console.error('Job variant selection API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to select variants' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, requireUser } from '@/lib/supabase/server'
+import { createJobEventStream, parseLastEventId } from '@/lib/generation/event-stream'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/jobs/events
+ *
+ * Server-Sent Events stream of progress for all of the current user's jobs
+ *
+ * Same events as /api/jobs/[id]/events (status and stage, with jobId in
+ * each payload), starting from the time of connection. The stream stays
+ * open; reconnects resume from the Last-Event-ID header.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user (RLS limits the stream to their jobs)
+    await requireUser()
+
+    return await createJobEventStream({
+      supabase: await createClient(),
+      lastEventId: parseLastEventId(request.headers),
+      signal: request.signal,
+    })
+  } catch (error) {
+    console.error('Job events API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to stream job events' },
+      { status: 500 }
+    )
+  }
+}
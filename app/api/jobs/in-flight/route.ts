@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getInFlightJobs } from '@/lib/db/generation-jobs'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/jobs/in-flight
+ *
+ * List the current user's queued and running jobs across all projects
+ * (oldest first), for the in-flight jobs panel
+ *
+ * Response:
+ * - jobs: Job objects with project_name
+ */
+export async function GET() {
+  try {
+    // Authenticate user (RLS limits the list to their jobs)
+    await requireUser()
+
+    const jobs = await getInFlightJobs()
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('In-flight jobs API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list jobs' },
+      { status: 500 }
+    )
+  }
+}
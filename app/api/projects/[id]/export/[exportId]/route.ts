@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getProjectExport } from '@/lib/db/project-exports'
+import { markAssetsDownloaded } from '@/lib/db/assets'
+import { getSignedUrl, BUCKETS } from '@/lib/storage/server'
+
+export const dynamic = 'force-dynamic'
+
+// Lifetime of the download link; each status request signs a fresh one
+const EXPORT_LINK_SECONDS = 3600
+
+/**
+ * GET /api/projects/[id]/export/[exportId]
+ *
+ * Get the status of a background project export
+ *
+ * Response:
+ * - id, status ('queued' | 'running' | 'succeeded' | 'failed')
+ * - fileCount: Outputs requested (inputs not counted)
+ * - includeInputs, sizeBytes, error, createdAt, completedAt
+ * - downloadUrl: Signed link to the ZIP once succeeded
+ *   (expires after expiresIn seconds)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; exportId: string }> }
+) {
+  try {
+    // Authenticate user (RLS limits lookups to their exports)
+    await requireUser()
+
+    const { id: projectId, exportId } = await params
+
+    const projectExport = await getProjectExport(exportId)
+
+    if (!projectExport || projectExport.project_id !== projectId) {
+      return NextResponse.json(
+        { error: 'Export not found' },
+        { status: 404 }
+      )
+    }
+
+    let downloadUrl: string | null = null
+
+    if (projectExport.status === 'succeeded' && projectExport.storage_path) {
+      const { data, error } = await getSignedUrl(BUCKETS.OUTPUTS, projectExport.storage_path, EXPORT_LINK_SECONDS)
+
+      if (!data) {
+        return NextResponse.json(
+          { error: error?.message || 'Failed to sign download link' },
+          { status: 500 }
+        )
+      }
+      downloadUrl = data.signedUrl
+
+      // Handing out the link counts as downloading the exported outputs
+      await markAssetsDownloaded(projectExport.asset_ids)
+    }
+
+    return NextResponse.json({
+      id: projectExport.id,
+      status: projectExport.status,
+      fileCount: projectExport.asset_ids.length,
+      includeInputs: projectExport.include_inputs,
+      sizeBytes: projectExport.size_bytes,
+      error: projectExport.status === 'failed' ? projectExport.error : null,
+      createdAt: projectExport.created_at,
+      completedAt: projectExport.completed_at,
+      downloadUrl,
+      expiresIn: downloadUrl ? EXPORT_LINK_SECONDS : null,
+    })
+  } catch (error) {
+    console.error('Export status API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get export status' },
+      { status: 500 }
+    )
+  }
+}
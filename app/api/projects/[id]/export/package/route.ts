@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/supabase/server'
+import { getProject } from '@/lib/db/projects'
+import { getProjectOutputs, markAssetsDownloaded } from '@/lib/db/assets'
+import { markAssetDownloaded } from '@/lib/db/onboarding'
+import { getRequestId } from '@/lib/request-context'
+import { createContextLogger } from '@/lib/logger'
+import { createZipStream } from '@/lib/export/archive'
+import { getConvertedOutput } from '@/lib/generation/converted-outputs'
+import {
+  getListingFileName,
+  isValidListingIdentifier,
+  validateListingSlots,
+  type ListingSlotMapping,
+} from '@/lib/export/listing-package'
+import { MARKETPLACE_IDS, getMarketplaceProfile, isMarketplaceId } from '@/lib/marketplaces'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/projects/[id]/export/package
+ *
+ * Build a marketplace listing package: a ZIP with one image per listing
+ * slot, named for the marketplace's bulk image upload (e.g. Amazon
+ * B0EXAMPLE1.MAIN.jpg, B0EXAMPLE1.PT01.jpg ... PT08) and converted to its
+ * upload format (see listingPackage in lib/marketplaces.ts)
+ *
+ * Request body:
+ * - identifier: string (required) - ASIN, SKU or handle the file names are keyed on
+ * - slots: { [slotCode]: outputId } (required) - Outputs mapped to slots
+ * - marketplace: 'amazon' | 'walmart' | 'etsy' | 'ebay' | 'shopify'
+ *   (optional, default: the project's)
+ *
+ * Every required slot must be filled, each output used once, and each
+ * output's mode allowed in its slot.
+ *
+ * Response (200): the ZIP as an attachment
+ * - X-Targets-Missed: Slots whose file is over the upload size limit
+ *   (only sent when there are any)
+ *
+ * Errors:
+ * - 400: Invalid request or slot mapping ({ error, errors, missingSlots })
+ * - 404: Project not found
+ * - 500: Conversion or storage failure
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = await getRequestId()
+  const log = createContextLogger({ requestId, endpoint: '/api/projects/[id]/export/package' })
+
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { id: projectId } = await params
+    const body = await request.json().catch(() => null)
+
+    const identifier = typeof body?.identifier === 'string' ? body.identifier.trim() : ''
+
+    if (!isValidListingIdentifier(identifier)) {
+      return NextResponse.json(
+        { error: 'identifier is required (letters, digits, ".", "_" or "-", up to 64 characters)' },
+        { status: 400 }
+      )
+    }
+
+    const slots = body?.slots
+
+    if (
+      !slots || typeof slots !== 'object' || Array.isArray(slots)
+      || !Object.values(slots).every((assetId) => typeof assetId === 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'slots must map slot codes to output IDs' },
+        { status: 400 }
+      )
+    }
+
+    if (body.marketplace !== undefined && !isMarketplaceId(body.marketplace)) {
+      return NextResponse.json(
+        { error: `marketplace must be one of: ${MARKETPLACE_IDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // RLS limits lookups to the user's projects
+    const project = await getProject(projectId)
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const profile = getMarketplaceProfile(body.marketplace ?? project.marketplace)
+    const mapping = slots as ListingSlotMapping
+    const outputs = await getProjectOutputs(project.id)
+    const { errors, missingSlots } = validateListingSlots(profile, mapping, outputs)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors[0], errors, missingSlots },
+        { status: 400 }
+      )
+    }
+
+    // Convert up front (a listing has at most a dozen images) so failures
+    // and missed size targets are known before the response starts
+    const files: { name: string; data: Buffer }[] = []
+    const assetIds: string[] = []
+    const targetsMissed: string[] = []
+
+    for (const slot of profile.listingPackage.slots) {
+      const output = outputs.find((candidate) => candidate.id === mapping[slot.code])
+
+      if (!output) {
+        continue
+      }
+
+      const converted = await getConvertedOutput(output, profile.listingPackage.image, log)
+
+      if (!converted) {
+        return NextResponse.json(
+          { error: `Failed to read the image for slot ${slot.code} from storage` },
+          { status: 500 }
+        )
+      }
+
+      if (!converted.targetMet) {
+        targetsMissed.push(slot.code)
+      }
+      files.push({ name: getListingFileName(profile, identifier, slot.code), data: converted.data })
+      assetIds.push(output.id)
+    }
+
+    // Downloads count toward the onboarding checklist and experiment results
+    await markAssetDownloaded(user.id)
+    await markAssetsDownloaded(assetIds)
+
+    log.info('Built listing package', { projectId: project.id, marketplace: profile.id, files: files.length })
+
+    return new NextResponse(
+      createZipStream(files.map((file) => ({ name: file.name, load: async () => new Uint8Array(file.data) }))),
+      {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${identifier}-${profile.id}-images.zip"`,
+          'Cache-Control': 'private, no-store',
+          ...(targetsMissed.length > 0 && { 'X-Targets-Missed': targetsMissed.join(',') }),
+        },
+      }
+    )
+  } catch (error) {
+    console.error('Listing package API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build listing package' },
+      { status: 500 }
+    )
+  }
+}
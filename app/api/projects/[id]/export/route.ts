@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validate as isUuid } from 'uuid'
+import { requireUser } from '@/lib/supabase/server'
+import { getProject } from '@/lib/db/projects'
+import { createProjectExport } from '@/lib/db/project-exports'
+import { markAssetsDownloaded } from '@/lib/db/assets'
+import { markAssetDownloaded } from '@/lib/db/onboarding'
+import { getRequestId } from '@/lib/request-context'
+import { createContextLogger } from '@/lib/logger'
+import {
+  EXPORT_INLINE_MAX_FILES,
+  createExportStream,
+  getExportFileCount,
+  getExportFileName,
+  resolveExportSelection,
+} from '@/lib/export/archive'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/projects/[id]/export
+ *
+ * Export a project's outputs as a ZIP with manifest.csv and manifest.json
+ * (asset ID, mode, source asset, prompt version, compliance warnings,
+ * creation time; see lib/export/manifest.ts)
+ *
+ * Query:
+ * - assetIds: comma-separated output IDs (optional, default: every kept output)
+ * - includeInputs: 'true' to add the inputs the outputs were generated from
+ *
+ * Response:
+ * - 200: the ZIP, streamed as an attachment, when it has at most
+ *   EXPORT_INLINE_MAX_FILES files
+ * - 202: larger exports are queued for the worker:
+ *   { exportId, status: 'queued', fileCount, statusUrl }
+ *   Poll statusUrl (GET /api/projects/[id]/export/[exportId]) for the
+ *   signed download link
+ *
+ * Errors:
+ * - 400: Invalid assetIds, or nothing to export
+ * - 404: Project not found
+ * - 500: Internal server error
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestId = await getRequestId()
+  const log = createContextLogger({ requestId, endpoint: '/api/projects/[id]/export' })
+
+  try {
+    // Authenticate user
+    const user = await requireUser()
+
+    const { id: projectId } = await params
+    const searchParams = request.nextUrl.searchParams
+
+    const assetIds = searchParams.get('assetIds')
+      ? [...new Set(searchParams.get('assetIds')!.split(',').map((id) => id.trim()).filter(Boolean))]
+      : null
+    const includeInputs = searchParams.get('includeInputs') === 'true'
+
+    if (assetIds && (assetIds.length === 0 || !assetIds.every((id) => isUuid(id)))) {
+      return NextResponse.json(
+        { error: 'assetIds must be a comma-separated list of asset IDs' },
+        { status: 400 }
+      )
+    }
+
+    // RLS limits lookups to the user's projects
+    const project = await getProject(projectId)
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const { selection, missing } = await resolveExportSelection(project, { assetIds, includeInputs })
+
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Not outputs of this project: ${missing.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (selection.outputs.length === 0) {
+      return NextResponse.json(
+        { error: 'This project has no outputs to export' },
+        { status: 400 }
+      )
+    }
+
+    const fileCount = getExportFileCount(selection)
+
+    if (fileCount > EXPORT_INLINE_MAX_FILES) {
+      const projectExport = await createProjectExport({
+        user_id: user.id,
+        project_id: project.id,
+        asset_ids: selection.outputs.map((output) => output.id),
+        include_inputs: includeInputs,
+      })
+
+      log.info('Project export queued', { exportId: projectExport.id, fileCount })
+
+      return NextResponse.json(
+        {
+          exportId: projectExport.id,
+          status: projectExport.status,
+          fileCount,
+          statusUrl: `/api/projects/${project.id}/export/${projectExport.id}`,
+          message: 'Export queued. Poll statusUrl for the download link.',
+        },
+        { status: 202 }
+      )
+    }
+
+    // Downloads count toward the onboarding checklist and experiment results
+    await markAssetDownloaded(user.id)
+    await markAssetsDownloaded(selection.outputs.map((output) => output.id))
+
+    log.info('Streaming project export', { projectId: project.id, fileCount })
+
+    return new NextResponse(createExportStream(selection), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${getExportFileName(project)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Project export API error:', error)
+
+    // Check if it's a redirect (from requireUser)
+    if (error instanceof Error && error.message === 'NEXT_REDIRECT') {
+      throw error
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export project' },
+      { status: 500 }
+    )
+  }
+}
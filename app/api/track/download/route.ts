@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { validate as isUuid } from 'uuid'
 import { requireUser } from '@/lib/supabase/server'
 import { markAssetDownloaded } from '@/lib/db/onboarding'
+import { markAssetsDownloaded } from '@/lib/db/assets'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * POST /api/track/download
  * 
- * Track when a user downloads an asset (for onboarding checklist)
+ * Track when a user downloads an asset (for the onboarding checklist and
+ * prompt experiment results)
  * 
  * Request (JSON):
- * - assetId: string (optional) - The asset being downloaded
+ * - assetId: string (optional) - The output being downloaded; its first
+ *   download is recorded in assets.downloaded_at
  * 
  * Response:
  * - success: boolean
@@ -19,9 +23,16 @@ export async function POST(request: NextRequest) {
   try {
     const user = await requireUser()
 
+    const body = await request.json().catch(() => null)
+
     // Mark onboarding task complete
     await markAssetDownloaded(user.id)
 
+    // RLS limits the update to the user's own assets
+    if (typeof body?.assetId === 'string' && isUuid(body.assetId)) {
+      await markAssetsDownloaded([body.assetId])
+    }
+
     return NextResponse.json({
       success: true,
     })
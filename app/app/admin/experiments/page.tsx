@@ -0,0 +1,70 @@
+import Link from 'next/link'
+import { requireAdmin } from '@/lib/auth/admin'
+import { getPromptExperimentResults, listPromptExperiments } from '@/lib/db/prompt-experiments'
+import { getCurrentPromptVersions, listPromptTemplates } from '@/lib/db/prompt-templates'
+import { BUILT_IN_PROMPT_VERSION, type Mode } from '@/lib/prompts'
+import { GENERATION_MODE_IDS } from '@/lib/generation/modes'
+import { summarizeExperimentResults } from '@/lib/generation/experiments'
+import { ExperimentManager } from '@/components/admin/ExperimentManager'
+import { AlertTriangle } from 'lucide-react'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminExperimentsPage() {
+  // Require admin access
+  await requireAdmin()
+
+  const [experiments, templates, currentVersions] = await Promise.all([
+    listPromptExperiments(),
+    listPromptTemplates(),
+    getCurrentPromptVersions(),
+  ])
+
+  const results = await Promise.all(
+    experiments.map((experiment) => getPromptExperimentResults(experiment.id))
+  )
+
+  // Versions an experiment can test: v1 and every published version
+  const availableVersions = Object.fromEntries(
+    GENERATION_MODE_IDS.map((mode) => [
+      mode,
+      [
+        BUILT_IN_PROMPT_VERSION,
+        ...templates
+          .filter((template) => template.mode === mode && template.status === 'published')
+          .map((template) => template.version),
+      ],
+    ])
+  ) as Record<Mode, string[]>
+
+  return (
+    <div className="p-8 space-y-8 max-w-7xl mx-auto">
+      {/* Header */}
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <AlertTriangle className="h-6 w-6 text-amber-500" />
+          <h1 className="text-3xl font-bold">Prompt Experiments</h1>
+        </div>
+        <p className="text-muted-foreground">
+          A/B test prompt versions and promote the winner •{' '}
+          <Link href="/app/admin/prompts" className="underline">
+            Prompt templates
+          </Link>{' '}
+          •{' '}
+          <Link href="/app/admin" className="underline">
+            Back to dashboard
+          </Link>
+        </p>
+      </div>
+
+      <ExperimentManager
+        experiments={experiments.map((experiment, index) => ({
+          experiment,
+          variants: summarizeExperimentResults(experiment.variants, results[index]),
+        }))}
+        availableVersions={availableVersions}
+        currentVersions={currentVersions}
+      />
+    </div>
+  )
+}
@@ -1,3 +1,4 @@
+import Link from 'next/link'
 import { requireAdmin } from '@/lib/auth/admin'
 import { getAdminStats, getRecentGenerationJobs } from '@/lib/db/admin-stats'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -19,6 +20,7 @@ import {
   XCircle,
   Clock,
   AlertTriangle,
+  Ban,
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 
@@ -65,6 +67,13 @@ export default async function AdminPage() {
             Queued
           </Badge>
         )
+      case 'canceled':
+        return (
+          <Badge variant="outline">
+            <Ban className="h-3 w-3 mr-1" />
+            Canceled
+          </Badge>
+        )
       default:
         return <Badge variant="outline">{status}</Badge>
     }
@@ -80,7 +89,14 @@ export default async function AdminPage() {
         </div>
         <p className="text-muted-foreground">
           Internal analytics and system overview • Logged in as{' '}
-          <span className="font-medium">{user.email}</span>
+          <span className="font-medium">{user.email}</span> •{' '}
+          <Link href="/app/admin/prompts" className="underline">
+            Prompt templates
+          </Link>{' '}
+          •{' '}
+          <Link href="/app/admin/experiments" className="underline">
+            Experiments
+          </Link>
         </p>
       </div>
 
@@ -0,0 +1,51 @@
+import Link from 'next/link'
+import { requireAdmin } from '@/lib/auth/admin'
+import { getCurrentPromptVersions, listPromptTemplates } from '@/lib/db/prompt-templates'
+import { BUILT_IN_PROMPT_TEMPLATES, PROMPT_TEMPLATE_PLACEHOLDERS } from '@/lib/prompts'
+import { PromptTemplateManager } from '@/components/admin/PromptTemplateManager'
+import { AlertTriangle } from 'lucide-react'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminPromptsPage() {
+  // Require admin access
+  await requireAdmin()
+
+  const [templates, currentVersions] = await Promise.all([
+    listPromptTemplates(),
+    getCurrentPromptVersions(),
+  ])
+
+  const builtInBodies = Object.fromEntries(
+    Object.values(BUILT_IN_PROMPT_TEMPLATES).map((template) => [template.mode, template.body])
+  ) as Record<keyof typeof BUILT_IN_PROMPT_TEMPLATES, string>
+
+  return (
+    <div className="p-8 space-y-8 max-w-7xl mx-auto">
+      {/* Header */}
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <AlertTriangle className="h-6 w-6 text-amber-500" />
+          <h1 className="text-3xl font-bold">Prompt Templates</h1>
+        </div>
+        <p className="text-muted-foreground">
+          Author, preview and publish prompt versions for each generation mode •{' '}
+          <Link href="/app/admin/experiments" className="underline">
+            Experiments
+          </Link>{' '}
+          •{' '}
+          <Link href="/app/admin" className="underline">
+            Back to dashboard
+          </Link>
+        </p>
+      </div>
+
+      <PromptTemplateManager
+        templates={templates}
+        currentVersions={currentVersions}
+        builtInBodies={builtInBodies}
+        placeholders={PROMPT_TEMPLATE_PLACEHOLDERS}
+      />
+    </div>
+  )
+}
@@ -3,13 +3,14 @@ import {
   getUserSubscription, 
   getPlans, 
   getCreditSummary,
-  getUserPeriodUsage 
+  getUserPeriodUsage,
+  getPendingCreditHolds
 } from '@/lib/db/billing'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { AppHeader } from '@/components/app/AppHeader'
-import { CheckCircle2, CreditCard, AlertCircle, TrendingUp, Calendar, Sparkles } from 'lucide-react'
+import { CheckCircle2, CreditCard, AlertCircle, TrendingUp, Calendar, Sparkles, Clock } from 'lucide-react'
 import { PlanCard } from '@/components/billing/PlanCard'
 import { CancelPlanToggle } from '@/components/billing/CancelPlanToggle'
 import { PlanSelectionModal } from '@/components/billing/PlanSelectionModal'
@@ -20,11 +21,12 @@ export default async function BillingPage() {
   const user = await requireUser()
 
   // Fetch all data in parallel
-  const [subscription, allPlans, creditSummary, periodUsage] = await Promise.all([
+  const [subscription, allPlans, creditSummary, periodUsage, pendingHolds] = await Promise.all([
     getUserSubscription(user.id),
     getPlans(),
     getCreditSummary(user.id),
-    getUserPeriodUsage(user.id)
+    getUserPeriodUsage(user.id),
+    getPendingCreditHolds(user.id)
   ])
 
   const currentPlan = subscription 
@@ -160,10 +162,15 @@ export default async function BillingPage() {
             <CardContent>
               <div className="space-y-4">
                 <div>
-                  <div className="text-4xl font-bold">{creditSummary.balance}</div>
+                  <div className="text-4xl font-bold">{creditSummary.available}</div>
                   <div className="text-sm text-muted-foreground mt-1">
                     credits available
                   </div>
+                  {creditSummary.held > 0 && (
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {creditSummary.held} on hold for in-progress generations
+                    </div>
+                  )}
                 </div>
                 
                 {creditSummary.monthly_allowance && (
@@ -212,7 +219,7 @@ export default async function BillingPage() {
                 <div className="pt-4 border-t space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Credits remaining</span>
-                    <span className="font-medium">{Math.max(0, creditSummary.balance)}</span>
+                    <span className="font-medium">{Math.max(0, creditSummary.available)}</span>
                   </div>
                   {subscription?.current_period_end && (
                     <div className="flex justify-between">
@@ -231,6 +238,41 @@ export default async function BillingPage() {
           </Card>
         </div>
 
+        {/* Pending Credit Holds */}
+        {pendingHolds.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Pending Holds
+              </CardTitle>
+              <CardDescription>
+                Credits reserved for generations in progress. They are charged when the image is ready and returned if it fails.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y">
+                {pendingHolds.map(hold => (
+                  <div key={hold.id} className="flex items-center justify-between py-3 text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {hold.job ? hold.job.mode.replace(/_/g, ' ') : 'Generation'}
+                      </div>
+                      <div className="text-muted-foreground">
+                        Held {new Date(hold.created_at).toLocaleString('en-US')}
+                        {hold.job && ` • ${hold.job.status}`}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">
+                      {hold.amount} {hold.amount === 1 ? 'credit' : 'credits'}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Available Plans */}
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -244,6 +286,7 @@ export default async function BillingPage() {
               plans={allPlans} 
               currentPlanId={subscription?.plan_id || null}
             />
+          </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             {allPlans.map(plan => (
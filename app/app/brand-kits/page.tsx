@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Palette } from 'lucide-react'
+import { requireUser } from '@/lib/supabase/server'
+import { getBrandKits } from '@/lib/db/brand-kits'
+import { getProjects } from '@/lib/db/projects'
+import AppHeader from '@/components/app/AppHeader'
+import { BrandKitDialog } from '@/components/brand-kits/BrandKitDialog'
+import { BrandKitCard } from '@/components/brand-kits/BrandKitCard'
+
+export const dynamic = 'force-dynamic'
+
+export default async function BrandKitsPage() {
+  const user = await requireUser()
+  const [brandKits, projects] = await Promise.all([getBrandKits(), getProjects()])
+
+  return (
+    <>
+      <AppHeader user={user} />
+
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Brand Kits</h1>
+            <p className="text-muted-foreground mt-1">
+              Save each brand&apos;s tone, colors and rules once and attach them to projects
+            </p>
+          </div>
+          <BrandKitDialog />
+        </div>
+
+        {/* Brand Kits Grid */}
+        {brandKits.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {brandKits.map((brandKit) => (
+              <BrandKitCard
+                key={brandKit.id}
+                brandKit={brandKit}
+                projectCount={projects.filter((project) => project.brand_kit_id === brandKit.id).length}
+              />
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <Palette className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No brand kits yet</h3>
+              <p className="text-sm text-muted-foreground mb-6 text-center max-w-sm">
+                Create a brand kit so every project of a brand gets the same tone,
+                colors and rules without retyping them
+              </p>
+              <BrandKitDialog
+                trigger={
+                  <Button>
+                    Create Brand Kit
+                  </Button>
+                }
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  )
+}
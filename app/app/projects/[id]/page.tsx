@@ -4,7 +4,10 @@ import { Button } from '@/components/ui/button'
 import { ArrowLeft } from 'lucide-react'
 import { requireUser } from '@/lib/supabase/server'
 import { getProject } from '@/lib/db/projects'
+import { getBrandKits } from '@/lib/db/brand-kits'
 import { getAssetsByProject } from '@/lib/db/assets'
+import { getPendingVariantJobs } from '@/lib/db/generation-jobs'
+import { getUpscaleCreditPrice, getUserPlanId } from '@/lib/db/billing'
 import { AppHeader } from '@/components/app/AppHeader'
 import { ProjectWorkspace } from '@/components/workspace/ProjectWorkspace'
 
@@ -26,6 +29,18 @@ export default async function ProjectDetailPage({
   const assets = await getAssetsByProject(params.id)
   const outputAssets = assets?.filter(a => a.kind === 'output') || []
 
+  // Variant sets generated earlier but not picked yet
+  const pendingVariantJobs = await getPendingVariantJobs(params.id)
+
+  // Shown next to the upscale actions
+  const upscaleCredits = await getUpscaleCreditPrice(user.id)
+
+  // Modes outside the plan are shown disabled
+  const planId = await getUserPlanId(user.id)
+
+  // Kits the project can use
+  const brandKits = await getBrandKits()
+
   return (
     <>
       <AppHeader user={user} />
@@ -54,7 +69,13 @@ export default async function ProjectDetailPage({
         {/* Workspace */}
         <ProjectWorkspace
           projectId={params.id}
+          initialMarketplace={project.marketplace}
+          brandKits={brandKits}
+          initialBrandKitId={project.brand_kit_id}
           initialOutputs={outputAssets}
+          initialVariantJobIds={pendingVariantJobs.map(job => job.id)}
+          upscaleCredits={upscaleCredits}
+          planId={planId}
         />
       </div>
     </>
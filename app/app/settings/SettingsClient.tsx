@@ -34,6 +34,7 @@ import {
 import { toast } from 'sonner'
 import { updateDefaultBrandTone, requestAccountDeletion } from '@/app/actions/settings'
 import type { UserPreferences, BrandTone } from '@/lib/db/preferences'
+import { BRAND_TONES } from '@/lib/brand-kits'
 import { User as UserIcon, Palette, AlertTriangle, Loader2, CreditCard, ArrowRight } from 'lucide-react'
 import Link from 'next/link'
 
@@ -42,14 +43,6 @@ interface SettingsClientProps {
   initialPreferences: UserPreferences
 }
 
-const brandToneOptions: { value: BrandTone; label: string; description: string }[] = [
-  { value: 'professional', label: 'Professional', description: 'Clean and business-appropriate' },
-  { value: 'luxury', label: 'Luxury', description: 'Premium and high-end' },
-  { value: 'playful', label: 'Playful', description: 'Fun and energetic' },
-  { value: 'minimal', label: 'Minimal', description: 'Simple and elegant' },
-  { value: 'bold', label: 'Bold', description: 'Striking and attention-grabbing' },
-]
-
 export default function SettingsClient({ user, initialPreferences }: SettingsClientProps) {
   const [brandTone, setBrandTone] = useState<BrandTone | null>(
     initialPreferences.default_brand_tone
@@ -196,7 +189,7 @@ export default function SettingsClient({ user, initialPreferences }: SettingsCli
                   <SelectItem value="none">
                     <span className="text-muted-foreground">No default (ask each time)</span>
                   </SelectItem>
-                  {brandToneOptions.map((option) => (
+                  {BRAND_TONES.map((option) => (
                     <SelectItem key={option.value} value={option.value}>
                       <div className="flex flex-col">
                         <span className="font-medium">{option.label}</span>
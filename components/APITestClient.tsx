@@ -9,6 +9,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea'
 import { getProjectsClient } from '@/lib/db/projects-client'
 import type { Project } from '@/lib/db/types'
+import { BRAND_TONES } from '@/lib/brand-kits'
+import { DEFAULT_GENERATION_MODE, GENERATION_MODES, GENERATION_MODE_IDS } from '@/lib/generation/modes'
 
 export default function APITestClient({ userId }: { userId: string }) {
   const [projects, setProjects] = useState<Project[]>([])
@@ -20,13 +22,13 @@ export default function APITestClient({ userId }: { userId: string }) {
   
   // Upload state
   const [uploadFile, setUploadFile] = useState<File | null>(null)
-  const [uploadMode, setUploadMode] = useState('main_white')
+  const [uploadMode, setUploadMode] = useState<string>(DEFAULT_GENERATION_MODE)
   const [uploading, setUploading] = useState(false)
   const [uploadResult, setUploadResult] = useState<any>(null)
   
   // Generate state
   const [inputAssetId, setInputAssetId] = useState('')
-  const [generateMode, setGenerateMode] = useState('main_white')
+  const [generateMode, setGenerateMode] = useState<string>(DEFAULT_GENERATION_MODE)
   const [productDescription, setProductDescription] = useState('')
   const [productCategory, setProductCategory] = useState('')
   const [brandTone, setBrandTone] = useState('')
@@ -231,10 +233,11 @@ export default function APITestClient({ userId }: { userId: string }) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="main_white">Main White</SelectItem>
-                <SelectItem value="lifestyle">Lifestyle</SelectItem>
-                <SelectItem value="feature_callout">Feature Callout</SelectItem>
-                <SelectItem value="packaging">Packaging</SelectItem>
+                {GENERATION_MODE_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {GENERATION_MODES[id].label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -293,10 +296,11 @@ export default function APITestClient({ userId }: { userId: string }) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="main_white">Main White</SelectItem>
-                <SelectItem value="lifestyle">Lifestyle</SelectItem>
-                <SelectItem value="feature_callout">Feature Callout</SelectItem>
-                <SelectItem value="packaging">Packaging</SelectItem>
+                {GENERATION_MODE_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {GENERATION_MODES[id].label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -339,11 +343,9 @@ export default function APITestClient({ userId }: { userId: string }) {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="">None</SelectItem>
-                  <SelectItem value="professional">Professional</SelectItem>
-                  <SelectItem value="luxury">Luxury</SelectItem>
-                  <SelectItem value="playful">Playful</SelectItem>
-                  <SelectItem value="minimal">Minimal</SelectItem>
-                  <SelectItem value="bold">Bold</SelectItem>
+                  {BRAND_TONES.map((tone) => (
+                    <SelectItem key={tone.value} value={tone.value}>{tone.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -16,11 +16,10 @@ import ModeSelector from '@/components/ModeSelector'
 import GenerationProgress from '@/components/GenerationProgress'
 import AssetGallery from '@/components/AssetGallery'
 import { UpgradeModal } from '@/components/billing/UpgradeModal'
-
-type Mode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+import { DEFAULT_GENERATION_MODE, type GenerationMode } from '@/lib/generation/modes'
 
 interface ModeSettings {
-  mode: Mode
+  mode: GenerationMode
   productCategory?: string
   brandTone?: string
   productDescription?: string
@@ -40,7 +39,7 @@ export default function AppClient({ userId }: { userId: string }) {
   // Generate state
   const [inputAssetId, setInputAssetId] = useState('')
   const [modeSettings, setModeSettings] = useState<ModeSettings>({
-    mode: 'main_white',
+    mode: DEFAULT_GENERATION_MODE,
     productCategory: '',
     brandTone: '',
     productDescription: '',
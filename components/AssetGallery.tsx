@@ -6,9 +6,9 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Download, Copy, Loader2, AlertCircle } from 'lucide-react'
 import type { Asset } from '@/lib/db/asset-types'
+import { GENERATION_MODES, GENERATION_MODE_IDS, type GenerationMode } from '@/lib/generation/modes'
 
-type Mode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
-type FilterMode = Mode | 'all'
+type FilterMode = GenerationMode | 'all'
 
 interface AssetGalleryProps {
   assets: Asset[]
@@ -16,19 +16,10 @@ interface AssetGalleryProps {
   onRefresh: () => void
 }
 
-const MODE_LABELS: Record<Mode, string> = {
-  main_white: 'Main Image (White Background)',
-  lifestyle: 'Lifestyle Scene (In Context)',
-  feature_callout: 'Feature Callout (Highlight Details)',
-  packaging: 'Packaging / In-Box (Retail Ready)',
-}
-
-const MODE_COLORS: Record<Mode, string> = {
-  main_white: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-  lifestyle: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-  feature_callout: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-  packaging: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
-}
+// e.g. "Main Image (White Background)"
+const MODE_LABELS = Object.fromEntries(
+  GENERATION_MODE_IDS.map((mode) => [mode, `${GENERATION_MODES[mode].label} (${GENERATION_MODES[mode].tagline})`])
+) as Record<GenerationMode, string>
 
 export default function AssetGallery({ assets, onCreateVariation, onRefresh }: AssetGalleryProps) {
   const [activeTab, setActiveTab] = useState<FilterMode>('all')
@@ -47,7 +38,7 @@ export default function AssetGallery({ assets, onCreateVariation, onRefresh }: A
   )
 
   // Get unique modes from assets for tabs
-  const availableModes = Array.from(new Set(assets.map(asset => asset.mode))) as Mode[]
+  const availableModes = Array.from(new Set(assets.map(asset => asset.mode))) as GenerationMode[]
 
   // Fetch signed URL for an asset
   const fetchSignedUrl = async (assetId: string) => {
@@ -138,7 +129,7 @@ export default function AssetGallery({ assets, onCreateVariation, onRefresh }: A
               size="sm"
               onClick={() => setActiveTab(mode)}
             >
-              {MODE_LABELS[mode].split('(')[0].trim()} ({count})
+              {GENERATION_MODES[mode].label} ({count})
             </Button>
           )
         })}
@@ -149,7 +140,7 @@ export default function AssetGallery({ assets, onCreateVariation, onRefresh }: A
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <p className="text-muted-foreground text-center">
-              No {activeTab === 'all' ? '' : MODE_LABELS[activeTab as Mode]} images yet.
+              No {activeTab === 'all' ? '' : MODE_LABELS[activeTab as GenerationMode]} images yet.
             </p>
           </CardContent>
         </Card>
@@ -183,7 +174,7 @@ export default function AssetGallery({ assets, onCreateVariation, onRefresh }: A
               <CardContent className="p-4 space-y-3">
                 {/* Mode Badge */}
                 <div className="flex items-center justify-between">
-                  <Badge className={MODE_COLORS[asset.mode]}>
+                  <Badge className={GENERATION_MODES[asset.mode].badgeClassName}>
                     {MODE_LABELS[asset.mode]}
                   </Badge>
                 </div>
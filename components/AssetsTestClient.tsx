@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { DEFAULT_GENERATION_MODE, GENERATION_MODES, GENERATION_MODE_IDS } from '@/lib/generation/modes'
 
 export default function AssetsTestClient() {
   const [projects, setProjects] = useState<Project[]>([])
@@ -19,7 +20,7 @@ export default function AssetsTestClient() {
   
   // Form state
   const [kind, setKind] = useState<AssetKind>('input')
-  const [mode, setMode] = useState<AssetMode>('main_white')
+  const [mode, setMode] = useState<AssetMode>(DEFAULT_GENERATION_MODE)
   const [sourceAssetId, setSourceAssetId] = useState<string>('')
   const [promptVersion, setPromptVersion] = useState('v1')
   const [storagePath, setStoragePath] = useState('')
@@ -213,10 +214,11 @@ export default function AssetsTestClient() {
                   className="w-full p-2 border rounded-md"
                   required
                 >
-                  <option value="main_white">Main White</option>
-                  <option value="lifestyle">Lifestyle</option>
-                  <option value="feature_callout">Feature Callout</option>
-                  <option value="packaging">Packaging</option>
+                  {GENERATION_MODE_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {GENERATION_MODES[id].label}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
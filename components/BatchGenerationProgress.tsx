@@ -0,0 +1,171 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Loader2, CheckCircle2, XCircle, Clock, Ban, AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useBatchProgress } from '@/hooks/useBatchProgress'
+import type { JobStatus } from '@/lib/db/job-types'
+
+interface BatchGenerationProgressProps {
+  batchId: string
+  onOutputsChanged: () => void  // Called as child jobs succeed
+  onComplete: () => void        // Called once every child job has finished
+  onDismiss: () => void
+}
+
+export default function BatchGenerationProgress({
+  batchId,
+  onOutputsChanged,
+  onComplete,
+  onDismiss,
+}: BatchGenerationProgressProps) {
+  const { jobs, progress, error } = useBatchProgress(batchId)
+  const succeeded = progress?.counts.succeeded ?? 0
+  const finished = progress !== null && progress.status !== 'in_progress'
+  const completedRef = useRef(false)
+  const succeededRef = useRef(0)
+
+  // Refresh the gallery as each image lands
+  useEffect(() => {
+    if (succeeded > succeededRef.current) {
+      succeededRef.current = succeeded
+      onOutputsChanged()
+    }
+  }, [succeeded, onOutputsChanged])
+
+  useEffect(() => {
+    if (finished && !completedRef.current) {
+      completedRef.current = true
+      onComplete()
+    }
+  }, [finished, onComplete])
+
+  if (error) {
+    return (
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="flex items-center text-destructive">
+            <XCircle className="h-5 w-5 mr-2" />
+            Error Checking Batch Status
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">{error}</p>
+          <Button onClick={onDismiss} variant="outline" size="sm">
+            Dismiss
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!progress) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span className="text-sm text-muted-foreground">Loading batch status...</span>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const getJobIcon = (status: JobStatus) => {
+    switch (status) {
+      case 'queued':
+        return <Clock className="h-4 w-4 text-muted-foreground" />
+      case 'running':
+        return <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      case 'succeeded':
+        return <CheckCircle2 className="h-4 w-4 text-green-600" />
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-destructive" />
+      case 'canceled':
+        return <Ban className="h-4 w-4 text-muted-foreground" />
+    }
+  }
+
+  const getTitle = () => {
+    switch (progress.status) {
+      case 'in_progress':
+        return 'Generating Listing Set'
+      case 'succeeded':
+        return 'Listing Set Complete!'
+      case 'partial':
+        return 'Listing Set Partly Complete'
+      case 'failed':
+        return 'Listing Set Failed'
+      case 'canceled':
+        return 'Listing Set Canceled'
+    }
+  }
+
+  const getTitleIcon = () => {
+    switch (progress.status) {
+      case 'in_progress':
+        return <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      case 'succeeded':
+        return <CheckCircle2 className="h-5 w-5 text-green-600" />
+      case 'partial':
+        return <AlertTriangle className="h-5 w-5 text-amber-500" />
+      case 'failed':
+        return <XCircle className="h-5 w-5 text-destructive" />
+      case 'canceled':
+        return <Ban className="h-5 w-5 text-muted-foreground" />
+    }
+  }
+
+  return (
+    <Card className={progress.status === 'in_progress' ? 'border-primary' : undefined}>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          {getTitleIcon()}
+          <span className="ml-2">{getTitle()}</span>
+        </CardTitle>
+        <CardDescription>
+          {progress.completed} of {progress.total} images finished
+          {progress.counts.failed > 0 && ` • ${progress.counts.failed} failed`}
+          {progress.counts.canceled > 0 && ` • ${progress.counts.canceled} canceled`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Aggregate progress */}
+        <div className="h-2 bg-secondary rounded-full overflow-hidden">
+          <div
+            className="h-full bg-primary transition-all duration-1000"
+            style={{ width: `${Math.max(progress.percent, 5)}%` }}
+          />
+        </div>
+
+        {/* Child jobs */}
+        <ul className="text-sm space-y-1">
+          {jobs.map((job) => (
+            <li key={job.id} className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                {getJobIcon(job.status)}
+                <span className="capitalize">{job.mode.replace(/_/g, ' ')}</span>
+              </span>
+              <span className="text-muted-foreground capitalize">{job.status}</span>
+            </li>
+          ))}
+        </ul>
+
+        {/* Failed images are not charged */}
+        {finished && progress.counts.succeeded < progress.total && (
+          <p className="text-xs text-muted-foreground">
+            Credits for images that failed or were canceled have been returned.
+          </p>
+        )}
+
+        {finished && (
+          <Button onClick={onDismiss} variant="outline" size="sm" className="w-full">
+            Dismiss
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -13,23 +13,28 @@ import { Badge } from '@/components/ui/badge'
 import { AlertTriangle, Copy, CheckCircle2 } from 'lucide-react'
 import { useState } from 'react'
 import { toast } from 'sonner'
+import { getJobErrorMessage } from '@/lib/generation/errors'
 
 interface ErrorDetails {
   message: string
+  code?: string
+  category?: string
   stack?: string
   timestamp?: string
   mode?: string
   userId?: string
   requestId?: string
+  attempt?: number
 }
 
 interface ErrorDetailsDialogProps {
   error: string | null
+  errorCode?: string | null
   jobId?: string
   trigger?: React.ReactNode
 }
 
-export function ErrorDetailsDialog({ error, jobId, trigger }: ErrorDetailsDialogProps) {
+export function ErrorDetailsDialog({ error, errorCode, jobId, trigger }: ErrorDetailsDialogProps) {
   const [copied, setCopied] = useState(false)
 
   if (!error) {
@@ -38,16 +43,16 @@ export function ErrorDetailsDialog({ error, jobId, trigger }: ErrorDetailsDialog
 
   // Try to parse error as JSON for detailed info
   let errorDetails: ErrorDetails | null = null
-  let displayMessage = error
 
   try {
     errorDetails = JSON.parse(error)
-    displayMessage = errorDetails.message
   } catch {
-    // Not JSON, use as-is
-    displayMessage = error
+    // Not JSON (older jobs), only the code-based message is shown
   }
 
+  // Show the message for the error code rather than the raw error text
+  const errorMessage = getJobErrorMessage(errorCode ?? errorDetails?.code)
+
   const handleCopy = () => {
     const copyText = errorDetails
       ? JSON.stringify(errorDetails, null, 2)
@@ -92,8 +97,8 @@ export function ErrorDetailsDialog({ error, jobId, trigger }: ErrorDetailsDialog
         <div className="space-y-4">
           {/* Main Error Message */}
           <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-md">
-            <h4 className="font-semibold text-destructive mb-2">Error Message</h4>
-            <p className="text-sm text-foreground">{displayMessage}</p>
+            <h4 className="font-semibold text-destructive mb-2">{errorMessage.title}</h4>
+            <p className="text-sm text-foreground">{errorMessage.description}</p>
           </div>
 
           {/* Error Metadata */}
@@ -113,6 +118,20 @@ export function ErrorDetailsDialog({ error, jobId, trigger }: ErrorDetailsDialog
                 </div>
               )}
 
+              {errorDetails.code && (
+                <div className="p-3 bg-muted rounded-md">
+                  <p className="text-xs text-muted-foreground mb-1">Error Code</p>
+                  <p className="text-xs font-mono text-foreground">{errorDetails.code}</p>
+                </div>
+              )}
+
+              {errorDetails.attempt && (
+                <div className="p-3 bg-muted rounded-md">
+                  <p className="text-xs text-muted-foreground mb-1">Attempt</p>
+                  <p className="text-sm font-medium">{errorDetails.attempt}</p>
+                </div>
+              )}
+
               {errorDetails.requestId && (
                 <div className="p-3 bg-muted rounded-md col-span-2">
                   <p className="text-xs text-muted-foreground mb-1">Request ID (for support)</p>
@@ -129,26 +148,13 @@ export function ErrorDetailsDialog({ error, jobId, trigger }: ErrorDetailsDialog
             </div>
           )}
 
-          {/* Stack Trace (if available) */}
-          {errorDetails?.stack && (
-            <div className="space-y-2">
-              <h4 className="font-semibold text-sm">Technical Details</h4>
-              <div className="p-3 bg-muted rounded-md overflow-x-auto">
-                <pre className="text-xs font-mono text-muted-foreground whitespace-pre-wrap">
-                  {errorDetails.stack}
-                </pre>
-              </div>
-            </div>
-          )}
-
-          {/* Common Solutions */}
+          {/* Suggested Solutions */}
           <div className="space-y-2">
-            <h4 className="font-semibold text-sm">Common Solutions</h4>
+            <h4 className="font-semibold text-sm">What You Can Do</h4>
             <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
-              <li>Try generating again with a different image</li>
-              <li>Check that your input image is clear and high quality</li>
-              <li>Ensure the product is clearly visible in the image</li>
-              <li>If the issue persists, contact support with the Request ID above</li>
+              {errorMessage.solutions.map((solution) => (
+                <li key={solution}>{solution}</li>
+              ))}
             </ul>
           </div>
 
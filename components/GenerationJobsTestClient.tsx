@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { DEFAULT_GENERATION_MODE, GENERATION_MODES, GENERATION_MODE_IDS } from '@/lib/generation/modes'
 
 export default function GenerationJobsTestClient() {
   const [projects, setProjects] = useState<Project[]>([])
@@ -20,7 +21,7 @@ export default function GenerationJobsTestClient() {
   const [error, setError] = useState<string | null>(null)
   
   // Form state
-  const [mode, setMode] = useState('main_white')
+  const [mode, setMode] = useState<string>(DEFAULT_GENERATION_MODE)
   const [inputAssetId, setInputAssetId] = useState('')
   const [costCents, setCostCents] = useState('100')
 
@@ -146,6 +147,8 @@ export default function GenerationJobsTestClient() {
         return 'bg-green-100 text-green-800'
       case 'failed':
         return 'bg-red-100 text-red-800'
+      case 'canceled':
+        return 'bg-yellow-100 text-yellow-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -245,10 +248,11 @@ export default function GenerationJobsTestClient() {
                   className="w-full p-2 border rounded-md"
                   required
                 >
-                  <option value="main_white">Main White</option>
-                  <option value="lifestyle">Lifestyle</option>
-                  <option value="feature_callout">Feature Callout</option>
-                  <option value="packaging">Packaging</option>
+                  {GENERATION_MODE_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {GENERATION_MODES[id].label}
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -2,21 +2,14 @@
 
 import { useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Loader2, CheckCircle2, XCircle, Clock } from 'lucide-react'
+import { Loader2, CheckCircle2, XCircle, Clock, Ban } from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { ErrorDetailsDialog } from './ErrorDetailsDialog'
-
-type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
-
-interface Job {
-  id: string
-  status: JobStatus
-  mode: string
-  error?: string | null
-  cost_cents: number
-  created_at: string
-  updated_at: string
-}
+import { getJobErrorMessage } from '@/lib/generation/errors'
+import { JOB_STAGES, getJobStageLabel, type JobStage } from '@/lib/generation/stages'
+import { useJobProgress } from '@/hooks/useJobProgress'
+import { isTerminalJobStatus } from '@/lib/db/job-types'
 
 interface GenerationProgressProps {
   jobId: string
@@ -25,67 +18,39 @@ interface GenerationProgressProps {
 }
 
 export default function GenerationProgress({ jobId, onComplete, onDismiss }: GenerationProgressProps) {
-  const [job, setJob] = useState<Job | null>(null)
-  const [polling, setPolling] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  // Streams status/stage events, falling back to polling
+  const { job, error } = useJobProgress(jobId)
+  const [canceling, setCanceling] = useState(false)
 
+  // Call onComplete after a brief delay to show final status
   useEffect(() => {
-    let intervalId: NodeJS.Timeout | null = null
-
-    const pollJobStatus = async () => {
-      try {
-        const response = await fetch(`/api/jobs/${jobId}`)
-        const data = await response.json()
-
-        if (response.ok && data.job) {
-          setJob(data.job)
-
-          // Stop polling if job is done
-          if (data.job.status === 'succeeded' || data.job.status === 'failed') {
-            setPolling(false)
-            if (intervalId) {
-              clearInterval(intervalId)
-            }
-            
-            // Call onComplete after a brief delay to show final status
-            if (data.job.status === 'succeeded') {
-              setTimeout(() => {
-                onComplete()
-              }, 2000)
-            }
-          }
-        } else {
-          setError(data.error || 'Failed to fetch job status')
-          setPolling(false)
-          if (intervalId) {
-            clearInterval(intervalId)
-          }
-        }
-      } catch (err) {
-        console.error('Error polling job status:', err)
-        setError(err instanceof Error ? err.message : 'Failed to fetch job status')
-        setPolling(false)
-        if (intervalId) {
-          clearInterval(intervalId)
-        }
-      }
+    if (job?.status !== 'succeeded') {
+      return
     }
 
-    // Initial poll
-    pollJobStatus()
+    const timeout = setTimeout(onComplete, 2000)
+    return () => clearTimeout(timeout)
+  }, [job?.status, onComplete])
 
-    // Set up polling interval (every 2 seconds)
-    if (polling) {
-      intervalId = setInterval(pollJobStatus, 2000)
-    }
+  // Queued jobs stop immediately, running jobs after their current stage;
+  // the 'canceled' status arrives through useJobProgress
+  const handleCancel = async () => {
+    setCanceling(true)
 
-    // Cleanup
-    return () => {
-      if (intervalId) {
-        clearInterval(intervalId)
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel job')
       }
+    } catch (err) {
+      setCanceling(false)
+      toast.error('Failed to cancel job', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      })
     }
-  }, [jobId, polling, onComplete])
+  }
 
   if (error) {
     return (
@@ -129,32 +94,55 @@ export default function GenerationProgress({ jobId, onComplete, onDismiss }: Gen
         return <CheckCircle2 className="h-5 w-5 text-green-600" />
       case 'failed':
         return <XCircle className="h-5 w-5 text-destructive" />
+      case 'canceled':
+        return <Ban className="h-5 w-5 text-muted-foreground" />
     }
   }
 
+  // Queued again after a retryable failure
+  const isRetrying = job.status === 'queued' && Boolean(job.error_code)
+  const errorMessage = getJobErrorMessage(job.error_code)
+  const stageLabel = job.status === 'running' ? getJobStageLabel(job.stage) : null
+
+  // Spread the running bar across the worker stages
+  const getProgressWidth = () => {
+    if (job.status === 'queued') {
+      return '30%'
+    }
+    const stageIndex = job.stage ? JOB_STAGES.indexOf(job.stage as JobStage) : -1
+    return stageIndex >= 0 ? `${Math.round(45 + (stageIndex * 50) / JOB_STAGES.length)}%` : '40%'
+  }
+
   const getStatusText = () => {
     switch (job.status) {
       case 'queued':
-        return 'Queued for Processing'
+        if (canceling) return 'Canceling...'
+        return isRetrying ? 'Retrying Shortly' : 'Queued for Processing'
       case 'running':
-        return 'AI is Creating Your Image'
+        return canceling ? 'Canceling...' : 'AI is Creating Your Image'
       case 'succeeded':
         return 'Generation Complete!'
       case 'failed':
         return 'Generation Failed'
+      case 'canceled':
+        return 'Generation Canceled'
     }
   }
 
   const getProgressMessage = () => {
     switch (job.status) {
       case 'queued':
-        return 'Your request is in the queue. Starting soon...'
+        return isRetrying
+          ? `${errorMessage.title}. We'll retry automatically (attempt ${(job.attempts ?? 0) + 1} of ${job.max_attempts ?? 3}).`
+          : 'Your request is in the queue. Starting soon...'
       case 'running':
         return 'Building your Amazon-compliant product image with AI...'
       case 'succeeded':
         return 'Your image is ready! Gallery will update automatically.'
       case 'failed':
-        return job.error || 'Something went wrong. Please try again.'
+        return errorMessage.description
+      case 'canceled':
+        return 'This job was canceled. Your credit has been returned.'
     }
   }
 
@@ -168,6 +156,8 @@ export default function GenerationProgress({ jobId, onComplete, onDismiss }: Gen
         return 'border-green-600'
       case 'failed':
         return 'border-destructive'
+      case 'canceled':
+        return 'border-muted'
     }
   }
 
@@ -208,10 +198,11 @@ export default function GenerationProgress({ jobId, onComplete, onDismiss }: Gen
           <div className="space-y-3">
             <div className="p-3 bg-destructive/10 rounded-md">
               <p className="text-sm text-destructive font-medium mb-2">
-                Job failed — Something went wrong during generation
+                Job failed — {errorMessage.title}
               </p>
               <ErrorDetailsDialog
                 error={job.error}
+                errorCode={job.error_code}
                 jobId={job.id}
                 trigger={
                   <Button variant="outline" size="sm" className="w-full">
@@ -245,19 +236,32 @@ export default function GenerationProgress({ jobId, onComplete, onDismiss }: Gen
             <div className="h-2 bg-secondary rounded-full overflow-hidden">
               <div className="h-full bg-primary transition-all duration-1000" 
                    style={{ 
-                     width: job.status === 'queued' ? '30%' : '70%',
+                     width: getProgressWidth(),
                      animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite'
                    }} />
             </div>
             <p className="text-xs text-muted-foreground text-center">
               {job.status === 'queued' && '⏱️ Step 1: Preparing your request...'}
-              {job.status === 'running' && '✨ Step 2: AI is generating your image...'}
+              {job.status === 'running' && `✨ Step 2: ${stageLabel ?? 'AI is generating your image'}...`}
             </p>
           </div>
         )}
 
+        {/* Cancel button */}
+        {(job.status === 'queued' || job.status === 'running') && (
+          <Button
+            onClick={handleCancel}
+            disabled={canceling}
+            variant="outline"
+            size="sm"
+            className="w-full"
+          >
+            {canceling ? 'Canceling...' : 'Cancel Generation'}
+          </Button>
+        )}
+
         {/* Dismiss button */}
-        {(job.status === 'succeeded' || job.status === 'failed') && (
+        {isTerminalJobStatus(job.status) && (
           <Button onClick={onDismiss} variant="outline" size="sm" className="w-full">
             Dismiss
           </Button>
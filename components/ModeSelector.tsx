@@ -5,11 +5,10 @@ import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Check } from 'lucide-react'
-
-type Mode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+import { GENERATION_MODES, type GenerationMode } from '@/lib/generation/modes'
 
 interface ModeSettings {
-  mode: Mode
+  mode: GenerationMode
   productCategory?: string
   brandTone?: string
   productDescription?: string
@@ -22,37 +21,6 @@ interface ModeSelectorProps {
   disabled?: boolean
 }
 
-const MODES = [
-  {
-    id: 'main_white' as Mode,
-    name: 'Main Image',
-    subtitle: 'White Background',
-    description: 'Professional product photo on pure white background. Ideal for Amazon main images.',
-    icon: '🎯',
-  },
-  {
-    id: 'lifestyle' as Mode,
-    name: 'Lifestyle Scene',
-    subtitle: 'In Context',
-    description: 'Product in real-world setting. Shows usage and creates emotional connection.',
-    icon: '🏠',
-  },
-  {
-    id: 'feature_callout' as Mode,
-    name: 'Feature Callout',
-    subtitle: 'Highlight Details',
-    description: 'Emphasize key features with visual cues. Great for technical or benefit-focused images.',
-    icon: '✨',
-  },
-  {
-    id: 'packaging' as Mode,
-    name: 'Packaging / In-Box',
-    subtitle: 'Retail Ready',
-    description: 'Product in professional retail packaging. Perfect for unboxing and gift previews.',
-    icon: '📦',
-  },
-]
-
 const BRAND_TONES = [
   { value: '', label: 'Default' },
   { value: 'professional', label: 'Clean / Minimal' },
@@ -74,7 +42,7 @@ const SCENES = [
 ]
 
 export default function ModeSelector({ value, onChange, disabled }: ModeSelectorProps) {
-  const handleModeChange = (mode: Mode) => {
+  const handleModeChange = (mode: GenerationMode) => {
     onChange({ ...value, mode })
   }
 
@@ -88,7 +56,7 @@ export default function ModeSelector({ value, onChange, disabled }: ModeSelector
       <div>
         <Label className="text-base mb-3 block">Select Generation Mode</Label>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          {MODES.map((mode) => (
+          {Object.values(GENERATION_MODES).map((mode) => (
             <button
               key={mode.id}
               onClick={() => !disabled && handleModeChange(mode.id)}
@@ -110,8 +78,8 @@ export default function ModeSelector({ value, onChange, disabled }: ModeSelector
               <div className="flex items-start gap-3">
                 <div className="text-2xl shrink-0">{mode.icon}</div>
                 <div className="flex-1 min-w-0">
-                  <div className="font-semibold text-sm">{mode.name}</div>
-                  <div className="text-xs text-muted-foreground mb-1">{mode.subtitle}</div>
+                  <div className="font-semibold text-sm">{mode.label}</div>
+                  <div className="text-xs text-muted-foreground mb-1">{mode.tagline}</div>
                   <div className="text-xs text-muted-foreground leading-relaxed">
                     {mode.description}
                   </div>
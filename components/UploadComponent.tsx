@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Upload, X, Loader2, Image as ImageIcon } from 'lucide-react'
+import { DEFAULT_GENERATION_MODE, GENERATION_MODES, GENERATION_MODE_IDS } from '@/lib/generation/modes'
 
 interface UploadComponentProps {
   projectId: string
@@ -15,7 +16,7 @@ interface UploadComponentProps {
 export default function UploadComponent({ projectId, onUploadSuccess, disabled }: UploadComponentProps) {
   const [file, setFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
-  const [mode, setMode] = useState('main_white')
+  const [mode, setMode] = useState<string>(DEFAULT_GENERATION_MODE)
   const [uploading, setUploading] = useState(false)
   const [isDragging, setIsDragging] = useState(false)
 
@@ -203,10 +204,11 @@ export default function UploadComponent({ projectId, onUploadSuccess, disabled }
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="main_white">Main White</SelectItem>
-              <SelectItem value="lifestyle">Lifestyle</SelectItem>
-              <SelectItem value="feature_callout">Feature Callout</SelectItem>
-              <SelectItem value="packaging">Packaging</SelectItem>
+              {GENERATION_MODE_IDS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {GENERATION_MODES[id].label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
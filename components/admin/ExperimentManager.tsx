@@ -0,0 +1,337 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Plus, Trash2, Trophy } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  createPromptExperimentAction,
+  promotePromptExperimentWinnerAction,
+  stopPromptExperimentAction,
+} from '@/app/actions/prompt-experiments'
+import {
+  MAX_EXPERIMENT_VARIANTS,
+  MIN_EXPERIMENT_SAMPLES,
+  type ExperimentVariantSummary,
+  type OutcomeRate,
+} from '@/lib/generation/experiments'
+import type { AssetMode } from '@/lib/db/asset-types'
+import type { ExperimentVariant, PromptExperiment } from '@/lib/db/experiment-types'
+
+interface ExperimentManagerProps {
+  experiments: { experiment: PromptExperiment; variants: ExperimentVariantSummary[] }[]
+  availableVersions: Record<AssetMode, string[]>   // v1 and published versions
+  currentVersions: Record<AssetMode, string>
+}
+
+// Outcome columns: [label, rate, higher is better]
+const OUTCOMES: [string, (variant: ExperimentVariantSummary) => OutcomeRate, boolean][] = [
+  ['Failed', (variant) => variant.failureRate, false],
+  ['Kept', (variant) => variant.keepRate, true],
+  ['Downloaded', (variant) => variant.downloadRate, true],
+  ['Regenerated', (variant) => variant.regenerateRate, false],
+  ['Compliance pass', (variant) => variant.compliancePassRate, true],
+]
+
+function RateCell({ outcome }: { outcome: OutcomeRate }) {
+  if (outcome.rate === null) {
+    return <span className="text-muted-foreground">-</span>
+  }
+
+  return (
+    <span className={outcome.total < MIN_EXPERIMENT_SAMPLES ? 'text-muted-foreground' : undefined}>
+      {(outcome.rate * 100).toFixed(1)}%
+      <span className="ml-1 text-xs text-muted-foreground">
+        ({outcome.count}/{outcome.total})
+      </span>
+    </span>
+  )
+}
+
+/**
+ * Start prompt experiments, compare their variants and promote a winner
+ */
+export function ExperimentManager({ experiments, availableVersions, currentVersions }: ExperimentManagerProps) {
+  const modes = Object.keys(availableVersions) as AssetMode[]
+
+  // Start from the current version against the newest other one
+  const getDefaultVariants = (value: AssetMode): ExperimentVariant[] => {
+    const current = currentVersions[value]
+    const challenger = [...availableVersions[value]].reverse().find((version) => version !== current)
+    return challenger ? [{ version: current, weight: 50 }, { version: challenger, weight: 50 }] : []
+  }
+
+  const [mode, setMode] = useState<AssetMode>(modes[0])
+  const [name, setName] = useState('')
+  const [variants, setVariants] = useState<ExperimentVariant[]>(() => getDefaultVariants(modes[0]))
+  const [pending, startTransition] = useTransition()
+
+  const runningModes = new Set(
+    experiments
+      .filter(({ experiment }) => experiment.status === 'running')
+      .map(({ experiment }) => experiment.mode)
+  )
+  const versions = availableVersions[mode]
+
+  const selectMode = (value: string) => {
+    setMode(value as AssetMode)
+    setVariants(getDefaultVariants(value as AssetMode))
+  }
+
+  const updateVariant = (index: number, update: Partial<ExperimentVariant>) => {
+    setVariants(variants.map((variant, i) => (i === index ? { ...variant, ...update } : variant)))
+  }
+
+  const handleStart = () => {
+    startTransition(async () => {
+      const result = await createPromptExperimentAction({ mode, name, variants })
+
+      if (!result.success) {
+        toast.error('Could not start experiment', { description: result.error })
+        return
+      }
+      setName('')
+      toast.success(`Experiment started for ${mode}`, {
+        description: 'Requests without a promptVersion are now split between the variants.'
+      })
+    })
+  }
+
+  const handleStop = (experiment: PromptExperiment) => {
+    startTransition(async () => {
+      const result = await stopPromptExperimentAction(experiment.id)
+
+      if (!result.success) {
+        toast.error('Could not stop experiment', { description: result.error })
+        return
+      }
+      toast.success(`Stopped "${experiment.name}"`, {
+        description: `${experiment.mode} keeps using ${currentVersions[experiment.mode]}.`
+      })
+    })
+  }
+
+  const handlePromote = (experiment: PromptExperiment, version: string) => {
+    startTransition(async () => {
+      const result = await promotePromptExperimentWinnerAction(experiment.id, version)
+
+      if (!result.success) {
+        toast.error('Could not promote winner', { description: result.error })
+        return
+      }
+      toast.success(`${experiment.mode} now uses ${version}`)
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>New experiment</CardTitle>
+          <CardDescription>
+            Generation requests without a promptVersion are assigned a variant by
+            weight. One experiment can run per mode.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={selectMode} disabled={pending}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {modes.map((value) => (
+                    <SelectItem key={value} value={value} disabled={runningModes.has(value)}>
+                      {value}{runningModes.has(value) && ' (experiment running)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="experiment-name">Name</Label>
+              <Input
+                id="experiment-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Softer lifestyle lighting"
+                disabled={pending}
+              />
+            </div>
+          </div>
+
+          {versions.length < 2 ? (
+            <p className="text-sm text-muted-foreground">
+              Publish another {mode} version to test it against {versions[0]}.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {variants.map((variant, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={variant.version}
+                    onValueChange={(version) => updateVariant(index, { version })}
+                    disabled={pending}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version} value={version}>
+                          {version}{version === currentVersions[mode] && ' (current)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                    className="w-24"
+                    aria-label="Weight"
+                    disabled={pending}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                    aria-label="Remove variant"
+                    disabled={pending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setVariants([...variants, { version: versions[0], weight: 50 }])}
+                  disabled={pending || variants.length >= MAX_EXPERIMENT_VARIANTS}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add variant
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleStart}
+                  disabled={pending || runningModes.has(mode) || variants.length < 2 || !name.trim()}
+                >
+                  Start experiment
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {experiments.map(({ experiment, variants: summaries }) => (
+        <Card key={experiment.id}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle className="flex items-center gap-2">
+                {experiment.name}
+                <Badge variant="outline">{experiment.mode}</Badge>
+                <Badge variant={experiment.status === 'running' ? 'default' : 'secondary'}>
+                  {experiment.status}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Started {formatDistanceToNow(new Date(experiment.started_at), { addSuffix: true })}
+                {experiment.ended_at && ` • ended ${formatDistanceToNow(new Date(experiment.ended_at), { addSuffix: true })}`}
+                {experiment.status === 'completed' && (experiment.winner_version
+                  ? ` • winner ${experiment.winner_version}`
+                  : ' • stopped without a winner')}
+              </CardDescription>
+            </div>
+            {experiment.status === 'running' && (
+              <Button variant="outline" size="sm" onClick={() => handleStop(experiment)} disabled={pending}>
+                Stop
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Weight</TableHead>
+                    <TableHead>Jobs</TableHead>
+                    {OUTCOMES.map(([label, , higherIsBetter]) => (
+                      <TableHead key={label}>
+                        {label} {higherIsBetter ? '↑' : '↓'}
+                      </TableHead>
+                    ))}
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.map((variant) => (
+                    <TableRow key={variant.version}>
+                      <TableCell className="font-mono">
+                        {variant.version}
+                        {experiment.winner_version === variant.version && (
+                          <Trophy className="ml-1 inline h-4 w-4 text-amber-500" />
+                        )}
+                      </TableCell>
+                      <TableCell>{variant.weight}</TableCell>
+                      <TableCell>{variant.jobs}</TableCell>
+                      {OUTCOMES.map(([label, getRate]) => (
+                        <TableCell key={label}>
+                          <RateCell outcome={getRate(variant)} />
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right">
+                        {experiment.status === 'running' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePromote(experiment, variant.version)}
+                            disabled={pending}
+                          >
+                            Promote
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="mt-3 text-xs text-muted-foreground">
+              Rates show (count/sample). Grey rates have fewer than {MIN_EXPERIMENT_SAMPLES} samples.
+              Kept counts multi-variant selections; downloads, regenerations and compliance
+              count kept and single outputs.
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
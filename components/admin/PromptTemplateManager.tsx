@@ -0,0 +1,357 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { MARKETPLACE_IDS, MARKETPLACE_PROFILES, type MarketplaceId } from '@/lib/marketplaces'
+import {
+  createPromptTemplateDraftAction,
+  previewPromptTemplate,
+  publishPromptTemplateAction,
+  setCurrentPromptVersionAction,
+  updatePromptTemplateDraftAction,
+} from '@/app/actions/prompt-templates'
+import type { AssetMode } from '@/lib/db/asset-types'
+import type { PromptTemplateRecord } from '@/lib/db/prompt-template-types'
+
+interface PromptTemplateManagerProps {
+  templates: PromptTemplateRecord[]
+  currentVersions: Record<AssetMode, string>
+  builtInBodies: Record<AssetMode, string>      // v1 of each mode
+  placeholders: Record<string, string>          // Placeholder name -> description
+}
+
+// Template being edited: a new draft (no id) or a saved one
+interface Draft {
+  id?: string
+  body: string
+  notes: string
+}
+
+const SAMPLE_INPUTS = {
+  productDescription: 'wireless noise-cancelling headphones',
+  productCategory: 'electronics',
+  brandTone: 'professional',
+}
+
+/**
+ * Author, preview and publish prompt template versions
+ */
+export function PromptTemplateManager({
+  templates,
+  currentVersions,
+  builtInBodies,
+  placeholders,
+}: PromptTemplateManagerProps) {
+  const modes = Object.keys(builtInBodies) as AssetMode[]
+  const [mode, setMode] = useState<AssetMode>(modes[0])
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [sample, setSample] = useState(SAMPLE_INPUTS)
+  const [marketplace, setMarketplace] = useState<MarketplaceId>('amazon')
+  const [preview, setPreview] = useState<{ prompt: string; warnings?: string[] } | null>(null)
+  const [pending, startTransition] = useTransition()
+
+  const versions = templates.filter((template) => template.mode === mode)
+  const current = currentVersions[mode]
+  const savedDraft = draft?.id ? versions.find((template) => template.id === draft.id) : undefined
+  const unsaved = !!draft && (!savedDraft || savedDraft.body !== draft.body || (savedDraft.notes ?? '') !== draft.notes)
+
+  const getBody = (version: string) =>
+    version === 'v1' ? builtInBodies[mode] : versions.find((template) => template.version === version)?.body ?? ''
+
+  const selectMode = (value: string) => {
+    setMode(value as AssetMode)
+    setDraft(null)
+    setPreview(null)
+  }
+
+  const startDraft = () => {
+    // New versions start from the current one
+    setDraft({ body: getBody(current), notes: '' })
+    setPreview(null)
+  }
+
+  const editDraft = (template: PromptTemplateRecord) => {
+    setDraft({ id: template.id, body: template.body, notes: template.notes ?? '' })
+    setPreview(null)
+  }
+
+  const handlePreview = (body: string) => {
+    startTransition(async () => {
+      const result = await previewPromptTemplate({ mode, body, inputs: sample, marketplace })
+
+      if (!result.success) {
+        setPreview(null)
+        toast.error('Could not render prompt', { description: result.error })
+        return
+      }
+      setPreview({ prompt: result.prompt ?? '', warnings: result.warnings })
+    })
+  }
+
+  const handleSave = () => {
+    if (!draft) return
+
+    startTransition(async () => {
+      const result = draft.id
+        ? await updatePromptTemplateDraftAction(draft.id, draft.body, draft.notes)
+        : await createPromptTemplateDraftAction(mode, draft.body, draft.notes)
+
+      if (!result.success || !result.template) {
+        toast.error('Could not save draft', { description: result.error })
+        return
+      }
+      setDraft({ id: result.template.id, body: result.template.body, notes: result.template.notes ?? '' })
+      toast.success(`Saved ${mode} ${result.template.version} as a draft`)
+    })
+  }
+
+  const handlePublish = () => {
+    if (!savedDraft) return
+
+    startTransition(async () => {
+      const result = await publishPromptTemplateAction(savedDraft.id)
+
+      if (!result.success) {
+        toast.error('Could not publish', { description: result.error })
+        return
+      }
+      setDraft(null)
+      toast.success(`Published ${mode} ${savedDraft.version}`, {
+        description: 'New generations now use this version.'
+      })
+    })
+  }
+
+  const handleMakeCurrent = (version: string) => {
+    startTransition(async () => {
+      const result = await setCurrentPromptVersionAction(mode, version)
+
+      if (!result.success) {
+        toast.error('Could not change the current version', { description: result.error })
+        return
+      }
+      toast.success(`${mode} now uses ${version}`)
+    })
+  }
+
+  const renderVersionRow = (version: string, status: string, detail: string, template?: PromptTemplateRecord) => (
+    <div key={version} className="flex items-center justify-between gap-4 border-b py-3 last:border-0">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-mono font-medium">{version}</span>
+          <Badge variant={status === 'draft' ? 'outline' : 'secondary'}>{status}</Badge>
+          {version === current && <Badge>current</Badge>}
+        </div>
+        <p className="mt-1 truncate text-xs text-muted-foreground">{detail}</p>
+      </div>
+      <div className="flex shrink-0 gap-2">
+        <Button variant="ghost" size="sm" disabled={pending} onClick={() => handlePreview(getBody(version))}>
+          Preview
+        </Button>
+        {template?.status === 'draft' && (
+          <Button variant="outline" size="sm" disabled={pending} onClick={() => editDraft(template)}>
+            Edit
+          </Button>
+        )}
+        {status !== 'draft' && version !== current && (
+          <Button variant="outline" size="sm" disabled={pending} onClick={() => handleMakeCurrent(version)}>
+            Make current
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Versions</CardTitle>
+            <CardDescription>
+              Requests without a promptVersion use the current version. Published
+              versions cannot be changed, so outputs stay reproducible.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={mode} onValueChange={selectMode} disabled={pending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {modes.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value} (current: {currentVersions[value]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div>
+              {versions.map((template) =>
+                renderVersionRow(
+                  template.version,
+                  template.status,
+                  template.notes || (template.published_at
+                    ? `Published ${formatDistanceToNow(new Date(template.published_at), { addSuffix: true })}`
+                    : `Created ${formatDistanceToNow(new Date(template.created_at), { addSuffix: true })}`),
+                  template
+                )
+              )}
+              {renderVersionRow('v1', 'built in', 'Defined in lib/prompts.ts')}
+            </div>
+
+            <Button onClick={startDraft} disabled={pending}>
+              New draft from {current}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sample inputs</CardTitle>
+            <CardDescription>Used for previews; sanitized like real requests</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="sample-description">Product description</Label>
+              <Input
+                id="sample-description"
+                value={sample.productDescription}
+                onChange={(e) => setSample({ ...sample, productDescription: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sample-category">Category</Label>
+              <Input
+                id="sample-category"
+                value={sample.productCategory}
+                onChange={(e) => setSample({ ...sample, productCategory: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sample-tone">Brand tone</Label>
+              <Input
+                id="sample-tone"
+                value={sample.brandTone}
+                onChange={(e) => setSample({ ...sample, brandTone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label>Marketplace</Label>
+              <Select value={marketplace} onValueChange={(value) => setMarketplace(value as MarketplaceId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MARKETPLACE_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {MARKETPLACE_PROFILES[id].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-6">
+        {draft && (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {savedDraft ? `Draft ${mode} ${savedDraft.version}` : `New ${mode} draft`}
+              </CardTitle>
+              <CardDescription>
+                Placeholders:{' '}
+                {Object.entries(placeholders).map(([name, description]) => (
+                  <code key={name} title={description} className="mr-2 text-xs">
+                    {`{{${name}}}`}
+                  </code>
+                ))}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                className="min-h-[24rem] font-mono text-xs"
+                disabled={pending}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="draft-notes">Notes</Label>
+                <Input
+                  id="draft-notes"
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                  placeholder="What changed and why"
+                  disabled={pending}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => handlePreview(draft.body)} disabled={pending}>
+                  Preview
+                </Button>
+                <Button variant="outline" onClick={handleSave} disabled={pending || !unsaved}>
+                  Save draft
+                </Button>
+                <Button onClick={handlePublish} disabled={pending || !savedDraft || unsaved}>
+                  {pending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Publish
+                </Button>
+                <Button variant="ghost" onClick={() => setDraft(null)} disabled={pending}>
+                  Close
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rendered prompt</CardTitle>
+            <CardDescription>
+              {MARKETPLACE_PROFILES[marketplace].name} rules with the sample inputs
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {preview ? (
+              <div className="space-y-3">
+                {preview.warnings && preview.warnings.length > 0 && (
+                  <ul className="space-y-1 text-xs text-amber-600">
+                    {preview.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+                <pre className="max-h-[32rem] overflow-auto whitespace-pre-wrap rounded-md bg-muted p-4 text-xs">
+                  {preview.prompt}
+                </pre>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Preview a version or draft to see the prompt sent to the image provider.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { User } from '@supabase/supabase-js'
 import { getCreditBalance } from '@/lib/db/billing'
 import { isUserOnTrial, getTrialDaysRemaining } from '@/lib/db/trial'
 import { TrialBanner } from './TrialBanner'
+import { InFlightJobsPanel } from './InFlightJobsPanel'
 
 interface AppHeaderProps {
   user: User
@@ -23,6 +24,7 @@ export default async function AppHeader({ user }: AppHeaderProps) {
           <h1 className="text-lg font-semibold">Dashboard</h1>
         </div>
         <div className="flex items-center gap-4">
+          <InFlightJobsPanel />
           <TrialBanner 
             isOnTrial={onTrial}
             creditBalance={creditBalance}
@@ -6,6 +6,7 @@ import { cn } from '@/lib/utils'
 import { 
   LayoutDashboard, 
   FolderOpen, 
+  Palette,
   CreditCard, 
   Settings, 
   HelpCircle,
@@ -19,6 +20,7 @@ import { Button } from '@/components/ui/button'
 const navigation = [
   { name: 'Dashboard', href: '/app', icon: LayoutDashboard },
   { name: 'Projects', href: '/app/projects', icon: FolderOpen },
+  { name: 'Brand Kits', href: '/app/brand-kits', icon: Palette },
   { name: 'Billing', href: '/app/billing', icon: CreditCard },
   { name: 'Settings', href: '/app/settings', icon: Settings },
   { name: 'Help', href: '/app/help', icon: HelpCircle },
@@ -0,0 +1,126 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Activity, Clock, Loader2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useInFlightJobs } from '@/hooks/useInFlightJobs'
+import { getJobStageLabel } from '@/lib/generation/stages'
+import type { InFlightJob } from '@/lib/db/job-types'
+
+/**
+ * Header panel listing the user's queued and running jobs across all
+ * projects, with a cancel button for each
+ */
+export function InFlightJobsPanel() {
+  const { jobs, loading, cancelJob } = useInFlightJobs()
+  const [cancelingIds, setCancelingIds] = useState<Set<string>>(new Set())
+
+  const handleCancel = async (job: InFlightJob) => {
+    setCancelingIds(prev => new Set(prev).add(job.id))
+
+    try {
+      await cancelJob(job.id)
+      toast.success(job.status === 'queued' ? 'Job canceled' : 'Canceling job', {
+        description: job.status === 'queued'
+          ? 'Your credit has been returned.'
+          : 'The job will stop after its current step and your credit will be returned.',
+      })
+    } catch (error) {
+      toast.error('Failed to cancel job', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      })
+    } finally {
+      setCancelingIds(prev => {
+        const next = new Set(prev)
+        next.delete(job.id)
+        return next
+      })
+    }
+  }
+
+  const getJobStatusText = (job: InFlightJob) => {
+    if (job.cancel_requested_at) {
+      return 'Canceling...'
+    }
+    if (job.status === 'queued') {
+      return job.error_code ? 'Retrying shortly' : 'Queued'
+    }
+    return getJobStageLabel(job.stage) ?? 'Running'
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="In-flight jobs">
+          {jobs.length > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Activity className="h-4 w-4" />
+          )}
+          <span className="ml-1">{jobs.length}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>In-flight jobs</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        {loading && jobs.length === 0 ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-center text-muted-foreground">
+            No jobs running
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto">
+            {jobs.map(job => (
+              <li key={job.id} className="flex items-center gap-2 px-2 py-2">
+                {job.status === 'running' ? (
+                  <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />
+                ) : (
+                  <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/app/projects/${job.project_id}`}
+                    className="block truncate text-sm font-medium hover:underline"
+                  >
+                    {job.project_name || 'Untitled project'}
+                  </Link>
+                  <p className="truncate text-xs text-muted-foreground">
+                    <span className="capitalize">{job.mode.replace(/_/g, ' ')}</span>
+                    {' • '}
+                    {getJobStatusText(job)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCancel(job)}
+                  disabled={cancelingIds.has(job.id) || Boolean(job.cancel_requested_at)}
+                  aria-label="Cancel job"
+                >
+                  {cancelingIds.has(job.id) ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <X className="h-4 w-4" />
+                  )}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
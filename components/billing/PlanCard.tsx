@@ -85,6 +85,9 @@ export function PlanCard({ plan, currentPlanId, userId }: PlanCardProps) {
         <p className="text-sm text-muted-foreground mt-2">
           {plan.monthly_credits} credits/month
         </p>
+        <p className="text-xs text-muted-foreground">
+          {plan.upscale_credits} {plan.upscale_credits === 1 ? 'credit' : 'credits'} per high-res upscale
+        </p>
       </CardHeader>
 
       <CardContent className="flex-1 flex flex-col">
@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, Pencil, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { BrandKitDialog } from './BrandKitDialog'
+import { deleteBrandKitAction } from '@/app/actions/brand-kits'
+import { BRAND_TONES, CALLOUT_TYPOGRAPHY } from '@/lib/brand-kits'
+import type { BrandKit } from '@/lib/db/brand-kit-types'
+
+interface BrandKitCardProps {
+  brandKit: BrandKit
+  projectCount: number  // Projects the kit is attached to
+}
+
+export function BrandKitCard({ brandKit, projectCount }: BrandKitCardProps) {
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  const tone = BRAND_TONES.find((option) => option.value === brandKit.tone)
+
+  const handleDelete = async () => {
+    setDeleting(true)
+
+    try {
+      const result = await deleteBrandKitAction(brandKit.id)
+
+      if (result.success) {
+        toast.success('Brand kit deleted', {
+          description: `"${brandKit.name}" has been deleted`
+        })
+        setDeleteDialogOpen(false)
+      } else {
+        toast.error('Failed to delete brand kit', {
+          description: result.error
+        })
+      }
+    } catch (error) {
+      toast.error('Unexpected error', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1">
+            <CardTitle>{brandKit.name}</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {projectCount === 0
+                ? 'Not used by any project'
+                : `Used by ${projectCount} project${projectCount === 1 ? '' : 's'}`}
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <BrandKitDialog
+              brandKit={brandKit}
+              trigger={
+                <Button variant="ghost" size="icon" aria-label={`Edit ${brandKit.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              }
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setDeleteDialogOpen(true)}
+              aria-label={`Delete ${brandKit.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="flex flex-wrap gap-2">
+            {tone && <Badge variant="secondary">{tone.label} tone</Badge>}
+            {brandKit.callout_typography && (
+              <Badge variant="secondary">{CALLOUT_TYPOGRAPHY[brandKit.callout_typography].label}</Badge>
+            )}
+          </div>
+
+          {brandKit.color_palette.length > 0 && (
+            <div className="flex items-center gap-1">
+              {brandKit.color_palette.map((color) => (
+                <span
+                  key={color}
+                  className="h-6 w-6 rounded border"
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+            </div>
+          )}
+
+          {brandKit.scene_styles.length > 0 && (
+            <p>
+              <span className="text-muted-foreground">Scenes: </span>
+              {brandKit.scene_styles.join(', ')}
+            </p>
+          )}
+
+          {brandKit.banned_terms.length > 0 && (
+            <p>
+              <span className="text-muted-foreground">Never show: </span>
+              {brandKit.banned_terms.join(', ')}
+            </p>
+          )}
+
+          {brandKit.default_constraints.length > 0 && (
+            <p className="text-muted-foreground">
+              {brandKit.default_constraints.length} default constraint
+              {brandKit.default_constraints.length === 1 ? '' : 's'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Brand Kit</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;<strong>{brandKit.name}</strong>&quot;?
+              {projectCount > 0 &&
+                ` ${projectCount} project${projectCount === 1 ? '' : 's'} will continue without a brand kit.`}
+              {' '}Images already generated are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              disabled={deleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleting}
+            >
+              {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Brand Kit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
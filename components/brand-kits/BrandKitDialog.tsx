@@ -0,0 +1,283 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { createBrandKitAction, updateBrandKitAction } from '@/app/actions/brand-kits'
+import {
+  BRAND_KIT_LIMITS,
+  BRAND_TONES,
+  CALLOUT_TYPOGRAPHY,
+  CALLOUT_TYPOGRAPHY_IDS,
+  isBrandTone,
+  isCalloutTypography,
+} from '@/lib/brand-kits'
+import type { BrandKit } from '@/lib/db/brand-kit-types'
+
+interface BrandKitDialogProps {
+  brandKit?: BrandKit  // Kit to edit (creates a new kit when omitted)
+  trigger?: React.ReactNode
+}
+
+// Select value for "not set"
+const NONE = 'none'
+
+// Form fields as typed: lists are comma or line separated
+type BrandKitForm = {
+  name: string
+  tone: string
+  colors: string
+  sceneStyles: string
+  bannedTerms: string
+  calloutTypography: string
+  constraints: string
+}
+
+function toForm(kit?: BrandKit): BrandKitForm {
+  return {
+    name: kit?.name ?? '',
+    tone: kit?.tone ?? NONE,
+    colors: kit?.color_palette.join(', ') ?? '',
+    sceneStyles: kit?.scene_styles.join('\n') ?? '',
+    bannedTerms: kit?.banned_terms.join(', ') ?? '',
+    calloutTypography: kit?.callout_typography ?? NONE,
+    constraints: kit?.default_constraints.join('\n') ?? '',
+  }
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value.split(separator).map((item) => item.trim()).filter(Boolean)
+}
+
+export function BrandKitDialog({ brandKit, trigger }: BrandKitDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState<BrandKitForm>(() => toForm(brandKit))
+  const [saving, setSaving] = useState(false)
+
+  const colors = splitList(form.colors, /[,\s]+/)
+
+  const update = (changes: Partial<BrandKitForm>) => {
+    setForm({ ...form, ...changes })
+  }
+
+  // Start from the saved kit each time the dialog opens
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setForm(toForm(brandKit))
+    }
+    setOpen(next)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+
+    const input = {
+      name: form.name,
+      tone: isBrandTone(form.tone) ? form.tone : null,
+      colorPalette: colors,
+      sceneStyles: splitList(form.sceneStyles, /\n/),
+      bannedTerms: splitList(form.bannedTerms, /[,\n]/),
+      calloutTypography: isCalloutTypography(form.calloutTypography) ? form.calloutTypography : null,
+      defaultConstraints: splitList(form.constraints, /\n/),
+    }
+
+    try {
+      const result = brandKit
+        ? await updateBrandKitAction(brandKit.id, input)
+        : await createBrandKitAction(input)
+
+      if (result.success) {
+        toast.success(brandKit ? 'Brand kit saved' : 'Brand kit created', {
+          description: 'Attach it to a project from the project workspace'
+        })
+        setOpen(false)
+      } else {
+        toast.error('Could not save brand kit', {
+          description: result.error
+        })
+      }
+    } catch (error) {
+      toast.error('Unexpected error', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            New Brand Kit
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{brandKit ? `Edit ${brandKit.name}` : 'Create Brand Kit'}</DialogTitle>
+          <DialogDescription>
+            Settings applied to every generation of the projects using this kit.
+            Leave a field empty to skip it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="brand-kit-name">Name</Label>
+            <Input
+              id="brand-kit-name"
+              placeholder="e.g., Acme Outdoor"
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+              disabled={saving}
+              maxLength={BRAND_KIT_LIMITS.name}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="brand-kit-tone">Tone</Label>
+              <Select value={form.tone} onValueChange={(tone) => update({ tone })} disabled={saving}>
+                <SelectTrigger id="brand-kit-tone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not set</SelectItem>
+                  {BRAND_TONES.map((tone) => (
+                    <SelectItem key={tone.value} value={tone.value}>
+                      {tone.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brand-kit-typography">Callout typography</Label>
+              <Select
+                value={form.calloutTypography}
+                onValueChange={(calloutTypography) => update({ calloutTypography })}
+                disabled={saving}
+              >
+                <SelectTrigger id="brand-kit-typography">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not set</SelectItem>
+                  {CALLOUT_TYPOGRAPHY_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {CALLOUT_TYPOGRAPHY[id].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="brand-kit-colors">Color palette</Label>
+            <Input
+              id="brand-kit-colors"
+              placeholder="#1f3a5f, #f4b400"
+              value={form.colors}
+              onChange={(e) => update({ colors: e.target.value })}
+              disabled={saving}
+            />
+            <div className="flex items-center gap-1" aria-hidden="true">
+              {colors.slice(0, BRAND_KIT_LIMITS.colors).map((color) => (
+                <span
+                  key={color}
+                  className="h-5 w-5 rounded border"
+                  style={{ backgroundColor: /^#[0-9a-f]{6}$/i.test(color) ? color : 'transparent' }}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Up to {BRAND_KIT_LIMITS.colors} hex codes. Not used for main images, which stay pure white.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="brand-kit-scenes">Preferred scene styles</Label>
+            <Textarea
+              id="brand-kit-scenes"
+              placeholder={'Sunlit Scandinavian kitchen\nRugged mountain campsite'}
+              value={form.sceneStyles}
+              onChange={(e) => update({ sceneStyles: e.target.value })}
+              disabled={saving}
+              rows={2}
+              className="resize-none"
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line, used for lifestyle images
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="brand-kit-banned">Banned words and props</Label>
+            <Input
+              id="brand-kit-banned"
+              placeholder="plastic, cheap, competitor logos"
+              value={form.bannedTerms}
+              onChange={(e) => update({ bannedTerms: e.target.value })}
+              disabled={saving}
+            />
+            <p className="text-xs text-muted-foreground">
+              Comma separated. Removed from descriptions and never shown.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="brand-kit-constraints">Default constraints</Label>
+            <Textarea
+              id="brand-kit-constraints"
+              placeholder="Soft natural shadows"
+              value={form.constraints}
+              onChange={(e) => update({ constraints: e.target.value })}
+              disabled={saving}
+              rows={3}
+              className="resize-none"
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line, added to every generation
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {brandKit ? 'Save Changes' : 'Create Brand Kit'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
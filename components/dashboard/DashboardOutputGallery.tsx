@@ -8,6 +8,7 @@ import { Download, ExternalLink } from 'lucide-react'
 import Image from 'next/image'
 import type { Asset } from '@/lib/db/asset-types'
 import { DashboardGallerySkeleton } from '../workspace/GallerySkeleton'
+import { getModeBadgeClassName, getModeLabel } from '@/lib/generation/modes'
 
 interface DashboardOutputGalleryProps {
   outputs: Asset[]
@@ -46,26 +47,6 @@ export function DashboardOutputGallery({ outputs }: DashboardOutputGalleryProps)
     fetchSignedUrls()
   }, [outputs])
 
-  const getModeLabel = (mode: string) => {
-    const labels: Record<string, string> = {
-      main_white: 'Main',
-      lifestyle: 'Lifestyle',
-      feature_callout: 'Feature',
-      packaging: 'Packaging',
-    }
-    return labels[mode] || mode
-  }
-
-  const getModeColor = (mode: string) => {
-    const colors: Record<string, string> = {
-      main_white: 'bg-blue-100 text-blue-700',
-      lifestyle: 'bg-green-100 text-green-700',
-      feature_callout: 'bg-purple-100 text-purple-700',
-      packaging: 'bg-orange-100 text-orange-700',
-    }
-    return colors[mode] || 'bg-gray-100 text-gray-700'
-  }
-
   const handleDownload = async (asset: Asset) => {
     const url = signedUrls[asset.id]
     if (!url) return
@@ -151,7 +132,7 @@ export function DashboardOutputGallery({ outputs }: DashboardOutputGalleryProps)
           {/* Metadata */}
           <div className="p-3 space-y-2">
             <div className="flex items-center justify-between">
-              <Badge className={getModeColor(asset.mode || '')} variant="secondary">
+              <Badge className={getModeBadgeClassName(asset.mode || '')} variant="secondary">
                 {getModeLabel(asset.mode || '')}
               </Badge>
               <span className="text-xs text-muted-foreground">
@@ -41,7 +41,7 @@ export function DownloadButton({
       window.URL.revokeObjectURL(url)
 
       // Track onboarding progress (don't await to not block UX)
-      markAssetDownloadedAction().catch((error) => {
+      markAssetDownloadedAction(assetId).catch((error) => {
         console.error('Failed to track download in onboarding:', error)
       })
     } catch (error) {
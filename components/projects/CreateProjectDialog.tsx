@@ -13,10 +13,23 @@ import {
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Loader2, Plus } from 'lucide-react'
 import { toast } from 'sonner'
 import { createProjectAction } from '@/app/actions/projects'
 import { useRouter } from 'next/navigation'
+import {
+  DEFAULT_MARKETPLACE,
+  MARKETPLACE_IDS,
+  MARKETPLACE_PROFILES,
+  type MarketplaceId,
+} from '@/lib/marketplaces'
 
 interface CreateProjectDialogProps {
   trigger?: React.ReactNode
@@ -26,6 +39,7 @@ export function CreateProjectDialog({ trigger }: CreateProjectDialogProps) {
   const router = useRouter()
   const [open, setOpen] = useState(false)
   const [projectName, setProjectName] = useState('')
+  const [marketplace, setMarketplace] = useState<MarketplaceId>(DEFAULT_MARKETPLACE)
   const [loading, setLoading] = useState(false)
 
   const handleCreate = async () => {
@@ -37,7 +51,7 @@ export function CreateProjectDialog({ trigger }: CreateProjectDialogProps) {
     setLoading(true)
 
     try {
-      const result = await createProjectAction(projectName)
+      const result = await createProjectAction(projectName, marketplace)
 
       if (result.success) {
         toast.success('Project created!', {
@@ -45,6 +59,7 @@ export function CreateProjectDialog({ trigger }: CreateProjectDialogProps) {
         })
         setOpen(false)
         setProjectName('')
+        setMarketplace(DEFAULT_MARKETPLACE)
         
         // Navigate to the new project
         if (result.projectId) {
@@ -85,7 +100,7 @@ export function CreateProjectDialog({ trigger }: CreateProjectDialogProps) {
         <DialogHeader>
           <DialogTitle>Create New Project</DialogTitle>
           <DialogDescription>
-            Give your project a name. You can change this later.
+            Give your project a name and pick the marketplace you sell on. You can change both later.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4 py-4">
@@ -105,6 +120,28 @@ export function CreateProjectDialog({ trigger }: CreateProjectDialogProps) {
               {projectName.length}/100 characters
             </p>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-marketplace">Marketplace</Label>
+            <Select
+              value={marketplace}
+              onValueChange={(value) => setMarketplace(value as MarketplaceId)}
+              disabled={loading}
+            >
+              <SelectTrigger id="project-marketplace">
+                <SelectValue placeholder="Select marketplace" />
+              </SelectTrigger>
+              <SelectContent>
+                {MARKETPLACE_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {MARKETPLACE_PROFILES[id].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Images are generated and checked against its image rules
+            </p>
+          </div>
         </div>
         <DialogFooter>
           <Button
@@ -0,0 +1,71 @@
+'use client'
+
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { BRAND_TONES } from '@/lib/brand-kits'
+import type { BrandKit } from '@/lib/db/brand-kit-types'
+
+interface BrandKitSelectorProps {
+  brandKits: BrandKit[]
+  brandKitId: string | null
+  onBrandKitChange: (brandKitId: string | null) => void
+  disabled?: boolean
+}
+
+// Select value for "no brand kit"
+const NONE = 'none'
+
+export function BrandKitSelector({ brandKits, brandKitId, onBrandKitChange, disabled }: BrandKitSelectorProps) {
+  const brandKit = brandKits.find((kit) => kit.id === brandKitId)
+  const tone = BRAND_TONES.find((option) => option.value === brandKit?.tone)
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-2">
+        <Label htmlFor="brand-kit">Brand Kit</Label>
+        <Select
+          value={brandKit?.id ?? NONE}
+          onValueChange={(value) => onBrandKitChange(value === NONE ? null : value)}
+          disabled={disabled}
+        >
+          <SelectTrigger id="brand-kit">
+            <SelectValue placeholder="Select brand kit" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No brand kit</SelectItem>
+            {brandKits.map((kit) => (
+              <SelectItem key={kit.id} value={kit.id}>
+                {kit.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {brandKit ? (
+            <>
+              {tone ? `${tone.label} tone` : 'No tone'}
+              {brandKit.color_palette.length > 0 && `, ${brandKit.color_palette.length} colors`}
+              {brandKit.banned_terms.length > 0 && `, ${brandKit.banned_terms.length} banned words`}
+              {brandKit.default_constraints.length > 0 && `, ${brandKit.default_constraints.length} constraints`}
+            </>
+          ) : (
+            <>
+              Applied to every image of this project •{' '}
+              <Link href="/app/brand-kits" className="underline">
+                Manage brand kits
+              </Link>
+            </>
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AssetImage } from '@/components/AssetImage'
+import { getAssetsByKindClient } from '@/lib/db/assets-client'
+import {
+  BUNDLE_LAYOUTS,
+  BUNDLE_LAYOUT_IDS,
+  MAX_BUNDLE_ITEMS,
+  MIN_BUNDLE_ITEMS,
+  type BundleLayoutId,
+} from '@/lib/generation/bundle'
+import type { Asset } from '@/lib/db/asset-types'
+
+interface BundleFieldsProps {
+  projectId: string
+  assetIds: string[]  // Selected input assets, in layout order
+  onAssetIdsChange: (assetIds: string[]) => void
+  layout: BundleLayoutId
+  onLayoutChange: (layout: BundleLayoutId) => void
+  uploadedAssetId: string | null  // Reloads the photos when a new one is uploaded
+  disabled?: boolean
+}
+
+export function BundleFields({
+  projectId,
+  assetIds,
+  onAssetIdsChange,
+  layout,
+  onLayoutChange,
+  uploadedAssetId,
+  disabled,
+}: BundleFieldsProps) {
+  const [inputs, setInputs] = useState<Asset[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let active = true
+
+    getAssetsByKindClient(projectId, 'input')
+      .then((assets) => {
+        if (active) {
+          setInputs(assets)
+        }
+      })
+      .catch((error) => console.error('Error loading product photos:', error))
+      .finally(() => {
+        if (active) {
+          setLoading(false)
+        }
+      })
+
+    return () => {
+      active = false
+    }
+  }, [projectId, uploadedAssetId])
+
+  const toggleAsset = (assetId: string) => {
+    if (assetIds.includes(assetId)) {
+      onAssetIdsChange(assetIds.filter((id) => id !== assetId))
+    } else if (assetIds.length < MAX_BUNDLE_ITEMS) {
+      onAssetIdsChange([...assetIds, assetId])
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>
+          Products ({assetIds.length}/{MAX_BUNDLE_ITEMS} selected, at least {MIN_BUNDLE_ITEMS})
+        </Label>
+        {loading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Loading product photos...
+          </div>
+        ) : inputs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Upload a photo of each product in the bundle to select it here.
+          </p>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {inputs.map((input) => {
+              const position = assetIds.indexOf(input.id)
+              const isSelected = position !== -1
+              return (
+                <button
+                  key={input.id}
+                  type="button"
+                  aria-pressed={isSelected}
+                  aria-label={isSelected ? `Product ${position + 1} in the bundle` : 'Add product to the bundle'}
+                  disabled={disabled || (!isSelected && assetIds.length >= MAX_BUNDLE_ITEMS)}
+                  onClick={() => toggleAsset(input.id)}
+                  className={`relative aspect-square overflow-hidden rounded-md border-2 bg-muted transition-colors disabled:opacity-50 ${
+                    isSelected ? 'border-primary ring-2 ring-primary/30' : 'border-transparent hover:border-muted-foreground/30'
+                  }`}
+                >
+                  <AssetImage
+                    assetId={input.id}
+                    alt="Product photo"
+                    fill
+                    sizes="(max-width: 1024px) 33vw, 15vw"
+                    className="object-contain"
+                  />
+                  {isSelected && (
+                    <span className="absolute top-1 right-1 flex h-6 w-6 items-center justify-center rounded-full bg-primary text-xs font-semibold text-primary-foreground">
+                      {position + 1}
+                    </span>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="bundle-layout">Layout</Label>
+        <Select
+          value={layout}
+          onValueChange={(next) => onLayoutChange(next as BundleLayoutId)}
+          disabled={disabled}
+        >
+          <SelectTrigger id="bundle-layout">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BUNDLE_LAYOUT_IDS.map((id) => (
+              <SelectItem key={id} value={id}>
+                {BUNDLE_LAYOUTS[id].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{BUNDLE_LAYOUTS[layout].description}</p>
+      </div>
+    </div>
+  )
+}
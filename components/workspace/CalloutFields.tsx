@@ -0,0 +1,168 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Crosshair, Plus, X } from 'lucide-react'
+import {
+  CALLOUT_ICONS,
+  CALLOUT_ICON_IDS,
+  CALLOUT_LAYOUTS,
+  CALLOUT_LAYOUT_IDS,
+  CALLOUT_LIMITS,
+  MAX_CALLOUTS,
+  isCalloutIcon,
+  isCalloutLayout,
+  type Callout,
+  type CalloutLayoutId,
+} from '@/lib/generation/callouts'
+
+interface CalloutFieldsProps {
+  callouts: Callout[]
+  onCalloutsChange: (callouts: Callout[]) => void
+  layout: CalloutLayoutId
+  onLayoutChange: (layout: CalloutLayoutId) => void
+  disabled?: boolean
+  // Anchor placement (only where there is an image to click on)
+  placingAnchor?: number | null
+  onPlaceAnchor?: (index: number | null) => void
+}
+
+// Select value for "no icon"
+const NONE = 'none'
+
+export function CalloutFields({
+  callouts,
+  onCalloutsChange,
+  layout,
+  onLayoutChange,
+  disabled,
+  placingAnchor,
+  onPlaceAnchor,
+}: CalloutFieldsProps) {
+  const update = (index: number, changes: Partial<Callout>) => {
+    onCalloutsChange(callouts.map((callout, i) => (i === index ? { ...callout, ...changes } : callout)))
+  }
+
+  const remove = (index: number) => {
+    onCalloutsChange(callouts.filter((_, i) => i !== index))
+    onPlaceAnchor?.(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="callout-layout">Layout</Label>
+        <Select
+          value={layout}
+          onValueChange={(value) => isCalloutLayout(value) && onLayoutChange(value)}
+          disabled={disabled}
+        >
+          <SelectTrigger id="callout-layout">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CALLOUT_LAYOUT_IDS.map((id) => (
+              <SelectItem key={id} value={id}>
+                {CALLOUT_LAYOUTS[id].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {callouts.map((callout, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label={`Callout ${index + 1} headline`}
+              placeholder="Headline, e.g. All-day battery"
+              value={callout.headline}
+              onChange={(e) => update(index, { headline: e.target.value })}
+              maxLength={CALLOUT_LIMITS.headline}
+              disabled={disabled}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => remove(index)}
+              disabled={disabled}
+              aria-label={`Remove callout ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            aria-label={`Callout ${index + 1} text`}
+            placeholder="Short description (optional)"
+            value={callout.text ?? ''}
+            onChange={(e) => update(index, { text: e.target.value || undefined })}
+            maxLength={CALLOUT_LIMITS.text}
+            disabled={disabled}
+          />
+          <div className="flex items-center gap-2">
+            <Select
+              value={callout.icon ?? NONE}
+              onValueChange={(value) => update(index, { icon: isCalloutIcon(value) ? value : undefined })}
+              disabled={disabled}
+            >
+              <SelectTrigger aria-label={`Callout ${index + 1} icon`} className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No icon</SelectItem>
+                {CALLOUT_ICON_IDS.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {CALLOUT_ICONS[id].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {onPlaceAnchor && (
+              <>
+                <Button
+                  variant={placingAnchor === index ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onPlaceAnchor(placingAnchor === index ? null : index)}
+                  disabled={disabled}
+                >
+                  <Crosshair className="h-4 w-4 mr-1" />
+                  {placingAnchor === index ? 'Click the image' : callout.anchor ? 'Move pointer' : 'Add pointer'}
+                </Button>
+                {callout.anchor && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update(index, { anchor: undefined })}
+                    disabled={disabled}
+                  >
+                    Remove pointer
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {callouts.length < MAX_CALLOUTS && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onCalloutsChange([...callouts, { headline: '' }])}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add callout
+        </Button>
+      )}
+    </div>
+  )
+}
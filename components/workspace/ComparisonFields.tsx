@@ -0,0 +1,162 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, X } from 'lucide-react'
+import {
+  COMPARISON_COLUMNS,
+  COMPARISON_LIMITS,
+  MAX_COMPARISON_ROWS,
+  type ComparisonRow,
+  type ComparisonValue,
+} from '@/lib/generation/infographic'
+
+interface ComparisonFieldsProps {
+  rows: ComparisonRow[]
+  onRowsChange: (rows: ComparisonRow[]) => void
+  title: string
+  onTitleChange: (title: string) => void
+  disabled?: boolean
+}
+
+// Select values for the kind of a cell
+type ValueKind = 'text' | 'yes' | 'no'
+
+function getValueKind(value: ComparisonValue): ValueKind {
+  return value === true ? 'yes' : value === false ? 'no' : 'text'
+}
+
+function ValueField({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string
+  value: ComparisonValue
+  onChange: (value: ComparisonValue) => void
+  disabled?: boolean
+}) {
+  const kind = getValueKind(value)
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={kind}
+        onValueChange={(next) => onChange(next === 'yes' ? true : next === 'no' ? false : '')}
+        disabled={disabled}
+      >
+        <SelectTrigger aria-label={`${label} value type`} className="w-24 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="text">Text</SelectItem>
+          <SelectItem value="yes">✓ Yes</SelectItem>
+          <SelectItem value="no">✗ No</SelectItem>
+        </SelectContent>
+      </Select>
+      {kind === 'text' && (
+        <Input
+          aria-label={label}
+          placeholder="e.g. 24 hours"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={COMPARISON_LIMITS.value}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  )
+}
+
+export function ComparisonFields({
+  rows,
+  onRowsChange,
+  title,
+  onTitleChange,
+  disabled,
+}: ComparisonFieldsProps) {
+  const update = (index: number, changes: Partial<ComparisonRow>) => {
+    onRowsChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="chart-title">Title (optional)</Label>
+        <Input
+          id="chart-title"
+          placeholder="e.g. Why it lasts longer"
+          value={title}
+          onChange={(e) => onTitleChange(e.target.value)}
+          maxLength={COMPARISON_LIMITS.title}
+          disabled={disabled}
+        />
+      </div>
+
+      {rows.map((row, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label={`Row ${index + 1} feature`}
+              placeholder="Feature, e.g. Keeps drinks cold"
+              value={row.feature}
+              onChange={(e) => update(index, { feature: e.target.value })}
+              maxLength={COMPARISON_LIMITS.feature}
+              disabled={disabled}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onRowsChange(rows.filter((_, i) => i !== index))}
+              disabled={disabled}
+              aria-label={`Remove row ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">{COMPARISON_COLUMNS.ours}</span>
+              <ValueField
+                label={`Row ${index + 1} ${COMPARISON_COLUMNS.ours}`}
+                value={row.ours}
+                onChange={(ours) => update(index, { ours })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">{COMPARISON_COLUMNS.competitor}</span>
+              <ValueField
+                label={`Row ${index + 1} ${COMPARISON_COLUMNS.competitor}`}
+                value={row.competitor}
+                onChange={(competitor) => update(index, { competitor })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {rows.length < MAX_COMPARISON_ROWS && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onRowsChange([...rows, { feature: '', ours: '', competitor: '' }])}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add row
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { AlertTriangle, CheckCircle2, ShieldCheck, XCircle } from 'lucide-react'
+import {
+  COMPLIANCE_RULE_LABELS,
+  COMPLIANCE_STATUS_LABELS,
+} from '@/lib/generation/compliance-rules'
+import type { ComplianceReport, ComplianceStatus } from '@/lib/db/asset-types'
+
+interface ComplianceBadgeProps {
+  report: ComplianceReport | null
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, string> = {
+  pass: 'bg-green-600 text-white hover:bg-green-700',
+  warn: 'bg-amber-500 text-white hover:bg-amber-600',
+  fail: 'bg-red-600 text-white hover:bg-red-700',
+}
+
+function StatusIcon({ status, className }: { status: ComplianceStatus; className?: string }) {
+  switch (status) {
+    case 'pass':
+      return <CheckCircle2 className={className} aria-hidden="true" />
+    case 'warn':
+      return <AlertTriangle className={className} aria-hidden="true" />
+    case 'fail':
+      return <XCircle className={className} aria-hidden="true" />
+  }
+}
+
+/**
+ * Pass / warn / fail badge for an output's compliance report
+ * Opens the per-rule breakdown when clicked
+ */
+export function ComplianceBadge({ report }: ComplianceBadgeProps) {
+  if (!report) {
+    return null
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className={`inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-medium shadow-sm transition-colors ${STATUS_STYLES[report.status]}`}
+          aria-label={`Compliance: ${COMPLIANCE_STATUS_LABELS[report.status]}. Show details`}
+        >
+          <StatusIcon status={report.status} className="h-3 w-3" />
+          {COMPLIANCE_STATUS_LABELS[report.status]}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <DialogTitle>Compliance Checks</DialogTitle>
+          </div>
+          <DialogDescription>
+            Automated checks of the generated pixels. Review warnings before uploading.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {report.rules.map((result) => (
+            <li key={result.rule} className="flex items-start gap-3 p-3 bg-muted rounded-md">
+              <StatusIcon
+                status={result.status}
+                className={`h-4 w-4 mt-0.5 shrink-0 ${
+                  result.status === 'pass'
+                    ? 'text-green-600'
+                    : result.status === 'warn'
+                      ? 'text-amber-500'
+                      : 'text-red-600'
+                }`}
+              />
+              <div>
+                <p className="text-sm font-medium">{COMPLIANCE_RULE_LABELS[result.rule] || result.rule}</p>
+                <p className="text-xs text-muted-foreground">{result.message}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SCALE_REFERENCES,
+  SCALE_REFERENCE_IDS,
+  UNIT_SYSTEMS,
+  UNIT_SYSTEM_IDS,
+  formatLengthLabel,
+  formatWeightLabel,
+  type ScaleReferenceId,
+  type UnitSystem,
+} from '@/lib/generation/dimensions'
+
+// Measurements as typed (empty when not set)
+export interface DimensionFieldValues {
+  unitSystem: UnitSystem
+  width: string
+  height: string
+  depth: string
+  weight: string
+}
+
+interface DimensionFieldsProps {
+  values: DimensionFieldValues
+  onValuesChange: (values: DimensionFieldValues) => void
+  scaleReference: ScaleReferenceId | null
+  onScaleReferenceChange: (scaleReference: ScaleReferenceId | null) => void
+  disabled?: boolean
+}
+
+type MeasurementField = 'width' | 'height' | 'depth' | 'weight'
+
+const FIELDS: { field: MeasurementField; label: string; optional: boolean }[] = [
+  { field: 'width', label: 'Width', optional: false },
+  { field: 'height', label: 'Height', optional: false },
+  { field: 'depth', label: 'Depth', optional: true },
+  { field: 'weight', label: 'Weight', optional: true },
+]
+
+export function DimensionFields({
+  values,
+  onValuesChange,
+  scaleReference,
+  onScaleReferenceChange,
+  disabled,
+}: DimensionFieldsProps) {
+  const units = UNIT_SYSTEMS[values.unitSystem]
+
+  // The label as it will appear on the image
+  const getPreview = (field: MeasurementField): string | null => {
+    const value = Number(values[field])
+    if (!values[field].trim() || !Number.isFinite(value) || value <= 0) {
+      return null
+    }
+    return field === 'weight'
+      ? formatWeightLabel(value, values.unitSystem)
+      : formatLengthLabel(value, values.unitSystem)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="dimension-units">Units</Label>
+          <Select
+            value={values.unitSystem}
+            onValueChange={(unitSystem) => onValuesChange({ ...values, unitSystem: unitSystem as UnitSystem })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="dimension-units">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNIT_SYSTEM_IDS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {UNIT_SYSTEMS[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="scale-reference">Scale reference (optional)</Label>
+          <Select
+            value={scaleReference ?? 'none'}
+            onValueChange={(next) => onScaleReferenceChange(next === 'none' ? null : next as ScaleReferenceId)}
+            disabled={disabled}
+          >
+            <SelectTrigger id="scale-reference">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {SCALE_REFERENCE_IDS.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {SCALE_REFERENCES[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {FIELDS.map(({ field, label, optional }) => {
+          const preview = getPreview(field)
+          return (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`dimension-${field}`}>
+                {label} ({field === 'weight' ? units.weight : units.length}){optional && ' (optional)'}
+              </Label>
+              <Input
+                id={`dimension-${field}`}
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={values[field]}
+                onChange={(e) => onValuesChange({ ...values, [field]: e.target.value })}
+                disabled={disabled}
+              />
+              {preview && <p className="text-xs text-muted-foreground">{preview}</p>}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
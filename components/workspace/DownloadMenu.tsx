@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ChevronDown, Download, Loader2 } from 'lucide-react'
+import {
+  DOWNLOAD_PRESETS,
+  getDownloadFileName,
+  toDownloadQuery,
+  type DownloadOptions,
+} from '@/lib/generation/download-formats'
+import type { Asset } from '@/lib/db/asset-types'
+
+interface DownloadMenuProps {
+  asset: Pick<Asset, 'id' | 'mode'>
+}
+
+/**
+ * "Download" menu for an output card
+ * Each choice is converted server-side (sRGB, alpha flattened onto white)
+ */
+export function DownloadMenu({ asset }: DownloadMenuProps) {
+  const [downloading, setDownloading] = useState(false)
+
+  const handleDownload = async (options: DownloadOptions) => {
+    setDownloading(true)
+
+    try {
+      const response = await fetch(`/api/assets/${asset.id}/download?${toDownloadQuery(options)}`)
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to download image')
+      }
+
+      const blob = await response.blob()
+      const downloadUrl = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = downloadUrl
+      link.download = getDownloadFileName({ id: asset.id, mode: asset.mode || 'output' }, options.format)
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(downloadUrl)
+
+      if (response.headers.get('X-Target-Met') === 'false' && options.maxBytes !== null) {
+        toast.warning('File is larger than requested', {
+          description: `Even the lowest quality is over ${Math.round(options.maxBytes / 1024)} KB (${Math.round(blob.size / 1024)} KB)`
+        })
+      }
+    } catch (error) {
+      console.error('Download error:', error)
+      toast.error('Could not download image', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1" disabled={downloading}>
+          {downloading ? (
+            <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+          ) : (
+            <Download className="h-3 w-3 mr-1.5" />
+          )}
+          Download
+          <ChevronDown className="h-3 w-3 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {DOWNLOAD_PRESETS.map((preset) => (
+          <DropdownMenuItem key={preset.id} onClick={() => handleDownload(preset.options)}>
+            {preset.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Loader2, Type } from 'lucide-react'
+import Image from 'next/image'
+import { toast } from 'sonner'
+import { CalloutFields } from './CalloutFields'
+import type { Callout, CalloutLayoutId } from '@/lib/generation/callouts'
+import type { Asset, CalloutLayer } from '@/lib/db/asset-types'
+
+interface EditCalloutsDialogProps {
+  asset: Asset & { callout_layer: CalloutLayer }
+  imageUrl?: string  // Signed URL of the output, for placing pointers
+  onSaved: () => void
+}
+
+/**
+ * Edit the callout text of a composited feature_callout output
+ * (PUT /api/assets/[id]/callouts); re-rendering is free
+ */
+export function EditCalloutsDialog({ asset, imageUrl, onSaved }: EditCalloutsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [callouts, setCallouts] = useState<Callout[]>(asset.callout_layer.callouts)
+  const [layout, setLayout] = useState<CalloutLayoutId>(asset.callout_layer.layout)
+  const [placingAnchor, setPlacingAnchor] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  // Start from the saved layer each time the dialog opens
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setCallouts(asset.callout_layer.callouts)
+      setLayout(asset.callout_layer.layout)
+      setPlacingAnchor(null)
+    }
+    setOpen(next)
+  }
+
+  const handleImageClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (placingAnchor === null) {
+      return
+    }
+
+    const rect = event.currentTarget.getBoundingClientRect()
+    const anchor = {
+      x: Math.round(((event.clientX - rect.left) / rect.width) * 1000) / 1000,
+      y: Math.round(((event.clientY - rect.top) / rect.height) * 1000) / 1000,
+    }
+
+    setCallouts(callouts.map((callout, i) => (i === placingAnchor ? { ...callout, anchor } : callout)))
+    setPlacingAnchor(null)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/assets/${asset.id}/callouts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          callouts: callouts.filter((callout) => callout.headline.trim()),
+          calloutLayout: layout,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error('Could not update text', {
+          description: data.error || 'Please try again'
+        })
+        return
+      }
+
+      toast.success('Text updated', {
+        description: data.warnings?.length > 0
+          ? `Unverifiable claims were removed: ${data.warnings.length}`
+          : 'No credits were used'
+      })
+      setOpen(false)
+      onSaved()
+    } catch (error) {
+      toast.error('Unexpected error', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" aria-label="Edit callout text">
+          <Type className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit Callout Text</DialogTitle>
+          <DialogDescription>
+            The text is set again on the same image, so it costs no credits.
+            Pointers connect a callout to a point on the product.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4 sm:grid-cols-2">
+          <div
+            className={`relative aspect-square overflow-hidden rounded-md border bg-muted ${placingAnchor !== null ? 'cursor-crosshair' : ''}`}
+            onClick={handleImageClick}
+          >
+            {imageUrl && (
+              <Image
+                src={imageUrl}
+                alt="Current image"
+                fill
+                className="object-contain"
+                sizes="(max-width: 640px) 100vw, 336px"
+              />
+            )}
+            {callouts.map((callout, index) =>
+              callout.anchor ? (
+                <span
+                  key={index}
+                  className="absolute flex h-5 w-5 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-primary text-[10px] font-semibold text-primary-foreground ring-2 ring-white"
+                  style={{ left: `${callout.anchor.x * 100}%`, top: `${callout.anchor.y * 100}%` }}
+                  aria-hidden="true"
+                >
+                  {index + 1}
+                </span>
+              ) : null
+            )}
+          </div>
+          <CalloutFields
+            callouts={callouts}
+            onCalloutsChange={setCallouts}
+            layout={layout}
+            onLayoutChange={setLayout}
+            disabled={saving}
+            placingAnchor={placingAnchor}
+            onPlaceAnchor={setPlacingAnchor}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !callouts.some((callout) => callout.headline.trim())}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save and Re-render
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
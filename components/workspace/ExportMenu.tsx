@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { FileArchive, Loader2 } from 'lucide-react'
+import { MARKETPLACE_PROFILES, type MarketplaceId } from '@/lib/marketplaces'
+import type { Asset } from '@/lib/db/asset-types'
+import { ListingPackageDialog } from './ListingPackageDialog'
+
+interface ExportMenuProps {
+  projectId: string
+  outputs: Asset[]
+  visibleAssetIds: string[]      // Outputs shown in the current tab
+  visibleLabel?: string          // Tab name, e.g. 'Lifestyle' (omit on the "All" tab)
+  marketplace?: MarketplaceId    // Enables the listing package export
+}
+
+// Background exports: how often and how long to wait for the link
+const POLL_INTERVAL_MS = 3000
+const POLL_TIMEOUT_MS = 10 * 60 * 1000
+
+function saveFile(href: string, fileName?: string) {
+  const link = document.createElement('a')
+  link.href = href
+  if (fileName) {
+    link.download = fileName
+  }
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+/**
+ * "Export ZIP" menu for the outputs gallery
+ * Small exports download directly; large ones are built in the background
+ * and downloaded from a signed link when ready
+ */
+export function ExportMenu({ projectId, outputs, visibleAssetIds, visibleLabel, marketplace }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false)
+  const [packageOpen, setPackageOpen] = useState(false)
+
+  const waitForExport = async (statusUrl: string): Promise<string> => {
+    const deadline = Date.now() + POLL_TIMEOUT_MS
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+
+      const response = await fetch(statusUrl)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check export status')
+      }
+      if (data.status === 'succeeded') {
+        return data.downloadUrl
+      }
+      if (data.status === 'failed') {
+        throw new Error(data.error || 'Export failed')
+      }
+    }
+
+    throw new Error('Export is taking longer than expected. Please try again later.')
+  }
+
+  const handleExport = async (options: { assetIds?: string[]; includeInputs?: boolean }) => {
+    setExporting(true)
+
+    try {
+      const params = new URLSearchParams()
+      if (options.assetIds) {
+        params.set('assetIds', options.assetIds.join(','))
+      }
+      if (options.includeInputs) {
+        params.set('includeInputs', 'true')
+      }
+
+      const response = await fetch(`/api/projects/${projectId}/export?${params.toString()}`)
+
+      if (response.status === 202) {
+        const data = await response.json()
+        toast.info('Preparing export', {
+          description: `${data.fileCount} images. The download starts when the ZIP is ready.`
+        })
+        saveFile(await waitForExport(data.statusUrl))
+        return
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to export images')
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+      const blob = await response.blob()
+      const downloadUrl = window.URL.createObjectURL(blob)
+      saveFile(downloadUrl, fileName ?? 'commercepix-export.zip')
+      window.URL.revokeObjectURL(downloadUrl)
+    } catch (error) {
+      console.error('Export error:', error)
+      toast.error('Could not export images', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={exporting} aria-label="Export ZIP">
+            {exporting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FileArchive className="h-4 w-4" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport({})}>
+            Export all outputs (ZIP)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport({ includeInputs: true })}>
+            Export all outputs with inputs
+          </DropdownMenuItem>
+          {visibleLabel && visibleAssetIds.length > 0 && (
+            <DropdownMenuItem onClick={() => handleExport({ assetIds: visibleAssetIds })}>
+              Export {visibleLabel} only ({visibleAssetIds.length})
+            </DropdownMenuItem>
+          )}
+          {marketplace && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setPackageOpen(true)}>
+                {MARKETPLACE_PROFILES[marketplace].name} listing package…
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {marketplace && (
+        <ListingPackageDialog
+          open={packageOpen}
+          onOpenChange={setPackageOpen}
+          projectId={projectId}
+          marketplace={marketplace}
+          outputs={outputs}
+        />
+      )}
+    </>
+  )
+}
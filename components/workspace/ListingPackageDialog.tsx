@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { MARKETPLACE_PROFILES, type MarketplaceId } from '@/lib/marketplaces'
+import {
+  getListingFileName,
+  getSlotModes,
+  isValidListingIdentifier,
+  suggestListingSlots,
+  validateListingSlots,
+  type ListingSlotMapping,
+} from '@/lib/export/listing-package'
+import type { Asset } from '@/lib/db/asset-types'
+import { getModeLabel } from '@/lib/generation/modes'
+
+interface ListingPackageDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectId: string
+  marketplace: MarketplaceId
+  outputs: Asset[]
+}
+
+// Radix Select items cannot have an empty value
+const EMPTY_SLOT = 'none'
+
+/**
+ * Map outputs to listing slots and download them named for the
+ * marketplace's bulk image upload
+ */
+export function ListingPackageDialog({
+  open,
+  onOpenChange,
+  projectId,
+  marketplace,
+  outputs,
+}: ListingPackageDialogProps) {
+  const profile = MARKETPLACE_PROFILES[marketplace]
+  const [identifier, setIdentifier] = useState('')
+  const [mapping, setMapping] = useState<ListingSlotMapping>({})
+  const [loading, setLoading] = useState(false)
+
+  // Start from the suggested mapping each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setMapping(suggestListingSlots(profile, outputs))
+    }
+  }, [open, profile, outputs])
+
+  const trimmedIdentifier = identifier.trim()
+  const { errors } = validateListingSlots(profile, mapping, outputs)
+  const identifierValid = isValidListingIdentifier(trimmedIdentifier)
+
+  const setSlot = (code: string, assetId: string) => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (assetId === EMPTY_SLOT) {
+        delete next[code]
+      } else {
+        next[code] = assetId
+      }
+      return next
+    })
+  }
+
+  const handleDownload = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/export/package`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ identifier: trimmedIdentifier, marketplace, slots: mapping }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to build package')
+      }
+
+      const blob = await response.blob()
+      const downloadUrl = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = downloadUrl
+      link.download = `${trimmedIdentifier}-${marketplace}-images.zip`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(downloadUrl)
+
+      const missed = response.headers.get('X-Targets-Missed')
+      if (missed) {
+        toast.warning('Some images are over the upload size limit', {
+          description: `Slots: ${missed.split(',').join(', ')}`
+        })
+      } else {
+        toast.success('Listing package downloaded')
+      }
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Listing package error:', error)
+      toast.error('Could not build package', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{profile.name} listing package</DialogTitle>
+          <DialogDescription>
+            Choose an image for each slot. Files are named for {profile.name} bulk upload.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="listing-identifier">{profile.listingPackage.identifierLabel}</Label>
+            <Input
+              id="listing-identifier"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              disabled={loading}
+              autoFocus
+              maxLength={64}
+            />
+          </div>
+
+          <div className="space-y-2">
+            {profile.listingPackage.slots.map((slot) => {
+              const modes = getSlotModes(profile, slot)
+              const candidates = outputs.filter((output) => modes.includes(output.mode))
+
+              return (
+                <div key={slot.code} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+                  <Label className="text-xs">
+                    {slot.label}
+                    {slot.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[slot.code] ?? EMPTY_SLOT}
+                    onValueChange={(value) => setSlot(slot.code, value)}
+                    disabled={loading}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EMPTY_SLOT}>Empty</SelectItem>
+                      {candidates.map((output) => (
+                        <SelectItem key={output.id} value={output.id}>
+                          {getModeLabel(output.mode)}
+                          {output.width && output.height && ` ${output.width}×${output.height}`}
+                          {` · ${output.id.slice(0, 8)}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {mapping[slot.code] && identifierValid && (
+                    <p className="col-start-2 text-xs text-muted-foreground">
+                      {getListingFileName(profile, trimmedIdentifier, slot.code)}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={loading || !identifierValid || errors.length > 0}
+          >
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Download package
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  MARKETPLACE_IDS,
+  MARKETPLACE_PROFILES,
+  type MarketplaceId,
+} from '@/lib/marketplaces'
+
+interface MarketplaceSelectorProps {
+  marketplace: MarketplaceId
+  onMarketplaceChange: (marketplace: MarketplaceId) => void
+  disabled?: boolean
+}
+
+const BACKGROUND_LABELS = {
+  pure_white: 'Pure white (RGB 255) main image',
+  white_or_neutral: 'White or neutral main image',
+  any: 'Any main image background',
+}
+
+export function MarketplaceSelector({ marketplace, onMarketplaceChange, disabled }: MarketplaceSelectorProps) {
+  const profile = MARKETPLACE_PROFILES[marketplace]
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-2">
+        <Label htmlFor="marketplace">Marketplace</Label>
+        <Select
+          value={marketplace}
+          onValueChange={(value) => onMarketplaceChange(value as MarketplaceId)}
+          disabled={disabled}
+        >
+          <SelectTrigger id="marketplace">
+            <SelectValue placeholder="Select marketplace" />
+          </SelectTrigger>
+          <SelectContent>
+            {MARKETPLACE_IDS.map((id) => (
+              <SelectItem key={id} value={id}>
+                {MARKETPLACE_PROFILES[id].name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {BACKGROUND_LABELS[profile.mainImage.background]}
+          {profile.mainImage.minFill !== null && `, product fills ${Math.round(profile.mainImage.minFill * 100)}%`}
+          {`, ${profile.minPixels.recommended}px recommended`}
+          {profile.secondaryTextPolicy === 'forbidden' && ', no added text on any image'}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
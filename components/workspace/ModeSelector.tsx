@@ -2,42 +2,16 @@
 
 import { Card, CardContent } from '@/components/ui/card'
 import { Check } from 'lucide-react'
-
-type Mode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+import { GENERATION_MODES, GENERATION_MODE_IDS, isModeOnPlan, type GenerationMode } from '@/lib/generation/modes'
 
 interface ModeSelectorProps {
-  selectedMode: Mode
-  onModeChange: (mode: Mode) => void
+  selectedMode: GenerationMode
+  onModeChange: (mode: GenerationMode) => void
+  allowedModes?: GenerationMode[]  // Modes the selected marketplace accepts (default: all)
+  planId?: string                  // Modes outside the plan are disabled (default: no check)
 }
 
-const MODES = [
-  {
-    id: 'main_white' as Mode,
-    name: 'Main Image',
-    description: 'Clean white background, Amazon main image compliant',
-    icon: '🎯',
-  },
-  {
-    id: 'lifestyle' as Mode,
-    name: 'Lifestyle',
-    description: 'Product in real-world context and usage scenarios',
-    icon: '🏡',
-  },
-  {
-    id: 'feature_callout' as Mode,
-    name: 'Feature Callout',
-    description: 'Highlight key features with annotations',
-    icon: '⭐',
-  },
-  {
-    id: 'packaging' as Mode,
-    name: 'Packaging / In-box',
-    description: 'Professional packaging and unboxing shots',
-    icon: '📦',
-  },
-]
-
-export function ModeSelector({ selectedMode, onModeChange }: ModeSelectorProps) {
+export function ModeSelector({ selectedMode, onModeChange, allowedModes, planId }: ModeSelectorProps) {
   return (
     <Card>
       <CardContent className="p-6 space-y-3">
@@ -46,13 +20,18 @@ export function ModeSelector({ selectedMode, onModeChange }: ModeSelectorProps)
         </h3>
 
         <div role="radiogroup" aria-labelledby="mode-selector-label" className="space-y-2">
-          {MODES.map((mode) => {
+          {GENERATION_MODE_IDS.map((id) => {
+            const mode = GENERATION_MODES[id]
             const isSelected = selectedMode === mode.id
+            const onMarketplace = !allowedModes || allowedModes.includes(mode.id)
+            const onPlan = !planId || isModeOnPlan(mode.id, planId)
+            const isAllowed = onMarketplace && onPlan
             return (
               <button
                 key={mode.id}
                 role="radio"
                 aria-checked={isSelected}
+                disabled={!isAllowed}
                 onClick={() => onModeChange(mode.id)}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter' || e.key === ' ') {
@@ -64,15 +43,24 @@ export function ModeSelector({ selectedMode, onModeChange }: ModeSelectorProps)
                   isSelected
                     ? 'border-primary bg-primary/5'
                     : 'border-border hover:border-primary/50 hover:bg-muted/50'
-                }`}
+                } disabled:cursor-not-allowed disabled:opacity-50`}
               >
                 <div className="flex items-start justify-between">
                   <div className="flex items-start gap-3 flex-1">
                     <span className="text-2xl" aria-hidden="true">{mode.icon}</span>
                     <div className="flex-1">
-                      <div className="font-semibold text-sm mb-1">{mode.name}</div>
+                      <div className="flex items-baseline justify-between gap-2 mb-1">
+                        <span className="font-semibold text-sm">{mode.label}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {mode.credits} {mode.credits === 1 ? 'credit' : 'credits'}
+                        </span>
+                      </div>
                       <div className="text-xs text-muted-foreground">
-                        {mode.description}
+                        {!onMarketplace
+                          ? 'Not allowed on the selected marketplace'
+                          : !onPlan
+                            ? 'Not included in your plan'
+                            : mode.description}
                       </div>
                     </div>
                   </div>
@@ -5,113 +5,86 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Download, Loader2, RefreshCw, Sparkles, Star } from 'lucide-react'
+import { Loader2, RefreshCw, Star } from 'lucide-react'
 import Image from 'next/image'
 import type { Asset } from '@/lib/db/asset-types'
+import type { MarketplaceId } from '@/lib/marketplaces'
 import { OutputsGallerySkeleton } from './GallerySkeleton'
+import { RegenerateMenu } from './RegenerateMenu'
+import { DownloadMenu } from './DownloadMenu'
+import { ExportMenu } from './ExportMenu'
+import { ComplianceBadge } from './ComplianceBadge'
+import { EditCalloutsDialog } from './EditCalloutsDialog'
+import { GENERATION_MODES, GENERATION_MODE_IDS, getModeBadgeClassName, getModeLabel, type GenerationMode } from '@/lib/generation/modes'
 
 interface OutputsGalleryProps {
   outputs: Asset[]
   onRefresh: () => void
-  onCreateVariation: (assetId: string) => void
+  onRegenerate: (assetId: string) => void
+  onEditAndRegenerate: (assetId: string) => void
+  onUpscale?: (assetId: string, targetSize: number) => void
+  upscaleCredits?: number
+  projectId?: string              // Enables the ZIP export menu
+  marketplace?: MarketplaceId     // Enables the listing package export
 }
 
-type TabMode = 'all' | 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+type TabMode = GenerationMode | 'all'
 
-const MODE_TABS = [
-  { id: 'all' as TabMode, label: 'All', icon: '🎨' },
-  { id: 'main_white' as TabMode, label: 'Main', icon: '🎯' },
-  { id: 'lifestyle' as TabMode, label: 'Lifestyle', icon: '🏡' },
-  { id: 'feature_callout' as TabMode, label: 'Feature', icon: '⭐' },
-  { id: 'packaging' as TabMode, label: 'Packaging', icon: '📦' },
+const MODE_TABS: { id: TabMode; label: string; icon: string }[] = [
+  { id: 'all', label: 'All', icon: '🎨' },
+  ...GENERATION_MODE_IDS.map((id) => ({ id, label: GENERATION_MODES[id].shortLabel, icon: GENERATION_MODES[id].icon })),
 ]
 
-export function OutputsGallery({ outputs, onRefresh, onCreateVariation }: OutputsGalleryProps) {
+export function OutputsGallery({
+  outputs,
+  onRefresh,
+  onRegenerate,
+  onEditAndRegenerate,
+  onUpscale,
+  upscaleCredits,
+  projectId,
+  marketplace,
+}: OutputsGalleryProps) {
   const [activeTab, setActiveTab] = useState<TabMode>('all')
   const [signedUrls, setSignedUrls] = useState<Record<string, string>>({})
   const [loading, setLoading] = useState(true)
-  const [loadingUrls, setLoadingUrls] = useState<Set<string>>(new Set())
 
   useEffect(() => {
-    fetchSignedUrls()
-  }, [outputs])
-
-  const fetchSignedUrls = async () => {
-    setLoading(true)
-    const urls: Record<string, string> = {}
-
-    for (const asset of outputs) {
-      try {
-        const response = await fetch('/api/assets/signed-url', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ assetId: asset.id }),
-        })
-
-        if (response.ok) {
-          const data = await response.json()
-          urls[asset.id] = data.url
+    let active = true
+
+    // Cards without a URL yet show a spinner until this finishes
+    const fetchSignedUrls = async () => {
+      const urls: Record<string, string> = {}
+
+      for (const asset of outputs) {
+        try {
+          const response = await fetch('/api/assets/signed-url', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ assetId: asset.id }),
+          })
+
+          if (response.ok) {
+            const data = await response.json()
+            urls[asset.id] = data.url
+          }
+        } catch (error) {
+          console.error(`Error fetching signed URL for asset ${asset.id}:`, error)
         }
-      } catch (error) {
-        console.error(`Error fetching signed URL for asset ${asset.id}:`, error)
       }
-    }
 
-    setSignedUrls(urls)
-    setLoading(false)
-  }
-
-  const handleDownload = async (asset: Asset) => {
-    const url = signedUrls[asset.id]
-    if (!url) return
-
-    setLoadingUrls(prev => new Set(prev).add(`download-${asset.id}`))
-
-    try {
-      const response = await fetch(url)
-      const blob = await response.blob()
-      const downloadUrl = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = downloadUrl
-      link.download = `commercepix-${asset.mode}-${asset.id}.png`
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(downloadUrl)
-    } catch (error) {
-      console.error('Download error:', error)
-    } finally {
-      setLoadingUrls(prev => {
-        const next = new Set(prev)
-        next.delete(`download-${asset.id}`)
-        return next
-      })
+      if (active) {
+        setSignedUrls(urls)
+        setLoading(false)
+      }
     }
-  }
 
-  const handleCreateVariation = (assetId: string) => {
-    onCreateVariation(assetId)
-  }
-
-  const getModeLabel = (mode: string) => {
-    const labels: Record<string, string> = {
-      main_white: 'Main',
-      lifestyle: 'Lifestyle',
-      feature_callout: 'Feature',
-      packaging: 'Packaging',
-    }
-    return labels[mode] || mode
-  }
+    fetchSignedUrls()
 
-  const getModeColor = (mode: string) => {
-    const colors: Record<string, string> = {
-      main_white: 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-200',
-      lifestyle: 'bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-200',
-      feature_callout: 'bg-purple-100 text-purple-700 dark:bg-purple-950 dark:text-purple-200',
-      packaging: 'bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-200',
+    return () => {
+      active = false
     }
-    return colors[mode] || 'bg-gray-100 text-gray-700'
-  }
+  }, [outputs])
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
@@ -143,9 +116,20 @@ export function OutputsGallery({ outputs, onRefresh, onCreateVariation }: Output
       <CardContent className="p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-sm font-semibold">Generated Images</h3>
-          <Button variant="ghost" size="sm" onClick={onRefresh}>
-            <RefreshCw className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            {projectId && outputs.length > 0 && (
+              <ExportMenu
+                projectId={projectId}
+                outputs={outputs}
+                visibleAssetIds={filteredOutputs.map((output) => output.id)}
+                visibleLabel={activeTab === 'all' ? undefined : MODE_TABS.find((tab) => tab.id === activeTab)?.label}
+                marketplace={marketplace}
+              />
+            )}
+            <Button variant="ghost" size="sm" onClick={onRefresh}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as TabMode)}>
@@ -189,6 +173,13 @@ export function OutputsGallery({ outputs, onRefresh, onCreateVariation }: Output
                       </div>
                     )}
 
+                    {/* Compliance result */}
+                    {output.compliance_report && (
+                      <div className="absolute top-2 left-2">
+                        <ComplianceBadge report={output.compliance_report} />
+                      </div>
+                    )}
+
                     {/* Use as Main Image Tag */}
                     {output.mode === 'main_white' && (
                       <div className="absolute top-2 right-2">
@@ -203,38 +194,32 @@ export function OutputsGallery({ outputs, onRefresh, onCreateVariation }: Output
                   {/* Metadata and Actions */}
                   <CardContent className="p-3 space-y-3">
                     <div className="flex items-center justify-between">
-                      <Badge className={getModeColor(output.mode || '')} variant="secondary">
+                      <Badge className={getModeBadgeClassName(output.mode || '')} variant="secondary">
                         {getModeLabel(output.mode || '')}
                       </Badge>
                       <span className="text-xs text-muted-foreground">
+                        {output.width && output.height && `${output.width}×${output.height} · `}
                         {formatDate(output.created_at)}
                       </span>
                     </div>
 
                     <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDownload(output)}
-                        disabled={!signedUrls[output.id] || loadingUrls.has(`download-${output.id}`)}
-                        className="flex-1"
-                      >
-                        {loadingUrls.has(`download-${output.id}`) ? (
-                          <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
-                        ) : (
-                          <Download className="h-3 w-3 mr-1.5" />
-                        )}
-                        Download
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleCreateVariation(output.id)}
-                        className="flex-1"
-                      >
-                        <Sparkles className="h-3 w-3 mr-1.5" />
-                        Variation
-                      </Button>
+                      <DownloadMenu asset={output} />
+                      <RegenerateMenu
+                        assetId={output.id}
+                        onRegenerate={onRegenerate}
+                        onEditAndRegenerate={onEditAndRegenerate}
+                        onUpscale={onUpscale}
+                        longestSide={output.width && output.height ? Math.max(output.width, output.height) : null}
+                        upscaleCredits={upscaleCredits}
+                      />
+                      {output.callout_layer && (
+                        <EditCalloutsDialog
+                          asset={{ ...output, callout_layer: output.callout_layer }}
+                          imageUrl={signedUrls[output.id]}
+                          onSaved={onRefresh}
+                        />
+                      )}
                     </div>
                   </CardContent>
                 </Card>
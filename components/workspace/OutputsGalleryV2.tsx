@@ -5,24 +5,32 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Download, Loader2, RefreshCw, Sparkles, Star } from 'lucide-react'
+import { RefreshCw, Star } from 'lucide-react'
 import { AssetImage } from '@/components/AssetImage'
 import type { Asset } from '@/lib/db/asset-types'
+import type { MarketplaceId } from '@/lib/marketplaces'
+import { RegenerateMenu } from './RegenerateMenu'
+import { DownloadMenu } from './DownloadMenu'
+import { ExportMenu } from './ExportMenu'
+import { ComplianceBadge } from './ComplianceBadge'
+import { GENERATION_MODES, GENERATION_MODE_IDS, getModeBadgeClassName, getModeLabel, type GenerationMode } from '@/lib/generation/modes'
 
 interface OutputsGalleryV2Props {
   outputs: Asset[]
   onRefresh: () => void
-  onCreateVariation: (assetId: string) => void
+  onRegenerate: (assetId: string) => void
+  onEditAndRegenerate: (assetId: string) => void
+  onUpscale?: (assetId: string, targetSize: number) => void
+  upscaleCredits?: number
+  projectId?: string              // Enables the ZIP export menu
+  marketplace?: MarketplaceId     // Enables the listing package export
 }
 
-type TabMode = 'all' | 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+type TabMode = GenerationMode | 'all'
 
-const MODE_TABS = [
-  { id: 'all' as TabMode, label: 'All', icon: '🎨' },
-  { id: 'main_white' as TabMode, label: 'Main', icon: '🎯' },
-  { id: 'lifestyle' as TabMode, label: 'Lifestyle', icon: '🏡' },
-  { id: 'feature_callout' as TabMode, label: 'Feature', icon: '⭐' },
-  { id: 'packaging' as TabMode, label: 'Packaging', icon: '📦' },
+const MODE_TABS: { id: TabMode; label: string; icon: string }[] = [
+  { id: 'all', label: 'All', icon: '🎨' },
+  ...GENERATION_MODE_IDS.map((id) => ({ id, label: GENERATION_MODES[id].shortLabel, icon: GENERATION_MODES[id].icon })),
 ]
 
 /**
@@ -30,35 +38,17 @@ const MODE_TABS = [
  */
 function OutputCard({
   output,
-  onDownload,
-  onCreateVariation,
+  onRegenerate,
+  onEditAndRegenerate,
+  onUpscale,
+  upscaleCredits,
 }: {
   output: Asset
-  onDownload: (asset: Asset) => void
-  onCreateVariation: (assetId: string) => void
+  onRegenerate: (assetId: string) => void
+  onEditAndRegenerate: (assetId: string) => void
+  onUpscale?: (assetId: string, targetSize: number) => void
+  upscaleCredits?: number
 }) {
-  const [downloading, setDownloading] = useState(false)
-
-  const getModeLabel = (mode: string) => {
-    const labels: Record<string, string> = {
-      main_white: 'Main',
-      lifestyle: 'Lifestyle',
-      feature_callout: 'Feature',
-      packaging: 'Packaging',
-    }
-    return labels[mode] || mode
-  }
-
-  const getModeColor = (mode: string) => {
-    const colors: Record<string, string> = {
-      main_white: 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-200',
-      lifestyle: 'bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-200',
-      feature_callout: 'bg-purple-100 text-purple-700 dark:bg-purple-950 dark:text-purple-200',
-      packaging: 'bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-200',
-    }
-    return colors[mode] || 'bg-gray-100 text-gray-700'
-  }
-
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     const now = new Date()
@@ -77,15 +67,6 @@ function OutputCard({
     })
   }
 
-  const handleDownload = async () => {
-    setDownloading(true)
-    try {
-      await onDownload(output)
-    } finally {
-      setDownloading(false)
-    }
-  }
-
   return (
     <Card className="overflow-hidden group hover:shadow-lg transition-shadow">
       {/* Image with automatic signed URL fetching */}
@@ -98,6 +79,13 @@ function OutputCard({
           className="object-cover"
         />
 
+        {/* Compliance result */}
+        {output.compliance_report && (
+          <div className="absolute top-2 left-2">
+            <ComplianceBadge report={output.compliance_report} />
+          </div>
+        )}
+
         {/* Use as Main Image Tag */}
         {output.mode === 'main_white' && (
           <div className="absolute top-2 right-2">
@@ -112,38 +100,25 @@ function OutputCard({
       {/* Metadata and Actions */}
       <CardContent className="p-3 space-y-3">
         <div className="flex items-center justify-between">
-          <Badge className={getModeColor(output.mode || '')} variant="secondary">
+          <Badge className={getModeBadgeClassName(output.mode || '')} variant="secondary">
             {getModeLabel(output.mode || '')}
           </Badge>
           <span className="text-xs text-muted-foreground">
+            {output.width && output.height && `${output.width}×${output.height} · `}
             {formatDate(output.created_at)}
           </span>
         </div>
 
         <div className="flex gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleDownload}
-            disabled={downloading}
-            className="flex-1"
-          >
-            {downloading ? (
-              <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
-            ) : (
-              <Download className="h-3 w-3 mr-1.5" />
-            )}
-            Download
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onCreateVariation(output.id)}
-            className="flex-1"
-          >
-            <Sparkles className="h-3 w-3 mr-1.5" />
-            Variation
-          </Button>
+          <DownloadMenu asset={output} />
+          <RegenerateMenu
+            assetId={output.id}
+            onRegenerate={onRegenerate}
+            onEditAndRegenerate={onEditAndRegenerate}
+            onUpscale={onUpscale}
+            longestSide={output.width && output.height ? Math.max(output.width, output.height) : null}
+            upscaleCredits={upscaleCredits}
+          />
         </div>
       </CardContent>
     </Card>
@@ -154,37 +129,18 @@ function OutputCard({
  * Outputs gallery with automatic signed URL management
  * Uses the new useSignedAssetUrl hook internally via AssetImage component
  */
-export function OutputsGalleryV2({ outputs, onRefresh, onCreateVariation }: OutputsGalleryV2Props) {
+export function OutputsGalleryV2({
+  outputs,
+  onRefresh,
+  onRegenerate,
+  onEditAndRegenerate,
+  onUpscale,
+  upscaleCredits,
+  projectId,
+  marketplace,
+}: OutputsGalleryV2Props) {
   const [activeTab, setActiveTab] = useState<TabMode>('all')
 
-  const handleDownload = async (asset: Asset) => {
-    try {
-      // Fetch fresh signed URL for download
-      const response = await fetch(`/api/assets/${asset.id}/signed-url`)
-      
-      if (!response.ok) {
-        throw new Error('Failed to get download URL')
-      }
-
-      const data = await response.json()
-      const url = data.signedUrl
-
-      // Download the file
-      const fileResponse = await fetch(url)
-      const blob = await fileResponse.blob()
-      const downloadUrl = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = downloadUrl
-      link.download = `commercepix-${asset.mode}-${asset.id}.png`
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(downloadUrl)
-    } catch (error) {
-      console.error('Download error:', error)
-    }
-  }
-
   const getFilteredOutputs = () => {
     if (activeTab === 'all') return outputs
     return outputs.filter(output => output.mode === activeTab)
@@ -197,9 +153,20 @@ export function OutputsGalleryV2({ outputs, onRefresh, onCreateVariation }: Outp
       <CardContent className="p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-sm font-semibold">Generated Images</h3>
-          <Button variant="ghost" size="sm" onClick={onRefresh}>
-            <RefreshCw className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            {projectId && outputs.length > 0 && (
+              <ExportMenu
+                projectId={projectId}
+                outputs={outputs}
+                visibleAssetIds={filteredOutputs.map((output) => output.id)}
+                visibleLabel={activeTab === 'all' ? undefined : MODE_TABS.find((tab) => tab.id === activeTab)?.label}
+                marketplace={marketplace}
+              />
+            )}
+            <Button variant="ghost" size="sm" onClick={onRefresh}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as TabMode)}>
@@ -227,8 +194,10 @@ export function OutputsGalleryV2({ outputs, onRefresh, onCreateVariation }: Outp
                 <OutputCard
                   key={output.id}
                   output={output}
-                  onDownload={handleDownload}
-                  onCreateVariation={onCreateVariation}
+                  onRegenerate={onRegenerate}
+                  onEditAndRegenerate={onEditAndRegenerate}
+                  onUpscale={onUpscale}
+                  upscaleCredits={upscaleCredits}
                 />
               ))}
             </div>
@@ -11,6 +11,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { BRAND_TONES } from '@/lib/brand-kits'
 
 interface ProductFieldsProps {
   category: string
@@ -21,15 +22,6 @@ interface ProductFieldsProps {
   onNotesChange: (value: string) => void
 }
 
-const BRAND_TONES = [
-  { value: 'professional', label: 'Professional' },
-  { value: 'luxury', label: 'Luxury' },
-  { value: 'casual', label: 'Casual' },
-  { value: 'playful', label: 'Playful' },
-  { value: 'minimal', label: 'Minimal' },
-  { value: 'bold', label: 'Bold' },
-]
-
 export function ProductFields({
   category,
   onCategoryChange,
@@ -1,40 +1,168 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
-import { Wand2, Loader2 } from 'lucide-react'
+import { Wand2, Loader2, LayoutGrid, Pencil } from 'lucide-react'
 import { toast } from 'sonner'
 import { UploadWidget } from './UploadWidget'
 import { ProductFields } from './ProductFields'
 import { ModeSelector } from './ModeSelector'
+import { MarketplaceSelector } from './MarketplaceSelector'
+import { BrandKitSelector } from './BrandKitSelector'
+import { CalloutFields } from './CalloutFields'
+import { ComparisonFields } from './ComparisonFields'
+import { DimensionFields, type DimensionFieldValues } from './DimensionFields'
+import { BundleFields } from './BundleFields'
 import { OutputsGallery } from './OutputsGallery'
+import { VariantPicker } from './VariantPicker'
 import GenerationProgress from '../GenerationProgress'
+import BatchGenerationProgress from '../BatchGenerationProgress'
 import { UpgradeModal } from '../billing/UpgradeModal'
+import { getBatchJobCount, getListingSetItems } from '@/lib/generation/batch'
+import { MAX_VARIANTS } from '@/lib/generation/variants'
+import { DEFAULT_CALLOUT_LAYOUT, type Callout, type CalloutLayoutId } from '@/lib/generation/callouts'
+import { COMPARISON_COLUMNS, MIN_COMPARISON_ROWS, type ComparisonRow } from '@/lib/generation/infographic'
+import { DEFAULT_UNIT_SYSTEM, type ProductDimensions, type ScaleReferenceId } from '@/lib/generation/dimensions'
+import { DEFAULT_BUNDLE_LAYOUT, MAX_BUNDLE_ITEMS, MIN_BUNDLE_ITEMS, type BundleLayoutId } from '@/lib/generation/bundle'
+import { MARKETPLACE_PROFILES, isModeAllowed, type MarketplaceId } from '@/lib/marketplaces'
+import { DEFAULT_GENERATION_MODE, type GenerationMode } from '@/lib/generation/modes'
+import { setProjectBrandKitAction, setProjectMarketplaceAction } from '@/app/actions/projects'
 import type { Asset } from '@/lib/db/asset-types'
+import type { BrandKit } from '@/lib/db/brand-kit-types'
+import type { GenerationParams } from '@/lib/db/job-types'
 
-type Mode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+// Body of POST /api/generate (projectId is added by startGeneration)
+interface GenerateRequest {
+  inputAssetId: string
+  inputAssetIds?: string[]
+  mode: GenerationMode
+  productCategory?: string
+  brandTone?: string
+  productDescription?: string
+  constraints?: string[]
+  callouts?: Callout[]
+  calloutLayout?: CalloutLayoutId
+  comparisonRows?: ComparisonRow[]
+  chartTitle?: string
+  dimensions?: ProductDimensions
+  scaleReference?: ScaleReferenceId
+  bundleLayout?: BundleLayoutId
+  promptVersion?: string
+  variants: number
+  parentAssetId?: string
+  marketplace: MarketplaceId
+  brandKitId: string | null
+}
 
 interface ProjectWorkspaceProps {
   projectId: string
+  initialMarketplace: MarketplaceId  // The project's marketplace profile
+  brandKits: BrandKit[]              // The user's brand kits
+  initialBrandKitId: string | null   // The project's brand kit
   initialOutputs: Asset[]
+  initialVariantJobIds?: string[]  // Jobs whose variants are waiting to be picked
+  upscaleCredits?: number  // Plan price of one upscale
+  planId: string           // The user's plan (some modes need a higher one)
 }
 
-export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspaceProps) {
+export function ProjectWorkspace({
+  projectId,
+  initialMarketplace,
+  brandKits,
+  initialBrandKitId,
+  initialOutputs,
+  initialVariantJobIds = [],
+  upscaleCredits,
+  planId,
+}: ProjectWorkspaceProps) {
   // Upload state
   const [uploadedAssetId, setUploadedAssetId] = useState<string | null>(null)
 
   // Product fields state
   const [category, setCategory] = useState('')
-  const [brandTone, setBrandTone] = useState('professional')
+  const [brandTone, setBrandTone] = useState<string>(
+    () => brandKits.find((kit) => kit.id === initialBrandKitId)?.tone || 'professional'
+  )
   const [notes, setNotes] = useState('')
 
+  // Brand kit (saved as the project's kit when changed)
+  const [brandKitId, setBrandKitId] = useState<string | null>(initialBrandKitId)
+
+  // Marketplace profile (saved as the project's default when changed)
+  const [marketplace, setMarketplace] = useState<MarketplaceId>(initialMarketplace)
+  const profile = MARKETPLACE_PROFILES[marketplace]
+  const listingSetItems = getListingSetItems(profile, planId)
+
   // Mode state
-  const [selectedMode, setSelectedMode] = useState<Mode>('main_white')
+  const [selectedMode, setSelectedMode] = useState<GenerationMode>(DEFAULT_GENERATION_MODE)
+
+  // Feature callout text, composited onto the image instead of drawn by the model
+  const [callouts, setCallouts] = useState<Callout[]>([])
+  const [calloutLayout, setCalloutLayout] = useState<CalloutLayoutId>(DEFAULT_CALLOUT_LAYOUT)
+  const filledCallouts = callouts.filter((callout) => callout.headline.trim())
+  const calloutInputs = filledCallouts.length > 0
+    ? { callouts: filledCallouts, calloutLayout }
+    : {}
+
+  // Comparison chart rows, composited around the product
+  const emptyRows = (): ComparisonRow[] =>
+    Array.from({ length: MIN_COMPARISON_ROWS }, () => ({ feature: '', ours: '', competitor: '' }))
+  const [comparisonRows, setComparisonRows] = useState<ComparisonRow[]>(emptyRows)
+  const [chartTitle, setChartTitle] = useState('')
+  const filledRows = comparisonRows.filter((row) => row.feature.trim())
+  const chartInputs = {
+    comparisonRows: filledRows,
+    chartTitle: chartTitle.trim() || undefined,
+  }
+
+  // Measurements drawn around the product (dimensions mode)
+  const emptyDimensions = (): DimensionFieldValues =>
+    ({ unitSystem: DEFAULT_UNIT_SYSTEM, width: '', height: '', depth: '', weight: '' })
+  const [dimensionValues, setDimensionValues] = useState<DimensionFieldValues>(emptyDimensions)
+  const [scaleReference, setScaleReference] = useState<ScaleReferenceId | null>(null)
+  const toMeasurement = (value: string) => (value.trim() ? Number(value) : undefined)
+  const dimensionInputs = {
+    dimensions: {
+      unitSystem: dimensionValues.unitSystem,
+      width: Number(dimensionValues.width),
+      height: Number(dimensionValues.height),
+      depth: toMeasurement(dimensionValues.depth),
+      weight: toMeasurement(dimensionValues.weight),
+    },
+    scaleReference: scaleReference ?? undefined,
+  }
+
+  // Products shown together (bundle mode), in layout order
+  const [bundleAssetIds, setBundleAssetIds] = useState<string[]>([])
+  const [bundleLayout, setBundleLayout] = useState<BundleLayoutId>(DEFAULT_BUNDLE_LAYOUT)
+  const bundleInputs = { inputAssetIds: bundleAssetIds, bundleLayout }
+  const hasInputs = selectedMode === 'bundle'
+    ? bundleAssetIds.length >= MIN_BUNDLE_ITEMS
+    : !!uploadedAssetId
+
+  // New uploads join the bundle until it is full
+  const handleUploadComplete = (assetId: string) => {
+    setUploadedAssetId(assetId)
+    setBundleAssetIds((prev) =>
+      prev.includes(assetId) || prev.length >= MAX_BUNDLE_ITEMS ? prev : [...prev, assetId]
+    )
+  }
+
+  // Variants requested per generation
+  const [variantCount, setVariantCount] = useState(1)
+
+  // Output being edited and regenerated (its settings prefill the form)
+  const [regenerateFrom, setRegenerateFrom] = useState<GenerationParams | null>(null)
 
   // Generation state
   const [generating, setGenerating] = useState(false)
   const [currentJobId, setCurrentJobId] = useState<string | null>(null)
+  const [currentBatchId, setCurrentBatchId] = useState<string | null>(null)
+  const [currentJobVariants, setCurrentJobVariants] = useState(1)
+
+  // Variant sets waiting for the user to pick
+  const [variantJobIds, setVariantJobIds] = useState<string[]>(initialVariantJobIds)
 
   // Outputs state
   const [outputs, setOutputs] = useState<Asset[]>(initialOutputs)
@@ -43,7 +171,7 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
   // Upgrade modal state
   const [showUpgradeModal, setShowUpgradeModal] = useState(false)
 
-  const loadOutputs = async () => {
+  const loadOutputs = useCallback(async () => {
     setLoadingOutputs(true)
     try {
       const response = await fetch(`/api/projects/${projectId}/outputs`)
@@ -56,9 +184,301 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
     } finally {
       setLoadingOutputs(false)
     }
+  }, [projectId])
+
+  // Queue one generation job (POST /api/generate)
+  const startGeneration = async (request: GenerateRequest) => {
+    setGenerating(true)
+
+    try {
+      const response = await fetch('/api/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId, ...request }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setCurrentJobId(data.jobId)
+        setCurrentJobVariants(request.variants)
+        toast.success(request.parentAssetId ? 'Regeneration started!' : 'Generation started!', {
+          description: request.variants > 1
+            ? `${request.variants} variants are being created`
+            : 'Your AI image is being created'
+        })
+        return true
+      }
+
+      setGenerating(false)
+
+      if (response.status === 402) {
+        // No credits
+        if (request.variants > 1) {
+          toast.error('Not enough credits', {
+            description: data.message
+          })
+        }
+        setShowUpgradeModal(true)
+      } else if (response.status === 429) {
+        toast.error('Rate limit exceeded', {
+          description: data.message
+        })
+      } else {
+        toast.error('Generation failed', {
+          description: data.error || 'Please try again'
+        })
+      }
+    } catch (error) {
+      setGenerating(false)
+      console.error('Generation error:', error)
+      toast.error('Generation failed', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    }
+
+    return false
   }
 
   const handleGenerate = async () => {
+    const inputAssetId = selectedMode === 'bundle' ? bundleAssetIds[0] : uploadedAssetId
+
+    if (selectedMode === 'bundle' && bundleAssetIds.length < MIN_BUNDLE_ITEMS) {
+      toast.error('Not enough products', {
+        description: `Select at least ${MIN_BUNDLE_ITEMS} product photos for the bundle`
+      })
+      return
+    }
+
+    if (!inputAssetId) {
+      toast.error('No product photo', {
+        description: 'Please upload a product photo first'
+      })
+      return
+    }
+
+    if (selectedMode === 'infographic' && filledRows.length < MIN_COMPARISON_ROWS) {
+      toast.error('Not enough rows', {
+        description: `Fill in at least ${MIN_COMPARISON_ROWS} comparison rows`
+      })
+      return
+    }
+
+    if (selectedMode === 'dimensions' && (!dimensionValues.width.trim() || !dimensionValues.height.trim())) {
+      toast.error('Missing dimensions', {
+        description: 'Enter at least the width and height of the product'
+      })
+      return
+    }
+
+    const started = await startGeneration({
+      inputAssetId,
+      mode: selectedMode,
+      productCategory: category || undefined,
+      brandTone: brandTone || undefined,
+      productDescription: notes || undefined,
+      constraints: regenerateFrom?.inputs.constraints,
+      ...(selectedMode === 'feature_callout' ? calloutInputs : {}),
+      ...(selectedMode === 'infographic' ? chartInputs : {}),
+      ...(selectedMode === 'dimensions' ? dimensionInputs : {}),
+      ...(selectedMode === 'bundle' ? bundleInputs : {}),
+      promptVersion: regenerateFrom?.promptVersion,
+      variants: variantCount,
+      parentAssetId: regenerateFrom?.assetId,
+      marketplace,
+      brandKitId,
+    })
+
+    if (started) {
+      setRegenerateFrom(null)
+    }
+  }
+
+  // Load the parameters an output was generated with
+  const fetchGenerationParams = async (assetId: string): Promise<GenerationParams | null> => {
+    try {
+      const response = await fetch(`/api/assets/${assetId}/generation-params`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load generation settings')
+      }
+
+      return data.params
+    } catch (error) {
+      console.error('Error loading generation params:', error)
+      toast.error('Could not load image settings', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+      return null
+    }
+  }
+
+  // Re-run an output with the same settings
+  const handleRegenerate = async (assetId: string) => {
+    if (generating) {
+      return
+    }
+
+    const params = await fetchGenerationParams(assetId)
+
+    if (!params) {
+      return
+    }
+
+    if (!params.inputAssetId) {
+      toast.error('Original photo not found', {
+        description: 'Upload the product photo again and use Edit and regenerate'
+      })
+      return
+    }
+
+    await startGeneration({
+      inputAssetId: params.inputAssetId,
+      inputAssetIds: params.inputAssetIds ?? undefined,
+      mode: params.mode as GenerationMode,
+      ...params.inputs,
+      promptVersion: params.promptVersion,
+      variants: 1,
+      parentAssetId: params.assetId,
+      marketplace: params.marketplace,
+      brandKitId: params.brandKitId,
+    })
+  }
+
+  // Prefill the workspace from an output so its settings can be tweaked first
+  const handleEditAndRegenerate = async (assetId: string) => {
+    const params = await fetchGenerationParams(assetId)
+
+    if (!params) {
+      return
+    }
+
+    setSelectedMode(params.mode as GenerationMode)
+    setCategory(params.inputs.productCategory || '')
+    setBrandTone(params.inputs.brandTone || 'professional')
+    setNotes(params.inputs.productDescription || '')
+    setCallouts(params.inputs.callouts || [])
+    setCalloutLayout(params.inputs.calloutLayout || DEFAULT_CALLOUT_LAYOUT)
+    setComparisonRows(params.inputs.comparisonRows || emptyRows())
+    setChartTitle(params.inputs.chartTitle || '')
+    const { dimensions } = params.inputs
+    setDimensionValues(dimensions
+      ? {
+          unitSystem: dimensions.unitSystem,
+          width: String(dimensions.width),
+          height: String(dimensions.height),
+          depth: dimensions.depth ? String(dimensions.depth) : '',
+          weight: dimensions.weight ? String(dimensions.weight) : '',
+        }
+      : emptyDimensions())
+    setScaleReference(params.inputs.scaleReference ?? null)
+    setBundleAssetIds(params.inputAssetIds ?? [])
+    setBundleLayout(params.inputs.bundleLayout || DEFAULT_BUNDLE_LAYOUT)
+    if (params.inputAssetId) {
+      setUploadedAssetId(params.inputAssetId)
+    }
+    setRegenerateFrom(params)
+
+    toast.info('Settings loaded', {
+      description: params.inputAssetId
+        ? 'Adjust them and click Generate to create a new version'
+        : 'Upload the product photo again, then click Generate'
+    })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  // Queue a high-resolution copy of an output (POST /api/assets/[id]/upscale)
+  const handleUpscale = async (assetId: string, targetSize: number) => {
+    if (generating) {
+      return
+    }
+
+    setGenerating(true)
+
+    try {
+      const response = await fetch(`/api/assets/${assetId}/upscale`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetSize, marketplace }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setCurrentJobId(data.jobId)
+        setCurrentJobVariants(1)
+        toast.success('Upscale started!', {
+          description: `A ${targetSize}px copy is being created`
+        })
+        return
+      }
+
+      setGenerating(false)
+
+      if (response.status === 402) {
+        toast.error('Not enough credits', {
+          description: data.message
+        })
+        setShowUpgradeModal(true)
+      } else if (response.status === 409) {
+        toast.info('Already upscaled', {
+          description: data.error
+        })
+      } else {
+        toast.error('Upscale failed', {
+          description: data.error || 'Please try again'
+        })
+      }
+    } catch (error) {
+      setGenerating(false)
+      console.error('Upscale error:', error)
+      toast.error('Upscale failed', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    }
+  }
+
+  const handleMarketplaceChange = async (next: MarketplaceId) => {
+    const previous = marketplace
+    setMarketplace(next)
+
+    // Modes the new marketplace does not accept fall back to the main image
+    if (!isModeAllowed(MARKETPLACE_PROFILES[next], selectedMode)) {
+      setSelectedMode(DEFAULT_GENERATION_MODE)
+    }
+
+    const result = await setProjectMarketplaceAction(projectId, next)
+
+    if (!result.success) {
+      setMarketplace(previous)
+      toast.error('Could not change marketplace', {
+        description: result.error || 'Please try again'
+      })
+    }
+  }
+
+  const handleBrandKitChange = async (next: string | null) => {
+    const previous = brandKitId
+    setBrandKitId(next)
+
+    // The kit's tone becomes the starting point; the field still wins
+    const tone = brandKits.find((kit) => kit.id === next)?.tone
+    if (tone) {
+      setBrandTone(tone)
+    }
+
+    const result = await setProjectBrandKitAction(projectId, next)
+
+    if (!result.success) {
+      setBrandKitId(previous)
+      toast.error('Could not change brand kit', {
+        description: result.error || 'Please try again'
+      })
+    }
+  }
+
+  const handleGenerateListingSet = async () => {
     if (!uploadedAssetId) {
       toast.error('No product photo', {
         description: 'Please upload a product photo first'
@@ -69,30 +489,39 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
     setGenerating(true)
 
     try {
-      const response = await fetch('/api/generate', {
+      const response = await fetch('/api/generate/batch', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          projectId,
           inputAssetId: uploadedAssetId,
-          mode: selectedMode,
-          productCategory: category || undefined,
-          brandTone: brandTone || undefined,
-          productDescription: notes || undefined,
+          items: listingSetItems.map((item) =>
+            item.mode === 'feature_callout' ? { ...item, inputs: { ...item.inputs, ...calloutInputs } } : item
+          ),
+          marketplace,
+          brandKitId,
+          inputs: {
+            productCategory: category || undefined,
+            brandTone: brandTone || undefined,
+            productDescription: notes || undefined,
+          },
         }),
       })
 
       const data = await response.json()
 
       if (response.ok) {
-        setCurrentJobId(data.job.id)
-        toast.success('Generation started!', {
-          description: 'Your AI image is being created'
+        setCurrentBatchId(data.batchId)
+        toast.success('Listing set started!', {
+          description: `${data.totalJobs} images are being created`
         })
       } else {
         setGenerating(false)
-        
+
         if (response.status === 402) {
-          // No credits
+          toast.error('Not enough credits', {
+            description: data.message
+          })
           setShowUpgradeModal(true)
         } else if (response.status === 429) {
           toast.error('Rate limit exceeded', {
@@ -106,41 +535,61 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
       }
     } catch (error) {
       setGenerating(false)
-      console.error('Generation error:', error)
+      console.error('Batch generation error:', error)
       toast.error('Generation failed', {
         description: error instanceof Error ? error.message : 'Please try again'
       })
     }
   }
 
+  const handleBatchComplete = useCallback(() => {
+    setGenerating(false)
+  }, [])
+
+  const handleDismissBatch = () => {
+    setGenerating(false)
+    setCurrentBatchId(null)
+  }
+
   const handleGenerationComplete = async () => {
     setGenerating(false)
     setCurrentJobId(null)
+
+    // Variant sets go to the picker first; kept ones join the gallery
+    if (currentJobId && currentJobVariants > 1) {
+      const jobId = currentJobId
+      setVariantJobIds((prev) => (prev.includes(jobId) ? prev : [jobId, ...prev]))
+      toast.success('Variants ready!', {
+        description: 'Pick the ones you want to keep'
+      })
+      return
+    }
+
     await loadOutputs()
     toast.success('Image generated!', {
       description: 'Your new image is ready'
     })
   }
 
+  const handleVariantsSelected = useCallback((jobId: string) => {
+    setVariantJobIds((prev) => prev.filter((id) => id !== jobId))
+    loadOutputs()
+  }, [loadOutputs])
+
   const handleDismissProgress = () => {
     setGenerating(false)
     setCurrentJobId(null)
   }
 
-  const handleCreateVariation = (assetId: string) => {
-    toast.info('Create variation', {
-      description: 'This feature will use the same settings to create a variation'
-    })
-    // TODO: Implement variation logic
-  }
-
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Left Column */}
       <div className="space-y-6">
         <UploadWidget
           projectId={projectId}
-          onUploadComplete={(assetId) => setUploadedAssetId(assetId)}
+          onUploadComplete={handleUploadComplete}
+          selectedAssetId={uploadedAssetId}
+          onRemove={() => setUploadedAssetId(null)}
         />
 
         <ProductFields
@@ -152,10 +601,112 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
           onNotesChange={setNotes}
         />
 
+        <MarketplaceSelector
+          marketplace={marketplace}
+          onMarketplaceChange={handleMarketplaceChange}
+          disabled={generating}
+        />
+
+        <BrandKitSelector
+          brandKits={brandKits}
+          brandKitId={brandKitId}
+          onBrandKitChange={handleBrandKitChange}
+          disabled={generating}
+        />
+
         <ModeSelector
           selectedMode={selectedMode}
           onModeChange={setSelectedMode}
+          allowedModes={profile.allowedModes}
+          planId={planId}
         />
+
+        {selectedMode === 'feature_callout' && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="space-y-1">
+                <h3 className="text-sm font-semibold">Feature Callouts</h3>
+                <p className="text-xs text-muted-foreground">
+                  Callouts are set in clean type on the generated image and can be edited later
+                  for free. Leave empty to let the AI draw the text.
+                </p>
+              </div>
+              <CalloutFields
+                callouts={callouts}
+                onCalloutsChange={setCallouts}
+                layout={calloutLayout}
+                onLayoutChange={setCalloutLayout}
+                disabled={generating}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedMode === 'infographic' && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="space-y-1">
+                <h3 className="text-sm font-semibold">Comparison Chart</h3>
+                <p className="text-xs text-muted-foreground">
+                  Rows are set in a chart next to your product, in your brand kit colors. The
+                  other column is always labeled &ldquo;{COMPARISON_COLUMNS.competitor}&rdquo;, so
+                  leave competitor brand names out.
+                </p>
+              </div>
+              <ComparisonFields
+                rows={comparisonRows}
+                onRowsChange={setComparisonRows}
+                title={chartTitle}
+                onTitleChange={setChartTitle}
+                disabled={generating}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedMode === 'dimensions' && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="space-y-1">
+                <h3 className="text-sm font-semibold">Dimensions</h3>
+                <p className="text-xs text-muted-foreground">
+                  Measurement lines and labels are drawn around your product, in both metric and
+                  imperial units. A scale reference is drawn next to it at true relative size.
+                </p>
+              </div>
+              <DimensionFields
+                values={dimensionValues}
+                onValuesChange={setDimensionValues}
+                scaleReference={scaleReference}
+                onScaleReferenceChange={setScaleReference}
+                disabled={generating}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedMode === 'bundle' && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="space-y-1">
+                <h3 className="text-sm font-semibold">Bundle</h3>
+                <p className="text-xs text-muted-foreground">
+                  Select the product photos to show together, in order. Exactly these products
+                  are shown, nothing is added, so upload a photo of every item in the box.
+                </p>
+              </div>
+              <BundleFields
+                projectId={projectId}
+                assetIds={bundleAssetIds}
+                onAssetIdsChange={setBundleAssetIds}
+                layout={bundleLayout}
+                onLayoutChange={setBundleLayout}
+                uploadedAssetId={uploadedAssetId}
+                disabled={generating}
+              />
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Right Column */}
@@ -163,9 +714,46 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
         {/* Generate Button */}
         <Card>
           <CardContent className="p-6">
+            {regenerateFrom && (
+              <div className="flex items-center justify-between rounded-md bg-muted px-3 py-2 mb-3 text-sm">
+                <span className="flex items-center gap-2">
+                  <Pencil className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+                  Editing settings of an earlier image
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => setRegenerateFrom(null)}
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-sm font-medium" id="variant-count-label">
+                Variants
+              </span>
+              <div role="radiogroup" aria-labelledby="variant-count-label" className="flex gap-1">
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((count) => (
+                  <Button
+                    key={count}
+                    role="radio"
+                    aria-checked={variantCount === count}
+                    variant={variantCount === count ? 'default' : 'outline'}
+                    size="sm"
+                    className="w-9"
+                    disabled={generating}
+                    onClick={() => setVariantCount(count)}
+                  >
+                    {count}
+                  </Button>
+                ))}
+              </div>
+            </div>
             <Button
               onClick={handleGenerate}
-              disabled={generating || !uploadedAssetId}
+              disabled={generating || !hasInputs}
               size="lg"
               className="w-full"
               aria-label={generating ? 'Generating image' : 'Generate image'}
@@ -180,13 +768,26 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
               ) : (
                 <>
                   <Wand2 className="h-5 w-5 mr-2" aria-hidden="true" />
-                  Generate Image
+                  {variantCount > 1 ? `Generate ${variantCount} Variants` : 'Generate Image'}
                 </>
               )}
             </Button>
+            <Button
+              onClick={handleGenerateListingSet}
+              disabled={generating || !uploadedAssetId}
+              variant="outline"
+              size="lg"
+              className="w-full mt-3"
+              aria-label="Generate listing set"
+            >
+              <LayoutGrid className="h-5 w-5 mr-2" aria-hidden="true" />
+              Generate Listing Set ({getBatchJobCount(listingSetItems)} images)
+            </Button>
             <p className="text-xs text-muted-foreground text-center mt-3">
               {uploadedAssetId
-                ? 'Click to generate your AI-powered product image'
+                ? variantCount > 1
+                  ? `Pick from ${variantCount} variants; you only pay for the ones you keep`
+                  : 'Generate one image, or a full listing set: main, lifestyle, feature callout and packaging'
                 : 'Upload a product photo to get started'}
             </p>
           </CardContent>
@@ -201,11 +802,35 @@ export function ProjectWorkspace({ projectId, initialOutputs }: ProjectWorkspace
           />
         )}
 
+        {/* Batch Progress */}
+        {currentBatchId && (
+          <BatchGenerationProgress
+            batchId={currentBatchId}
+            onOutputsChanged={loadOutputs}
+            onComplete={handleBatchComplete}
+            onDismiss={handleDismissBatch}
+          />
+        )}
+
+        {/* Variant sets waiting for a pick */}
+        {variantJobIds.map((jobId) => (
+          <VariantPicker
+            key={jobId}
+            jobId={jobId}
+            onSelected={handleVariantsSelected}
+          />
+        ))}
+
         {/* Outputs Gallery */}
         <OutputsGallery
           outputs={outputs}
           onRefresh={loadOutputs}
-          onCreateVariation={handleCreateVariation}
+          onRegenerate={handleRegenerate}
+          onEditAndRegenerate={handleEditAndRegenerate}
+          onUpscale={handleUpscale}
+          upscaleCredits={upscaleCredits}
+          projectId={projectId}
+          marketplace={marketplace}
         />
       </div>
 
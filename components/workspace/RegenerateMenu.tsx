@@ -0,0 +1,73 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ChevronDown, Maximize2, Pencil, RotateCcw, Sparkles } from 'lucide-react'
+import { UPSCALE_SIZES } from '@/lib/generation/upscale-sizes'
+
+interface RegenerateMenuProps {
+  assetId: string
+  onRegenerate: (assetId: string) => void        // Re-run with the same parameters
+  onEditAndRegenerate: (assetId: string) => void // Prefill the workspace to tweak first
+  onUpscale?: (assetId: string, targetSize: number) => void
+  longestSide?: number | null                    // Only larger upscale sizes are offered
+  upscaleCredits?: number                        // Plan price shown next to the upscale sizes
+}
+
+/**
+ * "Regenerate" actions for an output card
+ */
+export function RegenerateMenu({
+  assetId,
+  onRegenerate,
+  onEditAndRegenerate,
+  onUpscale,
+  longestSide,
+  upscaleCredits,
+}: RegenerateMenuProps) {
+  const upscaleSizes = UPSCALE_SIZES.filter((size) => size > (longestSide ?? 0))
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1">
+          <Sparkles className="h-3 w-3 mr-1.5" />
+          Regenerate
+          <ChevronDown className="h-3 w-3 ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => onRegenerate(assetId)}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Regenerate
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onEditAndRegenerate(assetId)}>
+          <Pencil className="h-4 w-4 mr-2" />
+          Edit and regenerate
+        </DropdownMenuItem>
+        {onUpscale && upscaleSizes.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+              High-res for zoom
+              {upscaleCredits !== undefined && ` (${upscaleCredits} ${upscaleCredits === 1 ? 'credit' : 'credits'})`}
+            </DropdownMenuLabel>
+            {upscaleSizes.map((size) => (
+              <DropdownMenuItem key={size} onClick={() => onUpscale(assetId, size)}>
+                <Maximize2 className="h-4 w-4 mr-2" />
+                Upscale to {size}px
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
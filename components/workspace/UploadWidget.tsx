@@ -6,17 +6,27 @@ import { Button } from '@/components/ui/button'
 import { Upload, X, Image as ImageIcon, Loader2 } from 'lucide-react'
 import { toast } from 'sonner'
 import Image from 'next/image'
+import { AssetImage } from '@/components/AssetImage'
 
 interface UploadWidgetProps {
   projectId: string
   onUploadComplete?: (assetId: string) => void
+  // Input asset currently used for generation; set by the parent to reuse
+  // an earlier upload (e.g. when regenerating an output)
+  selectedAssetId?: string | null
+  onRemove?: () => void
 }
 
-export function UploadWidget({ projectId, onUploadComplete }: UploadWidgetProps) {
+export function UploadWidget({ projectId, onUploadComplete, selectedAssetId, onRemove }: UploadWidgetProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [uploading, setUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
-  const [uploadedFile, setUploadedFile] = useState<{ url: string; name: string } | null>(null)
+  const [uploadedFile, setUploadedFile] = useState<{ url: string; name: string; assetId: string } | null>(null)
+
+  // An earlier upload picked by the parent replaces the local preview
+  const existingAssetId = selectedAssetId && uploadedFile?.assetId !== selectedAssetId
+    ? selectedAssetId
+    : null
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -87,7 +97,7 @@ export function UploadWidget({ projectId, onUploadComplete }: UploadWidgetProps)
 
       if (response.ok) {
         const previewUrl = URL.createObjectURL(file)
-        setUploadedFile({ url: previewUrl, name: file.name })
+        setUploadedFile({ url: previewUrl, name: file.name, assetId: data.assetId })
         toast.success('Image uploaded!', {
           description: 'Ready to generate AI images'
         })
@@ -113,6 +123,7 @@ export function UploadWidget({ projectId, onUploadComplete }: UploadWidgetProps)
       URL.revokeObjectURL(uploadedFile.url)
     }
     setUploadedFile(null)
+    onRemove?.()
   }
 
   return (
@@ -120,7 +131,35 @@ export function UploadWidget({ projectId, onUploadComplete }: UploadWidgetProps)
       <CardContent className="p-6">
         <h3 className="text-sm font-semibold mb-3" id="upload-label">Product Photo</h3>
 
-        {!uploadedFile ? (
+        {existingAssetId ? (
+          <div className="relative">
+            <div className="aspect-square bg-muted rounded-lg overflow-hidden relative">
+              <AssetImage
+                assetId={existingAssetId}
+                alt="Product photo"
+                fill
+                className="object-contain"
+              />
+            </div>
+            <div className="mt-3 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground truncate">
+                  Original product photo
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRemove}
+                className="h-8 w-8 p-0"
+                aria-label="Remove product photo"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ) : !uploadedFile ? (
           <div
             onDragOver={handleDragOver}
             onDragLeave={handleDragLeave}
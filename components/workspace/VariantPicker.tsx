@@ -0,0 +1,193 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Check, Layers, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { AssetImage } from '@/components/AssetImage'
+import { DISCARD_GRACE_HOURS } from '@/lib/generation/variants'
+import type { Asset } from '@/lib/db/asset-types'
+
+interface VariantPickerProps {
+  jobId: string
+  onSelected: (jobId: string) => void  // Called once the selection is saved (or already closed)
+}
+
+/**
+ * Selectable set of variants from one multi-variant job
+ * Only the variants the user keeps are charged
+ */
+export function VariantPicker({ jobId, onSelected }: VariantPickerProps) {
+  const [variants, setVariants] = useState<Asset[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let active = true
+
+    const loadVariants = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/variants`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load variants')
+        }
+
+        if (!active) {
+          return
+        }
+
+        if (!data.pending) {
+          // Already settled (e.g. in another tab)
+          onSelected(jobId)
+          return
+        }
+
+        setVariants(data.variants)
+      } catch (error) {
+        console.error('Error loading variants:', error)
+        toast.error('Could not load variants', {
+          description: error instanceof Error ? error.message : 'Please try again'
+        })
+      } finally {
+        if (active) {
+          setLoading(false)
+        }
+      }
+    }
+
+    loadVariants()
+
+    return () => {
+      active = false
+    }
+  }, [jobId, onSelected])
+
+  const toggleVariant = (assetId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(assetId)) {
+        next.delete(assetId)
+      } else {
+        next.add(assetId)
+      }
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/variants`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keep: Array.from(selected) }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(data.kept > 0 ? `Kept ${data.kept} of ${variants.length} variants` : 'Variants discarded', {
+          description: data.creditsCharged > 0
+            ? `${data.creditsCharged} credit${data.creditsCharged === 1 ? '' : 's'} charged`
+            : 'No credits were charged'
+        })
+        onSelected(jobId)
+      } else if (response.status === 409) {
+        onSelected(jobId)
+      } else {
+        toast.error('Could not save selection', {
+          description: data.error || 'Please try again'
+        })
+      }
+    } catch (error) {
+      console.error('Variant selection error:', error)
+      toast.error('Could not save selection', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span className="text-sm text-muted-foreground">Loading variants...</span>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (variants.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="border-primary">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Layers className="h-5 w-5 mr-2 text-primary" />
+          Pick Your Variants
+        </CardTitle>
+        <CardDescription>
+          Select the variants to keep. You are only charged for the ones you keep;
+          the others are deleted after {DISCARD_GRACE_HOURS} hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {variants.map((variant, index) => {
+            const isSelected = selected.has(variant.id)
+            return (
+              <button
+                key={variant.id}
+                type="button"
+                aria-pressed={isSelected}
+                aria-label={`Variant ${index + 1}`}
+                onClick={() => toggleVariant(variant.id)}
+                className={`relative aspect-square overflow-hidden rounded-lg border-2 transition-all ${
+                  isSelected ? 'border-primary ring-2 ring-primary/30' : 'border-transparent hover:border-muted-foreground/30'
+                }`}
+              >
+                <AssetImage
+                  assetId={variant.id}
+                  alt={`Variant ${index + 1}`}
+                  fill
+                  sizes="(max-width: 1024px) 50vw, 25vw"
+                  className="object-cover"
+                />
+                {isSelected && (
+                  <span className="absolute top-2 right-2 rounded-full bg-primary p-1 text-primary-foreground">
+                    <Check className="h-4 w-4" aria-hidden="true" />
+                  </span>
+                )}
+              </button>
+            )
+          })}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : selected.size > 0 ? (
+            `Keep ${selected.size} (${selected.size} credit${selected.size === 1 ? '' : 's'})`
+          ) : (
+            'Discard All'
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
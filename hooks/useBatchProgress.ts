@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { BatchProgress, GenerationBatch, GenerationJob, JobEventMessage } from '@/lib/db/job-types'
+
+interface UseBatchProgressReturn {
+  /**
+   * The batch (null while loading)
+   */
+  batch: GenerationBatch | null
+  /**
+   * Child jobs, in creation order
+   */
+  jobs: GenerationJob[]
+  /**
+   * Aggregate progress (null while loading)
+   */
+  progress: BatchProgress | null
+  /**
+   * Error if the batch could not be loaded
+   */
+  error: string | null
+}
+
+const POLL_INTERVAL_MS = 3000
+// Consecutive stream errors (without a successful reconnect) before polling
+const MAX_STREAM_FAILURES = 3
+
+/**
+ * Hook to follow a generation batch's aggregate progress
+ *
+ * Loads GET /api/generate/batch/[id] and reloads it whenever one of the
+ * batch's jobs changes status on the per-user /api/jobs/events stream.
+ * Falls back to polling when EventSource is unavailable or the stream
+ * keeps failing.
+ *
+ * @example
+ * ```tsx
+ * const { progress } = useBatchProgress(batchId)
+ *
+ * return <p>{progress?.completed} of {progress?.total} done</p>
+ * ```
+ */
+export function useBatchProgress(batchId: string): UseBatchProgressReturn {
+  const [batch, setBatch] = useState<GenerationBatch | null>(null)
+  const [jobs, setJobs] = useState<GenerationJob[]>([])
+  const [progress, setProgress] = useState<BatchProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Read by the stream handler, which is set up once
+  const jobIdsRef = useRef<Set<string>>(new Set())
+
+  const fetchBatch = useCallback(async (): Promise<BatchProgress | null> => {
+    try {
+      const response = await fetch(`/api/generate/batch/${batchId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch batch status')
+      }
+
+      jobIdsRef.current = new Set((data.jobs as GenerationJob[]).map(job => job.id))
+      setBatch(data.batch)
+      setJobs(data.jobs)
+      setProgress(data.progress)
+      return data.progress
+    } catch (err) {
+      console.error('Error loading batch status:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch batch status')
+      return null
+    }
+  }, [batchId])
+
+  useEffect(() => {
+    let eventSource: EventSource | null = null
+    let pollId: ReturnType<typeof setInterval> | null = null
+    let streamFailures = 0
+
+    const stop = () => {
+      eventSource?.close()
+      eventSource = null
+      if (pollId) {
+        clearInterval(pollId)
+        pollId = null
+      }
+    }
+
+    const refresh = async () => {
+      const latest = await fetchBatch()
+      if (!latest || latest.status !== 'in_progress') {
+        stop()
+      }
+    }
+
+    const startPolling = () => {
+      refresh()
+      pollId = setInterval(refresh, POLL_INTERVAL_MS)
+    }
+
+    if (typeof EventSource === 'undefined') {
+      startPolling()
+    } else {
+      eventSource = new EventSource('/api/jobs/events')
+
+      eventSource.addEventListener('status', (e: MessageEvent<string>) => {
+        const event: JobEventMessage = JSON.parse(e.data)
+        if (jobIdsRef.current.has(event.jobId)) {
+          refresh()
+        }
+      })
+
+      eventSource.onopen = () => {
+        // The stream starts at connection time, so (re)load the batch once connected
+        streamFailures = 0
+        refresh()
+      }
+
+      eventSource.onerror = () => {
+        streamFailures += 1
+        if (streamFailures >= MAX_STREAM_FAILURES || eventSource?.readyState === EventSource.CLOSED) {
+          eventSource?.close()
+          eventSource = null
+          if (!pollId) {
+            startPolling()
+          }
+        }
+      }
+    }
+
+    return stop
+  }, [fetchBatch])
+
+  return { batch, jobs, progress, error }
+}
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { isTerminalJobStatus, type InFlightJob, type JobEventMessage } from '@/lib/db/job-types'
+
+interface UseInFlightJobsReturn {
+  /**
+   * The user's queued and running jobs, oldest first
+   */
+  jobs: InFlightJob[]
+  /**
+   * Loading state (initial load only)
+   */
+  loading: boolean
+  /**
+   * Reload the list from the server
+   */
+  refresh: () => Promise<void>
+  /**
+   * Cancel a job; queued jobs leave the list immediately
+   */
+  cancelJob: (jobId: string) => Promise<void>
+}
+
+const POLL_INTERVAL_MS = 5000
+// Consecutive stream errors (without a successful reconnect) before polling
+const MAX_STREAM_FAILURES = 3
+
+/**
+ * Hook to track all of the current user's in-flight generation jobs
+ *
+ * Loads GET /api/jobs/in-flight, then keeps it current from the per-user
+ * /api/jobs/events stream. Falls back to polling when EventSource is
+ * unavailable or the stream keeps failing.
+ *
+ * @example
+ * ```tsx
+ * const { jobs, cancelJob } = useInFlightJobs()
+ *
+ * return jobs.map(job => (
+ *   <button key={job.id} onClick={() => cancelJob(job.id)}>Cancel</button>
+ * ))
+ * ```
+ */
+export function useInFlightJobs(): UseInFlightJobsReturn {
+  const [jobs, setJobs] = useState<InFlightJob[]>([])
+  const [loading, setLoading] = useState(true)
+  // Read by the stream handler, which is set up once
+  const jobIdsRef = useRef<Set<string>>(new Set())
+
+  useEffect(() => {
+    jobIdsRef.current = new Set(jobs.map(job => job.id))
+  }, [jobs])
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/jobs/in-flight')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load jobs')
+      }
+
+      setJobs(data.jobs || [])
+    } catch (err) {
+      console.error('Error loading in-flight jobs:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    let eventSource: EventSource | null = null
+    let pollId: ReturnType<typeof setInterval> | null = null
+    let streamFailures = 0
+
+    const startPolling = () => {
+      refresh()
+      pollId = setInterval(refresh, POLL_INTERVAL_MS)
+    }
+
+    const handleEvent = (e: MessageEvent<string>) => {
+      const event: JobEventMessage = JSON.parse(e.data)
+
+      if (event.type === 'status' && isTerminalJobStatus(event.status)) {
+        setJobs(prev => prev.filter(job => job.id !== event.jobId))
+        return
+      }
+
+      // New job (possibly from another tab); load it with its project name
+      if (!jobIdsRef.current.has(event.jobId)) {
+        refresh()
+        return
+      }
+
+      setJobs(prev => prev.map(job =>
+        job.id === event.jobId ? { ...job, status: event.status, stage: event.stage } : job
+      ))
+    }
+
+    if (typeof EventSource === 'undefined') {
+      startPolling()
+    } else {
+      eventSource = new EventSource('/api/jobs/events')
+      eventSource.addEventListener('status', handleEvent)
+      eventSource.addEventListener('stage', handleEvent)
+
+      eventSource.onopen = () => {
+        // The stream starts at connection time, so (re)load the list once connected
+        streamFailures = 0
+        refresh()
+      }
+
+      eventSource.onerror = () => {
+        streamFailures += 1
+        if (streamFailures >= MAX_STREAM_FAILURES || eventSource?.readyState === EventSource.CLOSED) {
+          eventSource?.close()
+          eventSource = null
+          if (!pollId) {
+            startPolling()
+          }
+        }
+      }
+    }
+
+    return () => {
+      eventSource?.close()
+      if (pollId) {
+        clearInterval(pollId)
+      }
+    }
+  }, [refresh])
+
+  const cancelJob = useCallback(async (jobId: string) => {
+    const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' })
+    const data = await response.json()
+
+    if (!response.ok) {
+      // Finished in the meantime; the list is out of date
+      if (data.code === 'JOB_FINISHED') {
+        setJobs(prev => prev.filter(job => job.id !== jobId))
+      }
+      throw new Error(data.error || 'Failed to cancel job')
+    }
+
+    if (data.canceled) {
+      setJobs(prev => prev.filter(job => job.id !== jobId))
+    } else if (data.job) {
+      setJobs(prev => prev.map(job =>
+        job.id === jobId ? { ...job, cancel_requested_at: data.job.cancel_requested_at } : job
+      ))
+    }
+  }, [])
+
+  return { jobs, loading, refresh, cancelJob }
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react'
+import { isTerminalJobStatus, type JobEventMessage, type JobStatus } from '@/lib/db/job-types'
+
+export interface JobProgress {
+  id: string
+  status: JobStatus
+  mode: string
+  stage?: string | null
+  output_asset_id?: string | null
+  error?: string | null
+  error_code?: string | null
+  attempts?: number
+  max_attempts?: number
+  run_after?: string | null
+  cost_cents: number
+  created_at: string
+  updated_at: string
+}
+
+interface UseJobProgressReturn {
+  /**
+   * Latest known job state (null while loading)
+   */
+  job: JobProgress | null
+  /**
+   * Error if the job could not be loaded
+   */
+  error: string | null
+  /**
+   * How updates are received: 'sse' (event stream) or 'polling' (fallback)
+   */
+  transport: 'sse' | 'polling' | null
+}
+
+const POLL_INTERVAL_MS = 2000
+// Consecutive stream errors (without a successful reconnect) before polling
+const MAX_STREAM_FAILURES = 3
+
+/**
+ * Hook to follow a generation job's progress
+ *
+ * Loads the job once, then listens to /api/jobs/[id]/events for status
+ * and stage changes. Falls back to polling GET /api/jobs/[id] when
+ * EventSource is unavailable or the stream keeps failing.
+ *
+ * @example
+ * ```tsx
+ * const { job, error } = useJobProgress(jobId)
+ *
+ * if (error) return <ErrorMessage error={error} />
+ * if (!job) return <Spinner />
+ *
+ * return <p>{job.status} {job.stage}</p>
+ * ```
+ */
+export function useJobProgress(jobId: string): UseJobProgressReturn {
+  const [job, setJob] = useState<JobProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [transport, setTransport] = useState<'sse' | 'polling' | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let eventSource: EventSource | null = null
+    let pollId: ReturnType<typeof setInterval> | null = null
+    let streamFailures = 0
+
+    const stop = () => {
+      eventSource?.close()
+      eventSource = null
+      if (pollId) {
+        clearInterval(pollId)
+        pollId = null
+      }
+    }
+
+    const fetchJob = async (): Promise<JobProgress> => {
+      const response = await fetch(`/api/jobs/${jobId}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.job) {
+        throw new Error(data.error || 'Failed to fetch job status')
+      }
+
+      if (!cancelled) {
+        setJob(data.job)
+      }
+      return data.job
+    }
+
+    const fail = (err: unknown) => {
+      console.error('Error loading job status:', err)
+      stop()
+      if (!cancelled) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch job status')
+      }
+    }
+
+    const startPolling = () => {
+      setTransport('polling')
+      pollId = setInterval(async () => {
+        try {
+          const latest = await fetchJob()
+          if (isTerminalJobStatus(latest.status)) {
+            stop()
+          }
+        } catch (err) {
+          fail(err)
+        }
+      }, POLL_INTERVAL_MS)
+    }
+
+    const startStream = () => {
+      setTransport('sse')
+      eventSource = new EventSource(`/api/jobs/${jobId}/events`)
+
+      const handleEvent = (e: MessageEvent<string>) => {
+        const event: JobEventMessage = JSON.parse(e.data)
+
+        setJob(prev => prev && {
+          ...prev,
+          status: event.status,
+          stage: event.stage,
+          error_code: event.errorCode,
+          output_asset_id: event.outputAssetId ?? prev.output_asset_id,
+        })
+
+        if (event.type === 'status' && isTerminalJobStatus(event.status)) {
+          stop()
+          // Error details and final cost are not part of the event
+          fetchJob().catch(fail)
+        }
+      }
+
+      eventSource.addEventListener('status', handleEvent)
+      eventSource.addEventListener('stage', handleEvent)
+
+      eventSource.onopen = () => {
+        streamFailures = 0
+      }
+
+      eventSource.onerror = () => {
+        // EventSource reconnects on its own; give up after repeated failures
+        streamFailures += 1
+        if (streamFailures >= MAX_STREAM_FAILURES || eventSource?.readyState === EventSource.CLOSED) {
+          eventSource?.close()
+          eventSource = null
+          if (!cancelled && !pollId) {
+            startPolling()
+          }
+        }
+      }
+    }
+
+    fetchJob()
+      .then((initial) => {
+        if (cancelled || isTerminalJobStatus(initial.status)) {
+          return
+        }
+
+        if (typeof EventSource === 'undefined') {
+          startPolling()
+        } else {
+          startStream()
+        }
+      })
+      .catch(fail)
+
+    return () => {
+      cancelled = true
+      stop()
+    }
+  }, [jobId])
+
+  return { job, error, transport }
+}
@@ -0,0 +1,195 @@
+/**
+ * Brand Kits for Commerce PIX
+ *
+ * Brand tones and the named brand kits users attach to projects
+ * (projects.brand_kit_id). Generation routes snapshot the project's kit
+ * into the job payload and buildPrompt merges it into the prompt inputs.
+ *
+ * Safe to import from client components (no server-only dependencies)
+ */
+
+// ============================================================================
+// Brand Tones
+// ============================================================================
+
+export type BrandTone = 'professional' | 'luxury' | 'casual' | 'playful' | 'minimal' | 'bold'
+
+export const BRAND_TONES: { value: BrandTone; label: string; description: string }[] = [
+  { value: 'professional', label: 'Professional', description: 'Clean and business-appropriate' },
+  { value: 'luxury', label: 'Luxury', description: 'Premium and high-end' },
+  { value: 'casual', label: 'Casual', description: 'Relaxed and friendly' },
+  { value: 'playful', label: 'Playful', description: 'Fun and energetic' },
+  { value: 'minimal', label: 'Minimal', description: 'Simple and elegant' },
+  { value: 'bold', label: 'Bold', description: 'Striking and attention-grabbing' },
+]
+
+export function isBrandTone(value: string): value is BrandTone {
+  return BRAND_TONES.some((tone) => tone.value === value)
+}
+
+// ============================================================================
+// Callout Typography
+// ============================================================================
+
+export type CalloutTypography = 'modern_sans' | 'classic_serif' | 'rounded' | 'condensed' | 'handwritten'
+
+// label: shown in the UI, prompt: how feature_callout prompts describe it
+export const CALLOUT_TYPOGRAPHY: Record<CalloutTypography, { label: string; prompt: string }> = {
+  modern_sans: { label: 'Modern sans-serif', prompt: 'clean, modern sans-serif' },
+  classic_serif: { label: 'Classic serif', prompt: 'elegant, classic serif' },
+  rounded: { label: 'Rounded', prompt: 'soft, rounded sans-serif' },
+  condensed: { label: 'Bold condensed', prompt: 'bold, condensed sans-serif' },
+  handwritten: { label: 'Handwritten', prompt: 'neat, handwritten-style script' },
+}
+
+export const CALLOUT_TYPOGRAPHY_IDS = Object.keys(CALLOUT_TYPOGRAPHY) as CalloutTypography[]
+
+export function isCalloutTypography(value: string): value is CalloutTypography {
+  return Object.prototype.hasOwnProperty.call(CALLOUT_TYPOGRAPHY, value)
+}
+
+// ============================================================================
+// Brand Kits
+// ============================================================================
+
+export const BRAND_KIT_LIMITS = {
+  name: 80,
+  colors: 6,
+  sceneStyles: 5,
+  sceneStyleLength: 80,
+  bannedTerms: 30,
+  bannedTermLength: 40,
+  constraints: 10,
+  constraintLength: 200,
+}
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+/**
+ * The settings of a brand kit, as stored in brand_kits and snapshotted
+ * into job payloads
+ */
+export interface BrandKitSettings {
+  tone: BrandTone | null
+  colorPalette: string[]        // #RRGGBB hex codes
+  sceneStyles: string[]         // Preferred lifestyle scenes, e.g. "sunlit Scandinavian kitchen"
+  bannedTerms: string[]         // Words and props that must never appear
+  calloutTypography: CalloutTypography | null
+  defaultConstraints: string[]  // Added to every generation
+}
+
+/**
+ * Kit applied to a generation: payload.brandKit on the job and
+ * prompt_payload.brandKit on its outputs
+ */
+export interface BrandKitSnapshot extends BrandKitSettings {
+  id: string
+  name: string
+}
+
+// Trim entries, drop empty ones and case-insensitive duplicates
+function cleanList(values: string[]): string[] {
+  const seen = new Set<string>()
+
+  return values
+    .map((value) => value.trim())
+    .filter((value) => {
+      const key = value.toLowerCase()
+      if (!value || seen.has(key)) {
+        return false
+      }
+      seen.add(key)
+      return true
+    })
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+/**
+ * Check and normalize a brand kit submitted for saving
+ * Lists are trimmed and de-duplicated and colors lower-cased. Returns the
+ * kit, or the problems found.
+ */
+export function validateBrandKit(
+  input: { name?: unknown } & { [K in keyof BrandKitSettings]?: unknown }
+): { kit: { name: string } & BrandKitSettings } | { errors: string[] } {
+  const errors: string[] = []
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+
+  if (!name) {
+    errors.push('Name is required')
+  } else if (name.length > BRAND_KIT_LIMITS.name) {
+    errors.push(`Name must be at most ${BRAND_KIT_LIMITS.name} characters`)
+  }
+
+  let tone: BrandTone | null = null
+  if (input.tone !== undefined && input.tone !== null && input.tone !== '') {
+    if (typeof input.tone === 'string' && isBrandTone(input.tone)) {
+      tone = input.tone
+    } else {
+      errors.push(`Tone must be one of: ${BRAND_TONES.map((option) => option.value).join(', ')}`)
+    }
+  }
+
+  let calloutTypography: CalloutTypography | null = null
+  if (input.calloutTypography !== undefined && input.calloutTypography !== null && input.calloutTypography !== '') {
+    if (typeof input.calloutTypography === 'string' && isCalloutTypography(input.calloutTypography)) {
+      calloutTypography = input.calloutTypography
+    } else {
+      errors.push(`Callout typography must be one of: ${CALLOUT_TYPOGRAPHY_IDS.join(', ')}`)
+    }
+  }
+
+  const lists = {
+    colorPalette: input.colorPalette ?? [],
+    sceneStyles: input.sceneStyles ?? [],
+    bannedTerms: input.bannedTerms ?? [],
+    defaultConstraints: input.defaultConstraints ?? [],
+  }
+
+  for (const [field, value] of Object.entries(lists)) {
+    if (!isStringList(value)) {
+      errors.push(`${field} must be a list of strings`)
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  const colorPalette = cleanList(lists.colorPalette as string[]).map((color) => color.toLowerCase())
+  const sceneStyles = cleanList(lists.sceneStyles as string[])
+  const bannedTerms = cleanList(lists.bannedTerms as string[])
+  const defaultConstraints = cleanList(lists.defaultConstraints as string[])
+
+  const invalidColors = colorPalette.filter((color) => !HEX_COLOR_PATTERN.test(color))
+  if (invalidColors.length > 0) {
+    errors.push(`Colors must be hex codes like #1a2b3c (got ${invalidColors.join(', ')})`)
+  }
+
+  const checkList = (values: string[], label: string, max: number, maxLength: number) => {
+    if (values.length > max) {
+      errors.push(`At most ${max} ${label} are allowed`)
+    }
+    if (values.some((value) => value.length > maxLength)) {
+      errors.push(`Each of the ${label} must be at most ${maxLength} characters`)
+    }
+  }
+
+  if (colorPalette.length > BRAND_KIT_LIMITS.colors) {
+    errors.push(`At most ${BRAND_KIT_LIMITS.colors} colors are allowed`)
+  }
+  checkList(sceneStyles, 'scene styles', BRAND_KIT_LIMITS.sceneStyles, BRAND_KIT_LIMITS.sceneStyleLength)
+  checkList(bannedTerms, 'banned words/props', BRAND_KIT_LIMITS.bannedTerms, BRAND_KIT_LIMITS.bannedTermLength)
+  checkList(defaultConstraints, 'default constraints', BRAND_KIT_LIMITS.constraints, BRAND_KIT_LIMITS.constraintLength)
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  return {
+    kit: { name, tone, colorPalette, sceneStyles, bannedTerms, calloutTypography, defaultConstraints },
+  }
+}
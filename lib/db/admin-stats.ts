@@ -50,6 +50,7 @@ export async function getTotalGenerations(): Promise<number> {
     .from('assets')
     .select('*', { count: 'exact', head: true })
     .eq('kind', 'output')
+    .is('derivative_key', null)
 
   if (error) {
     console.error('Error fetching total generations:', error)
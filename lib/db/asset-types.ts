@@ -1,6 +1,43 @@
 // TypeScript types for the assets table
+import type { Callout, CalloutLayoutId } from '@/lib/generation/callouts'
+import type { GenerationMode } from '@/lib/generation/modes'
+
 export type AssetKind = 'input' | 'output'
-export type AssetMode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+export type AssetMode = GenerationMode  // See lib/generation/modes.ts
+// Set on the outputs of multi-variant jobs only
+export type VariantStatus = 'pending' | 'kept' | 'discarded'
+
+// Pixel checks run on each output (see lib/generation/compliance.ts)
+export type ComplianceStatus = 'pass' | 'warn' | 'fail'
+export type ComplianceRuleId = 'white_background' | 'product_fill' | 'min_dimension' | 'no_text'
+
+export type ComplianceRuleResult = {
+  rule: ComplianceRuleId
+  status: ComplianceStatus
+  message: string
+  value: number | null      // Measured value (ratio, pixels or region count)
+  threshold: number | null  // Value needed to pass
+}
+
+export type ComplianceReport = {
+  version: string
+  mode: AssetMode
+  marketplace: string       // Marketplace profile the rules came from
+  status: ComplianceStatus  // Worst rule status
+  rules: ComplianceRuleResult[]
+  checked_at: string
+}
+
+// Callout text composited onto a feature_callout output, kept so it can be
+// edited and re-rendered (see lib/generation/callout-compositor.ts)
+export type CalloutLayer = {
+  version: string            // Compositor version the text was rendered with
+  layout: CalloutLayoutId
+  callouts: Callout[]
+  accent_color: string       // #RRGGBB of icons, leader lines and anchor dots
+  base_storage_path: string  // Text-free visual in the outputs bucket
+  rendered_at: string
+}
 
 export type Asset = {
   id: string
@@ -9,12 +46,24 @@ export type Asset = {
   kind: AssetKind
   mode: AssetMode
   source_asset_id: string | null
+  source_asset_ids: string[] | null  // Every input of a bundle output, in layout order (null: source_asset_id only)
+  parent_asset_id: string | null
   prompt_version: string
   prompt_payload: Record<string, any>
   width: number | null
   height: number | null
   mime_type: string | null
   storage_path: string
+  provider: string | null
+  model: string | null
+  generation_job_id: string | null
+  variant_index: number | null
+  variant_status: VariantStatus | null
+  discard_after: string | null
+  derivative_key: string | null
+  compliance_report: ComplianceReport | null
+  callout_layer: CalloutLayer | null
+  downloaded_at: string | null  // First download (single, export or listing package)
   created_at: string
   updated_at: string
 }
@@ -26,12 +75,22 @@ export type NewAsset = {
   kind: AssetKind
   mode: AssetMode
   source_asset_id?: string | null
+  source_asset_ids?: string[] | null
+  parent_asset_id?: string | null
   prompt_version: string
   prompt_payload: Record<string, any>
   width?: number | null
   height?: number | null
   mime_type?: string | null
   storage_path: string
+  provider?: string | null
+  model?: string | null
+  generation_job_id?: string | null
+  variant_index?: number | null
+  variant_status?: VariantStatus | null
+  derivative_key?: string | null
+  compliance_report?: ComplianceReport | null
+  callout_layer?: CalloutLayer | null
 }
 
 export type UpdateAsset = {
@@ -44,6 +103,7 @@ export type UpdateAsset = {
   height?: number | null
   mime_type?: string | null
   storage_path?: string
+  callout_layer?: CalloutLayer | null
 }
 
 export type AssetStatistic = {
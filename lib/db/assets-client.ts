@@ -32,6 +32,7 @@ export async function getProjectAssetsClient(projectId: string): Promise<Asset[]
     .from('assets')
     .select('*')
     .eq('project_id', projectId)
+    .is('derivative_key', null)
     .order('created_at', { ascending: false })
   
   if (error) {
@@ -53,6 +54,7 @@ export async function getAssetsByKindClient(projectId: string, kind: 'input' | '
     .select('*')
     .eq('project_id', projectId)
     .eq('kind', kind)
+    .is('derivative_key', null)
     .order('created_at', { ascending: false })
   
   if (error) {
@@ -65,6 +67,7 @@ export async function getAssetsByKindClient(projectId: string, kind: 'input' | '
 
 /**
  * Client-side: Get output assets derived from a source input asset
+ * (including bundle outputs it is one of several inputs of)
  */
 export async function getDerivedAssetsClient(sourceAssetId: string): Promise<Asset[]> {
   const supabase = createClient()
@@ -72,8 +75,9 @@ export async function getDerivedAssetsClient(sourceAssetId: string): Promise<Ass
   const { data, error } = await supabase
     .from('assets')
     .select('*')
-    .eq('source_asset_id', sourceAssetId)
+    .or(`source_asset_id.eq.${sourceAssetId},source_asset_ids.cs.{${sourceAssetId}}`)
     .eq('kind', 'output')
+    .is('derivative_key', null)
     .order('created_at', { ascending: false })
   
   if (error) {
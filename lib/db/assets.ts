@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
 import type { Asset, NewAsset, UpdateAsset, AssetStatistic } from './asset-types'
 
@@ -13,6 +14,10 @@ export async function getAssetsByProject(projectId: string): Promise<Asset[] | n
     .from('assets')
     .select('*')
     .eq('project_id', projectId)
+    // Variants still awaiting selection, or discarded, are not part of the project's outputs
+    .or('variant_status.is.null,variant_status.eq.kept')
+    // Neither are internal derivatives (e.g. preprocessed inputs)
+    .is('derivative_key', null)
     .order('created_at', { ascending: false })
   
   if (error) {
@@ -23,6 +28,27 @@ export async function getAssetsByProject(projectId: string): Promise<Asset[] | n
   return data as Asset[]
 }
 
+/**
+ * Get the variant outputs of a generation job, in variant order
+ */
+export async function getJobVariants(jobId: string): Promise<Asset[]> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('generation_job_id', jobId)
+    .not('variant_status', 'is', null)
+    .order('variant_index', { ascending: true })
+  
+  if (error) {
+    console.error('Error fetching job variants:', error)
+    throw error
+  }
+  
+  return data || []
+}
+
 /**
  * Get all assets for the current user
  */
@@ -52,6 +78,7 @@ export async function getProjectAssets(projectId: string): Promise<Asset[]> {
     .from('assets')
     .select('*')
     .eq('project_id', projectId)
+    .is('derivative_key', null)
     .order('created_at', { ascending: false })
   
   if (error) {
@@ -73,6 +100,7 @@ export async function getAssetsByKind(projectId: string, kind: 'input' | 'output
     .select('*')
     .eq('project_id', projectId)
     .eq('kind', kind)
+    .is('derivative_key', null)
     .order('created_at', { ascending: false })
   
   if (error) {
@@ -83,8 +111,67 @@ export async function getAssetsByKind(projectId: string, kind: 'input' | 'output
   return data || []
 }
 
+/**
+ * Get a project's outputs (kept variants only, no derivatives), oldest first
+ * Pass assetIds to limit the result to those outputs
+ * Pass a client to query outside a request (e.g. the admin client in workers)
+ */
+export async function getProjectOutputs(
+  projectId: string,
+  assetIds?: string[] | null,
+  client?: SupabaseClient
+): Promise<Asset[]> {
+  const supabase = client ?? await createClient()
+
+  let query = supabase
+    .from('assets')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('kind', 'output')
+    .or('variant_status.is.null,variant_status.eq.kept')
+    .is('derivative_key', null)
+
+  if (assetIds) {
+    query = query.in('id', assetIds)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching project outputs:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Get assets by ID (missing IDs are left out)
+ * Pass a client to query outside a request (e.g. the admin client in workers)
+ */
+export async function getAssetsByIds(ids: string[], client?: SupabaseClient): Promise<Asset[]> {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const supabase = client ?? await createClient()
+
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*')
+    .in('id', ids)
+
+  if (error) {
+    console.error('Error fetching assets by ID:', error)
+    throw error
+  }
+
+  return data || []
+}
+
 /**
  * Get output assets derived from a source input asset
+ * (including bundle outputs it is one of several inputs of)
  */
 export async function getDerivedAssets(sourceAssetId: string): Promise<Asset[]> {
   const supabase = await createClient()
@@ -92,8 +179,9 @@ export async function getDerivedAssets(sourceAssetId: string): Promise<Asset[]>
   const { data, error } = await supabase
     .from('assets')
     .select('*')
-    .eq('source_asset_id', sourceAssetId)
+    .or(`source_asset_id.eq.${sourceAssetId},source_asset_ids.cs.{${sourceAssetId}}`)
     .eq('kind', 'output')
+    .is('derivative_key', null)
     .order('created_at', { ascending: false })
   
   if (error) {
@@ -105,10 +193,84 @@ export async function getDerivedAssets(sourceAssetId: string): Promise<Asset[]>
 }
 
 /**
- * Get a single asset by ID
+ * Get the cached derivative of an asset (e.g. the preprocessed provider input)
+ * Returns null when it has not been created yet
+ */
+export async function getDerivativeAsset(
+  sourceAssetId: string,
+  derivativeKey: string,
+  client?: SupabaseClient
+): Promise<Asset | null> {
+  const supabase = client ?? await createClient()
+  
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('source_asset_id', sourceAssetId)
+    .eq('derivative_key', derivativeKey)
+    .maybeSingle()
+  
+  if (error) {
+    console.error('Error fetching derivative asset:', error)
+    return null
+  }
+  
+  return data
+}
+
+/**
+ * Get every cached derivative of an asset (e.g. the download conversions
+ * of an output)
+ */
+export async function getAssetDerivatives(sourceAssetId: string): Promise<Asset[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('source_asset_id', sourceAssetId)
+    .not('derivative_key', 'is', null)
+
+  if (error) {
+    console.error('Error fetching asset derivatives:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Get the upscaled copy of an output at the given size
+ * Returns null when the output has not been upscaled to that size
  */
-export async function getAsset(id: string): Promise<Asset | null> {
+export async function getUpscaledAsset(
+  sourceAssetId: string,
+  targetSize: number
+): Promise<Asset | null> {
   const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*')
+    .eq('parent_asset_id', sourceAssetId)
+    .eq('prompt_payload->upscale->>targetSize', String(targetSize))
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching upscaled asset:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Get a single asset by ID
+ * Pass a client to query outside a request (e.g. the admin client in workers)
+ */
+export async function getAsset(id: string, client?: SupabaseClient): Promise<Asset | null> {
+  const supabase = client ?? await createClient()
   
   const { data, error } = await supabase
     .from('assets')
@@ -126,9 +288,10 @@ export async function getAsset(id: string): Promise<Asset | null> {
 
 /**
  * Create a new asset
+ * Pass a client to insert outside a request (user_id must then be set)
  */
-export async function createAsset(asset: NewAsset): Promise<Asset | null> {
-  const supabase = await createClient()
+export async function createAsset(asset: NewAsset, client?: SupabaseClient): Promise<Asset> {
+  const supabase = client ?? await createClient()
   
   // Get the current user (if user_id not provided)
   let userId = asset.user_id
@@ -180,10 +343,34 @@ export async function updateAsset(id: string, updates: UpdateAsset): Promise<Ass
 }
 
 /**
- * Delete an asset
+ * Record the first download of outputs (for prompt experiment results)
+ * Tracking is best effort: failures are logged, never thrown
  */
-export async function deleteAsset(id: string): Promise<boolean> {
+export async function markAssetsDownloaded(assetIds: string[]): Promise<void> {
+  if (assetIds.length === 0) {
+    return
+  }
+
   const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('assets')
+    .update({ downloaded_at: new Date().toISOString() })
+    .in('id', assetIds)
+    .eq('kind', 'output')
+    .is('downloaded_at', null)
+
+  if (error) {
+    console.error('Error marking assets downloaded:', error)
+  }
+}
+
+/**
+ * Delete an asset
+ * Pass a client to delete outside a request (e.g. the admin client in workers)
+ */
+export async function deleteAsset(id: string, client?: SupabaseClient): Promise<boolean> {
+  const supabase = client ?? await createClient()
   
   const { error } = await supabase
     .from('assets')
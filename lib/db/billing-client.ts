@@ -294,6 +294,8 @@ export async function hasSufficientCredits(requiredAmount: number = 1): Promise<
  */
 export async function getCreditSummary(): Promise<{
   balance: number
+  held: number
+  available: number
   transaction_count: number
   last_transaction_at: string | null
   total_earned: number
@@ -308,6 +310,8 @@ export async function getCreditSummary(): Promise<{
   if (!user) {
     return {
       balance: 0,
+      held: 0,
+      available: 0,
       transaction_count: 0,
       last_transaction_at: null,
       total_earned: 0,
@@ -326,6 +330,8 @@ export async function getCreditSummary(): Promise<{
     console.error('Error fetching credit summary:', error)
     return {
       balance: 0,
+      held: 0,
+      available: 0,
       transaction_count: 0,
       last_transaction_at: null,
       total_earned: 0,
@@ -3,12 +3,15 @@
 // =====================================================
 // TypeScript types for plans, subscriptions, credits
 
+export type PlanId = 'starter' | 'pro' | 'brand' | 'agency'
+
 export interface Plan {
-  id: 'starter' | 'pro' | 'brand' | 'agency'
+  id: PlanId
   name: string
   monthly_price_cents: number
   monthly_credits: number
   overage_cents: number
+  upscale_credits: number  // Credits charged per upscaled output
   features: string[]
   created_at: string
   updated_at: string
@@ -49,6 +52,32 @@ export interface CreditLedgerEntry {
   created_at: string
 }
 
+export type CreditHoldStatus = 'active' | 'captured' | 'released'
+
+// Credits reserved for an in-flight job (credit_holds table)
+export interface CreditHold {
+  id: string
+  user_id: string
+  amount: number
+  status: CreditHoldStatus
+  ref_type: 'job'
+  ref_id: string
+  ledger_id: string | null
+  release_reason: string | null
+  created_at: string
+  resolved_at: string | null
+}
+
+// Active hold with the job it reserves credits for
+export interface PendingCreditHold extends CreditHold {
+  job: {
+    id: string
+    mode: string
+    status: string
+    project_id: string
+  } | null
+}
+
 export interface UsageCounter {
   user_id: string
   day: string // date string YYYY-MM-DD
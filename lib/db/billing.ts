@@ -1,14 +1,17 @@
 import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
 import type { 
   Plan, 
+  PlanId,
   Subscription, 
   CreditLedgerEntry, 
   UsageCounter,
   NewSubscription,
   CreditReason,
   CreditRefType,
-  CreditBalance
+  CreditBalance,
+  PendingCreditHold
 } from './billing-types'
 
 // =====================================================
@@ -82,6 +85,20 @@ export async function getUserSubscription(userId: string): Promise<Subscription
   return data
 }
 
+/**
+ * Plan the user is on: their live (trialing, active or past due)
+ * subscription's plan, or starter without one
+ */
+export async function getUserPlanId(userId: string): Promise<PlanId> {
+  const subscription = await getUserSubscription(userId)
+
+  if (!subscription || !['trialing', 'active', 'past_due'].includes(subscription.status)) {
+    return 'starter'
+  }
+
+  return subscription.plan_id as PlanId
+}
+
 /**
  * Create a new subscription for a user
  */
@@ -131,7 +148,7 @@ export async function updateSubscription(
 // =====================================================
 
 /**
- * Get user's credit balance
+ * Get user's available credit balance (ledger balance minus active holds)
  * Uses optimized SQL view for fast lookups
  */
 export async function getUserCreditBalance(userId: string): Promise<number> {
@@ -179,6 +196,47 @@ export async function getUserCreditHistory(
   return data || []
 }
 
+/**
+ * Get the user's active credit holds (credits reserved by in-flight jobs)
+ */
+export async function getPendingCreditHolds(userId: string): Promise<PendingCreditHold[]> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase
+    .from('credit_holds')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+  
+  if (error) {
+    console.error('Error fetching credit holds:', error)
+    return []
+  }
+  
+  const holds = data || []
+  const jobIds = holds.filter(h => h.ref_type === 'job').map(h => h.ref_id)
+  
+  if (jobIds.length === 0) {
+    return holds.map(hold => ({ ...hold, job: null }))
+  }
+  
+  // Holds reference jobs polymorphically (ref_type/ref_id), so join in code
+  const { data: jobs, error: jobsError } = await supabase
+    .from('generation_jobs')
+    .select('id, mode, status, project_id')
+    .in('id', jobIds)
+  
+  if (jobsError) {
+    console.error('Error fetching jobs for credit holds:', jobsError)
+  }
+  
+  return holds.map(hold => ({
+    ...hold,
+    job: jobs?.find(job => job.id === hold.ref_id) || null,
+  }))
+}
+
 /**
  * Add credits to user's account (server action)
  * Note: This should typically be called from a server action or API route
@@ -219,7 +277,8 @@ export async function spendCredits(
   amount: number,
   reason: CreditReason = 'generation',
   refType: CreditRefType = null,
-  refId: string | null = null
+  refId: string | null = null,
+  client?: SupabaseClient
 ): Promise<{
   success: boolean
   error?: string
@@ -230,7 +289,7 @@ export async function spendCredits(
   required?: number
   shortfall?: number
 }> {
-  const supabase = await createClient()
+  const supabase = client ?? await createClient()
   
   const { data, error } = await supabase
     .rpc('spend_credits', {
@@ -309,6 +368,26 @@ export async function hasSufficientCredits(
   return data || false
 }
 
+/**
+ * Credits one upscale costs the user on their plan (plans.upscale_credits)
+ * Users without a live subscription pay the starter price
+ */
+export async function getUpscaleCreditPrice(userId: string): Promise<number> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase
+    .rpc('get_upscale_credit_price', {
+      p_user_id: userId
+    })
+  
+  if (error) {
+    console.error('Error fetching upscale credit price:', error)
+    return 1
+  }
+  
+  return data ?? 1
+}
+
 /**
  * Grant bonus credits (admin function)
  * Useful for promotions, refunds, or customer support
@@ -350,6 +429,8 @@ export async function grantBonusCredits(
  */
 export async function getCreditSummary(userId: string): Promise<{
   balance: number
+  held: number
+  available: number
   transaction_count: number
   last_transaction_at: string | null
   total_earned: number
@@ -368,6 +449,8 @@ export async function getCreditSummary(userId: string): Promise<{
     console.error('Error fetching credit summary:', error)
     return {
       balance: 0,
+      held: 0,
+      available: 0,
       transaction_count: 0,
       last_transaction_at: null,
       total_earned: 0,
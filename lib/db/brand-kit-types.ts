@@ -0,0 +1,22 @@
+// TypeScript types for the brand_kits table
+import type { BrandTone, CalloutTypography } from '@/lib/brand-kits'
+
+export type BrandKit = {
+  id: string
+  user_id: string
+  name: string
+  tone: BrandTone | null
+  color_palette: string[]        // #RRGGBB hex codes
+  scene_styles: string[]
+  banned_terms: string[]         // Words and props that must never appear
+  callout_typography: CalloutTypography | null
+  default_constraints: string[]
+  created_at: string
+  updated_at: string
+}
+
+export type NewBrandKit = Pick<BrandKit,
+  'name' | 'tone' | 'color_palette' | 'scene_styles' | 'banned_terms' | 'callout_typography' | 'default_constraints'
+>
+
+export type UpdateBrandKit = Partial<NewBrandKit>
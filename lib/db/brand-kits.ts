@@ -0,0 +1,123 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import type { BrandKit, NewBrandKit, UpdateBrandKit } from './brand-kit-types'
+
+/**
+ * Get the current user's brand kits, by name
+ */
+export async function getBrandKits(): Promise<BrandKit[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('brand_kits')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching brand kits:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Get a single brand kit by ID
+ * RLS limits lookups to the user's own kits
+ */
+export async function getBrandKit(id: string, client?: SupabaseClient): Promise<BrandKit | null> {
+  const supabase = client ?? await createClient()
+
+  const { data, error } = await supabase
+    .from('brand_kits')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching brand kit:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Create a brand kit for the current user
+ * Returns an error message when the name is already taken
+ */
+export async function createBrandKit(kit: NewBrandKit): Promise<{ brandKit: BrandKit } | { error: string }> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User must be authenticated to create a brand kit')
+  }
+
+  const { data, error } = await supabase
+    .from('brand_kits')
+    .insert({ ...kit, user_id: user.id })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { error: `A brand kit named "${kit.name}" already exists` }
+    }
+    console.error('Error creating brand kit:', error)
+    throw error
+  }
+
+  return { brandKit: data }
+}
+
+/**
+ * Update a brand kit
+ * Returns null when the kit does not exist, or an error message when the
+ * new name is already taken
+ */
+export async function updateBrandKit(
+  id: string,
+  updates: UpdateBrandKit
+): Promise<{ brandKit: BrandKit } | { error: string } | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('brand_kits')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { error: `A brand kit named "${updates.name}" already exists` }
+    }
+    console.error('Error updating brand kit:', error)
+    throw error
+  }
+
+  return data ? { brandKit: data } : null
+}
+
+/**
+ * Delete a brand kit
+ * Projects using it are left without a kit (brand_kit_id is set to null)
+ */
+export async function deleteBrandKit(id: string): Promise<boolean> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('brand_kits')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting brand kit:', error)
+    return false
+  }
+
+  return true
+}
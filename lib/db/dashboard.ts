@@ -20,6 +20,7 @@ export async function getDashboardStats(userId: string) {
     .from('assets')
     .select('*', { count: 'exact', head: true })
     .eq('kind', 'output')
+    .is('derivative_key', null)
     .gte('created_at', firstDayOfMonth.toISOString())
     .limit(1)
 
@@ -55,6 +56,8 @@ export async function getRecentOutputs(userId: string, limit: number = 12): Prom
     .from('assets')
     .select('*')
     .eq('kind', 'output')
+    .is('derivative_key', null)
+    .or('variant_status.is.null,variant_status.eq.kept')
     .order('created_at', { ascending: false })
     .limit(limit)
 
@@ -0,0 +1,40 @@
+// TypeScript types for the prompt_experiments table
+import type { AssetMode } from './asset-types'
+
+export type ExperimentStatus = 'running' | 'completed'
+
+// A prompt version under test and its share of traffic
+export type ExperimentVariant = {
+  version: string
+  weight: number             // Relative weight, e.g. 50/50 or 90/10
+}
+
+export type PromptExperiment = {
+  id: string
+  mode: AssetMode
+  name: string
+  notes: string | null
+  status: ExperimentStatus
+  variants: ExperimentVariant[]
+  winner_version: string | null   // Promoted version (null if stopped without a winner)
+  created_by: string | null
+  started_at: string
+  ended_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Row of get_prompt_experiment_results()
+export type ExperimentVersionResults = {
+  prompt_version: string
+  jobs: number
+  succeeded_jobs: number
+  failed_jobs: number
+  variants_selected: number  // Variants shown in completed selections
+  variants_kept: number
+  outputs: number            // Single outputs and kept variants
+  downloaded_outputs: number
+  regenerated_outputs: number
+  compliance_checked: number
+  compliance_passed: number
+}
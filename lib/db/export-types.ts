@@ -0,0 +1,22 @@
+// TypeScript types for the project_exports table
+export type ExportStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export type ProjectExport = {
+  id: string
+  user_id: string
+  project_id: string
+  status: ExportStatus
+  asset_ids: string[]        // Outputs to export, resolved at request time
+  include_inputs: boolean    // Also export the inputs the outputs came from
+  storage_path: string | null
+  size_bytes: number | null
+  error: string | null
+  attempts: number
+  max_attempts: number
+  locked_by: string | null
+  lease_expires_at: string | null
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
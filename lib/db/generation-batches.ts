@@ -0,0 +1,120 @@
+import { createClient } from '@/lib/supabase/server'
+import { isTerminalJobStatus } from './job-types'
+import type { BatchProgress, CreateBatchWithHoldsResult, GenerationBatch, GenerationBatchItem, GenerationJob, GenerationJobPayload, JobStatus } from './job-types'
+
+// Server-side functions (for Server Components and Route Handlers)
+
+/**
+ * Create a batch with its queued child jobs and hold each job's credits
+ * Nothing is created unless the user has enough credits for every job
+ */
+export async function createGenerationBatchWithHolds(batch: {
+  project_id: string
+  input_asset_id: string
+  items: GenerationBatchItem[]
+  jobs: { mode: string; credits: number; payload: GenerationJobPayload }[]  // credits: the job's hold
+  cost_cents?: number
+  provider?: string | null
+  model?: string | null
+}): Promise<CreateBatchWithHoldsResult> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .rpc('create_generation_batch_with_holds', {
+      p_project_id: batch.project_id,
+      p_input_asset_id: batch.input_asset_id,
+      p_items: batch.items,
+      p_jobs: batch.jobs,
+      p_cost_cents: batch.cost_cents || 0,
+      p_provider: batch.provider || null,
+      p_model: batch.model || null,
+    })
+
+  if (error) {
+    console.error('Error creating generation batch with credit holds:', error)
+    throw error
+  }
+
+  return data as CreateBatchWithHoldsResult
+}
+
+/**
+ * Get a batch by ID (RLS limits this to the current user's batches)
+ */
+export async function getGenerationBatch(id: string): Promise<GenerationBatch | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('generation_batches')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching generation batch:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Get a batch's child jobs in creation order
+ */
+export async function getBatchJobs(batchId: string): Promise<GenerationJob[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('batch_id', batchId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching batch jobs:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Aggregate the status of a batch's child jobs
+ */
+export function summarizeBatchProgress(jobs: Pick<GenerationJob, 'status'>[]): BatchProgress {
+  const counts: Record<JobStatus, number> = {
+    queued: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    canceled: 0,
+  }
+
+  for (const job of jobs) {
+    counts[job.status]++
+  }
+
+  const total = jobs.length
+  const completed = jobs.filter((job) => isTerminalJobStatus(job.status)).length
+
+  let status: BatchProgress['status'] = 'in_progress'
+  if (completed === total) {
+    if (counts.succeeded === total) {
+      status = 'succeeded'
+    } else if (counts.succeeded > 0) {
+      status = 'partial'
+    } else if (counts.canceled === total) {
+      status = 'canceled'
+    } else {
+      status = 'failed'
+    }
+  }
+
+  return {
+    status,
+    total,
+    completed,
+    percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+    counts,
+  }
+}
@@ -1,5 +1,6 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
-import type { GenerationJob, NewGenerationJob, UpdateGenerationJob, JobStatistic, JobSummary, RecentJob, JobStatus } from './job-types'
+import type { GenerationJob, NewGenerationJob, CreateJobWithHoldResult, CreateUpscaleJobResult, GenerationJobPayload, CancelJobResult, SelectVariantsResult, InFlightJob, UpdateGenerationJob, JobStatistic, JobSummary, RecentJob, JobStatus } from './job-types'
 
 // Server-side functions (for Server Components and Server Actions)
 
@@ -62,6 +63,53 @@ export async function getJobsByStatus(status: JobStatus): Promise<GenerationJob[
   return data || []
 }
 
+/**
+ * Get the current user's queued and running jobs across all projects
+ */
+export async function getInFlightJobs(): Promise<InFlightJob[]> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*, projects(name)')
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: true })
+  
+  if (error) {
+    console.error('Error fetching in-flight jobs:', error)
+    throw error
+  }
+  
+  return (data || []).map(({ projects, ...job }) => ({
+    ...job,
+    project_name: projects?.name ?? null,
+  }))
+}
+
+/**
+ * Get a project's succeeded multi-variant jobs still waiting for
+ * the user to pick which variants to keep
+ */
+export async function getPendingVariantJobs(projectId: string): Promise<GenerationJob[]> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('status', 'succeeded')
+    .gt('variant_count', 1)
+    .is('variants_selected_at', null)
+    .order('completed_at', { ascending: false })
+  
+  if (error) {
+    console.error('Error fetching pending variant jobs:', error)
+    return []
+  }
+  
+  return data || []
+}
+
 /**
  * Get a single generation job by ID
  */
@@ -114,11 +162,81 @@ export async function createGenerationJob(job: NewGenerationJob): Promise<Genera
 }
 
 /**
- * Update an existing generation job
+ * Create a queued generation job and reserve its credits in one transaction
+ * The hold is captured when the job succeeds and released when it fails,
+ * so parallel requests cannot spend the same credits twice
  */
-export async function updateGenerationJob(id: string, updates: UpdateGenerationJob): Promise<GenerationJob | null> {
+export async function createGenerationJobWithHold(
+  job: NewGenerationJob,
+  credits: number = 1
+): Promise<CreateJobWithHoldResult> {
   const supabase = await createClient()
   
+  const { data, error } = await supabase
+    .rpc('create_generation_job_with_hold', {
+      p_project_id: job.project_id,
+      p_mode: job.mode,
+      p_input_asset_id: job.input_asset_id || null,
+      p_cost_cents: job.cost_cents || 0,
+      p_provider: job.provider || null,
+      p_model: job.model || null,
+      p_payload: job.payload || {},
+      p_credits: credits,
+      p_variant_count: job.variant_count || 1,
+    })
+  
+  if (error) {
+    console.error('Error creating generation job with credit hold:', error)
+    throw error
+  }
+  
+  return data as CreateJobWithHoldResult
+}
+
+/**
+ * Create a queued upscale job for an output and hold its plan price
+ * (plans.upscale_credits) in one transaction
+ * The worker runs it with processUpscale (lib/generation/upscale.ts)
+ */
+export async function createUpscaleJobWithHold(
+  sourceAssetId: string,
+  job: {
+    cost_cents?: number
+    provider?: string | null
+    model?: string | null
+    payload: GenerationJobPayload
+  }
+): Promise<CreateUpscaleJobResult> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase
+    .rpc('create_upscale_job_with_hold', {
+      p_source_asset_id: sourceAssetId,
+      p_cost_cents: job.cost_cents || 0,
+      p_provider: job.provider || null,
+      p_model: job.model || null,
+      p_payload: job.payload,
+    })
+  
+  if (error) {
+    console.error('Error creating upscale job with credit hold:', error)
+    throw error
+  }
+  
+  return data as CreateUpscaleJobResult
+}
+
+/**
+ * Update an existing generation job
+ * Pass a client to update outside a request (e.g. the admin client in workers)
+ */
+export async function updateGenerationJob(
+  id: string,
+  updates: UpdateGenerationJob,
+  client?: SupabaseClient
+): Promise<GenerationJob | null> {
+  const supabase = client ?? await createClient()
+  
   const { data, error } = await supabase
     .from('generation_jobs')
     .update(updates)
@@ -158,6 +276,50 @@ export async function transitionJobStatus(
   return data === true
 }
 
+/**
+ * Cancel a job owned by the current user
+ * Queued jobs are canceled immediately; running jobs are flagged and
+ * stopped by the worker at its next stage boundary
+ */
+export async function cancelGenerationJob(jobId: string): Promise<CancelJobResult> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase.rpc('cancel_generation_job', {
+    p_job_id: jobId,
+  })
+  
+  if (error) {
+    console.error('Error canceling generation job:', error)
+    throw error
+  }
+  
+  return data as CancelJobResult
+}
+
+/**
+ * Keep the given variants of a succeeded multi-variant job and discard the rest
+ * Captures 1 credit per kept variant and releases the remainder of the hold;
+ * discarded variants are purged from storage after the grace period
+ */
+export async function selectJobVariants(
+  jobId: string,
+  keepAssetIds: string[]
+): Promise<SelectVariantsResult> {
+  const supabase = await createClient()
+  
+  const { data, error } = await supabase.rpc('select_job_variants', {
+    p_job_id: jobId,
+    p_keep_asset_ids: keepAssetIds,
+  })
+  
+  if (error) {
+    console.error('Error selecting job variants:', error)
+    throw error
+  }
+  
+  return data as SelectVariantsResult
+}
+
 /**
  * Delete a generation job
  */
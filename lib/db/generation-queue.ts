@@ -0,0 +1,200 @@
+import 'server-only'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { sleep } from '@/lib/utils'
+import type { GenerationJob, HeartbeatResult, JobErrorCode, LeaseState, SweptJob } from './job-types'
+import type { Asset } from './asset-types'
+
+// Worker-side queue functions (service role, no request context)
+
+// Default lease length; workers heartbeat well inside this window
+export const DEFAULT_LEASE_SECONDS = 60
+
+/**
+ * Claim the oldest queued job and lease it to a worker
+ * Returns null when the queue is empty
+ */
+export async function claimGenerationJob(
+  workerId: string,
+  leaseSeconds: number = DEFAULT_LEASE_SECONDS
+): Promise<GenerationJob | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('claim_generation_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+  })
+
+  if (error) {
+    console.error('Error claiming generation job:', error)
+    throw error
+  }
+
+  return (data as GenerationJob[] | null)?.[0] ?? null
+}
+
+// Heartbeat calls made before a failing heartbeat is given up on
+const HEARTBEAT_ATTEMPTS = 3
+const HEARTBEAT_RETRY_DELAY_MS = 1000
+
+/**
+ * Extend the lease on a running job
+ * Returns 'lost' if the worker no longer holds the lease, and
+ * 'cancel_requested' if the owner asked to cancel the job.
+ *
+ * Only the RPC's answer reports 'lost'. Failed calls (network or database
+ * errors) are retried, then reported as 'unknown': the lease was neither
+ * extended nor confirmed lost.
+ */
+export async function heartbeatGenerationJob(
+  jobId: string,
+  workerId: string,
+  leaseSeconds: number = DEFAULT_LEASE_SECONDS
+): Promise<HeartbeatResult> {
+  const supabase = createAdminClient()
+
+  for (let attempt = 1; attempt <= HEARTBEAT_ATTEMPTS; attempt++) {
+    const { data, error } = await supabase.rpc('heartbeat_generation_job', {
+      p_job_id: jobId,
+      p_worker_id: workerId,
+      p_lease_seconds: leaseSeconds,
+    })
+
+    if (!error) {
+      return (data as LeaseState | null) ?? 'lost'
+    }
+
+    console.error(`Error sending job heartbeat (attempt ${attempt}/${HEARTBEAT_ATTEMPTS}):`, error)
+
+    if (attempt < HEARTBEAT_ATTEMPTS) {
+      await sleep(HEARTBEAT_RETRY_DELAY_MS * attempt)
+    }
+  }
+
+  return 'unknown'
+}
+
+/**
+ * End the current attempt of a leased job and record it in attempt_history
+ * - 'succeeded' / 'failed' / 'canceled' finish the job
+ * - 'queued' schedules a retry after retryDelaySeconds (or cancels
+ *   the job if the owner asked to cancel it)
+ * Returns false if the worker no longer holds the lease
+ */
+export async function finishGenerationAttempt(
+  jobId: string,
+  workerId: string,
+  status: 'succeeded' | 'failed' | 'queued' | 'canceled',
+  failure: { errorCode?: JobErrorCode; error?: string; retryDelaySeconds?: number } = {}
+): Promise<boolean> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('finish_generation_attempt', {
+    p_job_id: jobId,
+    p_worker_id: workerId,
+    p_status: status,
+    p_error_code: failure.errorCode || null,
+    p_error: failure.error || null,
+    p_retry_delay_seconds: failure.retryDelaySeconds || 0,
+  })
+
+  if (error) {
+    console.error('Error finishing generation attempt:', error)
+    return false
+  }
+
+  return data === true
+}
+
+/**
+ * Re-queue, fail or cancel running jobs whose lease expired
+ */
+export async function sweepExpiredGenerationJobs(): Promise<SweptJob[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('sweep_expired_generation_jobs')
+
+  if (error) {
+    console.error('Error sweeping expired generation jobs:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Delete job events older than the retention window
+ * Returns the number of events removed
+ */
+export async function pruneGenerationJobEvents(): Promise<number> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('prune_generation_job_events')
+
+  if (error) {
+    console.error('Error pruning generation job events:', error)
+    return 0
+  }
+
+  return data || 0
+}
+
+/**
+ * Keep only the first variant of multi-variant jobs left unselected past the selection window
+ * Returns the number of jobs finalized
+ */
+export async function finalizeExpiredVariantSelections(): Promise<number> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('finalize_expired_variant_selections')
+
+  if (error) {
+    console.error('Error finalizing expired variant selections:', error)
+    return 0
+  }
+
+  return data || 0
+}
+
+/**
+ * Get discarded variants whose grace period has ended
+ */
+export async function getExpiredDiscardedVariants(
+  limit: number = 50
+): Promise<Pick<Asset, 'id' | 'storage_path' | 'callout_layer'>[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('assets')
+    .select('id, storage_path, callout_layer')
+    .eq('variant_status', 'discarded')
+    .lt('discard_after', new Date().toISOString())
+    .order('discard_after', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching expired discarded variants:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Delete discarded variant rows once their files are gone
+ */
+export async function deleteDiscardedVariants(assetIds: string[]): Promise<boolean> {
+  const supabase = createAdminClient()
+
+  const { error } = await supabase
+    .from('assets')
+    .delete()
+    .in('id', assetIds)
+    .eq('variant_status', 'discarded')
+
+  if (error) {
+    console.error('Error deleting discarded variants:', error)
+    return false
+  }
+
+  return true
+}
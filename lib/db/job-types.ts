@@ -1,15 +1,97 @@
+import type { JobErrorCode } from '@/lib/generation/errors'
+import type { JobStage } from '@/lib/generation/stages'
+import type { MarketplaceId } from '@/lib/marketplaces'
+import type { BrandKitSnapshot } from '@/lib/brand-kits'
+import type { BundleLayoutId } from '@/lib/generation/bundle'
+import type { Callout, CalloutLayoutId } from '@/lib/generation/callouts'
+import type { ProductDimensions, ScaleReferenceId } from '@/lib/generation/dimensions'
+import type { ComparisonRow } from '@/lib/generation/infographic'
+import type { GenerationMode } from '@/lib/generation/modes'
+
 // TypeScript types for the generation_jobs table
-export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'canceled'
+
+// Statuses a job never leaves
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'canceled']
+
+export function isTerminalJobStatus(status: JobStatus): boolean {
+  return TERMINAL_JOB_STATUSES.includes(status)
+}
+
+export type { JobErrorCode, JobStage }
+
+// Pipeline the worker runs for a job
+export type JobType = 'generate' | 'upscale'
+
+// One finished attempt, appended to generation_jobs.attempt_history
+export type JobAttempt = {
+  attempt: number
+  worker_id: string | null
+  started_at: string | null
+  finished_at: string
+  outcome: 'succeeded' | 'failed' | 'canceled' | 'retrying' | 'lease_expired'
+  error_code: JobErrorCode | null
+  retry_at: string | null
+}
+
+// Request parameters stored on the job for the worker
+export type GenerationJobPayload = {
+  promptInputs?: {
+    productCategory?: string
+    brandTone?: string
+    productDescription?: string
+    constraints?: string[]
+    callouts?: Callout[]              // feature_callout: text composited by the worker
+    calloutLayout?: CalloutLayoutId
+    comparisonRows?: ComparisonRow[]  // infographic: chart rows composited by the worker
+    chartTitle?: string
+    dimensions?: ProductDimensions    // dimensions: measurements composited by the worker
+    scaleReference?: ScaleReferenceId
+    bundleLayout?: BundleLayoutId     // bundle: arrangement of the input products
+  }
+  inputAssetIds?: string[]  // bundle: every input asset, in layout order (input_asset_id is the first)
+  promptVersion?: string
+  experimentId?: string   // Prompt experiment that assigned promptVersion (see prompt_experiments)
+  requestId?: string
+  parentAssetId?: string  // Output being regenerated (copied to assets.parent_asset_id)
+  marketplace?: MarketplaceId  // Profile for prompt rules and compliance checks (default: amazon)
+  brandKit?: BrandKitSnapshot  // Brand kit merged into promptInputs, as it was when queued
+  upscale?: {
+    targetSize: number  // Longest side of the upscaled output in pixels
+  }
+}
 
 export type GenerationJob = {
   id: string
   user_id: string
   project_id: string
+  batch_id: string | null
+  job_type: JobType
   status: JobStatus
   mode: string
   input_asset_id: string | null
   error: string | null
+  error_code: JobErrorCode | null
   cost_cents: number
+  provider: string | null
+  model: string | null
+  payload: GenerationJobPayload
+  attempts: number
+  max_attempts: number
+  attempt_history: JobAttempt[]
+  run_after: string | null
+  stage: JobStage | null
+  output_asset_id: string | null
+  variant_count: number
+  variants_generated: number | null
+  variants_kept: number | null
+  variants_selected_at: string | null
+  cancel_requested_at: string | null
+  locked_by: string | null
+  lease_expires_at: string | null
+  heartbeat_at: string | null
+  started_at: string | null
+  completed_at: string | null
   created_at: string
   updated_at: string
 }
@@ -19,12 +101,157 @@ export type NewGenerationJob = {
   mode: string
   input_asset_id?: string | null
   cost_cents?: number
+  provider?: string | null
+  model?: string | null
+  payload?: GenerationJobPayload
+  max_attempts?: number
+  variant_count?: number
+}
+
+// Result of create_generation_job_with_hold
+export type CreateJobWithHoldResult = {
+  success: boolean
+  job?: GenerationJob
+  hold_id?: string
+  error?: string
+  available?: number
+  required?: number
+  shortfall?: number
+}
+
+// Result of create_upscale_job_with_hold
+export type CreateUpscaleJobResult = CreateJobWithHoldResult & {
+  credits?: number  // Plan price held for the upscale
 }
 
 export type UpdateGenerationJob = {
   status?: JobStatus
   error?: string | null
+  stage?: JobStage | null
+  output_asset_id?: string | null
+  variants_generated?: number | null
   cost_cents?: number
+  provider?: string | null
+  model?: string | null
+}
+
+// Row in generation_job_events (streamed by /api/jobs/[id]/events)
+export type JobEvent = {
+  id: number
+  job_id: string
+  user_id: string
+  type: 'status' | 'stage'
+  status: JobStatus
+  stage: JobStage | null
+  output_asset_id: string | null
+  error_code: JobErrorCode | null
+  created_at: string
+}
+
+// Payload of each SSE message from /api/jobs/[id]/events and /api/jobs/events
+export type JobEventMessage = {
+  id: number
+  jobId: string
+  type: JobEvent['type']
+  status: JobStatus
+  stage: JobStage | null
+  outputAssetId: string | null
+  errorCode: JobErrorCode | null
+  createdAt: string
+}
+
+// One requested entry of a batch: `count` jobs of `mode`
+export type GenerationBatchItem = {
+  mode: GenerationMode
+  count: number
+  inputs?: GenerationJobPayload['promptInputs']
+}
+
+// Row in generation_batches (POST /api/generate/batch)
+export type GenerationBatch = {
+  id: string
+  user_id: string
+  project_id: string
+  input_asset_id: string | null
+  items: GenerationBatchItem[]
+  total_jobs: number
+  total_credits: number
+  created_at: string
+  updated_at: string
+}
+
+export type CreateBatchWithHoldsResult = {
+  success: boolean
+  batch?: GenerationBatch
+  jobs?: GenerationJob[]
+  error?: string
+  available?: number
+  required?: number
+  shortfall?: number
+}
+
+// in_progress until every child job is terminal, then the overall outcome
+export type BatchStatus = 'in_progress' | 'succeeded' | 'partial' | 'failed' | 'canceled'
+
+// Aggregate progress of a batch's child jobs
+export type BatchProgress = {
+  status: BatchStatus
+  total: number
+  completed: number
+  percent: number
+  counts: Record<JobStatus, number>
+}
+
+// Queued or running job listed in the in-flight jobs panel
+export type InFlightJob = GenerationJob & {
+  project_name: string | null
+}
+
+// Result of cancel_generation_job()
+export type CancelJobResult = {
+  success: boolean
+  status?: JobStatus
+  cancel_requested?: boolean
+  error?: string
+}
+
+// Parameters an output was generated with, used to prefill "Regenerate"
+// (GET /api/assets/[id]/generation-params)
+export type GenerationParams = {
+  assetId: string
+  projectId: string
+  jobId: string | null
+  mode: string
+  inputAssetId: string | null
+  inputAssetIds: string[] | null  // bundle: every input asset, in layout order
+  inputs: NonNullable<GenerationJobPayload['promptInputs']>
+  promptVersion: string
+  provider: string | null
+  model: string | null
+  variants: number
+  marketplace: MarketplaceId
+  brandKitId: string | null  // Brand kit applied (null for none)
+}
+
+// Result of select_job_variants()
+export type SelectVariantsResult = {
+  success: boolean
+  kept?: number
+  discarded?: number
+  credits_charged?: number
+  error?: string
+}
+
+// Lease state reported by heartbeat_generation_job()
+export type LeaseState = 'held' | 'cancel_requested' | 'lost'
+
+// Heartbeat outcome: the lease state, or 'unknown' when the call failed
+export type HeartbeatResult = LeaseState | 'unknown'
+
+export type SweptJob = {
+  job_id: string
+  new_status: JobStatus
+  job_attempts: number
 }
 
 export type JobStatistic = {
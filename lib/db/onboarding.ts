@@ -1,5 +1,7 @@
 import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
+import type { OnboardingGenerationTask } from '@/lib/generation/modes'
 
 export interface OnboardingProgress {
   user_id: string
@@ -24,8 +26,11 @@ export interface UpdateOnboardingProgress {
 /**
  * Get user's onboarding progress (creates default if doesn't exist)
  */
-export async function getOnboardingProgress(userId: string): Promise<OnboardingProgress> {
-  const supabase = await createClient()
+export async function getOnboardingProgress(
+  userId: string,
+  client?: SupabaseClient
+): Promise<OnboardingProgress> {
+  const supabase = client ?? await createClient()
 
   const { data, error } = await supabase
     .from('onboarding_progress')
@@ -69,12 +74,13 @@ export async function getOnboardingProgress(userId: string): Promise<OnboardingP
  */
 export async function updateOnboardingProgress(
   userId: string,
-  updates: UpdateOnboardingProgress
+  updates: UpdateOnboardingProgress,
+  client?: SupabaseClient
 ): Promise<OnboardingProgress> {
-  const supabase = await createClient()
+  const supabase = client ?? await createClient()
 
   // Check if all tasks will be complete after this update
-  const currentProgress = await getOnboardingProgress(userId)
+  const currentProgress = await getOnboardingProgress(userId, supabase)
   const updatedProgress = { ...currentProgress, ...updates }
   
   const allComplete =
@@ -113,9 +119,10 @@ export async function updateOnboardingProgress(
  */
 export async function markTaskComplete(
   userId: string,
-  task: 'uploaded_photo' | 'generated_main_image' | 'generated_lifestyle_image' | 'downloaded_asset'
+  task: 'uploaded_photo' | 'generated_main_image' | 'generated_lifestyle_image' | 'downloaded_asset',
+  client?: SupabaseClient
 ): Promise<OnboardingProgress> {
-  return updateOnboardingProgress(userId, { [task]: true })
+  return updateOnboardingProgress(userId, { [task]: true }, client)
 }
 
 /**
@@ -171,19 +178,18 @@ export async function markPhotoUploaded(userId: string): Promise<void> {
   }
 }
 
-export async function markMainImageGenerated(userId: string): Promise<void> {
-  try {
-    await markTaskComplete(userId, 'generated_main_image')
-  } catch (error) {
-    console.error('Error marking main image generated:', error)
-  }
-}
-
-export async function markLifestyleImageGenerated(userId: string): Promise<void> {
+/**
+ * Mark the task of a generation mode (GENERATION_MODES[mode].onboardingTask)
+ */
+export async function markImageGenerated(
+  userId: string,
+  task: OnboardingGenerationTask,
+  client?: SupabaseClient
+): Promise<void> {
   try {
-    await markTaskComplete(userId, 'generated_lifestyle_image')
+    await markTaskComplete(userId, task, client)
   } catch (error) {
-    console.error('Error marking lifestyle image generated:', error)
+    console.error(`Error marking ${task}:`, error)
   }
 }
 
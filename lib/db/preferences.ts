@@ -1,7 +1,8 @@
 import 'server-only'
 import { createClient } from '@/lib/supabase/server'
+import type { BrandTone } from '@/lib/brand-kits'
 
-export type BrandTone = 'professional' | 'luxury' | 'playful' | 'minimal' | 'bold'
+export type { BrandTone }
 
 export interface UserPreferences {
   user_id: string
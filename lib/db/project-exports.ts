@@ -0,0 +1,116 @@
+import 'server-only'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { ProjectExport } from './export-types'
+
+// Server-side functions (for Route Handlers and the worker)
+
+// Exports are built in one go, so the lease covers the whole export
+export const EXPORT_LEASE_SECONDS = 600
+
+/**
+ * Queue a background export of a project's outputs
+ */
+export async function createProjectExport(projectExport: {
+  user_id: string
+  project_id: string
+  asset_ids: string[]
+  include_inputs: boolean
+}): Promise<ProjectExport> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('project_exports')
+    .insert(projectExport)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating project export:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Get an export by ID (RLS limits this to the current user's exports)
+ */
+export async function getProjectExport(id: string): Promise<ProjectExport | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('project_exports')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching project export:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Claim the oldest queued (or abandoned) export for a worker
+ * Returns null when there is nothing to export
+ */
+export async function claimProjectExport(
+  workerId: string,
+  leaseSeconds: number = EXPORT_LEASE_SECONDS
+): Promise<ProjectExport | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('claim_project_export', {
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+  })
+
+  if (error) {
+    console.error('Error claiming project export:', error)
+    throw error
+  }
+
+  return (data as ProjectExport[] | null)?.[0] ?? null
+}
+
+/**
+ * Record the outcome of a claimed export
+ * A failure with attempts left goes back to the queue
+ * Returns false if the worker no longer holds the export
+ */
+export async function finishProjectExport(
+  projectExport: ProjectExport,
+  workerId: string,
+  result: { storage_path: string; size_bytes: number } | { error: string }
+): Promise<boolean> {
+  const supabase = createAdminClient()
+
+  const outcome = 'error' in result
+    ? {
+        status: projectExport.attempts < projectExport.max_attempts ? 'queued' : 'failed',
+        error: result.error,
+      }
+    : { status: 'succeeded', ...result, error: null }
+
+  const { data, error } = await supabase
+    .from('project_exports')
+    .update({
+      ...outcome,
+      locked_by: null,
+      lease_expires_at: null,
+      completed_at: outcome.status === 'queued' ? null : new Date().toISOString(),
+    })
+    .eq('id', projectExport.id)
+    .eq('locked_by', workerId)
+    .select('id')
+
+  if (error) {
+    console.error('Error finishing project export:', error)
+    return false
+  }
+
+  return (data?.length ?? 0) > 0
+}
@@ -37,6 +37,7 @@ export async function createProjectClient(project: NewProject): Promise<Project
     .from('projects')
     .insert({
       name: project.name,
+      marketplace: project.marketplace,
       user_id: user.id,
     })
     .select()
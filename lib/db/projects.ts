@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
 import type { Project, NewProject, UpdateProject } from './types'
 
@@ -24,9 +25,10 @@ export async function getProjects(): Promise<Project[]> {
 
 /**
  * Get a single project by ID
+ * Pass a client to query outside a request (e.g. the admin client in workers)
  */
-export async function getProject(id: string): Promise<Project | null> {
-  const supabase = await createClient()
+export async function getProject(id: string, client?: SupabaseClient): Promise<Project | null> {
+  const supabase = client ?? await createClient()
   
   const { data, error } = await supabase
     .from('projects')
@@ -59,6 +61,7 @@ export async function createProject(project: NewProject): Promise<Project | null
     .from('projects')
     .insert({
       name: project.name,
+      marketplace: project.marketplace,
       user_id: user.id,
     })
     .select()
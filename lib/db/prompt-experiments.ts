@@ -0,0 +1,166 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { resolvePromptTemplate } from './prompt-templates'
+import type { Mode } from '@/lib/prompts'
+import type {
+  ExperimentVariant,
+  ExperimentVersionResults,
+  PromptExperiment,
+} from './experiment-types'
+
+// Server-side functions for prompt A/B experiments
+// Generation reads running experiments; everything else is admin-only (service role)
+
+/**
+ * Get the running experiment for a mode, if any
+ */
+export async function getRunningPromptExperiment(
+  mode: Mode,
+  client?: SupabaseClient
+): Promise<PromptExperiment | null> {
+  const supabase = client ?? await createClient()
+
+  const { data, error } = await supabase
+    .from('prompt_experiments')
+    .select('*')
+    .eq('mode', mode)
+    .eq('status', 'running')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching running prompt experiment:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * List experiments, newest first (admin)
+ */
+export async function listPromptExperiments(): Promise<PromptExperiment[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('prompt_experiments')
+    .select('*')
+    .order('started_at', { ascending: false })
+
+  if (error) {
+    console.error('Error listing prompt experiments:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Start an experiment (admin)
+ * Every variant must be v1 or a published version of the mode
+ * Returns an error message if it cannot start
+ */
+export async function createPromptExperiment(experiment: {
+  mode: Mode
+  name: string
+  notes?: string | null
+  variants: ExperimentVariant[]
+  created_by: string
+}): Promise<{ experiment: PromptExperiment } | { error: string }> {
+  const supabase = createAdminClient()
+
+  for (const variant of experiment.variants) {
+    if (!(await resolvePromptTemplate(experiment.mode, variant.version, supabase))) {
+      return { error: `Version ${variant.version} is not published for ${experiment.mode}` }
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('prompt_experiments')
+    .insert({
+      mode: experiment.mode,
+      name: experiment.name,
+      notes: experiment.notes ?? null,
+      variants: experiment.variants,
+      created_by: experiment.created_by,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Unique index: one running experiment per mode
+    if (error.code === '23505') {
+      return { error: `An experiment is already running for ${experiment.mode}` }
+    }
+    console.error('Error creating prompt experiment:', error)
+    throw error
+  }
+
+  return { experiment: data }
+}
+
+/**
+ * Stop a running experiment without changing the current version (admin)
+ * Returns false if it was not running
+ */
+export async function stopPromptExperiment(id: string): Promise<boolean> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('prompt_experiments')
+    .update({ status: 'completed', ended_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+    .select('id')
+
+  if (error) {
+    console.error('Error stopping prompt experiment:', error)
+    throw error
+  }
+
+  return (data?.length ?? 0) > 0
+}
+
+/**
+ * Complete a running experiment and make the winning version current (admin)
+ * Returns null if the experiment is not running or the version is not one of its variants
+ */
+export async function promotePromptExperimentWinner(
+  id: string,
+  version: string,
+  promotedBy: string
+): Promise<PromptExperiment | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('promote_prompt_experiment_winner', {
+    p_experiment_id: id,
+    p_version: version,
+    p_promoted_by: promotedBy,
+  })
+
+  if (error) {
+    console.error('Error promoting prompt experiment winner:', error)
+    throw error
+  }
+
+  return (data as PromptExperiment[] | null)?.[0] ?? null
+}
+
+/**
+ * Get outcome counts per version for an experiment (admin)
+ */
+export async function getPromptExperimentResults(id: string): Promise<ExperimentVersionResults[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('get_prompt_experiment_results', {
+    p_experiment_id: id,
+  })
+
+  if (error) {
+    console.error('Error fetching prompt experiment results:', error)
+    return []
+  }
+
+  return (data as ExperimentVersionResults[] | null) ?? []
+}
@@ -0,0 +1,18 @@
+// TypeScript types for the prompt_templates table
+import type { AssetMode } from './asset-types'
+
+export type PromptTemplateStatus = 'draft' | 'published'
+
+export type PromptTemplateRecord = {
+  id: string
+  mode: AssetMode
+  version: string            // v2 and up; v1 is built into lib/prompts.ts
+  status: PromptTemplateStatus
+  body: string               // Template text with {{placeholders}}
+  notes: string | null       // What changed and why
+  created_by: string | null
+  published_by: string | null
+  published_at: string | null
+  created_at: string
+  updated_at: string
+}
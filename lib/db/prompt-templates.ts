@@ -0,0 +1,259 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  BUILT_IN_PROMPT_VERSION,
+  isPromptVersion,
+  type Mode,
+  type PromptTemplate,
+} from '@/lib/prompts'
+import type { PromptTemplateRecord } from './prompt-template-types'
+
+// Server-side functions for the prompt template registry
+// Generation resolves published versions; drafts are admin-only (service role)
+
+function versionNumber(version: string): number {
+  return Number(version.slice(1))
+}
+
+/**
+ * Get the current version of every mode (modes without one use v1)
+ */
+export async function getCurrentPromptVersions(client?: SupabaseClient): Promise<Record<Mode, string>> {
+  const supabase = client ?? await createClient()
+
+  const versions = Object.fromEntries(
+    Object.keys(BUILT_IN_PROMPT_TEMPLATES).map((mode) => [mode, BUILT_IN_PROMPT_VERSION])
+  ) as Record<Mode, string>
+
+  const { data, error } = await supabase
+    .from('prompt_template_current')
+    .select('mode, version')
+
+  if (error) {
+    console.error('Error fetching current prompt versions:', error)
+    throw error
+  }
+
+  for (const row of data ?? []) {
+    if (row.mode in versions) {
+      versions[row.mode as Mode] = row.version
+    }
+  }
+
+  return versions
+}
+
+/**
+ * Resolve a mode's template: the given version, or the current one
+ * v1 is built in; later versions must be published
+ * Returns null when the version does not exist (or is still a draft)
+ */
+export async function resolvePromptTemplate(
+  mode: Mode,
+  version?: string,
+  client?: SupabaseClient
+): Promise<PromptTemplate | null> {
+  const supabase = client ?? await createClient()
+  const builtIn = BUILT_IN_PROMPT_TEMPLATES[mode]
+
+  if (!builtIn) {
+    return null
+  }
+
+  const resolved = version ?? (await getCurrentPromptVersions(supabase))[mode]
+
+  if (resolved === BUILT_IN_PROMPT_VERSION) {
+    return builtIn
+  }
+
+  if (!isPromptVersion(resolved)) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('mode, version, body')
+    .eq('mode', mode)
+    .eq('version', resolved)
+    .eq('status', 'published')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching prompt template:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * List every authored template, drafts included (admin)
+ */
+export async function listPromptTemplates(): Promise<PromptTemplateRecord[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .order('mode')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error listing prompt templates:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Get an authored template by ID (admin)
+ */
+export async function getPromptTemplate(id: string): Promise<PromptTemplateRecord | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching prompt template:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Create a draft as the mode's next version (v2, v3, ...) (admin)
+ */
+export async function createPromptTemplateDraft(draft: {
+  mode: Mode
+  body: string
+  notes?: string | null
+  created_by: string
+}): Promise<PromptTemplateRecord> {
+  const supabase = createAdminClient()
+
+  const { data: existing, error: versionsError } = await supabase
+    .from('prompt_templates')
+    .select('version')
+    .eq('mode', draft.mode)
+
+  if (versionsError) {
+    console.error('Error fetching prompt template versions:', versionsError)
+    throw versionsError
+  }
+
+  const latest = Math.max(
+    versionNumber(BUILT_IN_PROMPT_VERSION),
+    ...(existing ?? []).map((row) => versionNumber(row.version))
+  )
+
+  // A concurrent draft for the same mode fails on the (mode, version) key
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .insert({
+      mode: draft.mode,
+      version: `v${latest + 1}`,
+      body: draft.body,
+      notes: draft.notes ?? null,
+      created_by: draft.created_by,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating prompt template draft:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Update a draft's body or notes (admin)
+ * Returns null if the template is not a draft (published ones are immutable)
+ */
+export async function updatePromptTemplateDraft(
+  id: string,
+  updates: { body?: string; notes?: string | null }
+): Promise<PromptTemplateRecord | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .update(updates)
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating prompt template draft:', error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Publish a draft and make it its mode's current version (admin)
+ * Returns null if the template is not a draft
+ */
+export async function publishPromptTemplate(
+  id: string,
+  publishedBy: string
+): Promise<PromptTemplateRecord | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('publish_prompt_template', {
+    p_template_id: id,
+    p_published_by: publishedBy,
+  })
+
+  if (error) {
+    console.error('Error publishing prompt template:', error)
+    throw error
+  }
+
+  return (data as PromptTemplateRecord[] | null)?.[0] ?? null
+}
+
+/**
+ * Point a mode's current version at v1 or a published version, e.g. to
+ * roll back a release (admin)
+ * Returns false if the version cannot be used
+ */
+export async function setCurrentPromptVersion(
+  mode: Mode,
+  version: string,
+  updatedBy: string
+): Promise<boolean> {
+  const supabase = createAdminClient()
+
+  if (!(await resolvePromptTemplate(mode, version, supabase))) {
+    return false
+  }
+
+  const { error } = await supabase
+    .from('prompt_template_current')
+    .upsert({
+      mode,
+      version,
+      updated_by: updatedBy,
+      updated_at: new Date().toISOString(),
+    })
+
+  if (error) {
+    console.error('Error setting current prompt version:', error)
+    throw error
+  }
+
+  return true
+}
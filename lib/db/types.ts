@@ -1,17 +1,24 @@
+import type { MarketplaceId } from '@/lib/marketplaces'
+
 // TypeScript types for the projects table
 export type Project = {
   id: string
   user_id: string
   name: string
+  marketplace: MarketplaceId  // Profile for prompt rules and compliance checks
+  brand_kit_id: string | null  // Brand kit merged into prompt inputs (see lib/brand-kits.ts)
   created_at: string
   updated_at: string
 }
 
 export type NewProject = {
   name: string
+  marketplace?: MarketplaceId
 }
 
 export type UpdateProject = {
   name?: string
+  marketplace?: MarketplaceId
+  brand_kit_id?: string | null
 }
 
@@ -0,0 +1,145 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from 'fflate'
+import { getProjectOutputs, getAssetsByIds } from '@/lib/db/assets'
+import { downloadFile, BUCKETS } from '@/lib/storage/server'
+import { MANIFEST_VERSION, toManifestCsv, toManifestEntry, type ExportManifest } from './manifest'
+import type { Asset } from '@/lib/db/asset-types'
+import type { Project } from '@/lib/db/types'
+
+// Exports with more files than this are queued and built by the worker
+export const EXPORT_INLINE_MAX_FILES = 25
+
+export interface ExportSelection {
+  project: Pick<Project, 'id' | 'name'>
+  outputs: Asset[]
+  inputs: Asset[]   // Inputs the outputs were generated from (includeInputs only)
+}
+
+/**
+ * Resolve the outputs (and optionally their inputs) to export
+ * assetIds null means every kept output of the project; requested IDs that
+ * are not outputs of the project are returned in missing
+ */
+export async function resolveExportSelection(
+  project: Pick<Project, 'id' | 'name'>,
+  { assetIds, includeInputs }: { assetIds: string[] | null; includeInputs: boolean },
+  client?: SupabaseClient
+): Promise<{ selection: ExportSelection; missing: string[] }> {
+  const outputs = await getProjectOutputs(project.id, assetIds, client)
+
+  const found = new Set(outputs.map((output) => output.id))
+  const missing = (assetIds ?? []).filter((id) => !found.has(id))
+
+  const inputIds = includeInputs
+    ? [...new Set(
+        outputs
+          .flatMap((output) => output.source_asset_ids ?? [output.source_asset_id])
+          .filter((id): id is string => Boolean(id))
+      )]
+    : []
+  const inputs = await getAssetsByIds(inputIds, client)
+
+  return { selection: { project, outputs, inputs }, missing }
+}
+
+export function getExportFileCount({ outputs, inputs }: ExportSelection): number {
+  return outputs.length + inputs.length
+}
+
+export function getExportFileName(project: Pick<Project, 'name'>): string {
+  const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'
+  return `commercepix-${slug}-${new Date().toISOString().slice(0, 10)}.zip`
+}
+
+// A file to add to a ZIP; load runs when the file's turn comes
+export interface ZipFileSource {
+  name: string                      // Path inside the ZIP
+  load: () => Promise<Uint8Array>
+  compress?: boolean                // Deflate (text); images are stored as-is
+}
+
+/**
+ * Stream a ZIP of the given files, in order
+ *
+ * Each pull loads and zips the next file, so a file is only read once the
+ * reader has consumed the previous one: memory stays bounded by the
+ * largest file plus what the reader keeps. The stream errors if a file
+ * fails to load.
+ */
+export function createZipStream(files: ZipFileSource[]): ReadableStream<Uint8Array> {
+  let zip: Zip
+  let next = 0
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error)
+          return
+        }
+        controller.enqueue(chunk)
+        if (final) {
+          controller.close()
+        }
+      })
+    },
+
+    async pull(controller) {
+      if (next === files.length) {
+        zip.end()
+        return
+      }
+
+      const source = files[next++]
+
+      try {
+        const data = await source.load()
+        const file = source.compress ? new ZipDeflate(source.name, { level: 6 }) : new ZipPassThrough(source.name)
+        zip.add(file)
+        file.push(data, true)
+      } catch (error) {
+        zip.terminate()
+        controller.error(error)
+      }
+    },
+
+    cancel() {
+      zip.terminate()
+    },
+  })
+}
+
+/**
+ * Stream a ZIP of the selection
+ *
+ * Images are stored as read from storage; manifest.csv and manifest.json
+ * (see ./manifest.ts) are written last.
+ */
+export function createExportStream(selection: ExportSelection, client?: SupabaseClient): ReadableStream<Uint8Array> {
+  const assets = [...selection.outputs, ...selection.inputs]
+  const entries = assets.map(toManifestEntry)
+
+  const loadAsset = (asset: Asset) => async () => {
+    const bucket = asset.kind === 'output' ? BUCKETS.OUTPUTS : BUCKETS.INPUTS
+    const { data, error } = await downloadFile(bucket, asset.storage_path, client)
+
+    if (!data) {
+      throw new Error(`Failed to read asset ${asset.id} from storage: ${error?.message}`)
+    }
+    return new Uint8Array(data)
+  }
+
+  const manifest: ExportManifest = {
+    version: MANIFEST_VERSION,
+    project: { id: selection.project.id, name: selection.project.name },
+    exported_at: new Date().toISOString(),
+    files: entries,
+  }
+
+  return createZipStream([
+    ...assets.map((asset, index) => ({ name: entries[index].file, load: loadAsset(asset) })),
+    { name: 'manifest.csv', load: async () => strToU8(toManifestCsv(entries)), compress: true },
+    { name: 'manifest.json', load: async () => strToU8(JSON.stringify(manifest, null, 2)), compress: true },
+  ])
+}
@@ -0,0 +1,118 @@
+// Marketplace listing packages: outputs mapped to listing slots and named
+// for the marketplace's bulk image upload (e.g. B0EXAMPLE1.MAIN.jpg)
+// Safe to import from client components (no server-only dependencies)
+
+import { DOWNLOAD_EXTENSIONS } from '@/lib/generation/download-formats'
+import type { Asset, AssetMode } from '@/lib/db/asset-types'
+import type { ListingSlot, MarketplaceProfile } from '@/lib/marketplaces'
+
+// Slot code -> output asset ID
+export type ListingSlotMapping = Record<string, string>
+
+// ASINs, SKUs and handles; no path separators or spaces
+const IDENTIFIER_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/
+
+// Order optional slots are suggested in (after the main image)
+const SUGGESTED_MODE_ORDER: AssetMode[] = ['lifestyle', 'feature_callout', 'infographic', 'dimensions', 'bundle', 'packaging', 'main_white']
+
+export function isValidListingIdentifier(identifier: string): boolean {
+  return IDENTIFIER_PATTERN.test(identifier)
+}
+
+/**
+ * Modes that may fill a slot on this marketplace
+ */
+export function getSlotModes(profile: MarketplaceProfile, slot: ListingSlot): AssetMode[] {
+  return (slot.modes ?? profile.allowedModes).filter((mode) => profile.allowedModes.includes(mode))
+}
+
+/**
+ * File name of a slot's image, e.g. B0EXAMPLE1.PT01.jpg
+ */
+export function getListingFileName(profile: MarketplaceProfile, identifier: string, slotCode: string): string {
+  const { fileNamePattern, image } = profile.listingPackage
+  const name = fileNamePattern.replace('{id}', identifier).replace('{slot}', slotCode)
+  return `${name}.${DOWNLOAD_EXTENSIONS[image.format]}`
+}
+
+/**
+ * Suggest a mapping from the project's outputs (newest first within a mode):
+ * the newest allowed output for the main slot, then lifestyle, feature
+ * callout, comparison chart, packaging and remaining main images in the
+ * optional slots
+ */
+export function suggestListingSlots(
+  profile: MarketplaceProfile,
+  outputs: Pick<Asset, 'id' | 'mode' | 'created_at'>[]
+): ListingSlotMapping {
+  const newestFirst = [...outputs].sort((a, b) => b.created_at.localeCompare(a.created_at))
+  const byPreference = SUGGESTED_MODE_ORDER.flatMap((mode) => newestFirst.filter((output) => output.mode === mode))
+  const used = new Set<string>()
+  const mapping: ListingSlotMapping = {}
+
+  for (const slot of profile.listingPackage.slots) {
+    const modes = getSlotModes(profile, slot)
+    const candidates = slot.required ? newestFirst : byPreference
+    const output = candidates.find((candidate) => !used.has(candidate.id) && modes.includes(candidate.mode))
+
+    if (output) {
+      mapping[slot.code] = output.id
+      used.add(output.id)
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Check a mapping against the marketplace's slots
+ * outputs are the project's outputs the mapping may refer to
+ * Returns the problems found (empty when the package can be built) and the
+ * required slots left empty
+ */
+export function validateListingSlots(
+  profile: MarketplaceProfile,
+  mapping: ListingSlotMapping,
+  outputs: Pick<Asset, 'id' | 'mode'>[]
+): { errors: string[]; missingSlots: string[] } {
+  const slots = profile.listingPackage.slots
+  const outputsById = new Map(outputs.map((output) => [output.id, output]))
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  for (const [code, assetId] of Object.entries(mapping)) {
+    const slot = slots.find((candidate) => candidate.code === code)
+
+    if (!slot) {
+      errors.push(`${profile.name} has no slot ${code} (slots: ${slots.map((s) => s.code).join(', ')})`)
+      continue
+    }
+
+    const output = outputsById.get(assetId)
+
+    if (!output) {
+      errors.push(`Slot ${code}: ${assetId} is not an output of this project`)
+      continue
+    }
+
+    if (seen.has(assetId)) {
+      errors.push(`Slot ${code}: output ${assetId} is already used in another slot`)
+    }
+    seen.add(assetId)
+
+    const modes = getSlotModes(profile, slot)
+    if (!modes.includes(output.mode)) {
+      errors.push(`Slot ${code}: ${output.mode} images cannot fill it on ${profile.name} (allowed: ${modes.join(', ')})`)
+    }
+  }
+
+  const missingSlots = slots
+    .filter((slot) => slot.required && !mapping[slot.code])
+    .map((slot) => slot.code)
+
+  if (missingSlots.length > 0) {
+    errors.push(`Required slots are empty: ${missingSlots.join(', ')}`)
+  }
+
+  return { errors, missingSlots }
+}
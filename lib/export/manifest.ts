@@ -0,0 +1,102 @@
+// Manifest written into project export ZIPs (manifest.csv and manifest.json)
+// Safe to import from client components (no server-only dependencies)
+
+import type { Asset, ComplianceStatus } from '@/lib/db/asset-types'
+
+export const MANIFEST_VERSION = '2'
+
+// One row per exported file
+export interface ExportManifestEntry {
+  asset_id: string
+  kind: Asset['kind']
+  mode: Asset['mode']
+  file: string                            // Path inside the ZIP
+  source_asset_id: string | null          // Input the output was generated from
+  source_asset_ids: string[]              // Every input of a bundle output (empty otherwise)
+  parent_asset_id: string | null          // Output it was regenerated or upscaled from
+  prompt_version: string
+  compliance_status: ComplianceStatus | null
+  compliance_warnings: string[]           // Messages of the rules that did not pass
+  width: number | null
+  height: number | null
+  created_at: string
+}
+
+export interface ExportManifest {
+  version: string
+  project: { id: string; name: string }
+  exported_at: string
+  files: ExportManifestEntry[]
+}
+
+const CSV_COLUMNS: (keyof ExportManifestEntry)[] = [
+  'asset_id',
+  'kind',
+  'mode',
+  'file',
+  'source_asset_id',
+  'source_asset_ids',
+  'parent_asset_id',
+  'prompt_version',
+  'compliance_status',
+  'compliance_warnings',
+  'width',
+  'height',
+  'created_at',
+]
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+}
+
+/**
+ * Path of an asset inside the export ZIP
+ * Outputs are grouped by mode; inputs sit in their own folder
+ */
+export function getExportPath(asset: Pick<Asset, 'id' | 'kind' | 'mode' | 'mime_type' | 'storage_path'>): string {
+  const extension = (asset.mime_type && EXTENSIONS[asset.mime_type])
+    || asset.storage_path.split('.').pop()
+    || 'png'
+
+  return asset.kind === 'output'
+    ? `outputs/${asset.mode}/${asset.id}.${extension}`
+    : `inputs/${asset.id}.${extension}`
+}
+
+export function toManifestEntry(asset: Asset): ExportManifestEntry {
+  const report = asset.compliance_report
+
+  return {
+    asset_id: asset.id,
+    kind: asset.kind,
+    mode: asset.mode,
+    file: getExportPath(asset),
+    source_asset_id: asset.source_asset_id,
+    source_asset_ids: asset.source_asset_ids ?? [],
+    parent_asset_id: asset.parent_asset_id,
+    prompt_version: asset.prompt_version,
+    compliance_status: report?.status ?? null,
+    compliance_warnings: report?.rules
+      .filter((rule) => rule.status !== 'pass')
+      .map((rule) => rule.message) ?? [],
+    width: asset.width,
+    height: asset.height,
+    created_at: asset.created_at,
+  }
+}
+
+function toCsvField(value: ExportManifestEntry[keyof ExportManifestEntry]): string {
+  const text = Array.isArray(value) ? value.join('; ') : value === null ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * manifest.csv: a header row, then one row per file
+ * Bundle inputs and compliance warnings are joined with "; "
+ */
+export function toManifestCsv(entries: ExportManifestEntry[]): string {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => toCsvField(entry[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
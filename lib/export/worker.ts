@@ -0,0 +1,83 @@
+import 'server-only'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getProject } from '@/lib/db/projects'
+import { claimProjectExport, finishProjectExport } from '@/lib/db/project-exports'
+import { uploadFile, BUCKETS } from '@/lib/storage/server'
+import { createContextLogger } from '@/lib/logger'
+import { createExportStream, resolveExportSelection } from './archive'
+import type { ProjectExport } from '@/lib/db/export-types'
+
+/**
+ * Where a finished export's ZIP is stored in the outputs bucket
+ */
+export function getExportStoragePath(projectExport: Pick<ProjectExport, 'id' | 'user_id' | 'project_id'>): string {
+  return `${projectExport.user_id}/${projectExport.project_id}/exports/${projectExport.id}.zip`
+}
+
+/**
+ * Build a claimed export's ZIP and upload it to storage
+ * Storage uploads take the whole body, so the finished ZIP is held in
+ * memory: a worker needs about the export's total file size free.
+ */
+async function buildProjectExport(projectExport: ProjectExport): Promise<{ storage_path: string; size_bytes: number }> {
+  const supabase = createAdminClient()
+
+  const project = await getProject(projectExport.project_id, supabase)
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  // Outputs deleted since the export was requested are left out
+  const { selection } = await resolveExportSelection(
+    project,
+    { assetIds: projectExport.asset_ids, includeInputs: projectExport.include_inputs },
+    supabase
+  )
+
+  const zip = Buffer.from(await new Response(createExportStream(selection, supabase)).arrayBuffer())
+  const storagePath = getExportStoragePath(projectExport)
+
+  const { error } = await uploadFile(
+    BUCKETS.OUTPUTS,
+    storagePath,
+    zip,
+    { contentType: 'application/zip', upsert: true },
+    supabase
+  )
+
+  if (error) {
+    throw new Error(`Failed to upload export: ${error.message}`)
+  }
+
+  return { storage_path: storagePath, size_bytes: zip.length }
+}
+
+/**
+ * Claim and build the next queued export
+ * Returns false when there was nothing to export
+ */
+export async function runNextProjectExport(workerId: string): Promise<boolean> {
+  const projectExport = await claimProjectExport(workerId)
+
+  if (!projectExport) {
+    return false
+  }
+
+  const log = createContextLogger({ workerId, exportId: projectExport.id })
+
+  try {
+    const result = await buildProjectExport(projectExport)
+    log.info('Project export built', { sizeBytes: result.size_bytes, files: projectExport.asset_ids.length })
+
+    if (!await finishProjectExport(projectExport, workerId, result)) {
+      log.warn('Could not mark export succeeded (lease lost)')
+    }
+  } catch (error) {
+    const failure = error instanceof Error ? error : new Error(String(error))
+    log.error('Project export failed', { attempt: projectExport.attempts }, failure)
+    await finishProjectExport(projectExport, workerId, { error: failure.message })
+  }
+
+  return true
+}
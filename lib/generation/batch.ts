@@ -0,0 +1,33 @@
+// Batch generation limits and presets (POST /api/generate/batch)
+// Safe to import from client components (no server-only dependencies)
+
+import type { GenerationBatchItem } from '@/lib/db/job-types'
+import { isModeAllowed, type MarketplaceProfile } from '@/lib/marketplaces'
+import { isModeOnPlan } from '@/lib/generation/modes'
+
+// Most jobs one batch may create
+export const MAX_BATCH_JOBS = 12
+
+// Most jobs one entry may request
+export const MAX_BATCH_ITEM_COUNT = 6
+
+// Standard listing: one main image, lifestyle shots,
+// one feature callout and one packaging shot
+export const LISTING_SET_ITEMS: GenerationBatchItem[] = [
+  { mode: 'main_white', count: 1 },
+  { mode: 'lifestyle', count: 3 },
+  { mode: 'feature_callout', count: 1 },
+  { mode: 'packaging', count: 1 },
+]
+
+/**
+ * Listing set without the modes the marketplace does not accept, or the
+ * plan does not include
+ */
+export function getListingSetItems(profile: MarketplaceProfile, planId: string): GenerationBatchItem[] {
+  return LISTING_SET_ITEMS.filter((item) => isModeAllowed(profile, item.mode) && isModeOnPlan(item.mode, planId))
+}
+
+export function getBatchJobCount(items: Pick<GenerationBatchItem, 'count'>[]): number {
+  return items.reduce((total, item) => total + item.count, 0)
+}
@@ -0,0 +1,69 @@
+import 'server-only'
+import { validate as isUuid } from 'uuid'
+import { getProject } from '@/lib/db/projects'
+import { getBrandKit } from '@/lib/db/brand-kits'
+import type { BrandKitSnapshot } from '@/lib/brand-kits'
+import type { BrandKit } from '@/lib/db/brand-kit-types'
+
+/**
+ * Snapshot of a kit's settings for a job payload
+ * Jobs keep the snapshot, so later kit edits do not change retries
+ */
+export function toBrandKitSnapshot(kit: BrandKit): BrandKitSnapshot {
+  return {
+    id: kit.id,
+    name: kit.name,
+    tone: kit.tone,
+    colorPalette: kit.color_palette,
+    sceneStyles: kit.scene_styles,
+    bannedTerms: kit.banned_terms,
+    calloutTypography: kit.callout_typography,
+    defaultConstraints: kit.default_constraints,
+  }
+}
+
+/**
+ * Pick the brand kit for a generation request
+ *
+ * Uses the requested kit if given (null for none), otherwise the
+ * project's. Returns the kit's snapshot for the job payload (null without
+ * a kit), or an error message with the HTTP status for the route to return.
+ */
+export async function resolveBrandKit(
+  projectId: string,
+  requested?: unknown
+): Promise<{ brandKit: BrandKitSnapshot | null } | { error: string; status: number }> {
+  if (requested === null) {
+    return { brandKit: null }
+  }
+
+  let brandKitId: string | null
+
+  if (requested !== undefined) {
+    if (typeof requested !== 'string' || !isUuid(requested)) {
+      return { error: 'brandKitId must be a brand kit UUID or null', status: 400 }
+    }
+    brandKitId = requested
+  } else {
+    // RLS limits lookups to the user's projects
+    const project = await getProject(projectId)
+
+    if (!project) {
+      return { error: 'Project not found', status: 404 }
+    }
+    brandKitId = project.brand_kit_id
+  }
+
+  if (!brandKitId) {
+    return { brandKit: null }
+  }
+
+  // RLS limits lookups to the user's own kits
+  const kit = await getBrandKit(brandKitId)
+
+  if (!kit) {
+    return { error: 'Brand kit not found', status: 404 }
+  }
+
+  return { brandKit: toBrandKitSnapshot(kit) }
+}
@@ -0,0 +1,171 @@
+import 'server-only'
+import sharp from 'sharp'
+import { cutOutProduct } from './cutout'
+import type { BundleLayoutId } from './bundle'
+
+// Bump when the arrangement changes; recorded in the output's prompt_payload
+export const BUNDLE_ARRANGEMENT_VERSION = 'v1'
+
+interface Item {
+  data: Buffer
+  aspect: number  // width / height
+}
+
+interface Placement {
+  item: Item
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/**
+ * Rows of a pyramid, back to front: each row one item longer than the row
+ * behind it, the front row as long as needed (5 items: 2 behind 3)
+ */
+function getPyramidRows(count: number): number[] {
+  let rows = 1
+  while ((rows * (rows + 1)) / 2 < count) {
+    rows++
+  }
+
+  const lengths: number[] = []
+  let remaining = count
+  for (let length = rows; remaining > 0; length--) {
+    lengths.unshift(Math.min(length, remaining))
+    remaining -= length
+  }
+  return lengths
+}
+
+/**
+ * Place rows of items at a shared height, each row centered and standing on
+ * its baseline; a row behind stands higher than the one in front of it
+ */
+function placeRows(rows: Item[][], size: number, margin: number, gap: number, rowRise: number): Placement[] {
+  const available = size - 2 * margin
+  const widestRow = Math.max(...rows.map((row) => row.reduce((sum, item) => sum + item.aspect, 0)))
+  const widestCount = Math.max(...rows.map((row) => row.length))
+
+  // Tallest height at which the widest row and the stack of rows both fit
+  const height = Math.min(
+    (available - gap * (widestCount - 1)) / widestRow,
+    available / (1 + rowRise * (rows.length - 1)),
+    size * 0.55
+  )
+
+  const stackHeight = height * (1 + rowRise * (rows.length - 1))
+  const frontBaseline = margin + (available + stackHeight) / 2
+  const placements: Placement[] = []
+
+  for (const [index, row] of rows.entries()) {
+    const baseline = frontBaseline - (rows.length - 1 - index) * rowRise * height
+    const rowWidth = row.reduce((sum, item) => sum + item.aspect * height, 0) + gap * (row.length - 1)
+    let left = (size - rowWidth) / 2
+
+    for (const item of row) {
+      const width = item.aspect * height
+      placements.push({ item, left, top: baseline - height, width, height })
+      left += width + gap
+    }
+  }
+
+  return placements
+}
+
+/**
+ * Place items in a grid, each fitted and centered in its cell (a short
+ * last row is centered too)
+ */
+function placeGrid(items: Item[], size: number, margin: number, gap: number): Placement[] {
+  const columns = Math.ceil(Math.sqrt(items.length))
+  const rows = Math.ceil(items.length / columns)
+  const cell = Math.min(
+    (size - 2 * margin - gap * (columns - 1)) / columns,
+    (size - 2 * margin - gap * (rows - 1)) / rows
+  )
+  const gridTop = (size - (rows * cell + gap * (rows - 1))) / 2
+  const placements: Placement[] = []
+
+  for (let row = 0; row < rows; row++) {
+    const rowItems = items.slice(row * columns, (row + 1) * columns)
+    const rowLeft = (size - (rowItems.length * cell + gap * (rowItems.length - 1))) / 2
+
+    for (const [column, item] of rowItems.entries()) {
+      const width = item.aspect >= 1 ? cell : cell * item.aspect
+      const height = item.aspect >= 1 ? cell / item.aspect : cell
+      placements.push({
+        item,
+        left: rowLeft + column * (cell + gap) + (cell - width) / 2,
+        top: gridTop + row * (cell + gap) + (cell - height) / 2,
+        width,
+        height,
+      })
+    }
+  }
+
+  return placements
+}
+
+/**
+ * Arrange the products of several input photos in a layout
+ *
+ * Each product is cut out of its background (photos on white work best;
+ * others are used whole) and placed on a transparent square, in input
+ * order: left to right for a row, back to front for a pyramid, row by row
+ * for a flat lay. The image model fills in the transparent scene around
+ * the products, so it cannot add or drop items.
+ */
+export async function arrangeBundle(images: Buffer[], layout: BundleLayoutId, size: number): Promise<Buffer> {
+  const items: Item[] = []
+
+  for (const image of images) {
+    const oriented = await sharp(image).rotate().png().toBuffer()
+    const data = await cutOutProduct(oriented)
+    const { width, height } = await sharp(data).metadata()
+
+    if (!width || !height) {
+      throw new Error('Bundle input image has no dimensions')
+    }
+    items.push({ data, aspect: width / height })
+  }
+
+  const margin = Math.round(size * 0.08)
+  const gap = Math.round(size * 0.03)
+  let placements: Placement[]
+
+  switch (layout) {
+    case 'row':
+      placements = placeRows([items], size, margin, gap, 0)
+      break
+    case 'pyramid': {
+      const rows: Item[][] = []
+      let start = 0
+      for (const length of getPyramidRows(items.length)) {
+        rows.push(items.slice(start, start + length))
+        start += length
+      }
+      placements = placeRows(rows, size, margin, gap, 0.6)
+      break
+    }
+    case 'flat_lay':
+      placements = placeGrid(items, size, margin, gap)
+      break
+  }
+
+  const overlays: sharp.OverlayOptions[] = []
+  for (const { item, left, top, width, height } of placements) {
+    const resized = await sharp(item.data)
+      .resize({ width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)), fit: 'inside' })
+      .png()
+      .toBuffer()
+    overlays.push({ input: resized, left: Math.max(0, Math.round(left)), top: Math.max(0, Math.round(top)) })
+  }
+
+  return sharp({
+    create: { width: size, height: size, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  })
+    .composite(overlays)
+    .png()
+    .toBuffer()
+}
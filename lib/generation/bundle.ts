@@ -0,0 +1,66 @@
+/**
+ * Bundle / group shots
+ *
+ * bundle jobs take several input assets of the project instead of one.
+ * The worker cuts each product out and arranges them in the chosen layout
+ * on a transparent canvas (see bundle-layout.ts); the image model fills in
+ * the scene around them, so it renders one coherent group shot without
+ * adding or dropping items. Every input is recorded on the output
+ * (assets.source_asset_ids).
+ *
+ * Safe to import from client components (no server-only dependencies)
+ */
+
+export type BundleLayoutId = 'row' | 'pyramid' | 'flat_lay'
+
+export const MIN_BUNDLE_ITEMS = 2
+export const MAX_BUNDLE_ITEMS = 6
+
+/**
+ * Layout templates
+ * - promptHint: how the arranged products are described to the image model
+ */
+export const BUNDLE_LAYOUTS: Record<BundleLayoutId, { label: string; description: string; promptHint: string }> = {
+  row: {
+    label: 'Row',
+    description: 'Side by side on a shared surface',
+    promptHint: 'standing side by side in a single row on a shared surface, seen from the front at eye level',
+  },
+  pyramid: {
+    label: 'Pyramid',
+    description: 'Group shot, fewer items toward the back',
+    promptHint: 'grouped in a pyramid, the widest row in front and fewer items in each row behind, seen slightly from above',
+  },
+  flat_lay: {
+    label: 'Flat lay',
+    description: 'Laid out in a grid, seen from above',
+    promptHint: 'laid out flat in a neat grid on a surface, photographed from directly above (flat lay)',
+  },
+}
+
+export const BUNDLE_LAYOUT_IDS = Object.keys(BUNDLE_LAYOUTS) as BundleLayoutId[]
+
+export const DEFAULT_BUNDLE_LAYOUT: BundleLayoutId = 'row'
+
+export function isBundleLayout(value: unknown): value is BundleLayoutId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BUNDLE_LAYOUTS, value)
+}
+
+/**
+ * Validate the fields of a bundle request's prompt inputs
+ * (the mode's validator in lib/generation/modes.ts)
+ * The input assets themselves are checked with validateInputAssetIds
+ */
+export function validateBundleInputs(
+  layout: unknown
+): { bundleLayout?: BundleLayoutId } | { error: string } {
+  if (layout === undefined || layout === null) {
+    return {}
+  }
+
+  if (!isBundleLayout(layout)) {
+    return { error: `bundleLayout must be one of: ${BUNDLE_LAYOUT_IDS.join(', ')}` }
+  }
+
+  return { bundleLayout: layout }
+}
@@ -0,0 +1,221 @@
+import 'server-only'
+import sharp from 'sharp'
+import { CALLOUT_ICONS, type Callout, type CalloutLayoutId } from './callouts'
+import { escapeMarkup, getStackHeight, renderText, type RenderedText } from './text-render'
+
+// Bump when the rendering changes; recorded on each callout layer
+export const CALLOUT_COMPOSITOR_VERSION = 'v1'
+
+// Icons, leader lines and anchor dots without a brand color
+export const DEFAULT_CALLOUT_ACCENT = '#2563eb'
+
+const HEADLINE_COLOR = '#111827'
+const TEXT_COLOR = '#4b5563'
+
+// Text shrinks in steps of this factor until it fits its box
+const SHRINK_FACTOR = 0.9
+const MIN_TEXT_SCALE = 0.55
+
+export interface CompositeCalloutsOptions {
+  layout: CalloutLayoutId
+  callouts: Callout[]
+  accentColor?: string  // #RRGGBB (default: DEFAULT_CALLOUT_ACCENT)
+}
+
+interface Rect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Which edge of the image a box sits on (its leader line leaves the other edge)
+type SlotSide = 'left' | 'right' | 'bottom'
+
+interface Slot extends Rect {
+  side: SlotSide
+}
+
+/**
+ * Stack boxes in a column, centered vertically
+ */
+function getColumnSlots(count: number, side: SlotSide, left: number, width: number, imageHeight: number, gap: number): Slot[] {
+  const bandTop = Math.round(imageHeight * 0.08)
+  const bandHeight = imageHeight - 2 * bandTop
+  const boxHeight = Math.min(
+    Math.floor((bandHeight - gap * (count - 1)) / count),
+    Math.round(imageHeight * 0.22)
+  )
+  const stackHeight = boxHeight * count + gap * (count - 1)
+  const top = bandTop + Math.round((bandHeight - stackHeight) / 2)
+
+  return Array.from({ length: count }, (_, index) => ({
+    side,
+    left,
+    top: top + index * (boxHeight + gap),
+    width,
+    height: boxHeight,
+  }))
+}
+
+/**
+ * Box of each callout for a layout, in callout order
+ */
+function getSlots(layout: CalloutLayoutId, count: number, width: number, height: number): Slot[] {
+  const margin = Math.round(width * 0.03)
+
+  switch (layout) {
+    case 'sides': {
+      // Alternate left and right, starting on the left
+      const columnWidth = Math.round(width * 0.26)
+      const left = getColumnSlots(Math.ceil(count / 2), 'left', margin, columnWidth, height, margin)
+      const right = getColumnSlots(Math.floor(count / 2), 'right', width - margin - columnWidth, columnWidth, height, margin)
+      return Array.from({ length: count }, (_, index) =>
+        index % 2 === 0 ? left[index / 2] : right[(index - 1) / 2]
+      )
+    }
+    case 'left_column':
+      return getColumnSlots(count, 'left', margin, Math.round(width * 0.3), height, margin)
+    case 'right_column': {
+      const columnWidth = Math.round(width * 0.3)
+      return getColumnSlots(count, 'right', width - margin - columnWidth, columnWidth, height, margin)
+    }
+    case 'bottom_row': {
+      const top = Math.round(height * 0.76)
+      const boxWidth = Math.floor((width - 2 * margin - margin * (count - 1)) / count)
+      return Array.from({ length: count }, (_, index) => ({
+        side: 'bottom' as const,
+        left: margin + index * (boxWidth + margin),
+        top,
+        width: boxWidth,
+        height: height - top - margin,
+      }))
+    }
+  }
+}
+
+/**
+ * Render a callout's headline and text, shrinking both until they fit
+ * Text that still does not fit at the smallest size is cut off at the box
+ */
+async function renderCalloutText(
+  callout: Callout,
+  imageWidth: number,
+  maxWidth: number,
+  maxHeight: number
+): Promise<RenderedText[]> {
+  let scale = 1
+  let rendered: RenderedText[] = []
+
+  while (true) {
+    const headlineSize = Math.max(8, Math.round(imageWidth * 0.026 * scale))
+    const textSize = Math.max(8, Math.round(imageWidth * 0.019 * scale))
+
+    rendered = [
+      await renderText(`<span foreground="${HEADLINE_COLOR}"><b>${escapeMarkup(callout.headline)}</b></span>`, headlineSize, maxWidth),
+    ]
+    if (callout.text) {
+      rendered.push(await renderText(`<span foreground="${TEXT_COLOR}">${escapeMarkup(callout.text)}</span>`, textSize, maxWidth, Math.round(headlineSize * 0.4)))
+    }
+
+    if (getStackHeight(rendered) <= maxHeight || scale * SHRINK_FACTOR < MIN_TEXT_SCALE) {
+      return rendered
+    }
+    scale *= SHRINK_FACTOR
+  }
+}
+
+/**
+ * Composite callouts onto a text-free image
+ *
+ * Each callout gets a label box from the layout template with its icon,
+ * headline and text, plus a leader line to its anchor on the product when
+ * it has one. Rendering is deterministic: the same image, layout and
+ * callouts always give the same result.
+ */
+export async function compositeCallouts(
+  base: Buffer,
+  { layout, callouts, accentColor }: CompositeCalloutsOptions
+): Promise<Buffer> {
+  const { width, height } = await sharp(base).metadata()
+
+  if (!width || !height) {
+    throw new Error('Callout base image has no dimensions')
+  }
+
+  const accent = accentColor && /^#[0-9a-f]{6}$/i.test(accentColor) ? accentColor : DEFAULT_CALLOUT_ACCENT
+  const slots = getSlots(layout, callouts.length, width, height)
+  const padding = Math.round(width * 0.016)
+  const iconSize = Math.round(width * 0.04)
+  const lineWidth = Math.max(2, Math.round(width / 400))
+  const dotRadius = Math.max(4, Math.round(width * 0.007))
+
+  const lines: string[] = []
+  const boxes: string[] = []
+  const marks: string[] = []
+  const overlays: sharp.OverlayOptions[] = []
+
+  for (const [index, callout] of callouts.entries()) {
+    const slot = slots[index]
+    const textLeft = slot.left + padding + (callout.icon ? iconSize + Math.round(padding * 0.75) : 0)
+    const textWidth = slot.left + slot.width - padding - textLeft
+    const innerHeight = slot.height - 2 * padding
+
+    const texts = await renderCalloutText(callout, width, textWidth, innerHeight)
+    const contentHeight = Math.min(
+      innerHeight,
+      Math.max(getStackHeight(texts), callout.icon ? iconSize : 0)
+    )
+    const contentTop = slot.top + padding + Math.round((innerHeight - contentHeight) / 2)
+
+    boxes.push(
+      `<rect x="${slot.left}" y="${slot.top}" width="${slot.width}" height="${slot.height}" rx="${Math.round(padding * 0.75)}" fill="#ffffff" fill-opacity="0.92" stroke="#e5e7eb" stroke-width="1"/>`
+    )
+
+    if (callout.icon) {
+      const iconScale = iconSize / 24
+      marks.push(
+        `<g transform="translate(${slot.left + padding} ${contentTop}) scale(${iconScale})"><path d="${CALLOUT_ICONS[callout.icon].path}" fill="none" stroke="${accent}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></g>`
+      )
+    }
+
+    if (callout.anchor) {
+      const anchorX = Math.round(callout.anchor.x * width)
+      const anchorY = Math.round(callout.anchor.y * height)
+      const [startX, startY] = slot.side === 'bottom'
+        ? [slot.left + Math.round(slot.width / 2), slot.top]
+        : [slot.side === 'left' ? slot.left + slot.width : slot.left, slot.top + Math.round(slot.height / 2)]
+
+      lines.push(
+        `<line x1="${startX}" y1="${startY}" x2="${anchorX}" y2="${anchorY}" stroke="${accent}" stroke-width="${lineWidth}" stroke-linecap="round"/>`
+      )
+      marks.push(
+        `<circle cx="${anchorX}" cy="${anchorY}" r="${dotRadius}" fill="${accent}" stroke="#ffffff" stroke-width="${lineWidth}"/>`
+      )
+    }
+
+    // Stack the text, cutting off whatever overflows the box
+    let top = contentTop
+    for (const text of texts) {
+      top += text.marginTop
+      const visibleHeight = Math.min(text.height, slot.top + padding + innerHeight - top)
+      if (visibleHeight <= 0) {
+        break
+      }
+
+      const input = visibleHeight < text.height
+        ? await sharp(text.data).extract({ left: 0, top: 0, width: text.width, height: visibleHeight }).png().toBuffer()
+        : text.data
+
+      overlays.push({ input, left: textLeft, top })
+      top += text.height
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${lines.join('')}${boxes.join('')}${marks.join('')}</svg>`
+
+  return sharp(base)
+    .composite([{ input: Buffer.from(svg), left: 0, top: 0 }, ...overlays])
+    .png()
+    .toBuffer()
+}
@@ -0,0 +1,168 @@
+/**
+ * Structured feature callouts
+ *
+ * feature_callout outputs can carry their text as data instead of asking
+ * the image model to draw it: the model generates the clean visual and the
+ * worker composites the callouts onto it (see callout-compositor.ts). The
+ * layout and callouts are kept on the asset, so the text can be edited and
+ * re-rendered without generating again.
+ *
+ * Safe to import from client components (no server-only dependencies)
+ */
+
+export type CalloutIcon = 'check' | 'bolt' | 'drop' | 'shield' | 'leaf' | 'star' | 'clock'
+
+export type CalloutLayoutId = 'sides' | 'left_column' | 'right_column' | 'bottom_row'
+
+export type CalloutAnchor = {
+  x: number  // 0-1, from the left edge
+  y: number  // 0-1, from the top edge
+}
+
+export type Callout = {
+  headline: string
+  text?: string
+  icon?: CalloutIcon
+  anchor?: CalloutAnchor  // Point on the product the callout's leader line ends at
+}
+
+export const MAX_CALLOUTS = 4
+
+export const CALLOUT_LIMITS = {
+  headline: 32,
+  text: 90,
+} as const
+
+// Icons are 24x24 stroke paths, drawn in the accent color
+export const CALLOUT_ICONS: Record<CalloutIcon, { label: string; path: string }> = {
+  check: { label: 'Check', path: 'M4 12.5l5 5L20 6.5' },
+  bolt: { label: 'Bolt', path: 'M13 2L4 14h7l-1 8 9-12h-7l1-8z' },
+  drop: { label: 'Drop', path: 'M12 2.5C8 8 5.5 11.5 5.5 15a6.5 6.5 0 0 0 13 0c0-3.5-2.5-7-6.5-12.5z' },
+  shield: { label: 'Shield', path: 'M12 2l8 3v6c0 5-3.5 9.5-8 11-4.5-1.5-8-6-8-11V5l8-3z' },
+  leaf: { label: 'Leaf', path: 'M5 19C5 10 11 4 20 4c0 9-6 15-15 15zM5 19l7-7' },
+  star: { label: 'Star', path: 'M12 2.5l2.9 6.1 6.6.8-4.9 4.6 1.3 6.5L12 17.3l-5.9 3.2 1.3-6.5-4.9-4.6 6.6-.8z' },
+  clock: { label: 'Clock', path: 'M12 3a9 9 0 1 0 0 18 9 9 0 0 0 0-18zM12 7v5l3 2' },
+}
+
+export const CALLOUT_ICON_IDS = Object.keys(CALLOUT_ICONS) as CalloutIcon[]
+
+/**
+ * Layout templates
+ * - promptHint: the area the image model must leave empty for the callouts
+ */
+export const CALLOUT_LAYOUTS: Record<CalloutLayoutId, { label: string; promptHint: string }> = {
+  sides: {
+    label: 'Left and right',
+    promptHint: 'the left and right quarters of the image',
+  },
+  left_column: {
+    label: 'Left column',
+    promptHint: 'the left third of the image',
+  },
+  right_column: {
+    label: 'Right column',
+    promptHint: 'the right third of the image',
+  },
+  bottom_row: {
+    label: 'Bottom row',
+    promptHint: 'the bottom quarter of the image',
+  },
+}
+
+export const CALLOUT_LAYOUT_IDS = Object.keys(CALLOUT_LAYOUTS) as CalloutLayoutId[]
+
+export const DEFAULT_CALLOUT_LAYOUT: CalloutLayoutId = 'sides'
+
+export function isCalloutLayout(value: unknown): value is CalloutLayoutId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CALLOUT_LAYOUTS, value)
+}
+
+export function isCalloutIcon(value: unknown): value is CalloutIcon {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CALLOUT_ICONS, value)
+}
+
+function isUnitInterval(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+}
+
+/**
+ * Validate submitted callouts and their layout
+ * Returns the normalized callouts (trimmed, empty fields dropped), or an
+ * error message for the request
+ */
+export function validateCallouts(
+  callouts: unknown,
+  layout: unknown = DEFAULT_CALLOUT_LAYOUT
+): { callouts: Callout[]; layout: CalloutLayoutId } | { error: string } {
+  if (!Array.isArray(callouts) || callouts.length === 0 || callouts.length > MAX_CALLOUTS) {
+    return { error: `callouts must be an array of 1 to ${MAX_CALLOUTS} callouts` }
+  }
+
+  if (!isCalloutLayout(layout)) {
+    return { error: `calloutLayout must be one of: ${CALLOUT_LAYOUT_IDS.join(', ')}` }
+  }
+
+  const normalized: Callout[] = []
+
+  for (const [index, callout] of callouts.entries()) {
+    const headline = typeof callout?.headline === 'string' ? callout.headline.trim() : ''
+
+    if (!headline || headline.length > CALLOUT_LIMITS.headline) {
+      return { error: `callouts[${index}].headline must be 1 to ${CALLOUT_LIMITS.headline} characters` }
+    }
+
+    const result: Callout = { headline }
+
+    if (callout.text !== undefined && callout.text !== null) {
+      if (typeof callout.text !== 'string' || callout.text.trim().length > CALLOUT_LIMITS.text) {
+        return { error: `callouts[${index}].text must be at most ${CALLOUT_LIMITS.text} characters` }
+      }
+      if (callout.text.trim()) {
+        result.text = callout.text.trim()
+      }
+    }
+
+    if (callout.icon !== undefined && callout.icon !== null) {
+      if (!isCalloutIcon(callout.icon)) {
+        return { error: `callouts[${index}].icon must be one of: ${CALLOUT_ICON_IDS.join(', ')}` }
+      }
+      result.icon = callout.icon
+    }
+
+    if (callout.anchor !== undefined && callout.anchor !== null) {
+      if (!isUnitInterval(callout.anchor?.x) || !isUnitInterval(callout.anchor?.y)) {
+        return { error: `callouts[${index}].anchor must be { x, y } with values from 0 to 1` }
+      }
+      result.anchor = { x: callout.anchor.x, y: callout.anchor.y }
+    }
+
+    normalized.push(result)
+  }
+
+  return { callouts: normalized, layout }
+}
+
+/**
+ * Validate the callout fields of a feature_callout request's prompt inputs
+ * (the mode's validator in lib/generation/modes.ts)
+ * Returns the normalized fields (none when the request has no callouts),
+ * or an error message for the request
+ */
+export function validateCalloutInputs(
+  callouts: unknown,
+  layout: unknown
+): { callouts?: Callout[]; calloutLayout?: CalloutLayoutId } | { error: string } {
+  if (callouts === undefined || callouts === null) {
+    return layout === undefined || layout === null
+      ? {}
+      : { error: 'calloutLayout requires callouts' }
+  }
+
+  const result = validateCallouts(callouts, layout ?? undefined)
+
+  if ('error' in result) {
+    return result
+  }
+
+  return { callouts: result.callouts, calloutLayout: result.layout }
+}
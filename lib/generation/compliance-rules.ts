@@ -0,0 +1,72 @@
+// Compliance rules per mode and marketplace, thresholds and labels
+// Safe to import from client components (no server-only dependencies)
+
+import { getTextPolicy, type MarketplaceProfile } from '@/lib/marketplaces'
+import type { AssetMode, ComplianceRuleId, ComplianceStatus } from '@/lib/db/asset-types'
+
+// Bump when a rule or threshold changes, so stored reports can be told apart
+export const COMPLIANCE_VERSION = 'v1'
+
+/**
+ * Rules checked for an output of this mode on this marketplace
+ *
+ * The pixel checks for the background, product fill and text assume a
+ * product on a white background, so they only run on main images.
+ */
+export function getComplianceRules(mode: AssetMode, profile: MarketplaceProfile): ComplianceRuleId[] {
+  const rules: ComplianceRuleId[] = []
+
+  if (mode === 'main_white') {
+    if (profile.mainImage.background === 'pure_white') {
+      rules.push('white_background')
+    }
+    if (profile.mainImage.minFill !== null) {
+      rules.push('product_fill')
+    }
+  }
+
+  rules.push('min_dimension')
+
+  if (mode === 'main_white' && getTextPolicy(profile, mode) === 'forbidden') {
+    rules.push('no_text')
+  }
+
+  return rules
+}
+
+export const COMPLIANCE_THRESHOLDS = {
+  // Share of border pixels that must be exactly RGB 255
+  whiteBorderPass: 0.99,
+  // Share of border pixels that must be near-white (>= nearWhiteLevel) to only warn
+  whiteBorderWarn: 0.95,
+  nearWhiteLevel: 245,
+  // Product fill this far below the marketplace's minFill only warns
+  productFillWarnMargin: 0.15,
+  // Detached marks on the background (text, logos, badges) before failing
+  textRegionsFail: 3,
+}
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRuleId, string> = {
+  white_background: 'Pure white background',
+  product_fill: 'Product fills the frame',
+  min_dimension: 'Minimum size',
+  no_text: 'No text or graphics',
+}
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceStatus, string> = {
+  pass: 'Compliant',
+  warn: 'Check',
+  fail: 'Not compliant',
+}
+
+const STATUS_RANK: Record<ComplianceStatus, number> = { pass: 0, warn: 1, fail: 2 }
+
+/**
+ * Worst of the given statuses ('pass' when empty)
+ */
+export function worstComplianceStatus(statuses: ComplianceStatus[]): ComplianceStatus {
+  return statuses.reduce<ComplianceStatus>(
+    (worst, status) => (STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst),
+    'pass'
+  )
+}
@@ -0,0 +1,326 @@
+import 'server-only'
+import sharp from 'sharp'
+import type {
+  AssetMode,
+  ComplianceReport,
+  ComplianceRuleId,
+  ComplianceRuleResult,
+} from '@/lib/db/asset-types'
+import type { MarketplaceProfile } from '@/lib/marketplaces'
+import {
+  COMPLIANCE_THRESHOLDS as T,
+  COMPLIANCE_VERSION,
+  getComplianceRules,
+  worstComplianceStatus,
+} from './compliance-rules'
+
+// Side of the downscaled mask used to find detached marks
+const MASK_SIZE = 256
+
+// Border band checked for pure white, as a share of the shorter side
+const BORDER_BAND = 0.01
+
+// Smallest detached mark counted (in mask pixels), so JPEG-like noise is ignored
+const MIN_MARK_AREA = 2
+
+// Gap kept around the product before a mark counts as detached (in mask pixels)
+const PRODUCT_MARGIN = 2
+
+interface Pixels {
+  data: Buffer  // RGB, row-major
+  width: number
+  height: number
+}
+
+interface Box {
+  left: number
+  top: number
+  right: number   // inclusive
+  bottom: number  // inclusive
+}
+
+function isNearWhite(data: Buffer, offset: number): boolean {
+  return data[offset] >= T.nearWhiteLevel
+    && data[offset + 1] >= T.nearWhiteLevel
+    && data[offset + 2] >= T.nearWhiteLevel
+}
+
+function percent(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 10}%`
+}
+
+/**
+ * Outer band of the image must be RGB 255
+ * Near-white backgrounds only warn: they look white but are rejected by Amazon
+ */
+function checkWhiteBackground({ data, width, height }: Pixels): ComplianceRuleResult {
+  const band = Math.max(1, Math.round(Math.min(width, height) * BORDER_BAND))
+  let total = 0
+  let pure = 0
+  let nearWhite = 0
+
+  for (let y = 0; y < height; y++) {
+    const inBandRow = y < band || y >= height - band
+    for (let x = 0; x < width; x++) {
+      if (!inBandRow && x >= band && x < width - band) {
+        x = width - band - 1
+        continue
+      }
+
+      const offset = (y * width + x) * 3
+      total++
+      if (data[offset] === 255 && data[offset + 1] === 255 && data[offset + 2] === 255) {
+        pure++
+      }
+      if (isNearWhite(data, offset)) {
+        nearWhite++
+      }
+    }
+  }
+
+  const pureRatio = pure / total
+  const nearWhiteRatio = nearWhite / total
+
+  if (pureRatio >= T.whiteBorderPass) {
+    return {
+      rule: 'white_background',
+      status: 'pass',
+      message: `${percent(pureRatio)} of the border is pure white`,
+      value: pureRatio,
+      threshold: T.whiteBorderPass,
+    }
+  }
+
+  return {
+    rule: 'white_background',
+    status: nearWhiteRatio >= T.whiteBorderWarn ? 'warn' : 'fail',
+    message: nearWhiteRatio >= T.whiteBorderWarn
+      ? `Background is off-white: only ${percent(pureRatio)} of the border is RGB 255`
+      : `Background is not white: ${percent(1 - nearWhiteRatio)} of the border is colored`,
+    value: pureRatio,
+    threshold: T.whiteBorderPass,
+  }
+}
+
+/**
+ * Bounding box of everything that is not near-white, or null for a blank image
+ */
+function findContentBox({ data, width, height }: Pixels): Box | null {
+  let box: Box | null = null
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isNearWhite(data, (y * width + x) * 3)) {
+        continue
+      }
+
+      if (!box) {
+        box = { left: x, top: y, right: x, bottom: y }
+      } else {
+        box.left = Math.min(box.left, x)
+        box.right = Math.max(box.right, x)
+        box.top = Math.min(box.top, y)
+        box.bottom = Math.max(box.bottom, y)
+      }
+    }
+  }
+
+  return box
+}
+
+/**
+ * Product's longest side should cover the marketplace's share of the frame
+ * (85% on Amazon)
+ */
+function checkProductFill(pixels: Pixels, minFill: number): ComplianceRuleResult {
+  const box = findContentBox(pixels)
+
+  if (!box) {
+    return {
+      rule: 'product_fill',
+      status: 'fail',
+      message: 'No product detected on the background',
+      value: 0,
+      threshold: minFill,
+    }
+  }
+
+  const fill = Math.max(
+    (box.right - box.left + 1) / pixels.width,
+    (box.bottom - box.top + 1) / pixels.height
+  )
+
+  return {
+    rule: 'product_fill',
+    status: fill >= minFill ? 'pass' : fill >= minFill - T.productFillWarnMargin ? 'warn' : 'fail',
+    message: fill >= minFill
+      ? `Product fills ${percent(fill)} of the frame`
+      : `Product fills only ${percent(fill)} of the frame`,
+    value: fill,
+    threshold: minFill,
+  }
+}
+
+/**
+ * Longest side against the marketplace's recommended and minimum size
+ */
+function checkMinDimension(
+  width: number,
+  height: number,
+  { recommended, minimum }: MarketplaceProfile['minPixels']
+): ComplianceRuleResult {
+  const longest = Math.max(width, height)
+
+  return {
+    rule: 'min_dimension',
+    status: longest >= recommended ? 'pass' : longest >= minimum ? 'warn' : 'fail',
+    message: longest >= recommended
+      ? `${width}x${height}px`
+      : longest >= minimum
+        ? `${width}x${height}px is below the recommended ${recommended}px on the longest side`
+        : `${width}x${height}px is below the ${minimum}px minimum`,
+    value: longest,
+    threshold: recommended,
+  }
+}
+
+/**
+ * Heuristic text detection: text, logos and badges added to a main image
+ * show up as small marks detached from the product. Labels printed on the
+ * product itself are part of the product and are not flagged.
+ */
+function checkNoText(mask: Pixels): ComplianceRuleResult {
+  const { width, height } = mask
+  const labels = new Int32Array(width * height)
+  const components: { area: number; box: Box }[] = []
+  const stack: number[] = []
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== 0 || isNearWhite(mask.data, start * 3)) {
+      continue
+    }
+
+    // Flood fill one 4-connected component of non-white pixels
+    const label = components.length + 1
+    const component = {
+      area: 0,
+      box: { left: width, top: height, right: -1, bottom: -1 },
+    }
+    labels[start] = label
+    stack.push(start)
+
+    while (stack.length > 0) {
+      const index = stack.pop()!
+      const x = index % width
+      const y = Math.floor(index / width)
+
+      component.area++
+      component.box.left = Math.min(component.box.left, x)
+      component.box.right = Math.max(component.box.right, x)
+      component.box.top = Math.min(component.box.top, y)
+      component.box.bottom = Math.max(component.box.bottom, y)
+
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ]
+
+      for (const neighbor of neighbors) {
+        if (neighbor >= 0 && labels[neighbor] === 0 && !isNearWhite(mask.data, neighbor * 3)) {
+          labels[neighbor] = label
+          stack.push(neighbor)
+        }
+      }
+    }
+
+    components.push(component)
+  }
+
+  const product = components.reduce<(typeof components)[number] | null>(
+    (largest, component) => (!largest || component.area > largest.area ? component : largest),
+    null
+  )
+
+  const marks = product
+    ? components.filter((component) =>
+        component !== product
+        && component.area >= MIN_MARK_AREA
+        && (component.box.right < product.box.left - PRODUCT_MARGIN
+          || component.box.left > product.box.right + PRODUCT_MARGIN
+          || component.box.bottom < product.box.top - PRODUCT_MARGIN
+          || component.box.top > product.box.bottom + PRODUCT_MARGIN)
+      ).length
+    : 0
+
+  return {
+    rule: 'no_text',
+    status: marks === 0 ? 'pass' : marks >= T.textRegionsFail ? 'fail' : 'warn',
+    message: marks === 0
+      ? 'No text or graphics detected outside the product'
+      : marks >= T.textRegionsFail
+        ? `${marks} marks detected outside the product (likely text or graphics)`
+        : `${marks} stray mark${marks === 1 ? '' : 's'} detected outside the product`,
+    value: marks,
+    threshold: 0,
+  }
+}
+
+/**
+ * Score a generated image against the compliance rules of its mode
+ * on the given marketplace
+ *
+ * Transparent pixels are judged as if flattened onto white, the way
+ * marketplace uploads are converted.
+ *
+ * Throws if the image cannot be decoded.
+ */
+export async function checkCompliance(
+  image: Buffer,
+  mode: AssetMode,
+  profile: MarketplaceProfile
+): Promise<ComplianceReport> {
+  const ruleIds = getComplianceRules(mode, profile)
+  const flattened = sharp(image).flatten({ background: '#ffffff' }).removeAlpha()
+
+  const full = await flattened
+    .clone()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  const pixels: Pixels = { data: full.data, width: full.info.width, height: full.info.height }
+
+  const needsMask = ruleIds.includes('no_text')
+  const mask = needsMask
+    ? await flattened
+        .clone()
+        // Linear: lanczos ringing leaves dark halos that look like marks
+        .resize(MASK_SIZE, MASK_SIZE, { fit: 'fill', kernel: 'linear' })
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+    : null
+
+  const runRule = (rule: ComplianceRuleId): ComplianceRuleResult => {
+    switch (rule) {
+      case 'white_background':
+        return checkWhiteBackground(pixels)
+      case 'product_fill':
+        return checkProductFill(pixels, profile.mainImage.minFill ?? 0)
+      case 'min_dimension':
+        return checkMinDimension(pixels.width, pixels.height, profile.minPixels)
+      case 'no_text':
+        return checkNoText({ data: mask!.data, width: mask!.info.width, height: mask!.info.height })
+    }
+  }
+
+  const rules = ruleIds.map(runRule)
+
+  return {
+    version: COMPLIANCE_VERSION,
+    mode,
+    marketplace: profile.id,
+    status: worstComplianceStatus(rules.map((result) => result.status)),
+    rules,
+    checked_at: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,154 @@
+import 'server-only'
+import sharp from 'sharp'
+import {
+  DOWNLOAD_MIME_TYPES,
+  type DownloadFormat,
+  type DownloadOptions,
+} from './download-formats'
+
+// Bump when the output of convertForDownload changes, so cached conversions are rebuilt
+export const CONVERSION_VERSION = 'v1'
+
+// Lowest quality tried while shrinking to maxBytes
+const MIN_TARGET_QUALITY = 30
+
+// What was done to the output, stored on the derivative asset
+export interface ConversionReport {
+  version: string
+  format: DownloadFormat
+  quality: number | null     // Quality used (null for lossless PNG)
+  maxBytes: number | null
+  targetMet: boolean         // False when even MIN_TARGET_QUALITY was over maxBytes
+  flattened: boolean         // Alpha was flattened onto white
+  colorSpace: 'srgb'
+  width: number
+  height: number
+  bytes: number
+}
+
+export interface ConvertedImage {
+  data: Buffer
+  mimeType: string
+  width: number
+  height: number
+  report: ConversionReport
+}
+
+/**
+ * Key of the cached conversion for these options (assets.derivative_key)
+ */
+export function getConversionKey({ format, quality, maxBytes }: DownloadOptions): string {
+  return `download:${CONVERSION_VERSION}:${format}:${quality}:${maxBytes ?? 'none'}`
+}
+
+/**
+ * Encode at one quality; quality null means lossless PNG
+ */
+function encode(base: sharp.Sharp, format: DownloadFormat, quality: number | null): Promise<Buffer> {
+  const image = base.clone()
+
+  switch (format) {
+    case 'jpeg':
+      return image.jpeg({ quality: quality ?? 100, mozjpeg: true, chromaSubsampling: '4:2:0' }).toBuffer()
+    case 'webp':
+      return image.webp({ quality: quality ?? 100 }).toBuffer()
+    case 'png':
+      return quality === null
+        ? image.png({ compressionLevel: 9 }).toBuffer()
+        : image.png({ compressionLevel: 9, palette: true, quality }).toBuffer()
+  }
+}
+
+/**
+ * Convert an output for download
+ *
+ * 1. Flatten transparency onto white (marketplaces reject alpha)
+ * 2. Convert to sRGB and tag the sRGB ICC profile
+ * 3. Encode as JPEG, WebP or PNG at the requested quality; PNG is lossless
+ *    unless it has to shrink
+ * 4. With maxBytes, binary search the highest quality that fits (PNG falls
+ *    back to a quantized palette). When nothing fits, the smallest encoding
+ *    is returned with report.targetMet = false; dimensions never change.
+ *
+ * Throws if the image cannot be decoded.
+ */
+export async function convertForDownload(
+  image: Buffer,
+  { format, quality, maxBytes }: DownloadOptions
+): Promise<ConvertedImage> {
+  const metadata = await sharp(image).metadata()
+
+  const base = sharp(image)
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb')
+    .withIccProfile('srgb')
+
+  // PNG stays lossless unless it has to fit maxBytes
+  let usedQuality: number | null = format === 'png' ? null : quality
+  let data = await encode(base, format, usedQuality)
+  let targetMet = maxBytes === null || data.length <= maxBytes
+
+  if (!targetMet && maxBytes !== null) {
+    const tried: { data: Buffer; quality: number }[] = []
+
+    const fits = async (candidate: number) => {
+      const encoded = await encode(base, format, candidate)
+      tried.push({ data: encoded, quality: candidate })
+      return encoded.length <= maxBytes
+    }
+
+    if (format === 'png') {
+      // Palette size barely depends on quality and quantizing is slow,
+      // so only the requested quality and the floor are tried
+      if (!await fits(quality) && quality > MIN_TARGET_QUALITY) {
+        await fits(MIN_TARGET_QUALITY)
+      }
+    } else {
+      let low = Math.min(MIN_TARGET_QUALITY, quality)
+      let high = quality - 1
+
+      while (low <= high) {
+        const candidate = Math.floor((low + high) / 2)
+
+        if (await fits(candidate)) {
+          low = candidate + 1
+        } else {
+          high = candidate - 1
+        }
+      }
+    }
+
+    // Highest quality that fits, or else the smallest encoding
+    const fitting = tried.filter((candidate) => candidate.data.length <= maxBytes)
+    const chosen = fitting.length > 0
+      ? fitting.reduce((a, b) => (b.quality > a.quality ? b : a))
+      : tried.reduce<(typeof tried)[number] | null>((a, b) => (!a || b.data.length < a.data.length ? b : a), null)
+
+    if (chosen && chosen.data.length < data.length) {
+      data = chosen.data
+      usedQuality = chosen.quality
+    }
+    targetMet = fitting.length > 0
+  }
+
+  const { width = 0, height = 0 } = await sharp(data).metadata()
+
+  return {
+    data,
+    mimeType: DOWNLOAD_MIME_TYPES[format],
+    width,
+    height,
+    report: {
+      version: CONVERSION_VERSION,
+      format,
+      quality: usedQuality,
+      maxBytes,
+      targetMet,
+      flattened: Boolean(metadata.hasAlpha),
+      colorSpace: 'srgb',
+      width,
+      height,
+      bytes: data.length,
+    },
+  }
+}
@@ -0,0 +1,119 @@
+import 'server-only'
+import { v4 as uuidv4 } from 'uuid'
+import { getDerivativeAsset, createAsset } from '@/lib/db/assets'
+import { downloadFile, uploadFile, deleteFile, BUCKETS } from '@/lib/storage/server'
+import { createContextLogger } from '@/lib/logger'
+import { convertForDownload, getConversionKey, type ConvertedImage } from './convert'
+import { DOWNLOAD_EXTENSIONS, type DownloadOptions } from './download-formats'
+import type { Asset } from '@/lib/db/asset-types'
+
+type Logger = ReturnType<typeof createContextLogger>
+
+export interface ConvertedOutput {
+  data: Buffer
+  mimeType: string
+  targetMet: boolean             // False when the file is over options.maxBytes
+  cache: 'hit' | 'miss'
+}
+
+/**
+ * Store a conversion as a derivative of the output
+ * Caching is best effort: the download goes ahead if it fails
+ */
+async function cacheConversion(
+  output: Asset,
+  converted: ConvertedImage,
+  options: DownloadOptions,
+  derivativeKey: string,
+  log: Logger
+): Promise<void> {
+  const storagePath = `${output.user_id}/${output.project_id}/derived/${uuidv4()}.${DOWNLOAD_EXTENSIONS[options.format]}`
+
+  const uploadResult = await uploadFile(
+    BUCKETS.OUTPUTS,
+    storagePath,
+    converted.data,
+    {
+      contentType: converted.mimeType,
+      cacheControl: '3600',
+      upsert: false,
+    }
+  )
+
+  if (uploadResult.error) {
+    log.warn('Failed to cache converted download', { error: uploadResult.error.message })
+    return
+  }
+
+  try {
+    await createAsset({
+      user_id: output.user_id,
+      project_id: output.project_id,
+      kind: 'output',
+      mode: output.mode,
+      source_asset_id: output.id,
+      prompt_version: output.prompt_version,
+      prompt_payload: { conversion: converted.report },
+      width: converted.width,
+      height: converted.height,
+      mime_type: converted.mimeType,
+      storage_path: storagePath,
+      derivative_key: derivativeKey,
+    })
+  } catch {
+    // e.g. a parallel download cached the same conversion first
+    await deleteFile(BUCKETS.OUTPUTS, storagePath)
+    log.warn('Failed to record converted download asset')
+  }
+}
+
+/**
+ * Get an output converted for download (see convertForDownload)
+ *
+ * Conversions are cached as derivatives of the output (derivative_key
+ * download:<version>:<format>:<quality>:<maxBytes>), so repeats are read
+ * back from storage. Returns null when the original cannot be read.
+ */
+export async function getConvertedOutput(
+  output: Asset,
+  options: DownloadOptions,
+  log: Logger
+): Promise<ConvertedOutput | null> {
+  const derivativeKey = getConversionKey(options)
+  const cached = await getDerivativeAsset(output.id, derivativeKey)
+
+  if (cached) {
+    const { data } = await downloadFile(BUCKETS.OUTPUTS, cached.storage_path)
+    if (data) {
+      return {
+        data,
+        mimeType: cached.mime_type || 'application/octet-stream',
+        targetMet: cached.prompt_payload?.conversion?.targetMet !== false,
+        cache: 'hit',
+      }
+    }
+    log.warn('Cached conversion missing from storage', { derivativeAssetId: cached.id })
+  }
+
+  const original = await downloadFile(BUCKETS.OUTPUTS, output.storage_path)
+
+  if (!original.data) {
+    return null
+  }
+
+  const converted = await convertForDownload(original.data, options)
+
+  log.info('Converted output for download', { assetId: output.id, ...converted.report })
+
+  // Only a fresh key is cached; a stale row (file gone) keeps being re-converted
+  if (!cached) {
+    await cacheConversion(output, converted, options, derivativeKey, log)
+  }
+
+  return {
+    data: converted.data,
+    mimeType: converted.mimeType,
+    targetMet: converted.report.targetMet,
+    cache: 'miss',
+  }
+}
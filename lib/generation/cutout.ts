@@ -0,0 +1,86 @@
+import 'server-only'
+import sharp from 'sharp'
+
+// Product cutout shared by the compositors that lay the product out
+// themselves (infographic charts, dimension images)
+
+// Pixels at least this light on every channel, connected to the image
+// border, are background and removed from the product cutout
+const BACKGROUND_LEVEL = 240
+
+/**
+ * Cut the product out of a generated image on a white background
+ *
+ * Near-white pixels connected to the border become transparent (white
+ * parts inside the product stay), and the result is trimmed to the
+ * product. Falls back to the whole image when nothing is left.
+ */
+export async function cutOutProduct(image: Buffer): Promise<Buffer> {
+  const { data, info } = await sharp(image).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  const { width, height } = info
+
+  const isBackground = (pixel: number) => {
+    const offset = pixel * 4
+    return data[offset + 3] < 16 || (
+      data[offset] >= BACKGROUND_LEVEL &&
+      data[offset + 1] >= BACKGROUND_LEVEL &&
+      data[offset + 2] >= BACKGROUND_LEVEL
+    )
+  }
+
+  // Flood fill from the border
+  const visited = new Uint8Array(width * height)
+  const stack: number[] = []
+  const visit = (pixel: number) => {
+    if (!visited[pixel] && isBackground(pixel)) {
+      visited[pixel] = 1
+      stack.push(pixel)
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    visit(x)
+    visit((height - 1) * width + x)
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width)
+    visit(y * width + width - 1)
+  }
+
+  while (stack.length > 0) {
+    const pixel = stack.pop()!
+    const x = pixel % width
+    if (x > 0) visit(pixel - 1)
+    if (x < width - 1) visit(pixel + 1)
+    if (pixel >= width) visit(pixel - width)
+    if (pixel < width * (height - 1)) visit(pixel + width)
+  }
+
+  let left = width
+  let top = height
+  let right = -1
+  let bottom = -1
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    if (visited[pixel]) {
+      data[pixel * 4 + 3] = 0
+      continue
+    }
+
+    const x = pixel % width
+    const y = Math.floor(pixel / width)
+    left = Math.min(left, x)
+    right = Math.max(right, x)
+    top = Math.min(top, y)
+    bottom = Math.max(bottom, y)
+  }
+
+  if (right < 0) {
+    return sharp(image).png().toBuffer()
+  }
+
+  return sharp(data, { raw: { width, height, channels: 4 } })
+    .extract({ left, top, width: right - left + 1, height: bottom - top + 1 })
+    .png()
+    .toBuffer()
+}
@@ -0,0 +1,242 @@
+import 'server-only'
+import sharp from 'sharp'
+import { cutOutProduct } from './cutout'
+import {
+  SCALE_REFERENCES,
+  formatLengthLabel,
+  formatWeightLabel,
+  toCentimeters,
+  type ProductDimensions,
+  type ScaleReferenceId,
+} from './dimensions'
+import { escapeMarkup, renderText, type RenderedText } from './text-render'
+
+// Bump when the rendering changes; recorded in the output's prompt_payload
+export const DIMENSIONS_COMPOSITOR_VERSION = 'v1'
+
+// Dimension lines and arrowheads without a brand color
+export const DEFAULT_DIMENSION_COLOR = '#374151'
+
+const LABEL_COLOR = '#111827'
+const MUTED_COLOR = '#6b7280'
+const REFERENCE_FILL = '#e5e7eb'
+const REFERENCE_DETAIL = '#d1d5db'
+const REFERENCE_STROKE = '#9ca3af'
+
+export interface CompositeDimensionsOptions {
+  dimensions: ProductDimensions
+  scaleReference?: ScaleReferenceId
+  accentColor?: string  // #RRGGBB (default: DEFAULT_DIMENSION_COLOR)
+}
+
+function isHexColor(color: string | undefined): color is string {
+  return !!color && /^#[0-9a-f]{6}$/i.test(color)
+}
+
+/**
+ * Outline of a scale reference object filling the box
+ * Flat, neutral shapes: they only have to read as the object at a glance
+ */
+function drawReference(id: ScaleReferenceId, x: number, y: number, w: number, h: number, strokeWidth: number): string {
+  const stroke = `stroke="${REFERENCE_STROKE}" stroke-width="${strokeWidth}"`
+
+  switch (id) {
+    case 'credit_card':
+      return [
+        `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="${w * 0.05}" fill="${REFERENCE_FILL}" ${stroke}/>`,
+        `<rect x="${x + w * 0.1}" y="${y + h * 0.35}" width="${w * 0.16}" height="${h * 0.22}" rx="${w * 0.02}" fill="${REFERENCE_DETAIL}" ${stroke}/>`,
+        `<rect x="${x + w * 0.1}" y="${y + h * 0.72}" width="${w * 0.5}" height="${h * 0.07}" rx="${h * 0.03}" fill="${REFERENCE_DETAIL}"/>`,
+      ].join('')
+    case 'smartphone':
+      return [
+        `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="${w * 0.14}" fill="${REFERENCE_STROKE}"/>`,
+        `<rect x="${x + w * 0.06}" y="${y + w * 0.06}" width="${w * 0.88}" height="${h - w * 0.12}" rx="${w * 0.1}" fill="${REFERENCE_FILL}"/>`,
+      ].join('')
+    case 'soda_can':
+      return [
+        `<rect x="${x}" y="${y + h * 0.04}" width="${w}" height="${h * 0.92}" rx="${w * 0.08}" fill="${REFERENCE_FILL}" ${stroke}/>`,
+        `<ellipse cx="${x + w / 2}" cy="${y + h * 0.05}" rx="${w * 0.42}" ry="${h * 0.04}" fill="${REFERENCE_DETAIL}" ${stroke}/>`,
+        `<rect x="${x}" y="${y + h * 0.35}" width="${w}" height="${h * 0.3}" fill="${REFERENCE_DETAIL}"/>`,
+      ].join('')
+    case 'person': {
+      const head = h * 0.065
+      return [
+        `<circle cx="${x + w / 2}" cy="${y + head}" r="${head}" fill="${REFERENCE_FILL}" ${stroke}/>`,
+        `<rect x="${x + w * 0.18}" y="${y + h * 0.5}" width="${w * 0.28}" height="${h * 0.5}" rx="${w * 0.12}" fill="${REFERENCE_FILL}" ${stroke}/>`,
+        `<rect x="${x + w * 0.54}" y="${y + h * 0.5}" width="${w * 0.28}" height="${h * 0.5}" rx="${w * 0.12}" fill="${REFERENCE_FILL}" ${stroke}/>`,
+        `<rect x="${x}" y="${y + head * 2.2}" width="${w}" height="${h * 0.42}" rx="${w * 0.3}" fill="${REFERENCE_FILL}" ${stroke}/>`,
+      ].join('')
+    }
+  }
+}
+
+/**
+ * Composite dimension lines and labels around the product of a generated image
+ *
+ * The product is cut out of its white background and centered on white,
+ * with a height line on its left and a width line below it; depth and
+ * weight are listed underneath. A scale reference is drawn beside the
+ * product at the product's own pixels-per-centimeter, so the two compare
+ * at true relative size. Rendering is deterministic: the same image,
+ * dimensions and color always give the same result.
+ */
+export async function compositeDimensions(
+  productImage: Buffer,
+  { dimensions, scaleReference, accentColor }: CompositeDimensionsOptions
+): Promise<Buffer> {
+  const { width, height } = await sharp(productImage).metadata()
+
+  if (!width || !height) {
+    throw new Error('Dimensions product image has no dimensions')
+  }
+
+  const color = isHexColor(accentColor) ? accentColor : DEFAULT_DIMENSION_COLOR
+  const margin = Math.round(width * 0.05)
+  const lineGap = Math.round(width * 0.035)   // Product edge to dimension line
+  const labelGap = Math.round(width * 0.012)  // Dimension line to its label
+  const referenceGap = Math.round(width * 0.08)
+  const strokeWidth = Math.max(2, Math.round(width / 400))
+  const arrow = Math.round(width * 0.014)
+  const textSize = Math.round(width * 0.03)
+  const shapes: string[] = []
+  const overlays: sharp.OverlayOptions[] = []
+
+  const renderLabel = (markup: string, size: number = textSize) =>
+    renderText(markup, size, width - 2 * margin, 0, 'centre')
+
+  const { unitSystem } = dimensions
+  const widthLabel = await renderLabel(
+    `<span foreground="${LABEL_COLOR}"><b>${escapeMarkup(formatLengthLabel(dimensions.width, unitSystem))}</b></span>`
+  )
+  const heightLabel = await renderLabel(
+    `<span foreground="${LABEL_COLOR}"><b>${escapeMarkup(formatLengthLabel(dimensions.height, unitSystem))}</b></span>`
+  )
+  // Reads bottom to top along the height line
+  const rotated = await sharp(heightLabel.data).rotate(270).png().toBuffer({ resolveWithObject: true })
+
+  // Depth and weight cannot be drawn on a straight-on view: list them below
+  const specs: string[] = []
+  if (dimensions.depth) {
+    specs.push(`Depth <b>${escapeMarkup(formatLengthLabel(dimensions.depth, unitSystem))}</b>`)
+  }
+  if (dimensions.weight) {
+    specs.push(`Weight <b>${escapeMarkup(formatWeightLabel(dimensions.weight, unitSystem))}</b>`)
+  }
+
+  let specLabel: RenderedText | undefined
+  let areaBottom = height - margin
+  if (specs.length > 0) {
+    specLabel = await renderLabel(`<span foreground="${LABEL_COLOR}">${specs.join('     ')}</span>`, Math.round(textSize * 0.9))
+    areaBottom -= specLabel.height + margin
+  }
+
+  const reference = scaleReference ? SCALE_REFERENCES[scaleReference] : undefined
+  const caption = reference
+    ? await renderLabel(`<span foreground="${MUTED_COLOR}">${escapeMarkup(reference.label)}</span>`, Math.round(textSize * 0.8))
+    : undefined
+
+  // Drawing area, leaving room for the lines and their labels
+  areaBottom -= lineGap + labelGap + Math.max(widthLabel.height, caption?.height ?? 0)
+  const areaLeft = margin + rotated.info.width + labelGap + lineGap
+  const areaWidth = width - margin - areaLeft
+  const areaHeight = areaBottom - margin
+
+  // Pixels per centimeter that fits the product and the reference side by side
+  const productWidthCm = toCentimeters(dimensions.width, unitSystem)
+  const productHeightCm = toCentimeters(dimensions.height, unitSystem)
+  const fitScale = Math.min(
+    (areaWidth - (reference ? referenceGap : 0)) / (productWidthCm + (reference?.widthCm ?? 0)),
+    areaHeight / Math.max(productHeightCm, reference?.heightCm ?? 0)
+  )
+
+  // The generated view may not match the entered proportions exactly: fit
+  // it in the box and measure from the product as drawn
+  const product = await sharp(await cutOutProduct(productImage))
+    .resize({
+      width: Math.max(1, Math.round(productWidthCm * fitScale)),
+      height: Math.max(1, Math.round(productHeightCm * fitScale)),
+      fit: 'inside',
+    })
+    .png()
+    .toBuffer({ resolveWithObject: true })
+  const productWidth = product.info.width
+  const productHeight = product.info.height
+
+  // The reference follows the product's height, the dimension it is compared on
+  const scale = productHeight / productHeightCm
+  const referenceWidth = reference ? Math.max(1, Math.round(reference.widthCm * scale)) : 0
+  const referenceHeight = reference ? Math.max(1, Math.round(reference.heightCm * scale)) : 0
+
+  // Product and reference share a baseline, centered in the area
+  const groupWidth = productWidth + (reference ? referenceGap + referenceWidth : 0)
+  const groupHeight = Math.max(productHeight, referenceHeight)
+  const productLeft = areaLeft + Math.round((areaWidth - groupWidth) / 2)
+  const baseline = margin + Math.round((areaHeight + groupHeight) / 2)
+  const productTop = baseline - productHeight
+  const productRight = productLeft + productWidth
+
+  overlays.push({ input: product.data, left: productLeft, top: productTop })
+
+  const line = (x1: number, y1: number, x2: number, y2: number, dashed: boolean = false) =>
+    `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="${dashed ? Math.max(1, strokeWidth / 2) : strokeWidth}"${dashed ? ` stroke-dasharray="${strokeWidth * 2} ${strokeWidth * 2}"` : ''}/>`
+  const arrowhead = (x: number, y: number, dx: number, dy: number) =>
+    `<path d="M${x} ${y}L${x + dx * arrow - dy * arrow * 0.45} ${y + dy * arrow - dx * arrow * 0.45}L${x + dx * arrow + dy * arrow * 0.45} ${y + dy * arrow + dx * arrow * 0.45}Z" fill="${color}"/>`
+  const extension = Math.round(lineGap * 0.4)
+
+  // Width line below the product
+  const widthY = baseline + lineGap
+  shapes.push(
+    line(productLeft, baseline + strokeWidth, productLeft, widthY + extension, true),
+    line(productRight, baseline + strokeWidth, productRight, widthY + extension, true),
+    line(productLeft + arrow, widthY, productRight - arrow, widthY),
+    arrowhead(productLeft, widthY, 1, 0),
+    arrowhead(productRight, widthY, -1, 0)
+  )
+  overlays.push({
+    input: widthLabel.data,
+    left: Math.max(0, Math.min(width - widthLabel.width, productLeft + Math.round((productWidth - widthLabel.width) / 2))),
+    top: widthY + labelGap,
+  })
+
+  // Height line left of the product
+  const heightX = productLeft - lineGap
+  shapes.push(
+    line(productLeft - strokeWidth, productTop, heightX - extension, productTop, true),
+    line(productLeft - strokeWidth, baseline, heightX - extension, baseline, true),
+    line(heightX, productTop + arrow, heightX, baseline - arrow),
+    arrowhead(heightX, productTop, 0, 1),
+    arrowhead(heightX, baseline, 0, -1)
+  )
+  overlays.push({
+    input: rotated.data,
+    left: Math.max(0, heightX - labelGap - rotated.info.width),
+    top: Math.max(0, Math.min(height - rotated.info.height, productTop + Math.round((productHeight - rotated.info.height) / 2))),
+  })
+
+  if (reference && scaleReference && caption) {
+    const referenceLeft = productRight + referenceGap
+    shapes.push(drawReference(scaleReference, referenceLeft, baseline - referenceHeight, referenceWidth, referenceHeight, Math.max(1, strokeWidth / 2)))
+    overlays.push({
+      input: caption.data,
+      left: Math.max(0, Math.min(width - caption.width, referenceLeft + Math.round((referenceWidth - caption.width) / 2))),
+      top: widthY + labelGap,
+    })
+  }
+
+  if (specLabel) {
+    overlays.push({
+      input: specLabel.data,
+      left: Math.round((width - specLabel.width) / 2),
+      top: height - margin - specLabel.height,
+    })
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`
+
+  return sharp({
+    create: { width, height, channels: 4, background: '#ffffff' },
+  })
+    .composite([{ input: Buffer.from(svg), left: 0, top: 0 }, ...overlays])
+    .png()
+    .toBuffer()
+}
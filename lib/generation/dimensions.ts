@@ -0,0 +1,186 @@
+/**
+ * Product dimensions and size references
+ *
+ * dimensions outputs show the product's measurements as dimension lines
+ * and labels. The image model only generates a straight-on view of the
+ * product on pure white; the worker cuts it out and composites the lines,
+ * labels and an optional scale reference drawn to the same scale (see
+ * dimensions-compositor.ts). Unit conversion and label formatting happen
+ * here, so the numbers are always exact and formatted the same way.
+ *
+ * Safe to import from client components (no server-only dependencies)
+ */
+
+export type UnitSystem = 'metric' | 'imperial'
+
+// Lengths in cm (metric) or inches (imperial), weight in kg or lb
+export type ProductDimensions = {
+  unitSystem: UnitSystem
+  width: number
+  height: number
+  depth?: number
+  weight?: number
+}
+
+export type ScaleReferenceId = 'credit_card' | 'smartphone' | 'soda_can' | 'person'
+
+export const UNIT_SYSTEMS: Record<UnitSystem, { label: string; length: string; weight: string }> = {
+  metric: { label: 'Metric (cm, kg)', length: 'cm', weight: 'kg' },
+  imperial: { label: 'Imperial (in, lb)', length: 'in', weight: 'lb' },
+}
+
+export const UNIT_SYSTEM_IDS = Object.keys(UNIT_SYSTEMS) as UnitSystem[]
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric'
+
+/**
+ * Objects drawn next to the product at the same scale
+ * - widthCm/heightCm: real size of the object as drawn (upright)
+ */
+export const SCALE_REFERENCES: Record<ScaleReferenceId, { label: string; widthCm: number; heightCm: number }> = {
+  credit_card: { label: 'Credit card', widthCm: 8.56, heightCm: 5.4 },
+  smartphone: { label: 'Smartphone', widthCm: 7.2, heightCm: 14.7 },
+  soda_can: { label: 'Soda can', widthCm: 6.6, heightCm: 12.2 },
+  person: { label: 'Adult (175 cm / 5 ft 9 in)', widthCm: 45, heightCm: 175 },
+}
+
+export const SCALE_REFERENCE_IDS = Object.keys(SCALE_REFERENCES) as ScaleReferenceId[]
+
+// Largest length (cm or in) and weight (kg or lb) accepted
+export const DIMENSION_LIMITS = {
+  length: 1000,
+  weight: 1000,
+} as const
+
+const CM_PER_INCH = 2.54
+const KG_PER_LB = 0.45359237
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(UNIT_SYSTEMS, value)
+}
+
+export function isScaleReference(value: unknown): value is ScaleReferenceId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SCALE_REFERENCES, value)
+}
+
+/**
+ * Round to a number of decimals and drop trailing zeros (12.50 -> "12.5")
+ * Locale independent, so labels never change with the worker's settings
+ */
+function formatNumber(value: number, decimals: number): string {
+  return String(Number(value.toFixed(decimals)))
+}
+
+export function toCentimeters(length: number, unitSystem: UnitSystem): number {
+  return unitSystem === 'metric' ? length : length * CM_PER_INCH
+}
+
+function formatLength(lengthCm: number, unitSystem: UnitSystem, decimals: number): string {
+  return unitSystem === 'metric'
+    ? `${formatNumber(lengthCm, decimals)} cm`
+    : `${formatNumber(lengthCm / CM_PER_INCH, decimals)} in`
+}
+
+// Grams and ounces below 1 kg / 1 lb
+function formatWeight(weightKg: number, unitSystem: UnitSystem): string {
+  if (unitSystem === 'metric') {
+    return weightKg < 1 ? `${formatNumber(weightKg * 1000, 0)} g` : `${formatNumber(weightKg, 2)} kg`
+  }
+
+  const pounds = weightKg / KG_PER_LB
+  return pounds < 1 ? `${formatNumber(pounds * 16, 1)} oz` : `${formatNumber(pounds, 2)} lb`
+}
+
+function otherUnitSystem(unitSystem: UnitSystem): UnitSystem {
+  return unitSystem === 'metric' ? 'imperial' : 'metric'
+}
+
+/**
+ * Label of a length: as entered (up to 2 decimals, as validated), then
+ * converted to 1 decimal, e.g. "30 cm (11.8 in)"
+ */
+export function formatLengthLabel(length: number, unitSystem: UnitSystem): string {
+  const lengthCm = toCentimeters(length, unitSystem)
+  return `${formatLength(lengthCm, unitSystem, 2)} (${formatLength(lengthCm, otherUnitSystem(unitSystem), 1)})`
+}
+
+/**
+ * Label of a weight: as entered, then converted, e.g. "1.2 kg (2.65 lb)"
+ */
+export function formatWeightLabel(weight: number, unitSystem: UnitSystem): string {
+  const weightKg = unitSystem === 'metric' ? weight : weight * KG_PER_LB
+  return `${formatWeight(weightKg, unitSystem)} (${formatWeight(weightKg, otherUnitSystem(unitSystem))})`
+}
+
+function isMeasurement(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= max
+}
+
+/**
+ * Validate submitted dimensions and the scale reference
+ * Returns the normalized dimensions (rounded to 2 decimals), or an error
+ * message for the request
+ */
+export function validateDimensions(
+  dimensions: unknown,
+  scaleReference?: unknown
+): { dimensions: ProductDimensions; scaleReference?: ScaleReferenceId } | { error: string } {
+  if (typeof dimensions !== 'object' || dimensions === null) {
+    return { error: 'dimensions must be { unitSystem, width, height, depth?, weight? }' }
+  }
+
+  const { unitSystem, width, height, depth, weight } = dimensions as Record<string, unknown>
+
+  if (!isUnitSystem(unitSystem)) {
+    return { error: `dimensions.unitSystem must be one of: ${UNIT_SYSTEM_IDS.join(', ')}` }
+  }
+
+  // Rounded before the range check, so tiny values don't become 0
+  const round = (value: unknown) => typeof value === 'number' ? Math.round(value * 100) / 100 : value
+  const normalized: ProductDimensions = { unitSystem, width: 0, height: 0 }
+
+  for (const [field, value] of [['width', width], ['height', height], ['depth', depth]] as const) {
+    if (field === 'depth' && (value === undefined || value === null)) {
+      continue
+    }
+    const rounded = round(value)
+    if (!isMeasurement(rounded, DIMENSION_LIMITS.length)) {
+      return { error: `dimensions.${field} must be a number of at least 0.01 and at most ${DIMENSION_LIMITS.length}` }
+    }
+    normalized[field] = rounded
+  }
+
+  if (weight !== undefined && weight !== null) {
+    const rounded = round(weight)
+    if (!isMeasurement(rounded, DIMENSION_LIMITS.weight)) {
+      return { error: `dimensions.weight must be a number of at least 0.01 and at most ${DIMENSION_LIMITS.weight}` }
+    }
+    normalized.weight = rounded
+  }
+
+  if (scaleReference === undefined || scaleReference === null) {
+    return { dimensions: normalized }
+  }
+
+  if (!isScaleReference(scaleReference)) {
+    return { error: `scaleReference must be one of: ${SCALE_REFERENCE_IDS.join(', ')}` }
+  }
+
+  return { dimensions: normalized, scaleReference }
+}
+
+/**
+ * Validate the fields of a dimensions request's prompt inputs
+ * (the mode's validator in lib/generation/modes.ts)
+ * The dimensions are required: they are what the image shows
+ */
+export function validateDimensionInputs(
+  dimensions: unknown,
+  scaleReference: unknown
+): { dimensions: ProductDimensions; scaleReference?: ScaleReferenceId } | { error: string } {
+  if (dimensions === undefined || dimensions === null) {
+    return { error: 'dimensions is required in dimensions mode' }
+  }
+
+  return validateDimensions(dimensions, scaleReference)
+}
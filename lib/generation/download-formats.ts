@@ -0,0 +1,88 @@
+// Download conversion settings (GET /api/assets/[id]/download)
+// Safe to import from client components (no server-only dependencies)
+
+export type DownloadFormat = 'jpeg' | 'webp' | 'png'
+
+export const DOWNLOAD_FORMATS: DownloadFormat[] = ['jpeg', 'webp', 'png']
+
+export const DOWNLOAD_MIME_TYPES: Record<DownloadFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  png: 'image/png',
+}
+
+export const DOWNLOAD_EXTENSIONS: Record<DownloadFormat, string> = {
+  jpeg: 'jpg',
+  webp: 'webp',
+  png: 'png',
+}
+
+// Encoder quality (1-100); for PNG it only applies when shrinking to maxBytes
+export const DEFAULT_DOWNLOAD_QUALITY = 90
+export const MIN_DOWNLOAD_QUALITY = 1
+export const MAX_DOWNLOAD_QUALITY = 100
+
+// Smallest byte target accepted (below this every image looks broken)
+export const MIN_DOWNLOAD_BYTES = 20 * 1024
+
+export interface DownloadOptions {
+  format: DownloadFormat
+  quality: number          // Highest quality to use
+  maxBytes: number | null  // Lower the quality until the file fits
+}
+
+// Choices offered by the download menu
+export const DOWNLOAD_PRESETS: { id: string; label: string; options: DownloadOptions }[] = [
+  { id: 'png', label: 'PNG (lossless)', options: { format: 'png', quality: DEFAULT_DOWNLOAD_QUALITY, maxBytes: null } },
+  { id: 'jpeg', label: 'JPEG (high quality)', options: { format: 'jpeg', quality: DEFAULT_DOWNLOAD_QUALITY, maxBytes: null } },
+  { id: 'jpeg-1mb', label: 'JPEG under 1 MB', options: { format: 'jpeg', quality: DEFAULT_DOWNLOAD_QUALITY, maxBytes: 1024 * 1024 } },
+  { id: 'jpeg-500kb', label: 'JPEG under 500 KB', options: { format: 'jpeg', quality: DEFAULT_DOWNLOAD_QUALITY, maxBytes: 500 * 1024 } },
+  { id: 'webp', label: 'WebP', options: { format: 'webp', quality: 85, maxBytes: null } },
+]
+
+function isDownloadFormat(value: unknown): value is DownloadFormat {
+  return typeof value === 'string' && DOWNLOAD_FORMATS.includes(value as DownloadFormat)
+}
+
+/**
+ * Validate download query parameters (format, quality, maxBytes)
+ * Returns the options, or an error message for a 400 response
+ */
+export function parseDownloadOptions(
+  params: URLSearchParams
+): { options: DownloadOptions } | { error: string } {
+  const format = params.get('format') ?? 'png'
+
+  if (!isDownloadFormat(format)) {
+    return { error: `format must be one of: ${DOWNLOAD_FORMATS.join(', ')}` }
+  }
+
+  const quality = params.has('quality') ? Number(params.get('quality')) : DEFAULT_DOWNLOAD_QUALITY
+
+  if (!Number.isInteger(quality) || quality < MIN_DOWNLOAD_QUALITY || quality > MAX_DOWNLOAD_QUALITY) {
+    return { error: `quality must be an integer from ${MIN_DOWNLOAD_QUALITY} to ${MAX_DOWNLOAD_QUALITY}` }
+  }
+
+  const maxBytes = params.has('maxBytes') ? Number(params.get('maxBytes')) : null
+
+  if (maxBytes !== null && (!Number.isInteger(maxBytes) || maxBytes < MIN_DOWNLOAD_BYTES)) {
+    return { error: `maxBytes must be an integer of at least ${MIN_DOWNLOAD_BYTES}` }
+  }
+
+  return { options: { format, quality, maxBytes } }
+}
+
+/**
+ * Query string for GET /api/assets/[id]/download
+ */
+export function toDownloadQuery({ format, quality, maxBytes }: DownloadOptions): string {
+  const params = new URLSearchParams({ format, quality: String(quality) })
+  if (maxBytes !== null) {
+    params.set('maxBytes', String(maxBytes))
+  }
+  return params.toString()
+}
+
+export function getDownloadFileName(asset: { id: string; mode: string }, format: DownloadFormat): string {
+  return `commercepix-${asset.mode}-${asset.id}.${DOWNLOAD_EXTENSIONS[format]}`
+}
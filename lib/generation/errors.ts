@@ -0,0 +1,215 @@
+// Generation error codes and classification
+// Safe to import from client components (no server-only dependencies)
+
+/**
+ * How the worker should react to a failure
+ * - retryable:    transient (rate limit, outage, timeout); retried with backoff
+ * - user_fixable: the user must change something (input image, prompt, credits)
+ * - fatal:        configuration or unexpected errors; retrying will not help
+ */
+export type ErrorCategory = 'retryable' | 'user_fixable' | 'fatal'
+
+export type JobErrorCode =
+  // Provider failures
+  | 'rate_limited'
+  | 'provider_unavailable'
+  | 'provider_timeout'
+  | 'network_error'
+  | 'content_policy'
+  | 'invalid_input_image'
+  | 'provider_auth'
+  | 'provider_misconfigured'
+  | 'provider_bad_response'
+  // Pipeline failures
+  | 'input_not_found'
+  | 'input_too_large'
+  | 'invalid_inputs'
+  | 'storage_error'
+  | 'database_error'
+  | 'insufficient_credits'
+  | 'lease_expired'
+  | 'unknown'
+
+export const ERROR_CATEGORIES: Record<JobErrorCode, ErrorCategory> = {
+  rate_limited: 'retryable',
+  provider_unavailable: 'retryable',
+  provider_timeout: 'retryable',
+  network_error: 'retryable',
+  content_policy: 'user_fixable',
+  invalid_input_image: 'user_fixable',
+  provider_auth: 'fatal',
+  provider_misconfigured: 'fatal',
+  provider_bad_response: 'retryable',
+  input_not_found: 'user_fixable',
+  input_too_large: 'user_fixable',
+  invalid_inputs: 'user_fixable',
+  storage_error: 'retryable',
+  database_error: 'retryable',
+  insufficient_credits: 'user_fixable',
+  lease_expired: 'retryable',
+  unknown: 'fatal',
+}
+
+export interface JobErrorMessage {
+  title: string
+  description: string
+  solutions: string[]
+}
+
+// User-facing copy for each error code
+export const JOB_ERROR_MESSAGES: Record<JobErrorCode, JobErrorMessage> = {
+  rate_limited: {
+    title: 'Image service is busy',
+    description: 'The image provider is rate limiting requests right now.',
+    solutions: ['Wait a minute and try again'],
+  },
+  provider_unavailable: {
+    title: 'Image service unavailable',
+    description: 'The image provider had a temporary outage while processing your image.',
+    solutions: ['Try again in a few minutes'],
+  },
+  provider_timeout: {
+    title: 'Image service timed out',
+    description: 'The image provider took too long to respond.',
+    solutions: ['Try again in a few minutes'],
+  },
+  network_error: {
+    title: 'Connection problem',
+    description: 'We could not reach the image provider.',
+    solutions: ['Try again in a few minutes'],
+  },
+  content_policy: {
+    title: 'Request blocked by content policy',
+    description: 'The image provider declined this request because of its content policy.',
+    solutions: [
+      'Remove brand names, people or sensitive wording from the description',
+      'Try a different input image',
+    ],
+  },
+  invalid_input_image: {
+    title: 'Input image not accepted',
+    description: 'The image provider could not use your input image.',
+    solutions: [
+      'Upload a PNG or JPEG with the product clearly visible',
+      'Check that the image is not corrupted',
+    ],
+  },
+  provider_auth: {
+    title: 'Image service configuration error',
+    description: 'Our connection to the image provider is not authorized.',
+    solutions: ['This is on our side. Please contact support with the Request ID'],
+  },
+  provider_misconfigured: {
+    title: 'Image service configuration error',
+    description: 'The image provider is not configured correctly.',
+    solutions: ['This is on our side. Please contact support with the Request ID'],
+  },
+  provider_bad_response: {
+    title: 'Unexpected response from image service',
+    description: 'The image provider returned a response we could not use.',
+    solutions: ['Try generating again'],
+  },
+  input_not_found: {
+    title: 'Input image not found',
+    description: 'The input image for this job no longer exists.',
+    solutions: ['Upload the image again and start a new generation'],
+  },
+  input_too_large: {
+    title: 'Input image too large',
+    description: 'The input image is larger than the image provider accepts.',
+    solutions: ['Upload a smaller image (under 4MB works with every provider)'],
+  },
+  invalid_inputs: {
+    title: 'Not enough content to render',
+    description: 'Too little of your input was left after removing claims, brand references and banned words.',
+    solutions: ['Rephrase the removed text and generate again'],
+  },
+  storage_error: {
+    title: 'Storage problem',
+    description: 'We could not read or save an image in storage.',
+    solutions: ['Try generating again'],
+  },
+  database_error: {
+    title: 'Could not save the result',
+    description: 'We could not record the generated image.',
+    solutions: ['Try generating again'],
+  },
+  insufficient_credits: {
+    title: 'Not enough credits',
+    description: 'You ran out of credits before this generation finished.',
+    solutions: ['Upgrade your plan or wait for your credits to renew'],
+  },
+  lease_expired: {
+    title: 'Generation interrupted',
+    description: 'The server processing this job stopped before it finished.',
+    solutions: ['Try generating again'],
+  },
+  unknown: {
+    title: 'Something went wrong',
+    description: 'An unexpected error occurred during generation.',
+    solutions: [
+      'Try generating again with a different image',
+      'If the issue persists, contact support with the Request ID',
+    ],
+  },
+}
+
+export function isJobErrorCode(code: unknown): code is JobErrorCode {
+  return typeof code === 'string' && code in ERROR_CATEGORIES
+}
+
+/**
+ * Get the user-facing message for an error code
+ * Unknown or missing codes fall back to the generic message
+ */
+export function getJobErrorMessage(code: string | null | undefined): JobErrorMessage {
+  return isJobErrorCode(code) ? JOB_ERROR_MESSAGES[code] : JOB_ERROR_MESSAGES.unknown
+}
+
+/**
+ * Error with a classified code, thrown by providers and the generation pipeline
+ */
+export class GenerationError extends Error {
+  readonly code: JobErrorCode
+  readonly category: ErrorCategory
+  readonly retryAfterMs?: number // Provider-requested delay (Retry-After)
+
+  constructor(code: JobErrorCode, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'GenerationError'
+    this.code = code
+    this.category = ERROR_CATEGORIES[code]
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+/**
+ * Classify any thrown value
+ *
+ * Providers translate their own API errors into GenerationErrors; this
+ * handles the rest (timeouts and network failures from fetch, unknown errors).
+ */
+export function toGenerationError(error: unknown): GenerationError {
+  if (error instanceof GenerationError) {
+    return error
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  const name = error instanceof Error ? error.name : ''
+  const code = (error as { code?: unknown } | null)?.code
+
+  if (name === 'TimeoutError' || name === 'AbortError' || code === 'ETIMEDOUT') {
+    return new GenerationError('provider_timeout', message, { cause: error })
+  }
+
+  if (
+    (error instanceof TypeError && message === 'fetch failed') ||
+    code === 'ECONNRESET' ||
+    code === 'ECONNREFUSED' ||
+    code === 'ENOTFOUND'
+  ) {
+    return new GenerationError('network_error', message, { cause: error })
+  }
+
+  return new GenerationError('unknown', message, { cause: error })
+}
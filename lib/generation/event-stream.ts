@@ -0,0 +1,158 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isTerminalJobStatus, type JobEvent, type JobEventMessage } from '@/lib/db/job-types'
+import { sleep } from '@/lib/utils'
+
+/**
+ * Server-Sent Events stream of generation job events
+ *
+ * Tails generation_job_events (written by a trigger on generation_jobs)
+ * with the user's own client, so RLS limits the stream to their jobs.
+ * Each SSE message carries the event row ID, so a reconnecting
+ * EventSource resumes from `Last-Event-ID` without missing events.
+ */
+
+const POLL_INTERVAL_MS = 1000
+const KEEPALIVE_INTERVAL_MS = 15000
+// Streams are closed after this long; EventSource reconnects with Last-Event-ID
+const MAX_STREAM_MS = 5 * 60 * 1000
+// Client reconnect delay sent with the `retry:` field
+const RECONNECT_MS = 3000
+
+export interface JobEventStreamOptions {
+  supabase: SupabaseClient
+  // Stream a single job; omit for all of the user's jobs
+  jobId?: string
+  // Resume after this event ID (from the Last-Event-ID header)
+  lastEventId?: number | null
+  // Aborted when the client disconnects
+  signal: AbortSignal
+}
+
+function toMessage(event: JobEvent): JobEventMessage {
+  return {
+    id: event.id,
+    jobId: event.job_id,
+    type: event.type,
+    status: event.status,
+    stage: event.stage,
+    outputAssetId: event.output_asset_id,
+    errorCode: event.error_code,
+    createdAt: event.created_at,
+  }
+}
+
+/**
+ * Parse the Last-Event-ID header sent by a reconnecting EventSource
+ */
+export function parseLastEventId(headers: Headers): number | null {
+  const value = Number(headers.get('last-event-id'))
+  return Number.isInteger(value) && value > 0 ? value : null
+}
+
+/**
+ * Find the newest event ID so a stream starts from "now"
+ */
+async function getLatestEventId(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('generation_job_events')
+    .select('id')
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching latest job event:', error)
+    throw error
+  }
+
+  return data?.id ?? 0
+}
+
+/**
+ * Build the SSE response
+ *
+ * A single-job stream replays the job's events from the start (or from
+ * Last-Event-ID) and ends after the job reaches a terminal status.
+ * The per-user stream only sends events newer than the connection.
+ */
+export async function createJobEventStream({
+  supabase,
+  jobId,
+  lastEventId,
+  signal,
+}: JobEventStreamOptions): Promise<Response> {
+  let cursor = lastEventId ?? (jobId ? 0 : await getLatestEventId(supabase))
+  const encoder = new TextEncoder()
+  const startedAt = Date.now()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+      let lastWriteAt = Date.now()
+      let finished = false
+
+      write(`retry: ${RECONNECT_MS}\n\n`)
+
+      try {
+        while (!signal.aborted && !finished && Date.now() - startedAt < MAX_STREAM_MS) {
+          let query = supabase
+            .from('generation_job_events')
+            .select('*')
+            .gt('id', cursor)
+            .order('id', { ascending: true })
+            .limit(100)
+
+          if (jobId) {
+            query = query.eq('job_id', jobId)
+          }
+
+          const { data, error } = await query
+
+          if (error) {
+            console.error('Error reading job events:', error)
+            write(`event: error\ndata: ${JSON.stringify({ error: 'Failed to read job events' })}\n\n`)
+            break
+          }
+
+          for (const event of (data || []) as JobEvent[]) {
+            cursor = event.id
+            write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(toMessage(event))}\n\n`)
+            lastWriteAt = Date.now()
+
+            if (jobId && event.type === 'status' && isTerminalJobStatus(event.status)) {
+              finished = true
+            }
+          }
+
+          if (finished) {
+            break
+          }
+
+          // Comment lines keep proxies from closing an idle connection
+          if (Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+            write(': keepalive\n\n')
+            lastWriteAt = Date.now()
+          }
+
+          await sleep(POLL_INTERVAL_MS, signal)
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    },
+  })
+}
@@ -0,0 +1,109 @@
+// Prompt experiments: weighted variant assignment and result summaries
+// Safe to import from client components (no server-only dependencies)
+
+import type { ExperimentVariant, ExperimentVersionResults } from '@/lib/db/experiment-types'
+
+// Rates over fewer outcomes than this are shown as inconclusive
+export const MIN_EXPERIMENT_SAMPLES = 30
+
+export const MAX_EXPERIMENT_VARIANTS = 4
+
+export interface OutcomeRate {
+  count: number
+  total: number            // Sample size the rate is computed over
+  rate: number | null      // count / total, null without samples
+}
+
+export interface ExperimentVariantSummary {
+  version: string
+  weight: number
+  jobs: number
+  failureRate: OutcomeRate       // Failed / finished jobs
+  keepRate: OutcomeRate          // Kept / variants in completed selections
+  downloadRate: OutcomeRate      // Downloaded / outputs
+  regenerateRate: OutcomeRate    // Regenerated / outputs
+  compliancePassRate: OutcomeRate // Passed / checked outputs
+}
+
+function outcomeRate(count: number, total: number): OutcomeRate {
+  return { count, total, rate: total > 0 ? count / total : null }
+}
+
+/**
+ * Pick a variant by weight
+ * random is a number in [0, 1), e.g. Math.random()
+ */
+export function pickExperimentVariant(
+  variants: ExperimentVariant[],
+  random: number = Math.random()
+): ExperimentVariant {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0)
+  let threshold = random * totalWeight
+
+  for (const variant of variants) {
+    threshold -= variant.weight
+    if (threshold < 0) {
+      return variant
+    }
+  }
+
+  return variants[variants.length - 1]
+}
+
+/**
+ * Check an experiment's variants before it starts
+ * Returns the problems found (empty when the experiment can run)
+ */
+export function validateExperimentVariants(variants: ExperimentVariant[]): string[] {
+  const errors: string[] = []
+
+  if (variants.length < 2 || variants.length > MAX_EXPERIMENT_VARIANTS) {
+    errors.push(`An experiment needs 2-${MAX_EXPERIMENT_VARIANTS} variants`)
+  }
+
+  const versions = variants.map((variant) => variant.version)
+  if (new Set(versions).size !== versions.length) {
+    errors.push('Each prompt version can only be used once')
+  }
+
+  if (variants.some((variant) => !Number.isInteger(variant.weight) || variant.weight < 1 || variant.weight > 100)) {
+    errors.push('Weights must be whole numbers from 1 to 100')
+  }
+
+  return errors
+}
+
+/**
+ * Turn per-version counts into rates for comparison
+ * Variants without any jobs yet are included with empty samples
+ */
+export function summarizeExperimentResults(
+  variants: ExperimentVariant[],
+  results: ExperimentVersionResults[]
+): ExperimentVariantSummary[] {
+  return variants.map((variant) => {
+    const counts = results.find((result) => result.prompt_version === variant.version)
+
+    if (!counts) {
+      return {
+        ...variant,
+        jobs: 0,
+        failureRate: outcomeRate(0, 0),
+        keepRate: outcomeRate(0, 0),
+        downloadRate: outcomeRate(0, 0),
+        regenerateRate: outcomeRate(0, 0),
+        compliancePassRate: outcomeRate(0, 0),
+      }
+    }
+
+    return {
+      ...variant,
+      jobs: counts.jobs,
+      failureRate: outcomeRate(counts.failed_jobs, counts.succeeded_jobs + counts.failed_jobs),
+      keepRate: outcomeRate(counts.variants_kept, counts.variants_selected),
+      downloadRate: outcomeRate(counts.downloaded_outputs, counts.outputs),
+      regenerateRate: outcomeRate(counts.regenerated_outputs, counts.outputs),
+      compliancePassRate: outcomeRate(counts.compliance_passed, counts.compliance_checked),
+    }
+  })
+}
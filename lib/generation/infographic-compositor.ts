@@ -0,0 +1,265 @@
+import 'server-only'
+import sharp from 'sharp'
+import { CALLOUT_ICONS } from './callouts'
+import { cutOutProduct } from './cutout'
+import { COMPARISON_COLUMNS, type ComparisonRow, type ComparisonValue } from './infographic'
+import { escapeMarkup, renderText, type RenderedText } from './text-render'
+
+// Bump when the rendering changes; recorded in the output's prompt_payload
+export const INFOGRAPHIC_COMPOSITOR_VERSION = 'v1'
+
+// Header of the "Ours" column and check marks without a brand color
+export const DEFAULT_INFOGRAPHIC_ACCENT = '#2563eb'
+
+const TITLE_COLOR = '#111827'
+const FEATURE_COLOR = '#111827'
+const VALUE_COLOR = '#374151'
+const MUTED_COLOR = '#6b7280'
+const RULE_COLOR = '#e5e7eb'
+const STRIPE_COLOR = '#f9fafb'
+const OTHERS_HEADER_COLOR = '#f3f4f6'
+
+const CROSS_PATH = 'M6 6l12 12M18 6L6 18'
+
+// Text shrinks in steps of this factor until it fits its cell
+const SHRINK_FACTOR = 0.9
+const MIN_TEXT_SCALE = 0.55
+
+export interface CompositeInfographicOptions {
+  rows: ComparisonRow[]
+  title?: string
+  accentColor?: string   // #RRGGBB (default: DEFAULT_INFOGRAPHIC_ACCENT)
+  surfaceColor?: string  // #RRGGBB tint behind the product (default: the accent)
+}
+
+interface Rect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+function isHexColor(color: string | undefined): color is string {
+  return !!color && /^#[0-9a-f]{6}$/i.test(color)
+}
+
+/**
+ * Render text, shrinking it until it fits the box
+ * Text that still does not fit at the smallest size is cut off at the box
+ */
+async function renderFittedText(
+  toMarkup: (text: string) => string,
+  text: string,
+  baseSize: number,
+  maxWidth: number,
+  maxHeight: number,
+  align: 'left' | 'centre' = 'left'
+): Promise<RenderedText> {
+  let scale = 1
+
+  while (true) {
+    const rendered = await renderText(toMarkup(escapeMarkup(text)), Math.max(8, Math.round(baseSize * scale)), maxWidth, 0, align)
+
+    if (rendered.height <= maxHeight) {
+      return rendered
+    }
+
+    if (scale * SHRINK_FACTOR < MIN_TEXT_SCALE) {
+      const data = await sharp(rendered.data)
+        .extract({ left: 0, top: 0, width: rendered.width, height: maxHeight })
+        .png()
+        .toBuffer()
+      return { ...rendered, data, height: maxHeight }
+    }
+    scale *= SHRINK_FACTOR
+  }
+}
+
+/**
+ * Composite a comparison chart around the product of a generated image
+ *
+ * The product is cut out of its white background and set on a tinted
+ * panel on the left; the rows fill a table on the right, with the "Ours"
+ * column highlighted in the accent color. Rendering is deterministic: the
+ * same image, rows and colors always give the same result.
+ */
+export async function compositeInfographic(
+  productImage: Buffer,
+  { rows, title, accentColor, surfaceColor }: CompositeInfographicOptions
+): Promise<Buffer> {
+  const { width, height } = await sharp(productImage).metadata()
+
+  if (!width || !height) {
+    throw new Error('Infographic product image has no dimensions')
+  }
+
+  const accent = isHexColor(accentColor) ? accentColor : DEFAULT_INFOGRAPHIC_ACCENT
+  const surface = isHexColor(surfaceColor) ? surfaceColor : accent
+  const margin = Math.round(width * 0.05)
+  const padding = Math.round(width * 0.015)
+  const radius = Math.round(width * 0.02)
+  const shapes: string[] = []
+  const overlays: sharp.OverlayOptions[] = []
+
+  // Title band
+  let contentTop = margin
+  if (title) {
+    const rendered = await renderFittedText(
+      (text) => `<span foreground="${TITLE_COLOR}"><b>${text}</b></span>`,
+      title,
+      width * 0.045,
+      width - 2 * margin,
+      Math.round(height * 0.12),
+      'centre'
+    )
+    overlays.push({ input: rendered.data, left: Math.round((width - rendered.width) / 2), top: contentTop })
+    contentTop += rendered.height + Math.round(padding * 0.75)
+    shapes.push(
+      `<rect x="${Math.round(width / 2 - width * 0.06)}" y="${contentTop}" width="${Math.round(width * 0.12)}" height="${Math.max(3, Math.round(width / 250))}" rx="2" fill="${accent}"/>`
+    )
+    contentTop += margin
+  }
+
+  const contentHeight = height - margin - contentTop
+
+  // Product panel
+  const panel: Rect = { left: margin, top: contentTop, width: Math.round(width * 0.34), height: contentHeight }
+  shapes.push(
+    `<rect x="${panel.left}" y="${panel.top}" width="${panel.width}" height="${panel.height}" rx="${radius}" fill="${surface}" fill-opacity="0.1"/>`
+  )
+
+  const productPadding = Math.round(panel.width * 0.08)
+  const product = await sharp(await cutOutProduct(productImage))
+    .resize({
+      width: panel.width - 2 * productPadding,
+      height: panel.height - 2 * productPadding,
+      fit: 'inside',
+    })
+    .png()
+    .toBuffer({ resolveWithObject: true })
+
+  overlays.push({
+    input: product.data,
+    left: panel.left + Math.round((panel.width - product.info.width) / 2),
+    top: panel.top + Math.round((panel.height - product.info.height) / 2),
+  })
+
+  // Table: a header row, then one row per comparison row, centered vertically
+  const tableLeft = panel.left + panel.width + Math.round(margin * 0.6)
+  const tableWidth = width - margin - tableLeft
+  const featureWidth = Math.round(tableWidth * 0.42)
+  const valueWidth = Math.floor((tableWidth - featureWidth) / 2)
+  const oursLeft = tableLeft + featureWidth
+  const othersLeft = oursLeft + valueWidth
+  const headerHeight = Math.round(height * 0.08)
+  const rowHeight = Math.min(
+    Math.floor((contentHeight - headerHeight) / Math.max(rows.length, 1)),
+    Math.round(height * 0.12)
+  )
+  const tableHeight = headerHeight + rowHeight * rows.length
+  const tableTop = contentTop + Math.round((contentHeight - tableHeight) / 2)
+  const rowsTop = tableTop + headerHeight
+
+  // Highlight the whole "Ours" column, header included
+  shapes.push(
+    `<rect x="${oursLeft}" y="${tableTop}" width="${valueWidth}" height="${tableHeight}" rx="${radius}" fill="${accent}" fill-opacity="0.08"/>`,
+    `<rect x="${oursLeft}" y="${tableTop}" width="${valueWidth}" height="${headerHeight}" rx="${radius}" fill="${accent}"/>`,
+    `<rect x="${othersLeft}" y="${tableTop}" width="${valueWidth}" height="${headerHeight}" rx="${radius}" fill="${OTHERS_HEADER_COLOR}"/>`
+  )
+
+  for (let index = 0; index < rows.length; index++) {
+    const top = rowsTop + index * rowHeight
+    if (index % 2 === 1) {
+      shapes.push(`<rect x="${tableLeft}" y="${top}" width="${featureWidth}" height="${rowHeight}" fill="${STRIPE_COLOR}"/>`)
+      shapes.push(`<rect x="${othersLeft}" y="${top}" width="${valueWidth}" height="${rowHeight}" fill="${STRIPE_COLOR}"/>`)
+    }
+    shapes.push(`<line x1="${tableLeft}" y1="${top}" x2="${tableLeft + tableWidth}" y2="${top}" stroke="${RULE_COLOR}" stroke-width="1"/>`)
+  }
+
+  // Text centered in a cell (left-aligned in the feature column)
+  const placeText = async (
+    toMarkup: (text: string) => string,
+    text: string,
+    baseSize: number,
+    cell: Rect,
+    centered: boolean
+  ) => {
+    const rendered = await renderFittedText(toMarkup, text, baseSize, cell.width - 2 * padding, cell.height - padding, centered ? 'centre' : 'left')
+    overlays.push({
+      input: rendered.data,
+      left: centered ? cell.left + Math.round((cell.width - rendered.width) / 2) : cell.left + padding,
+      top: cell.top + Math.round((cell.height - rendered.height) / 2),
+    })
+  }
+
+  // Check or cross centered in a cell
+  const placeMark = (value: boolean, cell: Rect, color: string) => {
+    const size = Math.round(Math.min(cell.height * 0.45, width * 0.04))
+    const scale = size / 24
+    const left = cell.left + Math.round((cell.width - size) / 2)
+    const top = cell.top + Math.round((cell.height - size) / 2)
+    shapes.push(
+      `<g transform="translate(${left} ${top}) scale(${scale})"><path d="${value ? CALLOUT_ICONS.check.path : CROSS_PATH}" fill="none" stroke="${value ? color : MUTED_COLOR}" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"/></g>`
+    )
+  }
+
+  const placeValue = async (value: ComparisonValue, cell: Rect, color: string, bold: boolean) => {
+    if (typeof value === 'boolean') {
+      placeMark(value, cell, color)
+      return
+    }
+    await placeText(
+      (text) => `<span foreground="${VALUE_COLOR}">${bold ? `<b>${text}</b>` : text}</span>`,
+      value,
+      width * 0.024,
+      cell,
+      true
+    )
+  }
+
+  const headerSize = width * 0.024
+  await placeText(
+    (text) => `<span foreground="${MUTED_COLOR}"><b>${text}</b></span>`,
+    COMPARISON_COLUMNS.feature,
+    headerSize,
+    { left: tableLeft, top: tableTop, width: featureWidth, height: headerHeight },
+    false
+  )
+  await placeText(
+    (text) => `<span foreground="#ffffff"><b>${text}</b></span>`,
+    COMPARISON_COLUMNS.ours,
+    headerSize,
+    { left: oursLeft, top: tableTop, width: valueWidth, height: headerHeight },
+    true
+  )
+  await placeText(
+    (text) => `<span foreground="${MUTED_COLOR}"><b>${text}</b></span>`,
+    COMPARISON_COLUMNS.competitor,
+    headerSize,
+    { left: othersLeft, top: tableTop, width: valueWidth, height: headerHeight },
+    true
+  )
+
+  for (const [index, row] of rows.entries()) {
+    const top = rowsTop + index * rowHeight
+
+    await placeText(
+      (text) => `<span foreground="${FEATURE_COLOR}">${text}</span>`,
+      row.feature,
+      width * 0.024,
+      { left: tableLeft, top, width: featureWidth, height: rowHeight },
+      false
+    )
+    await placeValue(row.ours, { left: oursLeft, top, width: valueWidth, height: rowHeight }, accent, true)
+    await placeValue(row.competitor, { left: othersLeft, top, width: valueWidth, height: rowHeight }, MUTED_COLOR, false)
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`
+
+  return sharp({
+    create: { width, height, channels: 4, background: '#ffffff' },
+  })
+    .composite([{ input: Buffer.from(svg), left: 0, top: 0 }, ...overlays])
+    .png()
+    .toBuffer()
+}
@@ -0,0 +1,109 @@
+/**
+ * Infographic comparison charts
+ *
+ * infographic outputs are "Ours vs. Others" comparison charts and spec
+ * tables built from structured rows. The image model only generates the
+ * product on pure white; the worker cuts it out and composites it into the
+ * chart with the rows set in the brand kit colors (see
+ * infographic-compositor.ts), so the chart text is always exact.
+ *
+ * Safe to import from client components (no server-only dependencies)
+ */
+
+// true/false render as a check or a cross
+export type ComparisonValue = string | boolean
+
+export type ComparisonRow = {
+  feature: string
+  ours: ComparisonValue
+  competitor: ComparisonValue
+}
+
+export const MIN_COMPARISON_ROWS = 2
+export const MAX_COMPARISON_ROWS = 6
+
+export const COMPARISON_LIMITS = {
+  feature: 40,
+  value: 24,
+  title: 60,
+} as const
+
+// Column headings; the competitor column is never named after a brand
+export const COMPARISON_COLUMNS = {
+  feature: 'Feature',
+  ours: 'Ours',
+  competitor: 'Others',
+} as const
+
+function validateComparisonValue(value: unknown): ComparisonValue | null {
+  if (typeof value === 'boolean') {
+    return value
+  }
+
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const trimmed = value.trim()
+  return trimmed && trimmed.length <= COMPARISON_LIMITS.value ? trimmed : null
+}
+
+/**
+ * Validate submitted comparison rows and the chart title
+ * Returns the normalized rows (trimmed), or an error message for the request
+ */
+export function validateComparisonRows(
+  rows: unknown,
+  title?: unknown
+): { comparisonRows: ComparisonRow[]; chartTitle?: string } | { error: string } {
+  if (!Array.isArray(rows) || rows.length < MIN_COMPARISON_ROWS || rows.length > MAX_COMPARISON_ROWS) {
+    return { error: `comparisonRows must be an array of ${MIN_COMPARISON_ROWS} to ${MAX_COMPARISON_ROWS} rows` }
+  }
+
+  const normalized: ComparisonRow[] = []
+
+  for (const [index, row] of rows.entries()) {
+    const feature = typeof row?.feature === 'string' ? row.feature.trim() : ''
+
+    if (!feature || feature.length > COMPARISON_LIMITS.feature) {
+      return { error: `comparisonRows[${index}].feature must be 1 to ${COMPARISON_LIMITS.feature} characters` }
+    }
+
+    const ours = validateComparisonValue(row.ours)
+    const competitor = validateComparisonValue(row.competitor)
+
+    if (ours === null || competitor === null) {
+      return { error: `comparisonRows[${index}].ours and .competitor must be true, false or 1 to ${COMPARISON_LIMITS.value} characters` }
+    }
+
+    normalized.push({ feature, ours, competitor })
+  }
+
+  if (title === undefined || title === null) {
+    return { comparisonRows: normalized }
+  }
+
+  if (typeof title !== 'string' || title.trim().length > COMPARISON_LIMITS.title) {
+    return { error: `chartTitle must be at most ${COMPARISON_LIMITS.title} characters` }
+  }
+
+  return title.trim()
+    ? { comparisonRows: normalized, chartTitle: title.trim() }
+    : { comparisonRows: normalized }
+}
+
+/**
+ * Validate the chart fields of an infographic request's prompt inputs
+ * (the mode's validator in lib/generation/modes.ts)
+ * The rows are required: they are what the chart shows
+ */
+export function validateInfographicInputs(
+  rows: unknown,
+  title: unknown
+): { comparisonRows: ComparisonRow[]; chartTitle?: string } | { error: string } {
+  if (rows === undefined || rows === null) {
+    return { error: 'comparisonRows is required in infographic mode' }
+  }
+
+  return validateComparisonRows(rows, title)
+}
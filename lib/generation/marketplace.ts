@@ -0,0 +1,51 @@
+import 'server-only'
+import { getProject } from '@/lib/db/projects'
+import {
+  MARKETPLACE_IDS,
+  getMarketplaceProfile,
+  isMarketplaceId,
+  isModeAllowed,
+  type MarketplaceId,
+} from '@/lib/marketplaces'
+
+/**
+ * Pick the marketplace profile for a generation request
+ *
+ * Uses the requested marketplace if given, otherwise the project's, and
+ * checks that every mode is allowed on it. Returns the profile ID, or an
+ * error message with the HTTP status for the route to return.
+ */
+export async function resolveMarketplace(
+  projectId: string,
+  modes: string | string[],
+  requested?: string
+): Promise<{ id: MarketplaceId } | { error: string; status: number }> {
+  let marketplace: MarketplaceId
+
+  if (requested !== undefined) {
+    if (!isMarketplaceId(requested)) {
+      return { error: `marketplace must be one of: ${MARKETPLACE_IDS.join(', ')}`, status: 400 }
+    }
+    marketplace = requested
+  } else {
+    // RLS limits lookups to the user's projects
+    const project = await getProject(projectId)
+
+    if (!project) {
+      return { error: 'Project not found', status: 404 }
+    }
+    marketplace = getMarketplaceProfile(project.marketplace).id
+  }
+
+  const profile = getMarketplaceProfile(marketplace)
+  const disallowed = (Array.isArray(modes) ? modes : [modes]).find((mode) => !isModeAllowed(profile, mode))
+
+  if (disallowed) {
+    return {
+      error: `Mode ${disallowed} is not allowed on ${profile.name} (allowed: ${profile.allowedModes.join(', ')})`,
+      status: 400,
+    }
+  }
+
+  return { id: marketplace }
+}
@@ -0,0 +1,295 @@
+/**
+ * Generation Mode Registry
+ *
+ * Every generation mode is defined here once: route validation, the mode
+ * selectors, gallery tabs and badges, pricing and the AssetMode type all
+ * derive from GENERATION_MODES. The server-only half of a mode (its prompt
+ * template and input guardrails) is keyed by the same ids in
+ * MODE_PROMPTS (lib/prompts.ts), and the database accepts the ids listed
+ * in the generation_modes table.
+ *
+ * Adding a mode: add it here, add its MODE_PROMPTS entry, insert it into
+ * generation_modes in a migration, and allow it in the marketplace
+ * profiles that accept it (lib/marketplaces.ts).
+ *
+ * Safe to import from client components (no server-only dependencies)
+ */
+
+import type { PlanId } from '@/lib/db/billing-types'
+import { MAX_BUNDLE_ITEMS, MIN_BUNDLE_ITEMS, validateBundleInputs, type BundleLayoutId } from './bundle'
+import { validateCalloutInputs, type Callout, type CalloutLayoutId } from './callouts'
+import { validateDimensionInputs, type ProductDimensions, type ScaleReferenceId } from './dimensions'
+import { validateInfographicInputs, type ComparisonRow } from './infographic'
+
+export type GenerationMode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging' | 'infographic' | 'dimensions' | 'bundle'
+
+// Onboarding checklist task completed by generating an image of the mode
+export type OnboardingGenerationTask = 'generated_main_image' | 'generated_lifestyle_image'
+
+// Prompt inputs only some modes accept
+export interface ModeInputs {
+  callouts?: unknown
+  calloutLayout?: unknown
+  comparisonRows?: unknown
+  chartTitle?: unknown
+  dimensions?: unknown
+  scaleReference?: unknown
+  bundleLayout?: unknown
+}
+
+export type ModeInputField = keyof ModeInputs
+
+// Normalized mode inputs, merged into the job's prompt inputs
+export interface ValidatedModeInputs {
+  callouts?: Callout[]
+  calloutLayout?: CalloutLayoutId
+  comparisonRows?: ComparisonRow[]
+  chartTitle?: string
+  dimensions?: ProductDimensions
+  scaleReference?: ScaleReferenceId
+  bundleLayout?: BundleLayoutId
+}
+
+export interface ModeDefinition {
+  id: GenerationMode
+  label: string                  // Selectors and headings
+  shortLabel: string             // Gallery tabs and badges
+  tagline: string
+  description: string
+  icon: string                   // Emoji
+  badgeClassName: string         // Gallery badge colors
+  credits: number                // Credits per generated image
+  plans: PlanId[] | null         // Plans that may use the mode (null: every plan)
+  onboardingTask?: OnboardingGenerationTask
+  productOnWhite: boolean        // The model draws the product alone on pure white (no brand palette)
+  inputAssets: { min: number; max: number }  // Input assets a job takes
+  inputFields: ModeInputField[]  // Mode-specific inputs the mode accepts
+  validateInputs?: (inputs: ModeInputs) => ValidatedModeInputs | { error: string }
+}
+
+// Every mode but bundle edits one product photo
+const SINGLE_INPUT = { min: 1, max: 1 }
+
+// In display order
+export const GENERATION_MODES: Record<GenerationMode, ModeDefinition> = {
+  main_white: {
+    id: 'main_white',
+    label: 'Main Image',
+    shortLabel: 'Main',
+    tagline: 'White Background',
+    description: 'Clean white background, marketplace main image compliant',
+    icon: '🎯',
+    badgeClassName: 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-200',
+    credits: 1,
+    plans: null,
+    onboardingTask: 'generated_main_image',
+    productOnWhite: true,
+    inputAssets: SINGLE_INPUT,
+    inputFields: [],
+  },
+  lifestyle: {
+    id: 'lifestyle',
+    label: 'Lifestyle',
+    shortLabel: 'Lifestyle',
+    tagline: 'In Context',
+    description: 'Product in real-world context and usage scenarios',
+    icon: '🏡',
+    badgeClassName: 'bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-200',
+    credits: 1,
+    plans: null,
+    onboardingTask: 'generated_lifestyle_image',
+    productOnWhite: false,
+    inputAssets: SINGLE_INPUT,
+    inputFields: [],
+  },
+  feature_callout: {
+    id: 'feature_callout',
+    label: 'Feature Callout',
+    shortLabel: 'Feature',
+    tagline: 'Highlight Details',
+    description: 'Highlight key features with annotations',
+    icon: '⭐',
+    badgeClassName: 'bg-purple-100 text-purple-700 dark:bg-purple-950 dark:text-purple-200',
+    credits: 1,
+    plans: null,
+    productOnWhite: false,
+    inputAssets: SINGLE_INPUT,
+    inputFields: ['callouts', 'calloutLayout'],
+    validateInputs: (inputs) => validateCalloutInputs(inputs.callouts, inputs.calloutLayout),
+  },
+  packaging: {
+    id: 'packaging',
+    label: 'Packaging / In-box',
+    shortLabel: 'Packaging',
+    tagline: 'Retail Ready',
+    description: 'Professional packaging and unboxing shots',
+    icon: '📦',
+    badgeClassName: 'bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-200',
+    credits: 1,
+    plans: null,
+    productOnWhite: false,
+    inputAssets: SINGLE_INPUT,
+    inputFields: [],
+  },
+  infographic: {
+    id: 'infographic',
+    label: 'Comparison Chart',
+    shortLabel: 'Chart',
+    tagline: 'Ours vs. Others',
+    description: 'Comparison chart or spec table with the product cut out',
+    icon: '📊',
+    badgeClassName: 'bg-teal-100 text-teal-700 dark:bg-teal-950 dark:text-teal-200',
+    credits: 1,
+    plans: null,
+    productOnWhite: true,
+    inputAssets: SINGLE_INPUT,
+    inputFields: ['comparisonRows', 'chartTitle'],
+    validateInputs: (inputs) => validateInfographicInputs(inputs.comparisonRows, inputs.chartTitle),
+  },
+  dimensions: {
+    id: 'dimensions',
+    label: 'Dimensions',
+    shortLabel: 'Size',
+    tagline: 'Size Reference',
+    description: 'Measurement lines and labels around the product, with an optional scale reference',
+    icon: '📏',
+    badgeClassName: 'bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-200',
+    credits: 1,
+    plans: null,
+    productOnWhite: true,
+    inputAssets: SINGLE_INPUT,
+    inputFields: ['dimensions', 'scaleReference'],
+    validateInputs: (inputs) => validateDimensionInputs(inputs.dimensions, inputs.scaleReference),
+  },
+  bundle: {
+    id: 'bundle',
+    label: 'Bundle / Group Shot',
+    shortLabel: 'Bundle',
+    tagline: "What's in the Box",
+    description: 'Several of your products arranged together in one image',
+    icon: '🧺',
+    badgeClassName: 'bg-rose-100 text-rose-700 dark:bg-rose-950 dark:text-rose-200',
+    credits: 1,
+    plans: null,
+    productOnWhite: false,
+    inputAssets: { min: MIN_BUNDLE_ITEMS, max: MAX_BUNDLE_ITEMS },
+    inputFields: ['bundleLayout'],
+    validateInputs: (inputs) => validateBundleInputs(inputs.bundleLayout),
+  },
+}
+
+export const GENERATION_MODE_IDS = Object.keys(GENERATION_MODES) as GenerationMode[]
+
+export const DEFAULT_GENERATION_MODE: GenerationMode = 'main_white'
+
+export const MODE_INPUT_FIELDS: ModeInputField[] = [
+  'callouts',
+  'calloutLayout',
+  'comparisonRows',
+  'chartTitle',
+  'dimensions',
+  'scaleReference',
+  'bundleLayout',
+]
+
+const UNKNOWN_MODE_BADGE = 'bg-gray-100 text-gray-700'
+
+export function isGenerationMode(value: unknown): value is GenerationMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GENERATION_MODES, value)
+}
+
+/**
+ * Short label of a mode, or the raw value for unknown modes
+ */
+export function getModeLabel(mode: string): string {
+  return isGenerationMode(mode) ? GENERATION_MODES[mode].shortLabel : mode
+}
+
+export function getModeBadgeClassName(mode: string): string {
+  return isGenerationMode(mode) ? GENERATION_MODES[mode].badgeClassName : UNKNOWN_MODE_BADGE
+}
+
+/**
+ * Whether a plan may use the mode
+ * Users without a live subscription are on the starter plan
+ */
+export function isModeOnPlan(mode: GenerationMode, planId: string): boolean {
+  const { plans } = GENERATION_MODES[mode]
+  return plans === null || plans.includes(planId as PlanId)
+}
+
+/**
+ * Credits held for a generation of the mode
+ */
+export function getModeCredits(mode: GenerationMode, variants: number = 1): number {
+  return GENERATION_MODES[mode].credits * variants
+}
+
+/**
+ * Validate the mode-specific fields of a generation request's prompt inputs
+ * Fields of other modes are rejected; returns the normalized fields (none
+ * when the request sets none), or an error message for the request
+ */
+export function validateModeInputs(
+  mode: GenerationMode,
+  inputs: ModeInputs
+): ValidatedModeInputs | { error: string } {
+  const definition = GENERATION_MODES[mode]
+
+  for (const field of MODE_INPUT_FIELDS) {
+    if (inputs[field] === undefined || inputs[field] === null || definition.inputFields.includes(field)) {
+      continue
+    }
+
+    const supported = GENERATION_MODE_IDS.filter((id) => GENERATION_MODES[id].inputFields.includes(field))
+    return { error: `${field} is only supported in ${supported.join(', ')} mode` }
+  }
+
+  return definition.validateInputs ? definition.validateInputs(inputs) : {}
+}
+
+/**
+ * Validate the input assets of a generation request against the mode
+ * inputAssetIds lists every input in order (inputAssetId, when also set,
+ * must be the first); a lone inputAssetId is the one-input form. Returns
+ * the ids, or an error message for the request
+ */
+export function validateInputAssetIds(
+  mode: GenerationMode,
+  inputAssetId: unknown,
+  inputAssetIds: unknown
+): { inputAssetIds: string[] } | { error: string } {
+  const { min, max } = GENERATION_MODES[mode].inputAssets
+
+  if (inputAssetIds === undefined || inputAssetIds === null) {
+    if (typeof inputAssetId !== 'string' || !inputAssetId) {
+      return { error: 'Input asset ID is required' }
+    }
+    return min > 1
+      ? { error: `${GENERATION_MODES[mode].label} needs inputAssetIds with ${min}-${max} input assets` }
+      : { inputAssetIds: [inputAssetId] }
+  }
+
+  if (!Array.isArray(inputAssetIds) || !inputAssetIds.every((id) => typeof id === 'string' && id)) {
+    return { error: 'inputAssetIds must be an array of asset IDs' }
+  }
+
+  if (max === 1 && inputAssetIds.length > 1) {
+    const supported = GENERATION_MODE_IDS.filter((id) => GENERATION_MODES[id].inputAssets.max > 1)
+    return { error: `Several input assets are only supported in ${supported.join(', ')} mode` }
+  }
+
+  if (inputAssetIds.length < min || inputAssetIds.length > max) {
+    return { error: `inputAssetIds must list ${min === max ? min : `${min}-${max}`} input assets` }
+  }
+
+  if (new Set(inputAssetIds).size !== inputAssetIds.length) {
+    return { error: 'inputAssetIds must not repeat an asset' }
+  }
+
+  if (inputAssetId !== undefined && inputAssetId !== null && inputAssetId !== inputAssetIds[0]) {
+    return { error: 'inputAssetIds must start with inputAssetId' }
+  }
+
+  return { inputAssetIds }
+}
@@ -0,0 +1,69 @@
+import 'server-only'
+import { getAsset } from '@/lib/db/assets'
+import { getGenerationJob } from '@/lib/db/generation-jobs'
+import { getMarketplaceProfile } from '@/lib/marketplaces'
+import type { Asset } from '@/lib/db/asset-types'
+import type { GenerationParams } from '@/lib/db/job-types'
+
+/**
+ * Recover the parameters an output was generated with
+ *
+ * Reads the job that created the output (its payload holds the request
+ * parameters). Upscaled outputs report the parameters of the output they
+ * were upscaled from. Outputs created before jobs were linked to their
+ * assets fall back to the asset's own prompt_payload audit trail.
+ * Callouts come from the output's callout layer, so edits made after
+ * generation carry over to a regeneration.
+ */
+export async function getGenerationParams(output: Asset): Promise<GenerationParams> {
+  const job = output.generation_job_id
+    ? await getGenerationJob(output.generation_job_id)
+    : null
+
+  if (job?.job_type === 'upscale' && output.parent_asset_id) {
+    const source = await getAsset(output.parent_asset_id)
+
+    if (source) {
+      return { ...await getGenerationParams(source), assetId: output.id }
+    }
+  }
+
+  // Text edited after generation (PUT /api/assets/[id]/callouts)
+  const calloutInputs = output.callout_layer?.callouts.length
+    ? { callouts: output.callout_layer.callouts, calloutLayout: output.callout_layer.layout }
+    : {}
+
+  if (job) {
+    return {
+      assetId: output.id,
+      projectId: output.project_id,
+      jobId: job.id,
+      mode: job.mode,
+      inputAssetId: job.input_asset_id,
+      inputAssetIds: job.payload?.inputAssetIds ?? null,
+      inputs: { ...job.payload?.promptInputs, ...calloutInputs },
+      promptVersion: job.payload?.promptVersion || output.prompt_version,
+      provider: job.provider,
+      model: job.model,
+      variants: job.variant_count,
+      marketplace: getMarketplaceProfile(job.payload?.marketplace).id,
+      brandKitId: job.payload?.brandKit?.id ?? null,
+    }
+  }
+
+  return {
+    assetId: output.id,
+    projectId: output.project_id,
+    jobId: null,
+    mode: output.mode,
+    inputAssetId: output.source_asset_id,
+    inputAssetIds: output.source_asset_ids,
+    inputs: { ...output.prompt_payload?.inputs, ...calloutInputs },
+    promptVersion: output.prompt_version,
+    provider: output.provider,
+    model: output.model,
+    variants: 1,
+    marketplace: getMarketplaceProfile(output.prompt_payload?.marketplace).id,
+    brandKitId: output.prompt_payload?.brandKit?.id ?? null,
+  }
+}
@@ -0,0 +1,153 @@
+import 'server-only'
+import sharp from 'sharp'
+import { GenerationError } from './errors'
+
+// Bump when the output of preprocessInputImage changes, so cached derivatives are rebuilt
+export const PREPROCESS_VERSION = 'v1'
+
+// Formats accepted as upload input
+const SUPPORTED_FORMATS = ['jpeg', 'png', 'webp']
+
+// Never shrink below this to meet the byte limit
+const MIN_DIMENSION = 256
+
+// Each downscale step while the PNG is over the byte limit
+const DOWNSCALE_FACTOR = 0.75
+
+// Margin added around non-square photos
+// (transparent margins let an edit provider extend the scene into them)
+export type InputPadding = 'transparent' | 'white'
+
+export interface PreprocessOptions {
+  maxDimension: number  // Side of the square (photos are never enlarged)
+  maxBytes: number      // Provider byte limit for the PNG
+  padding: InputPadding
+}
+
+// What was done to the upload, stored on the derivative asset
+export interface PreprocessReport {
+  version: string
+  original: {
+    format: string
+    width: number
+    height: number
+    bytes: number
+    orientation: number
+  }
+  rotated: boolean
+  padded: boolean
+  downscaled: boolean
+  padding: InputPadding
+  width: number
+  height: number
+  bytes: number
+}
+
+export interface PreprocessedImage {
+  data: Buffer
+  mimeType: 'image/png'
+  width: number
+  height: number
+  report: PreprocessReport
+}
+
+/**
+ * Key of the cached derivative for these options (assets.derivative_key)
+ */
+export function getPreprocessKey({ maxDimension, maxBytes, padding }: PreprocessOptions): string {
+  return `provider_input:${PREPROCESS_VERSION}:${maxDimension}:${maxBytes}:${padding}`
+}
+
+/**
+ * Turn an uploaded photo into a provider-ready input
+ *
+ * 1. Decode JPEG / PNG / WebP
+ * 2. Apply the EXIF orientation
+ * 3. Pad to a square (transparent or white margin), at most maxDimension
+ * 4. Convert to RGBA PNG
+ * 5. Downscale until the PNG fits maxBytes
+ *
+ * Throws GenerationError 'invalid_input_image' for unreadable or unsupported
+ * images and 'input_too_large' if even the smallest size is over the limit.
+ */
+export async function preprocessInputImage(
+  input: Buffer,
+  options: PreprocessOptions
+): Promise<PreprocessedImage> {
+  const metadata = await sharp(input).metadata().catch((error) => {
+    throw new GenerationError('invalid_input_image', `Could not read input image: ${error.message}`, { cause: error })
+  })
+
+  if (!metadata.format || !SUPPORTED_FORMATS.includes(metadata.format)) {
+    throw new GenerationError(
+      'invalid_input_image',
+      `Unsupported input image format: ${metadata.format || 'unknown'} (use JPEG, PNG or WebP)`
+    )
+  }
+
+  const orientation = metadata.orientation || 1
+
+  // Lossless upright copy; its dimensions account for the EXIF rotation
+  const upright = await sharp(input)
+    .rotate()
+    .png()
+    .toBuffer({ resolveWithObject: true })
+    .catch((error) => {
+      throw new GenerationError('invalid_input_image', `Could not decode input image: ${error.message}`, { cause: error })
+    })
+
+  const { width: uprightWidth, height: uprightHeight } = upright.info
+  const longestSide = Math.max(uprightWidth, uprightHeight)
+  const background = options.padding === 'white'
+    ? { r: 255, g: 255, b: 255, alpha: 1 }
+    : { r: 0, g: 0, b: 0, alpha: 0 }
+
+  let side = Math.min(longestSide, options.maxDimension)
+  let data: Buffer
+
+  for (;;) {
+    // fit: 'contain' scales the longest side to `side` and pads the other
+    data = await sharp(upright.data)
+      .ensureAlpha()
+      .resize(side, side, { fit: 'contain', background })
+      .png({ compressionLevel: 9 })
+      .toBuffer()
+
+    if (data.length <= options.maxBytes) {
+      break
+    }
+
+    if (side <= MIN_DIMENSION) {
+      throw new GenerationError(
+        'input_too_large',
+        `Input image is still ${data.length} bytes at ${side}x${side}, the limit is ${options.maxBytes} bytes`
+      )
+    }
+
+    side = Math.max(MIN_DIMENSION, Math.floor(side * DOWNSCALE_FACTOR))
+  }
+
+  return {
+    data,
+    mimeType: 'image/png',
+    width: side,
+    height: side,
+    report: {
+      version: PREPROCESS_VERSION,
+      original: {
+        format: metadata.format,
+        width: metadata.width || uprightWidth,
+        height: metadata.height || uprightHeight,
+        bytes: input.length,
+        orientation,
+      },
+      rotated: orientation > 1,
+      padded: uprightWidth !== uprightHeight,
+      downscaled: side < longestSide,
+      padding: options.padding,
+      width: side,
+      height: side,
+      bytes: data.length,
+    },
+  }
+}
@@ -0,0 +1,553 @@
+import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { v4 as uuidv4 } from 'uuid'
+import { getAssetsByIds, getDerivativeAsset, createAsset, deleteAsset } from '@/lib/db/assets'
+import { updateGenerationJob } from '@/lib/db/generation-jobs'
+import { markImageGenerated } from '@/lib/db/onboarding'
+import { uploadFile, getSignedUrl, deleteFile, BUCKETS, type BucketName } from '@/lib/storage/server'
+import { buildPrompt, type Mode, type PromptInputs, type PromptTemplate } from '@/lib/prompts'
+import { resolvePromptTemplate } from '@/lib/db/prompt-templates'
+import { getMarketplaceProfile } from '@/lib/marketplaces'
+import { getImageProvider, parseImageSize, type ImageSize } from '@/lib/providers'
+import { createContextLogger } from '@/lib/logger'
+import { GenerationError } from './errors'
+import { checkCompliance } from './compliance'
+import { DEFAULT_BUNDLE_LAYOUT } from './bundle'
+import { BUNDLE_ARRANGEMENT_VERSION, arrangeBundle } from './bundle-layout'
+import { CALLOUT_COMPOSITOR_VERSION, DEFAULT_CALLOUT_ACCENT, compositeCallouts } from './callout-compositor'
+import { DEFAULT_CALLOUT_LAYOUT } from './callouts'
+import { DIMENSIONS_COMPOSITOR_VERSION, compositeDimensions } from './dimensions-compositor'
+import { MIN_COMPARISON_ROWS } from './infographic'
+import { INFOGRAPHIC_COMPOSITOR_VERSION, compositeInfographic } from './infographic-compositor'
+import { GENERATION_MODES } from './modes'
+import { getPreprocessKey, preprocessInputImage, type PreprocessOptions, type PreprocessedImage } from './preprocess'
+import type { JobStage } from './stages'
+import type { Asset, CalloutLayer, ComplianceReport } from '@/lib/db/asset-types'
+import type { GenerationJob } from '@/lib/db/job-types'
+
+// Output size requested from the image provider
+export const OUTPUT_SIZE: ImageSize = '1024x1024'
+
+export interface ProcessGenerationOptions {
+  // Service-role client used for every read and write
+  supabase: SupabaseClient
+  // Called at each stage boundary and before recording the output;
+  // throws to abort (lease lost or job canceled)
+  checkpoint?: () => Promise<void>
+}
+
+export interface GenerationResult {
+  outputAsset: Asset      // First output (the only one unless variants were requested)
+  outputAssets: Asset[]   // Every output, in variant order
+  costCents: number
+}
+
+/**
+ * Download a stored file through a short-lived signed URL
+ */
+export async function downloadAsset(
+  bucket: BucketName,
+  storagePath: string,
+  supabase: SupabaseClient
+): Promise<Buffer> {
+  const signedUrl = await getSignedUrl(bucket, storagePath, 3600, supabase)
+
+  if (!signedUrl.data?.signedUrl) {
+    throw new GenerationError('storage_error', 'Failed to get signed URL for input image')
+  }
+
+  const response = await fetch(signedUrl.data.signedUrl)
+  if (!response.ok) {
+    throw new GenerationError('storage_error', 'Failed to download input image from storage')
+  }
+
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Store a preprocessed input as a derivative asset of the upload
+ * Caching is best effort: the job goes on with the in-memory image if it fails
+ */
+async function cachePreprocessedInput(
+  inputAsset: Asset,
+  preprocessed: PreprocessedImage,
+  derivativeKey: string,
+  supabase: SupabaseClient,
+  log: ReturnType<typeof createContextLogger>
+): Promise<void> {
+  const storagePath = `${inputAsset.user_id}/${inputAsset.project_id}/derived/${uuidv4()}.png`
+
+  const uploadResult = await uploadFile(
+    BUCKETS.INPUTS,
+    storagePath,
+    preprocessed.data,
+    {
+      contentType: 'image/png',
+      cacheControl: '3600',
+      upsert: false,
+    },
+    supabase
+  )
+
+  if (uploadResult.error) {
+    log.warn('Failed to cache preprocessed input', { error: uploadResult.error.message })
+    return
+  }
+
+  try {
+    await createAsset({
+      user_id: inputAsset.user_id,
+      project_id: inputAsset.project_id,
+      kind: 'input',
+      mode: inputAsset.mode,
+      source_asset_id: inputAsset.id,
+      prompt_version: inputAsset.prompt_version,
+      prompt_payload: { preprocessing: preprocessed.report },
+      width: preprocessed.width,
+      height: preprocessed.height,
+      mime_type: preprocessed.mimeType,
+      storage_path: storagePath,
+      derivative_key: derivativeKey,
+    }, supabase)
+  } catch {
+    // e.g. another attempt cached the same derivative first
+    await deleteFile(BUCKETS.INPUTS, storagePath, supabase)
+    log.warn('Failed to record preprocessed input asset')
+  }
+}
+
+/**
+ * Run a claimed generation job end to end
+ *
+ * 1. Build a prompt compliant with the job's marketplace profile, merged
+ *    with the brand kit snapshot the job was queued with
+ * 2. Download input image from storage and preprocess it (EXIF orientation,
+ *    square RGBA PNG within the provider's byte limit), or reuse the cached
+ *    preprocessed derivative; for a bundle, download every input and
+ *    arrange the cut-out products in the requested layout first
+ * 3. Call the job's image provider (n = the job's variant_count)
+ * 4. For feature_callout with structured callouts, composite the callout
+ *    text onto each output (the model only draws the clean visual); for
+ *    infographic, cut the product out and composite the comparison chart
+ * 5. Check each output against the compliance rules of its mode and marketplace
+ * 6. Upload outputs to commercepix-outputs bucket (plus the text-free
+ *    visuals of composited outputs, for re-rendering)
+ * 7. Create one assets row per output (kind='output', source_asset_id, mode,
+ *    prompt_payload, provider, model, parent_asset_id when regenerating,
+ *    compliance_report, callout_layer, source_asset_ids for a bundle);
+ *    variants are created 'pending'
+ *
+ * Throws on failure, with a GenerationError code where the cause is known.
+ * The caller owns the job status: it marks the job 'succeeded' when this
+ * resolves and retries or fails it when it rejects. Credits are reserved
+ * when the job is created; the status change captures or releases the hold
+ * (see settle_job_credit_hold), so they are never spent for a failed job.
+ */
+export async function processGeneration(
+  job: GenerationJob,
+  { supabase, checkpoint = async () => {} }: ProcessGenerationOptions
+): Promise<GenerationResult> {
+  const { promptInputs = {}, promptVersion = 'v1', experimentId, requestId, parentAssetId, marketplace, brandKit, inputAssetIds } = job.payload || {}
+  const userId = job.user_id
+  const mode = job.mode as Mode
+  // Jobs queued before marketplace profiles existed use the default (Amazon)
+  const profile = getMarketplaceProfile(marketplace)
+  const log = createContextLogger({ requestId, jobId: job.id, userId, mode, marketplace: profile.id })
+
+  log.info('Starting generation job', { attempt: job.attempts })
+
+  const provider = getImageProvider(job.provider || undefined, job.model || undefined)
+
+  // Stage changes are streamed to the client (see generation_job_events);
+  // progress reporting must never fail the job
+  const enterStage = async (stage: JobStage) => {
+    await checkpoint()
+    try {
+      await updateGenerationJob(job.id, { stage }, supabase)
+    } catch {
+      log.warn('Failed to record job stage', { stage })
+    }
+  }
+
+  if (!job.input_asset_id) {
+    throw new GenerationError('input_not_found', 'Job has no input asset')
+  }
+
+  // Bundles list every input in layout order; the first is input_asset_id
+  const sourceAssetIds = inputAssetIds ?? [job.input_asset_id]
+  let inputAssets: Asset[]
+  try {
+    const found = await getAssetsByIds(sourceAssetIds, supabase)
+    inputAssets = sourceAssetIds
+      .map((id) => found.find((asset) => asset.id === id))
+      .filter((asset): asset is Asset => Boolean(asset))
+  } catch (error) {
+    throw new GenerationError('database_error', 'Failed to load input assets', { cause: error })
+  }
+
+  if (inputAssets.length !== sourceAssetIds.length) {
+    throw new GenerationError('input_not_found', 'Input asset not found')
+  }
+
+  const [inputAsset] = inputAssets
+  const isBundle = inputAssets.length > 1
+
+  // Build prompt using prompt library, with the template version the job
+  // was queued with (published versions are immutable, so retries match)
+  let template: PromptTemplate | null
+  try {
+    template = await resolvePromptTemplate(mode, promptVersion, supabase)
+  } catch (error) {
+    throw new GenerationError('database_error', 'Failed to load prompt template', { cause: error })
+  }
+
+  if (!template) {
+    throw new GenerationError('unknown', `Prompt version ${promptVersion} not found for ${mode}`)
+  }
+
+  const { prompt, promptPayload } = buildPrompt(
+    mode,
+    { ...promptInputs, brandKit, inputCount: inputAssets.length },
+    profile.id,
+    template
+  )
+  // Backstop for the route's check: a chart without enough rows left is
+  // failed before the provider is called, releasing the credit hold
+  const chartRows = promptPayload.sanitizedInputs?.comparisonRows
+  if (mode === 'infographic' && (!chartRows || chartRows.length < MIN_COMPARISON_ROWS)) {
+    throw new GenerationError(
+      'invalid_inputs',
+      `Only ${chartRows?.length ?? 0} comparison rows are left after sanitization, at least ${MIN_COMPARISON_ROWS} are needed`
+    )
+  }
+
+  log.debug('Prompt built', {
+    promptVersion,
+    experimentId,
+    brandKitId: brandKit?.id,
+    hasWarnings: promptPayload.complianceWarnings && promptPayload.complianceWarnings.length > 0,
+  })
+
+  // Provider-ready input: square RGBA PNG within the provider's byte limit,
+  // cached as a derivative of the upload so retries skip the work
+  const preprocessOptions: PreprocessOptions = {
+    maxDimension: parseImageSize(OUTPUT_SIZE).width,
+    maxBytes: provider.capabilities.maxInputBytes,
+    padding: GENERATION_MODES[mode].productOnWhite ? 'white' : 'transparent',
+  }
+  const derivativeKey = getPreprocessKey(preprocessOptions)
+
+  await enterStage('downloading_input')
+
+  let inputImageBuffer: Buffer
+  const bundleLayout = promptInputs.bundleLayout ?? DEFAULT_BUNDLE_LAYOUT
+  const cachedInput = isBundle ? null : await getDerivativeAsset(inputAsset.id, derivativeKey, supabase)
+
+  if (isBundle) {
+    // The arrangement depends on every input, so it is not cached
+    const originalBuffers: Buffer[] = []
+    for (const asset of inputAssets) {
+      originalBuffers.push(await downloadAsset(BUCKETS.INPUTS, asset.storage_path, supabase))
+    }
+
+    await enterStage('preparing_input')
+
+    let arranged: Buffer
+    try {
+      arranged = await arrangeBundle(originalBuffers, bundleLayout, preprocessOptions.maxDimension)
+    } catch (error) {
+      throw new GenerationError('unknown', 'Failed to arrange bundle inputs', { cause: error })
+    }
+
+    const preprocessed = await preprocessInputImage(arranged, preprocessOptions)
+    inputImageBuffer = preprocessed.data
+
+    log.info('Arranged bundle inputs', { layout: bundleLayout, inputs: inputAssets.length, ...preprocessed.report })
+  } else if (cachedInput) {
+    log.debug('Using cached preprocessed input', { derivativeAssetId: cachedInput.id })
+    inputImageBuffer = await downloadAsset(BUCKETS.INPUTS, cachedInput.storage_path, supabase)
+  } else {
+    const originalBuffer = await downloadAsset(BUCKETS.INPUTS, inputAsset.storage_path, supabase)
+
+    await enterStage('preparing_input')
+
+    const preprocessed = await preprocessInputImage(originalBuffer, preprocessOptions)
+    inputImageBuffer = preprocessed.data
+
+    log.info('Preprocessed input image', { ...preprocessed.report })
+
+    await cachePreprocessedInput(inputAsset, preprocessed, derivativeKey, supabase, log)
+  }
+
+  if (inputImageBuffer.length > provider.capabilities.maxInputBytes) {
+    throw new GenerationError(
+      'input_too_large',
+      `Input image is ${inputImageBuffer.length} bytes, ${provider.name} accepts at most ${provider.capabilities.maxInputBytes} bytes`
+    )
+  }
+
+  log.info('Calling image provider', { provider: provider.name, model: provider.model })
+  await enterStage('calling_provider')
+
+  // Call the provider's edit API (image + prompt)
+  const variantCount = job.variant_count || 1
+  const generatedImages = await provider.editImage({
+    image: inputImageBuffer,
+    mimeType: 'image/png',
+    prompt,
+    n: variantCount,
+    size: OUTPUT_SIZE,
+  })
+
+  if (generatedImages.length === 0) {
+    throw new GenerationError('provider_bad_response', 'Image provider returned no images')
+  }
+
+  log.debug('Received generated images from provider', {
+    requested: variantCount,
+    received: generatedImages.length,
+    bytes: generatedImages.map((image) => image.data.length),
+  })
+
+  const { width, height } = parseImageSize(OUTPUT_SIZE)
+
+  // Structured callouts (sanitized by buildPrompt) are composited onto each
+  // image; the text-free visuals are kept so the text can be re-rendered
+  const calloutInputs: PromptInputs = (mode === 'feature_callout' && promptPayload.sanitizedInputs) || {}
+  const { callouts, calloutLayout = DEFAULT_CALLOUT_LAYOUT } = calloutInputs
+  const accentColor = brandKit?.colorPalette[0] ?? DEFAULT_CALLOUT_ACCENT
+  let outputImages = generatedImages
+
+  // Comparison rows (sanitized by buildPrompt) become a chart around the
+  // cut-out product, in the brand kit colors
+  const chartInputs: PromptInputs = (mode === 'infographic' && promptPayload.sanitizedInputs) || {}
+  const { comparisonRows, chartTitle } = chartInputs
+
+  // Dimensions (validated by the route) become measurement lines around the
+  // cut-out product; the labels are formatted from the request, never generated
+  const dimensionInputs: PromptInputs = (mode === 'dimensions' && promptPayload.sanitizedInputs) || {}
+  const { dimensions, scaleReference } = dimensionInputs
+
+  if (callouts) {
+    await enterStage('compositing_text')
+
+    outputImages = []
+    for (const generated of generatedImages) {
+      try {
+        const data = await compositeCallouts(generated.data, { layout: calloutLayout, callouts, accentColor })
+        outputImages.push({ ...generated, data })
+      } catch (error) {
+        throw new GenerationError('unknown', 'Failed to composite callout text', { cause: error })
+      }
+    }
+
+    log.debug('Composited callouts', { layout: calloutLayout, callouts: callouts.length })
+  }
+
+  if (comparisonRows) {
+    await enterStage('compositing_text')
+
+    outputImages = []
+    for (const generated of generatedImages) {
+      try {
+        const data = await compositeInfographic(generated.data, {
+          rows: comparisonRows,
+          title: chartTitle,
+          accentColor: brandKit?.colorPalette[0],
+          surfaceColor: brandKit?.colorPalette[1],
+        })
+        outputImages.push({ ...generated, data })
+      } catch (error) {
+        throw new GenerationError('unknown', 'Failed to composite comparison chart', { cause: error })
+      }
+    }
+
+    log.debug('Composited comparison chart', { rows: comparisonRows.length, hasTitle: !!chartTitle })
+  }
+
+  if (dimensions) {
+    await enterStage('compositing_text')
+
+    outputImages = []
+    for (const generated of generatedImages) {
+      try {
+        const data = await compositeDimensions(generated.data, {
+          dimensions,
+          scaleReference,
+          accentColor: brandKit?.colorPalette[0],
+        })
+        outputImages.push({ ...generated, data })
+      } catch (error) {
+        throw new GenerationError('unknown', 'Failed to composite dimensions', { cause: error })
+      }
+    }
+
+    log.debug('Composited dimensions', { unitSystem: dimensions.unitSystem, scaleReference })
+  }
+
+  // Score each output against its mode's compliance rules; a failed
+  // check never fails the job, the output just has no report
+  await enterStage('checking_output')
+
+  const complianceReports: (ComplianceReport | null)[] = []
+  for (const generated of outputImages) {
+    try {
+      complianceReports.push(await checkCompliance(generated.data, mode, profile))
+    } catch (error) {
+      log.warn('Compliance check failed', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      complianceReports.push(null)
+    }
+  }
+
+  log.debug('Checked output compliance', {
+    statuses: complianceReports.map((report) => report?.status ?? null),
+  })
+
+  // Upload to storage
+  await enterStage('uploading_output')
+
+  const storagePaths: string[] = []
+  const basePaths: string[] = []
+  const discardUploads = () =>
+    Promise.all([...storagePaths, ...basePaths].map((path) => deleteFile(BUCKETS.OUTPUTS, path, supabase)))
+
+  for (const generated of outputImages) {
+    const storagePath = `${userId}/${inputAsset.project_id}/${uuidv4()}.png`
+    const uploadResult = await uploadFile(
+      BUCKETS.OUTPUTS,
+      storagePath,
+      generated.data,
+      {
+        contentType: 'image/png',
+        cacheControl: '3600',
+        upsert: false,
+      },
+      supabase
+    )
+
+    if (uploadResult.error) {
+      await discardUploads()
+      throw new GenerationError('storage_error', 'Failed to upload generated image to storage')
+    }
+
+    storagePaths.push(storagePath)
+  }
+
+  if (callouts) {
+    for (const generated of generatedImages) {
+      const basePath = `${userId}/${inputAsset.project_id}/layers/${uuidv4()}.png`
+      const uploadResult = await uploadFile(
+        BUCKETS.OUTPUTS,
+        basePath,
+        generated.data,
+        {
+          contentType: 'image/png',
+          cacheControl: '3600',
+          upsert: false,
+        },
+        supabase
+      )
+
+      if (uploadResult.error) {
+        await discardUploads()
+        throw new GenerationError('storage_error', 'Failed to upload callout base image to storage')
+      }
+
+      basePaths.push(basePath)
+    }
+  }
+
+  // Make sure we still own the job (and it wasn't canceled) before recording results
+  try {
+    await checkpoint()
+  } catch (error) {
+    await discardUploads()
+    throw error
+  }
+
+  // Create output asset records; multi-variant outputs stay 'pending'
+  // until the user picks which ones to keep (see select_job_variants)
+  const isVariantSet = variantCount > 1
+  const outputAssets: Asset[] = []
+
+  for (const [index, generated] of outputImages.entries()) {
+    const calloutLayer: CalloutLayer | null = callouts
+      ? {
+          version: CALLOUT_COMPOSITOR_VERSION,
+          layout: calloutLayout,
+          callouts,
+          accent_color: accentColor,
+          base_storage_path: basePaths[index],
+          rendered_at: new Date().toISOString(),
+        }
+      : null
+
+    let outputAsset: Asset
+    try {
+      outputAsset = await createAsset({
+        user_id: userId,
+        project_id: inputAsset.project_id,
+        kind: 'output',
+        mode,
+        source_asset_id: inputAsset.id,
+        source_asset_ids: isBundle ? sourceAssetIds : null,
+        parent_asset_id: parentAssetId ?? null,
+        prompt_version: promptVersion,
+        prompt_payload: comparisonRows
+          ? { ...promptPayload, infographicCompositor: INFOGRAPHIC_COMPOSITOR_VERSION }
+          : dimensions
+            ? { ...promptPayload, dimensionsCompositor: DIMENSIONS_COMPOSITOR_VERSION }
+            : isBundle
+              ? { ...promptPayload, bundleArrangement: BUNDLE_ARRANGEMENT_VERSION }
+              : promptPayload, // Store the full audit trail
+        width: generated.width || width,
+        height: generated.height || height,
+        mime_type: generated.mimeType,
+        storage_path: storagePaths[index],
+        provider: provider.name,
+        model: provider.model,
+        generation_job_id: job.id,
+        variant_index: isVariantSet ? index : null,
+        variant_status: isVariantSet ? 'pending' : null,
+        compliance_report: complianceReports[index],
+        callout_layer: calloutLayer,
+      }, supabase)
+    } catch (error) {
+      // Don't leave a partial set behind for the retry
+      await Promise.all(outputAssets.map((asset) => deleteAsset(asset.id, supabase)))
+      await discardUploads()
+      throw new GenerationError('database_error', 'Failed to create output asset record', { cause: error })
+    }
+
+    outputAssets.push(outputAsset)
+  }
+
+  const [outputAsset] = outputAssets
+
+  // Calculate actual cost from the provider's per-image price
+  const costCents = provider.capabilities.costPerImageCents * outputAssets.length
+
+  // Recorded before the job is marked succeeded so the status event carries the output
+  await updateGenerationJob(job.id, {
+    cost_cents: costCents,
+    output_asset_id: outputAsset.id,
+    variants_generated: outputAssets.length,
+  }, supabase)
+
+  // Track onboarding progress based on mode
+  // (the helper swallows its own errors so generation never fails here)
+  const onboardingTask = GENERATION_MODES[mode].onboardingTask
+  if (onboardingTask) {
+    await markImageGenerated(userId, onboardingTask, supabase)
+  }
+
+  log.info('Generation job completed successfully', {
+    outputAssetId: outputAsset.id,
+    variantsGenerated: outputAssets.length,
+    costCents,
+  })
+
+  return { outputAsset, outputAssets, costCents }
+}
@@ -0,0 +1,78 @@
+import 'server-only'
+import { resolvePromptTemplate } from '@/lib/db/prompt-templates'
+import { getRunningPromptExperiment } from '@/lib/db/prompt-experiments'
+import { pickExperimentVariant } from './experiments'
+import type { ExperimentVariant } from '@/lib/db/experiment-types'
+import type { Mode } from '@/lib/prompts'
+
+/**
+ * Prompt version for a mode's jobs: a fixed version, or the variants of
+ * a running experiment to assign each job from
+ */
+export type PromptVersionChoice =
+  | { version: string }
+  | { experimentId: string; variants: ExperimentVariant[] }
+
+/**
+ * Pick the prompt template version for each mode of a generation request
+ *
+ * Uses the requested version if given. Otherwise a mode with a running
+ * experiment assigns each job a variant by weight (see assignPromptVersion),
+ * and other modes use their current version. Requested versions must exist
+ * (v1 or published) for every mode. Jobs record the concrete version so
+ * retries and regenerations render the same template. Returns the choice
+ * by mode, or an error message with the HTTP status for the route to return.
+ */
+export async function resolvePromptVersions(
+  modes: string | string[],
+  requested?: unknown
+): Promise<{ versions: Record<string, PromptVersionChoice> } | { error: string; status: number }> {
+  if (requested !== undefined && typeof requested !== 'string') {
+    return { error: 'promptVersion must be a string, e.g. "v1"', status: 400 }
+  }
+
+  const versions: Record<string, PromptVersionChoice> = {}
+
+  for (const mode of new Set(Array.isArray(modes) ? modes : [modes]) as Set<Mode>) {
+    if (requested === undefined) {
+      const experiment = await getRunningPromptExperiment(mode)
+
+      if (experiment) {
+        versions[mode] = { experimentId: experiment.id, variants: experiment.variants }
+        continue
+      }
+    }
+
+    const template = await resolvePromptTemplate(mode, requested)
+
+    if (!template) {
+      return {
+        error: requested === undefined
+          ? `No prompt template is available for ${mode}`
+          : `Unknown prompt version ${requested} for ${mode}`,
+        status: 400,
+      }
+    }
+
+    versions[mode] = { version: template.version }
+  }
+
+  return { versions }
+}
+
+/**
+ * Prompt fields for one job's payload
+ * Experiment jobs get a variant by weight and record the experiment
+ */
+export function assignPromptVersion(
+  choice: PromptVersionChoice
+): { promptVersion: string; experimentId?: string } {
+  if ('version' in choice) {
+    return { promptVersion: choice.version }
+  }
+
+  return {
+    promptVersion: pickExperimentVariant(choice.variants).version,
+    experimentId: choice.experimentId,
+  }
+}
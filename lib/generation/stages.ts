@@ -0,0 +1,23 @@
+// Worker stages reported while a job is running
+// Safe to import from client components (no server-only dependencies)
+
+export type JobStage = 'downloading_input' | 'preparing_input' | 'calling_provider' | 'compositing_text' | 'upscaling' | 'checking_output' | 'uploading_output'
+
+export const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  downloading_input: 'Downloading input',
+  preparing_input: 'Preparing input',
+  calling_provider: 'Calling provider',
+  compositing_text: 'Adding text',
+  upscaling: 'Upscaling',
+  checking_output: 'Checking compliance',
+  uploading_output: 'Uploading output',
+}
+
+// Order used for progress indicators (upscale jobs run upscaling instead of
+// preparing_input and calling_provider; only feature_callout jobs with
+// callouts, infographic and dimensions jobs run compositing_text)
+export const JOB_STAGES: JobStage[] = ['downloading_input', 'preparing_input', 'calling_provider', 'compositing_text', 'upscaling', 'checking_output', 'uploading_output']
+
+export function getJobStageLabel(stage: string | null | undefined): string | null {
+  return stage && stage in JOB_STAGE_LABELS ? JOB_STAGE_LABELS[stage as JobStage] : null
+}
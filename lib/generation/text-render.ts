@@ -0,0 +1,59 @@
+import 'server-only'
+import path from 'path'
+import sharp from 'sharp'
+
+// Text rendering shared by the compositors (callouts, infographic charts,
+// dimension labels)
+
+// Bundled with the app so text renders the same on every worker
+// (see assets/fonts/README.md)
+const FONT_FILE = path.join(process.cwd(), 'assets', 'fonts', 'NotoSans-Regular.ttf')
+const FONT_FAMILY = 'Noto Sans'
+
+export interface RenderedText {
+  data: Buffer
+  width: number
+  height: number
+  marginTop: number  // Space above it in the stack
+}
+
+export function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Render Pango markup with the bundled font, wrapped to a width
+ */
+export async function renderText(
+  markup: string,
+  size: number,
+  width: number,
+  marginTop: number = 0,
+  align: 'left' | 'centre' = 'left'
+): Promise<RenderedText> {
+  const { data, info } = await sharp({
+    text: {
+      text: markup,
+      font: `${FONT_FAMILY} ${size}`,
+      fontfile: FONT_FILE,
+      rgba: true,
+      width,
+      dpi: 72,
+      wrap: 'word',
+      align,
+    },
+  })
+    .png()
+    .toBuffer({ resolveWithObject: true })
+
+  return { data, width: info.width, height: info.height, marginTop }
+}
+
+export function getStackHeight(texts: RenderedText[]): number {
+  return texts.reduce((sum, text) => sum + text.marginTop + text.height, 0)
+}
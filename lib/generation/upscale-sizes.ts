@@ -0,0 +1,14 @@
+// Upscale targets (POST /api/assets/[id]/upscale with `targetSize`)
+// Safe to import from client components (no server-only dependencies)
+
+// Longest side of the upscaled output in pixels: Amazon zoom starts at
+// 1600px, 2000-3000px covers the other marketplaces' recommendations
+export const UPSCALE_SIZES = [1600, 2000, 3000] as const
+
+export type UpscaleSize = typeof UPSCALE_SIZES[number]
+
+export const DEFAULT_UPSCALE_SIZE: UpscaleSize = 2000
+
+export function isUpscaleSize(value: unknown): value is UpscaleSize {
+  return typeof value === 'number' && UPSCALE_SIZES.includes(value as UpscaleSize)
+}
@@ -0,0 +1,230 @@
+import 'server-only'
+import sharp from 'sharp'
+import { v4 as uuidv4 } from 'uuid'
+import { getAsset, createAsset } from '@/lib/db/assets'
+import { updateGenerationJob } from '@/lib/db/generation-jobs'
+import { uploadFile, deleteFile, BUCKETS } from '@/lib/storage/server'
+import { getMarketplaceProfile } from '@/lib/marketplaces'
+import { getImageProvider, type GeneratedImage, type ImageProvider } from '@/lib/providers'
+import { createContextLogger } from '@/lib/logger'
+import { GenerationError } from './errors'
+import { checkCompliance } from './compliance'
+import { downloadAsset, type GenerationResult, type ProcessGenerationOptions } from './process'
+import type { JobStage } from './stages'
+import type { AssetMode, ComplianceReport } from '@/lib/db/asset-types'
+import type { GenerationJob } from '@/lib/db/job-types'
+
+export type UpscaleMethod = 'provider' | 'local'
+
+/**
+ * Target dimensions for an image whose longest side becomes targetSize
+ */
+export function getUpscaleDimensions(
+  width: number,
+  height: number,
+  targetSize: number
+): { width: number; height: number } {
+  const scale = targetSize / Math.max(width, height)
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  }
+}
+
+/**
+ * Local resampling fallback: Lanczos resize with light sharpening to
+ * offset the softening, written as PNG
+ */
+async function resampleImage(image: Buffer, width: number, height: number): Promise<GeneratedImage> {
+  const data = await sharp(image)
+    .resize(width, height, { fit: 'fill', kernel: 'lanczos3' })
+    .sharpen({ sigma: 0.6 })
+    .png()
+    .toBuffer()
+    .catch((error) => {
+      throw new GenerationError('invalid_input_image', error.message, { cause: error })
+    })
+
+  return { data, mimeType: 'image/png', width, height }
+}
+
+/**
+ * Run a claimed upscale job end to end
+ *
+ * 1. Download the output being upscaled (the job's input_asset_id)
+ * 2. Upscale it with the job's provider when it supports the target size,
+ *    otherwise resample it locally
+ * 3. Check the result against the compliance rules of its mode and marketplace
+ * 4. Upload it to commercepix-outputs bucket
+ * 5. Create an assets row (kind='output', same mode, parent_asset_id = the
+ *    upscaled output, source_asset_id(s) = its input(s), real width and height,
+ *    prompt_payload.upscale recording the target and method)
+ *
+ * Same contract as processGeneration: throws on failure and leaves the job
+ * status (and so the credit hold) to the caller.
+ */
+export async function processUpscale(
+  job: GenerationJob,
+  { supabase, checkpoint = async () => {} }: ProcessGenerationOptions
+): Promise<GenerationResult> {
+  const { requestId, marketplace, upscale } = job.payload || {}
+  const profile = getMarketplaceProfile(marketplace)
+  const log = createContextLogger({ requestId, jobId: job.id, userId: job.user_id, mode: job.mode, marketplace: profile.id })
+
+  log.info('Starting upscale job', { attempt: job.attempts, targetSize: upscale?.targetSize })
+
+  const enterStage = async (stage: JobStage) => {
+    await checkpoint()
+    try {
+      await updateGenerationJob(job.id, { stage }, supabase)
+    } catch {
+      log.warn('Failed to record job stage', { stage })
+    }
+  }
+
+  if (!upscale?.targetSize) {
+    throw new GenerationError('unknown', 'Upscale job has no target size')
+  }
+
+  if (!job.input_asset_id) {
+    throw new GenerationError('input_not_found', 'Job has no output to upscale')
+  }
+
+  const sourceAsset = await getAsset(job.input_asset_id, supabase)
+
+  if (!sourceAsset) {
+    throw new GenerationError('input_not_found', 'Output to upscale not found')
+  }
+
+  await enterStage('downloading_input')
+
+  const sourceBuffer = await downloadAsset(BUCKETS.OUTPUTS, sourceAsset.storage_path, supabase)
+
+  // Stored dimensions of older outputs may be missing; read them from the file
+  const metadata = await sharp(sourceBuffer).metadata().catch((error) => {
+    throw new GenerationError('invalid_input_image', error.message, { cause: error })
+  })
+  const sourceWidth = metadata.width || sourceAsset.width || 0
+  const sourceHeight = metadata.height || sourceAsset.height || 0
+
+  if (sourceWidth === 0 || sourceHeight === 0) {
+    throw new GenerationError('invalid_input_image', 'Could not read the size of the output to upscale')
+  }
+
+  const { width, height } = getUpscaleDimensions(sourceWidth, sourceHeight, upscale.targetSize)
+
+  // Jobs queued without a provider (none configured) always resample locally
+  const provider: ImageProvider | null = job.provider
+    ? getImageProvider(job.provider, job.model || undefined)
+    : null
+  const useProvider = Boolean(
+    provider?.capabilities.upscale
+    && provider.upscaleImage
+    && upscale.targetSize <= (provider.capabilities.maxUpscaleSize ?? 0)
+  )
+  const method: UpscaleMethod = useProvider ? 'provider' : 'local'
+
+  log.info('Upscaling output', {
+    method,
+    provider: useProvider ? provider!.name : null,
+    from: `${sourceWidth}x${sourceHeight}`,
+    to: `${width}x${height}`,
+  })
+  await enterStage('upscaling')
+
+  const upscaled = useProvider
+    ? await provider!.upscaleImage!({ image: sourceBuffer, width, height })
+    : await resampleImage(sourceBuffer, width, height)
+
+  // A failed check never fails the job, the output just has no report
+  await enterStage('checking_output')
+
+  let complianceReport: ComplianceReport | null = null
+  try {
+    complianceReport = await checkCompliance(upscaled.data, sourceAsset.mode as AssetMode, profile)
+  } catch (error) {
+    log.warn('Compliance check failed', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  await enterStage('uploading_output')
+
+  const storagePath = `${job.user_id}/${sourceAsset.project_id}/${uuidv4()}.png`
+  const uploadResult = await uploadFile(
+    BUCKETS.OUTPUTS,
+    storagePath,
+    upscaled.data,
+    {
+      contentType: 'image/png',
+      cacheControl: '3600',
+      upsert: false,
+    },
+    supabase
+  )
+
+  if (uploadResult.error) {
+    throw new GenerationError('storage_error', 'Failed to upload upscaled image to storage')
+  }
+
+  // Make sure we still own the job (and it wasn't canceled) before recording results
+  try {
+    await checkpoint()
+  } catch (error) {
+    await deleteFile(BUCKETS.OUTPUTS, storagePath, supabase)
+    throw error
+  }
+
+  const outputAsset = await createAsset({
+    user_id: job.user_id,
+    project_id: sourceAsset.project_id,
+    kind: 'output',
+    mode: sourceAsset.mode,
+    source_asset_id: sourceAsset.source_asset_id,
+    source_asset_ids: sourceAsset.source_asset_ids,
+    parent_asset_id: sourceAsset.id,
+    prompt_version: sourceAsset.prompt_version,
+    prompt_payload: {
+      ...sourceAsset.prompt_payload,
+      upscale: {
+        sourceAssetId: sourceAsset.id,
+        targetSize: upscale.targetSize,
+        method,
+        provider: useProvider ? provider!.name : null,
+      },
+    },
+    width: upscaled.width,
+    height: upscaled.height,
+    mime_type: upscaled.mimeType,
+    storage_path: storagePath,
+    // The pixels still come from the provider that generated the source
+    provider: sourceAsset.provider,
+    model: sourceAsset.model,
+    generation_job_id: job.id,
+    compliance_report: complianceReport,
+  }, supabase)
+
+  if (!outputAsset) {
+    await deleteFile(BUCKETS.OUTPUTS, storagePath, supabase)
+    throw new GenerationError('database_error', 'Failed to create upscaled asset record')
+  }
+
+  const costCents = useProvider ? provider!.capabilities.costPerUpscaleCents ?? 0 : 0
+
+  // Recorded before the job is marked succeeded so the status event carries the output
+  await updateGenerationJob(job.id, {
+    cost_cents: costCents,
+    output_asset_id: outputAsset.id,
+    variants_generated: 1,
+  }, supabase)
+
+  log.info('Upscale job completed successfully', {
+    outputAssetId: outputAsset.id,
+    width: outputAsset.width,
+    height: outputAsset.height,
+    method,
+    costCents,
+  })
+
+  return { outputAsset, outputAssets: [outputAsset], costCents }
+}
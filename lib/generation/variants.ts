@@ -0,0 +1,13 @@
+// Multi-variant generation limits (POST /api/generate with `variants`)
+// Safe to import from client components (no server-only dependencies)
+
+// Most variants one job may request (1 credit held per variant)
+export const MAX_VARIANTS = 4
+
+// Hours a discarded variant stays in storage before the worker purges it
+// (default of select_job_variants)
+export const DISCARD_GRACE_HOURS = 24
+
+// Days an unselected variant set waits before only its first variant is kept
+// (default of finalize_expired_variant_selections)
+export const SELECTION_WINDOW_DAYS = 7
@@ -0,0 +1,300 @@
+import 'server-only'
+import { hostname } from 'os'
+import { randomBytes } from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  claimGenerationJob,
+  heartbeatGenerationJob,
+  finishGenerationAttempt,
+  sweepExpiredGenerationJobs,
+  pruneGenerationJobEvents,
+  finalizeExpiredVariantSelections,
+  getExpiredDiscardedVariants,
+  deleteDiscardedVariants,
+  DEFAULT_LEASE_SECONDS,
+} from '@/lib/db/generation-queue'
+import { deleteFiles, BUCKETS } from '@/lib/storage/server'
+import { createContextLogger } from '@/lib/logger'
+import { sleep } from '@/lib/utils'
+import { runNextProjectExport } from '@/lib/export/worker'
+import { processGeneration } from './process'
+import { processUpscale } from './upscale'
+import { GenerationError, toGenerationError } from './errors'
+import type { GenerationJob, LeaseState } from '@/lib/db/job-types'
+
+export interface GenerationWorkerOptions {
+  workerId?: string
+  leaseSeconds?: number     // Lease length granted on claim and each heartbeat
+  pollIntervalMs?: number   // Wait between polls when the queue is empty
+  sweepIntervalMs?: number  // How often this worker recovers expired leases
+  signal?: AbortSignal      // Stop after the current job when aborted
+}
+
+/**
+ * Thrown at a checkpoint when the worker no longer holds the job's lease
+ */
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease lost for job ${jobId}`)
+    this.name = 'LeaseLostError'
+  }
+}
+
+/**
+ * Thrown at a checkpoint when the job's owner asked to cancel it
+ */
+export class JobCanceledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was canceled`)
+    this.name = 'JobCanceledError'
+  }
+}
+
+// Retry backoff: 10s, 20s, 40s, ... capped at 5 minutes
+const RETRY_BASE_SECONDS = 10
+const RETRY_MAX_SECONDS = 300
+
+/**
+ * Exponential backoff with jitter for the given (1-based) attempt
+ * A provider-requested Retry-After wins when it is longer
+ */
+export function getRetryDelaySeconds(attempt: number, retryAfterMs?: number): number {
+  const exponential = Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_SECONDS)
+  const jitter = exponential * 0.2 * Math.random() // Spread retries from simultaneous failures
+  const requested = retryAfterMs ? retryAfterMs / 1000 : 0
+
+  return Math.ceil(Math.max(exponential + jitter, requested))
+}
+
+export function generateWorkerId(): string {
+  return `${hostname()}-${process.pid}-${randomBytes(4).toString('hex')}`
+}
+
+/**
+ * Run one leased job, keeping the lease alive with heartbeats
+ */
+async function runLeasedJob(job: GenerationJob, workerId: string, leaseSeconds: number) {
+  const log = createContextLogger({ requestId: job.payload?.requestId, jobId: job.id, workerId })
+  let leaseState: LeaseState = 'held'
+
+  const heartbeat = setInterval(async () => {
+    if (leaseState === 'lost') {
+      return
+    }
+    const result = await heartbeatGenerationJob(job.id, workerId, leaseSeconds)
+    // A failed heartbeat keeps the last known state (e.g. a seen cancel request)
+    if (result === 'unknown') {
+      log.warn('Could not confirm job lease')
+      return
+    }
+    leaseState = result
+    if (leaseState === 'lost') {
+      log.warn('Lost job lease')
+    }
+  }, (leaseSeconds * 1000) / 3)
+
+  // Upscale jobs share the queue, lease and credit handling of generation jobs
+  const runJob = job.job_type === 'upscale' ? processUpscale : processGeneration
+
+  try {
+    await runJob(job, {
+      supabase: createAdminClient(),
+      // Runs at every stage boundary
+      checkpoint: async () => {
+        if (leaseState !== 'lost') {
+          const result = await heartbeatGenerationJob(job.id, workerId, leaseSeconds)
+          // The sweeper may have requeued the job: don't go on without a confirmed lease
+          if (result === 'unknown') {
+            throw new GenerationError('database_error', 'Could not confirm the job lease')
+          }
+          leaseState = result
+        }
+        if (leaseState === 'lost') {
+          throw new LeaseLostError(job.id)
+        }
+        if (leaseState === 'cancel_requested') {
+          throw new JobCanceledError(job.id)
+        }
+      },
+    })
+
+    const finished = await finishGenerationAttempt(job.id, workerId, 'succeeded')
+    if (!finished) {
+      log.warn('Could not mark job succeeded (lease lost or job already finished)')
+    }
+  } catch (error) {
+    if (error instanceof LeaseLostError) {
+      // Another worker (or the sweeper) owns the job now; leave it alone
+      log.warn('Abandoning job after losing its lease')
+      return
+    }
+
+    if (error instanceof JobCanceledError) {
+      // Releases the credit hold (see settle_job_credit_hold)
+      log.info('Stopping canceled job')
+      await finishGenerationAttempt(job.id, workerId, 'canceled')
+      return
+    }
+
+    const failure = toGenerationError(error)
+    const willRetry = failure.category === 'retryable' && job.attempts < job.max_attempts
+
+    log.error('Generation job failed', {
+      errorCode: failure.code,
+      category: failure.category,
+      attempt: job.attempts,
+      maxAttempts: job.max_attempts,
+      willRetry,
+    }, failure)
+
+    // Build detailed error info for DB (store as JSON string for better structure)
+    const detailedError = JSON.stringify({
+      message: failure.message,
+      code: failure.code,
+      category: failure.category,
+      stack: failure.stack?.split('\n').slice(0, 10).join('\n'), // Limit stack trace length
+      timestamp: new Date().toISOString(),
+      mode: job.mode,
+      provider: job.provider,
+      model: job.model,
+      userId: job.user_id,
+      requestId: job.payload?.requestId,
+      attempt: job.attempts,
+    })
+
+    // The job's credit hold stays in place for a retry and is released if it fails
+    if (willRetry) {
+      const retryDelaySeconds = getRetryDelaySeconds(job.attempts, failure.retryAfterMs)
+      log.info('Scheduling retry', { retryDelaySeconds })
+      await finishGenerationAttempt(job.id, workerId, 'queued', {
+        errorCode: failure.code,
+        error: detailedError,
+        retryDelaySeconds,
+      })
+    } else {
+      await finishGenerationAttempt(job.id, workerId, 'failed', {
+        errorCode: failure.code,
+        error: detailedError,
+      })
+    }
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+/**
+ * Remove discarded variants whose grace period ended from storage,
+ * then delete their asset rows
+ * Returns the number of variants removed
+ */
+async function purgeDiscardedVariants(): Promise<number> {
+  const expired = await getExpiredDiscardedVariants()
+
+  if (expired.length === 0) {
+    return 0
+  }
+
+  // Keep the rows (and retry next sweep) if the files could not be removed
+  // (composited callout outputs also have their text-free base image)
+  const { error } = await deleteFiles(
+    BUCKETS.OUTPUTS,
+    expired.flatMap((asset) =>
+      asset.callout_layer
+        ? [asset.storage_path, asset.callout_layer.base_storage_path]
+        : [asset.storage_path]
+    ),
+    createAdminClient()
+  )
+  if (error) {
+    return 0
+  }
+
+  const deleted = await deleteDiscardedVariants(expired.map((asset) => asset.id))
+  return deleted ? expired.length : 0
+}
+
+/**
+ * Claim and run the next queued job
+ * Returns false when the queue was empty
+ */
+export async function runNextGenerationJob(
+  workerId: string,
+  leaseSeconds: number = DEFAULT_LEASE_SECONDS
+): Promise<boolean> {
+  const job = await claimGenerationJob(workerId, leaseSeconds)
+
+  if (!job) {
+    return false
+  }
+
+  await runLeasedJob(job, workerId, leaseSeconds)
+  return true
+}
+
+/**
+ * Generation worker loop
+ *
+ * Claims queued jobs one at a time until the signal is aborted, builds
+ * queued project exports when no job is waiting, and periodically sweeps
+ * jobs whose lease expired (crashed or recycled workers), settles abandoned
+ * variant selections and purges discarded variants.
+ */
+export async function runGenerationWorker({
+  workerId = generateWorkerId(),
+  leaseSeconds = DEFAULT_LEASE_SECONDS,
+  pollIntervalMs = 2000,
+  sweepIntervalMs = 30000,
+  signal,
+}: GenerationWorkerOptions = {}): Promise<void> {
+  const log = createContextLogger({ workerId })
+  let lastSweepAt = 0
+
+  // Fail fast on missing configuration instead of looping on errors
+  createAdminClient()
+
+  log.info('Generation worker started', { leaseSeconds, pollIntervalMs, sweepIntervalMs })
+
+  while (!signal?.aborted) {
+    try {
+      if (Date.now() - lastSweepAt >= sweepIntervalMs) {
+        lastSweepAt = Date.now()
+        const swept = await sweepExpiredGenerationJobs()
+        if (swept.length > 0) {
+          log.warn('Recovered jobs with expired leases', {
+            requeued: swept.filter((j) => j.new_status === 'queued').length,
+            failed: swept.filter((j) => j.new_status === 'failed').length,
+            canceled: swept.filter((j) => j.new_status === 'canceled').length,
+          })
+        }
+
+        const pruned = await pruneGenerationJobEvents()
+        if (pruned > 0) {
+          log.debug('Pruned old job events', { pruned })
+        }
+
+        const finalized = await finalizeExpiredVariantSelections()
+        if (finalized > 0) {
+          log.info('Kept first variant of unselected jobs', { finalized })
+        }
+
+        const purged = await purgeDiscardedVariants()
+        if (purged > 0) {
+          log.debug('Purged discarded variants', { purged })
+        }
+      }
+
+      // Generation jobs go first; exports run when the queue is empty
+      const ranJob = await runNextGenerationJob(workerId, leaseSeconds)
+        || await runNextProjectExport(workerId)
+
+      if (!ranJob) {
+        await sleep(pollIntervalMs, signal)
+      }
+    } catch (error) {
+      log.error('Worker loop error', error instanceof Error ? error : new Error(String(error)))
+      await sleep(pollIntervalMs, signal)
+    }
+  }
+
+  log.info('Generation worker stopped')
+}
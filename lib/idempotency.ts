@@ -0,0 +1,230 @@
+import 'server-only'
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+/**
+ * Idempotency Keys
+ *
+ * Clients may send an `Idempotency-Key` header on POST /api/generate and
+ * POST /api/upload. The first request with a key is processed normally and
+ * its successful response is stored; repeats within the window replay that
+ * response instead of creating another job or asset.
+ *
+ * - Same key, same payload, finished    -> stored response (Idempotent-Replayed: true)
+ * - Same key, same payload, still running -> 409 IDEMPOTENCY_KEY_IN_PROGRESS
+ * - Same key, different payload          -> 409 IDEMPOTENCY_KEY_REUSED
+ *
+ * Failed requests release their key so the client can retry with it. A
+ * request that crashed before doing so leaves its key pending; once the
+ * pending lease has passed, the next request with the key takes it over.
+ */
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+// How long a key and its response are kept
+export const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60
+
+// How long a pending key blocks repeats before it is treated as abandoned
+export const IDEMPOTENCY_PENDING_LEASE_SECONDS = 5 * 60
+
+const MAX_KEY_LENGTH = 255
+
+export type IdempotencyBeginResult =
+  | { state: 'new' }
+  | { state: 'replay'; response_status: number; response_body: unknown }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' }
+
+export interface IdempotencyContext {
+  endpoint: string
+  key: string
+}
+
+/**
+ * SHA-256 of a request payload
+ * Object keys are sorted so property order does not change the hash
+ */
+export function hashRequestPayload(payload: unknown): string {
+  const canonicalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(canonicalize)
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>)
+          .filter(([, v]) => v !== undefined)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([k, v]) => [k, canonicalize(v)])
+      )
+    }
+    return value
+  }
+
+  return createHash('sha256').update(JSON.stringify(canonicalize(payload))).digest('hex')
+}
+
+/**
+ * Read and validate the Idempotency-Key header
+ * Returns null when absent, or an error message when malformed
+ */
+export function getIdempotencyKey(headers: Headers): { key: string | null; error?: string } {
+  const key = headers.get(IDEMPOTENCY_HEADER)?.trim()
+
+  if (!key) {
+    return { key: null }
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return { key: null, error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters` }
+  }
+
+  return { key }
+}
+
+/**
+ * Claim a key for the current user, or learn how an earlier request with it ended
+ * Keys left pending past IDEMPOTENCY_PENDING_LEASE_SECONDS are claimed again
+ */
+export async function beginIdempotentRequest(
+  endpoint: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyBeginResult> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('begin_idempotent_request', {
+    p_endpoint: endpoint,
+    p_key: key,
+    p_request_hash: requestHash,
+    p_ttl_seconds: IDEMPOTENCY_TTL_SECONDS,
+    p_pending_lease_seconds: IDEMPOTENCY_PENDING_LEASE_SECONDS,
+  })
+
+  if (error) {
+    console.error('Error beginning idempotent request:', error)
+    throw error
+  }
+
+  return data as IdempotencyBeginResult
+}
+
+/**
+ * Store the response for a key so repeats replay it
+ */
+export async function completeIdempotentRequest(
+  { endpoint, key }: IdempotencyContext,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .update({
+      status: 'completed',
+      response_status: responseStatus,
+      response_body: responseBody,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('endpoint', endpoint)
+    .eq('key', key)
+
+  if (error) {
+    // The job/asset exists; a repeat will get 409 in_progress instead of a replay
+    console.error('Error storing idempotent response:', error)
+  }
+}
+
+/**
+ * Release a key after a failed request so the client can retry with it
+ */
+export async function releaseIdempotencyKey({ endpoint, key }: IdempotencyContext): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .delete()
+    .eq('endpoint', endpoint)
+    .eq('key', key)
+    .eq('status', 'pending')
+
+  if (error) {
+    console.error('Error releasing idempotency key:', error)
+  }
+}
+
+/**
+ * Response for a key that cannot be processed (replay, in progress, mismatch)
+ * Returns null when the request is new and should be processed
+ */
+export function idempotencyResponse(result: IdempotencyBeginResult): NextResponse | null {
+  switch (result.state) {
+    case 'new':
+      return null
+    case 'replay':
+      return NextResponse.json(result.response_body, {
+        status: result.response_status,
+        headers: { 'Idempotent-Replayed': 'true' },
+      })
+    case 'in_progress':
+      return NextResponse.json(
+        {
+          error: 'Request in progress',
+          message: `A request with this ${IDEMPOTENCY_HEADER} is still being processed`,
+          code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+        },
+        { status: 409 }
+      )
+    case 'mismatch':
+      return NextResponse.json(
+        {
+          error: 'Idempotency key reused',
+          message: `This ${IDEMPOTENCY_HEADER} was already used with a different request`,
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        },
+        { status: 409 }
+      )
+  }
+}
+
+/**
+ * Run a request handler under an idempotency key
+ *
+ * With no key the handler just runs. Otherwise a repeat gets the stored
+ * response, a successful (2xx) response is stored, and any other outcome
+ * releases the key.
+ */
+export async function withIdempotency(
+  context: IdempotencyContext | null,
+  requestHash: string,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  if (!context) {
+    return handler()
+  }
+
+  const earlier = idempotencyResponse(
+    await beginIdempotentRequest(context.endpoint, context.key, requestHash)
+  )
+
+  if (earlier) {
+    return earlier
+  }
+
+  let response: NextResponse
+  try {
+    response = await handler()
+  } catch (error) {
+    await releaseIdempotencyKey(context)
+    throw error
+  }
+
+  if (response.ok) {
+    await completeIdempotentRequest(context, response.status, await response.clone().json())
+  } else {
+    await releaseIdempotencyKey(context)
+  }
+
+  return response
+}
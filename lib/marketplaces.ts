@@ -0,0 +1,228 @@
+/**
+ * Marketplace Profiles for Commerce PIX
+ *
+ * Image rules of the marketplaces we generate for. A project selects a
+ * profile (projects.marketplace) and jobs may override it; buildPrompt
+ * and the output compliance checks read their rules from it.
+ *
+ * Safe to import from client components (no server-only dependencies)
+ */
+
+import type { AssetMode } from '@/lib/db/asset-types'
+import type { DownloadOptions } from '@/lib/generation/download-formats'
+import { GENERATION_MODE_IDS } from '@/lib/generation/modes'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MarketplaceId = 'amazon' | 'walmart' | 'etsy' | 'ebay' | 'shopify'
+
+// What the main image (main_white) background must be
+export type BackgroundRequirement = 'pure_white' | 'white_or_neutral' | 'any'
+
+// Whether added text (overlays, captions, badges) is allowed
+export type TextPolicy = 'forbidden' | 'allowed'
+
+// One image position of a listing (e.g. Amazon MAIN or PT01)
+export interface ListingSlot {
+  code: string                // Used in the file name
+  label: string
+  required: boolean
+  modes: AssetMode[] | null   // Modes that may fill the slot (null: any allowed mode)
+}
+
+// How images are named and encoded for the marketplace's bulk upload
+export interface ListingPackageSpec {
+  identifierLabel: string     // What file names are keyed on (e.g. ASIN or SKU)
+  fileNamePattern: string     // {id} and {slot} are replaced; the extension is added
+  slots: ListingSlot[]        // In listing order
+  image: DownloadOptions      // Upload format (converted like downloads)
+}
+
+export interface MarketplaceProfile {
+  id: MarketplaceId
+  name: string
+  allowedModes: AssetMode[]
+  imageRules: string[]             // Added to the requirements of every prompt
+  mainImage: {
+    background: BackgroundRequirement
+    minFill: number | null         // Share of the frame the product must cover
+    textPolicy: TextPolicy
+  }
+  secondaryTextPolicy: TextPolicy  // Every image other than the main one
+  minPixels: {
+    recommended: number            // Longest side for zoom / best quality
+    minimum: number                // Longest side below which uploads are rejected
+  }
+  listingPackage: ListingPackageSpec
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+const ALL_MODES: AssetMode[] = GENERATION_MODE_IDS
+
+const MB = 1024 * 1024
+
+/**
+ * Main image slot followed by numbered optional slots
+ * e.g. listingSlots('1', 4, (n) => String(n)) -> 1 (main), 2, 3, 4
+ */
+function listingSlots(
+  mainCode: string,
+  count: number,
+  code: (position: number) => string,
+  mainModes: AssetMode[] | null = ['main_white']
+): ListingSlot[] {
+  const slots: ListingSlot[] = [{ code: mainCode, label: 'Main image', required: true, modes: mainModes }]
+
+  for (let position = 2; position <= count; position++) {
+    slots.push({ code: code(position), label: `Image ${position}`, required: false, modes: null })
+  }
+
+  return slots
+}
+
+const COMMON_IMAGE_RULES = [
+  'No offensive, inappropriate, or misleading imagery',
+  'Professional quality suitable for e-commerce',
+  'Clear product visibility from front/primary angle',
+  'Well-lit with proper exposure and color accuracy',
+  'High resolution and sharp focus on product',
+]
+
+export const MARKETPLACE_PROFILES: Record<MarketplaceId, MarketplaceProfile> = {
+  amazon: {
+    id: 'amazon',
+    name: 'Amazon',
+    allowedModes: ALL_MODES,
+    imageRules: [
+      'No visible logos or brand names from other companies',
+      'No text or words on the product (except authentic product branding)',
+      ...COMMON_IMAGE_RULES,
+      'No watermarks, borders, or decorative frames',
+    ],
+    mainImage: { background: 'pure_white', minFill: 0.85, textPolicy: 'forbidden' },
+    secondaryTextPolicy: 'allowed',
+    minPixels: { recommended: 1000, minimum: 500 },
+    listingPackage: {
+      identifierLabel: 'ASIN or SKU',
+      fileNamePattern: '{id}.{slot}',
+      // MAIN, then the eight additional image slots PT01-PT08
+      slots: listingSlots('MAIN', 9, (n) => `PT${String(n - 1).padStart(2, '0')}`),
+      image: { format: 'jpeg', quality: 90, maxBytes: 10 * MB },
+    },
+  },
+  walmart: {
+    id: 'walmart',
+    name: 'Walmart',
+    allowedModes: ALL_MODES,
+    imageRules: [
+      'No visible logos or brand names from other companies',
+      'No text or words on the product (except authentic product branding)',
+      ...COMMON_IMAGE_RULES,
+      'No watermarks, borders, or decorative frames',
+      'Square image with the product shown completely (not cropped)',
+    ],
+    mainImage: { background: 'pure_white', minFill: 0.85, textPolicy: 'forbidden' },
+    secondaryTextPolicy: 'allowed',
+    minPixels: { recommended: 2000, minimum: 1500 },
+    listingPackage: {
+      identifierLabel: 'SKU',
+      fileNamePattern: '{id}_{slot}',
+      slots: listingSlots('1', 10, (n) => String(n)),
+      image: { format: 'jpeg', quality: 90, maxBytes: 5 * MB },
+    },
+  },
+  etsy: {
+    id: 'etsy',
+    name: 'Etsy',
+    allowedModes: ALL_MODES,
+    imageRules: [
+      ...COMMON_IMAGE_RULES,
+      'Natural, authentic styling that shows the handmade or vintage character of the item',
+      'No watermarks or borders',
+    ],
+    mainImage: { background: 'any', minFill: null, textPolicy: 'forbidden' },
+    secondaryTextPolicy: 'allowed',
+    minPixels: { recommended: 2000, minimum: 635 },
+    listingPackage: {
+      identifierLabel: 'SKU',
+      fileNamePattern: '{id}-{slot}',
+      // Any style can lead an Etsy listing
+      slots: listingSlots('01', 10, (n) => String(n).padStart(2, '0'), null),
+      image: { format: 'jpeg', quality: 90, maxBytes: 1 * MB },
+    },
+  },
+  ebay: {
+    id: 'ebay',
+    name: 'eBay',
+    allowedModes: ['main_white', 'lifestyle', 'packaging'],
+    imageRules: [
+      'No visible logos or brand names from other companies',
+      ...COMMON_IMAGE_RULES,
+      'No added text, watermarks, borders, or artwork on any image',
+      'Shows the actual item being sold',
+    ],
+    mainImage: { background: 'white_or_neutral', minFill: 0.8, textPolicy: 'forbidden' },
+    secondaryTextPolicy: 'forbidden',
+    minPixels: { recommended: 1600, minimum: 500 },
+    listingPackage: {
+      identifierLabel: 'SKU',
+      fileNamePattern: '{id}-{slot}',
+      slots: listingSlots('01', 12, (n) => String(n).padStart(2, '0')),
+      image: { format: 'jpeg', quality: 90, maxBytes: 7 * MB },
+    },
+  },
+  shopify: {
+    id: 'shopify',
+    name: 'Shopify',
+    allowedModes: ALL_MODES,
+    imageRules: [
+      ...COMMON_IMAGE_RULES,
+      'Consistent framing and background across the product catalog',
+    ],
+    mainImage: { background: 'white_or_neutral', minFill: null, textPolicy: 'forbidden' },
+    secondaryTextPolicy: 'allowed',
+    minPixels: { recommended: 2048, minimum: 800 },
+    listingPackage: {
+      identifierLabel: 'Product handle or SKU',
+      fileNamePattern: '{id}-{slot}',
+      slots: listingSlots('1', 10, (n) => String(n)),
+      image: { format: 'jpeg', quality: 90, maxBytes: 20 * MB },
+    },
+  },
+}
+
+export const MARKETPLACE_IDS = Object.keys(MARKETPLACE_PROFILES) as MarketplaceId[]
+
+export const DEFAULT_MARKETPLACE: MarketplaceId = 'amazon'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isMarketplaceId(value: unknown): value is MarketplaceId {
+  return typeof value === 'string' && MARKETPLACE_IDS.includes(value as MarketplaceId)
+}
+
+/**
+ * Profile for a marketplace ID, falling back to the default for unknown
+ * or missing IDs (e.g. jobs queued before profiles existed)
+ */
+export function getMarketplaceProfile(id?: string | null): MarketplaceProfile {
+  return isMarketplaceId(id) ? MARKETPLACE_PROFILES[id] : MARKETPLACE_PROFILES[DEFAULT_MARKETPLACE]
+}
+
+export function isModeAllowed(profile: MarketplaceProfile, mode: string): boolean {
+  return profile.allowedModes.includes(mode as AssetMode)
+}
+
+/**
+ * Text policy for an image of this mode (main_white is the main image)
+ */
+export function getTextPolicy(profile: MarketplaceProfile, mode: string): TextPolicy {
+  return mode === 'main_white' ? profile.mainImage.textPolicy : profile.secondaryTextPolicy
+}
@@ -1,4 +1,22 @@
 import 'server-only'
+import {
+  DEFAULT_MARKETPLACE,
+  getMarketplaceProfile,
+  isModeAllowed,
+  type MarketplaceId,
+  type MarketplaceProfile,
+} from '@/lib/marketplaces'
+import { CALLOUT_TYPOGRAPHY, type BrandKitSnapshot } from '@/lib/brand-kits'
+import {
+  CALLOUT_LAYOUTS,
+  DEFAULT_CALLOUT_LAYOUT,
+  type Callout,
+  type CalloutLayoutId,
+} from '@/lib/generation/callouts'
+import { BUNDLE_LAYOUTS, DEFAULT_BUNDLE_LAYOUT, type BundleLayoutId } from '@/lib/generation/bundle'
+import type { ProductDimensions, ScaleReferenceId } from '@/lib/generation/dimensions'
+import { MIN_COMPARISON_ROWS, type ComparisonRow } from '@/lib/generation/infographic'
+import { GENERATION_MODE_IDS, GENERATION_MODES, type GenerationMode } from '@/lib/generation/modes'
 
 /**
  * Prompt Library for Commerce PIX
@@ -11,13 +29,22 @@ import 'server-only'
 // Types
 // ============================================================================
 
-export type Mode = 'main_white' | 'lifestyle' | 'feature_callout' | 'packaging'
+export type Mode = GenerationMode
 
 export interface PromptInputs {
   productCategory?: string  // e.g., "electronics", "clothing", "food"
   brandTone?: string         // e.g., "professional", "playful", "luxury"
   productDescription?: string // e.g., "wireless headphones", "organic coffee"
   constraints?: string[]     // Additional constraints beyond defaults
+  callouts?: Callout[]       // feature_callout only: text composited after generation
+  calloutLayout?: CalloutLayoutId  // Layout of the callouts (default: 'sides')
+  comparisonRows?: ComparisonRow[] // infographic only: chart rows composited after generation
+  chartTitle?: string              // infographic only: heading above the chart
+  dimensions?: ProductDimensions   // dimensions only: measurements composited after generation
+  scaleReference?: ScaleReferenceId // dimensions only: object drawn beside the product to scale
+  bundleLayout?: BundleLayoutId    // bundle only: arrangement of the products (default: 'row')
+  inputCount?: number              // Input images attached to the job (set by the worker)
+  brandKit?: BrandKitSnapshot // Merged into the other inputs (see applyBrandKit)
 }
 
 export interface PromptResult {
@@ -25,8 +52,10 @@ export interface PromptResult {
   promptPayload: {           // JSON object for auditing
     mode: Mode
     version: string
+    marketplace: MarketplaceId      // Profile whose image rules were applied
     inputs: PromptInputs
     sanitizedInputs?: PromptInputs  // Inputs after sanitization
+    brandKit?: BrandKitSnapshot     // Brand kit merged into the inputs
     constraints: string[]
     template: string
     generatedAt: string
@@ -35,21 +64,6 @@ export interface PromptResult {
   }
 }
 
-// ============================================================================
-// Amazon Compliance Rules (Applied to all prompts)
-// ============================================================================
-
-const AMAZON_COMPLIANCE_RULES = [
-  'No visible logos or brand names from other companies',
-  'No text or words on the product (except authentic product branding)',
-  'No offensive, inappropriate, or misleading imagery',
-  'Professional quality suitable for e-commerce',
-  'Clear product visibility from front/primary angle',
-  'Well-lit with proper exposure and color accuracy',
-  'No watermarks, borders, or decorative frames',
-  'High resolution and sharp focus on product',
-]
-
 // ============================================================================
 // Compliance Validation & Sanitization
 // ============================================================================
@@ -148,12 +162,135 @@ function validateMainWhiteInputs(inputs: PromptInputs): ComplianceResult {
   return { sanitizedInputs, overrides, warnings }
 }
 
+// Terms that suggest fake or stand-in items
+const MISREPRESENTATION_TERMS = ['fake', 'mockup', 'placeholder', 'dummy']
+
+// Wording that claims items beyond the product shown
+const INCLUDED_ITEM_TERMS = [
+  'package includes', 'includes', 'included', 'comes with', 'bonus', 'free gift',
+  'set of', 'pack of', 'bundle',
+]
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+}
+
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`
+
+// Stated item counts: "set of 3", "pack of two", "includes 4", "3-piece", "2 pack"
+const ITEM_COUNT_PATTERNS = [
+  new RegExp(`\\b(?:set|pack|bundle|kit|box) of ${COUNT}\\b`, 'gi'),
+  new RegExp(`\\bincludes ${COUNT}\\b`, 'gi'),
+  new RegExp(`\\b${COUNT}[- ](?:piece|pc|pack|count|item)s?\\b`, 'gi'),
+]
+
+// Whole-word, case-insensitive match of a term
+function wordPattern(term: string): RegExp {
+  return new RegExp(`(?<!\\w)${escapeRegExp(term)}(?!\\w)`, 'gi')
+}
+
+function removeWords(text: string, terms: string[]): string {
+  let result = text
+  for (const term of terms) {
+    result = result.replace(wordPattern(term), '')
+  }
+  return result.replace(/\s{2,}/g, ' ').trim()
+}
+
+// First of the terms the text contains as a whole word, if any
+function findWord(text: string, terms: string[]): string | undefined {
+  return terms.find((term) => wordPattern(term).test(text))
+}
+
+/**
+ * Check claims about the items shown against the input images attached
+ * to the job (inputCount; unknown when rendering a preview)
+ *
+ * - A stated item count ("set of 3", "4-piece") must equal the inputs
+ * - Included-item wording ("comes with", "bonus", "bundle") needs more
+ *   than one input: with a single input nothing else is shown
+ *
+ * Mismatched claims are removed from the text.
+ */
+function checkShownItems(text: string, inputCount?: number): { text: string; mismatches: string[] } {
+  const mismatches: string[] = []
+  let result = text
+
+  if (inputCount !== undefined) {
+    for (const pattern of ITEM_COUNT_PATTERNS) {
+      result = result.replace(pattern, (match: string, count: string) => {
+        const claimed = NUMBER_WORDS[count.toLowerCase()] ?? Number(count)
+        if (claimed === inputCount) {
+          return match
+        }
+        mismatches.push(`"${match}" claims ${claimed} items, but ${inputCount} input image${inputCount === 1 ? ' is' : 's are'} attached`)
+        return ''
+      })
+    }
+  }
+
+  if (inputCount === 1) {
+    const withoutIncluded = removeWords(result, INCLUDED_ITEM_TERMS)
+    if (withoutIncluded !== removeWords(result, [])) {
+      mismatches.push('Included-item wording needs the included items attached as input images')
+      result = withoutIncluded
+    }
+  }
+
+  return { text: result.replace(/\s{2,}/g, ' ').trim(), mismatches }
+}
+
+/**
+ * Check a description and constraints against the attached inputs
+ * (checkShownItems) and remove misrepresentation terms; constraints with a
+ * mismatched claim are dropped
+ */
+function validateShownItems(
+  inputs: PromptInputs,
+  sanitizedInputs: PromptInputs,
+  inputCount: number | undefined,
+  overrides: string[],
+  warnings: string[]
+): void {
+  if (inputs.productDescription) {
+    const checked = checkShownItems(removeWords(inputs.productDescription, MISREPRESENTATION_TERMS), inputCount)
+    // Normalized like the checked text, so spacing alone is not a change
+    const unchanged = removeWords(inputs.productDescription, [])
+
+    if (checked.text !== unchanged) {
+      sanitizedInputs.productDescription = checked.text
+      overrides.push('Removed claims that do not match the attached input images from description')
+      warnings.push(...checked.mismatches)
+      warnings.push(`Original description did not match the items shown: "${inputs.productDescription}" → "${checked.text}"`)
+    }
+  }
+
+  if (inputs.constraints && inputs.constraints.length > 0) {
+    const originalConstraints = [...inputs.constraints]
+    sanitizedInputs.constraints = inputs.constraints.filter((c) => {
+      const checked = checkShownItems(c, inputCount)
+      if (checked.mismatches.length > 0 || containsDisallowedTerms(c, MISREPRESENTATION_TERMS)) {
+        warnings.push(`Constraint removed for potential misrepresentation: "${c}"`)
+        return false
+      }
+      return true
+    })
+
+    if (originalConstraints.length !== sanitizedInputs.constraints.length) {
+      overrides.push('Removed constraints that could misrepresent included items')
+    }
+  }
+}
+
 /**
  * Validate and sanitize inputs for lifestyle mode
  * 
  * Guardrails:
  * - Allow context props but must be realistic
  * - No fake items or misrepresentation
+ * - Claimed items must match the attached input image (one product: no
+ *   "comes with" or "set of 3"; see checkShownItems)
  * - Product must be accurate and real
  * - Props must be appropriate for context
  */
@@ -162,40 +299,7 @@ function validateLifestyleInputs(inputs: PromptInputs): ComplianceResult {
   const warnings: string[] = []
   const sanitizedInputs: PromptInputs = { ...inputs }
   
-  // Disallowed terms that suggest fake/misrepresented items
-  const disallowedTerms = [
-    'fake', 'mockup', 'placeholder', 'dummy',
-    'includes', 'comes with', 'bonus', 'free',
-    'set of', 'bundle', 'package includes',
-  ]
-  
-  // Check product description for misrepresentation
-  if (inputs.productDescription) {
-    if (containsDisallowedTerms(inputs.productDescription, disallowedTerms)) {
-      const original = inputs.productDescription
-      sanitizedInputs.productDescription = sanitizeText(inputs.productDescription, disallowedTerms)
-      overrides.push(`Removed terms suggesting misrepresentation from description`)
-      warnings.push(`Original description may have suggested included items: "${original}" → "${sanitizedInputs.productDescription}"`)
-    }
-  }
-  
-  // Check constraints for misrepresentation
-  if (inputs.constraints && inputs.constraints.length > 0) {
-    const originalConstraints = [...inputs.constraints]
-    sanitizedInputs.constraints = inputs.constraints
-      .map(c => {
-        if (containsDisallowedTerms(c, disallowedTerms)) {
-          warnings.push(`Constraint removed for potential misrepresentation: "${c}"`)
-          return ''
-        }
-        return c
-      })
-      .filter(c => c.length > 0)
-    
-    if (originalConstraints.length !== sanitizedInputs.constraints.length) {
-      overrides.push(`Removed constraints that could misrepresent included items`)
-    }
-  }
+  validateShownItems(inputs, sanitizedInputs, inputs.inputCount ?? 1, overrides, warnings)
   
   // Force lifestyle accuracy constraints
   const forcedConstraints = [
@@ -215,6 +319,46 @@ function validateLifestyleInputs(inputs: PromptInputs): ComplianceResult {
   return { sanitizedInputs, overrides, warnings }
 }
 
+// Disallowed promotional/fake claims in feature_callout text
+const FEATURE_CALLOUT_CLAIM_TERMS = [
+  'certified', 'approved', 'FDA', 'medical grade',
+  'guaranteed', 'proven', 'scientifically tested',
+  'award-winning', 'best seller', '#1',
+  'patent', 'trademarked', 'copyrighted',
+]
+
+/**
+ * Remove unverifiable claims from structured callouts
+ * Callouts left without a headline are dropped. Also used when callouts
+ * are edited after generation (PUT /api/assets/[id]/callouts).
+ */
+export function sanitizeCallouts(callouts: Callout[]): { callouts: Callout[]; warnings: string[] } {
+  const sanitizedCallouts: Callout[] = []
+  const warnings: string[] = []
+
+  for (const callout of callouts) {
+    const headline = sanitizeText(callout.headline, FEATURE_CALLOUT_CLAIM_TERMS)
+    const text = callout.text ? sanitizeText(callout.text, FEATURE_CALLOUT_CLAIM_TERMS) : ''
+
+    if (!headline) {
+      warnings.push(`Callout removed for unverifiable claim: "${callout.headline}"`)
+      continue
+    }
+
+    if (headline !== callout.headline || text !== (callout.text || '')) {
+      warnings.push(`Callout contained unverifiable claims: "${[callout.headline, callout.text].filter(Boolean).join(' - ')}" → "${[headline, text].filter(Boolean).join(' - ')}"`)
+    }
+
+    const sanitized: Callout = { ...callout, headline, text }
+    if (!text) {
+      delete sanitized.text
+    }
+    sanitizedCallouts.push(sanitized)
+  }
+
+  return { callouts: sanitizedCallouts, warnings }
+}
+
 /**
  * Validate and sanitize inputs for feature_callout mode
  * 
@@ -223,19 +367,18 @@ function validateLifestyleInputs(inputs: PromptInputs): ComplianceResult {
  * - Text must be informative, not promotional
  * - No fake certifications or claims
  * - Visual callouts must be professional
+ * 
+ * With structured callouts the worker composites the text afterwards
+ * (lib/generation/callout-compositor.ts), so the model must draw no text
+ * and leave the layout's callout area empty; claims are removed from the
+ * callouts themselves.
  */
 function validateFeatureCalloutInputs(inputs: PromptInputs): ComplianceResult {
   const overrides: string[] = []
   const warnings: string[] = []
   const sanitizedInputs: PromptInputs = { ...inputs }
   
-  // Disallowed promotional/fake claims
-  const disallowedTerms = [
-    'certified', 'approved', 'FDA', 'medical grade',
-    'guaranteed', 'proven', 'scientifically tested',
-    'award-winning', 'best seller', '#1',
-    'patent', 'trademarked', 'copyrighted',
-  ]
+  const disallowedTerms = FEATURE_CALLOUT_CLAIM_TERMS
   
   // Check product description for fake claims
   if (inputs.productDescription) {
@@ -265,6 +408,36 @@ function validateFeatureCalloutInputs(inputs: PromptInputs): ComplianceResult {
     }
   }
   
+  if (inputs.callouts) {
+    const { callouts, warnings: calloutWarnings } = sanitizeCallouts(inputs.callouts)
+    warnings.push(...calloutWarnings)
+
+    if (callouts.length !== inputs.callouts.length) {
+      overrides.push('Removed callouts with unverifiable claims')
+    }
+
+    sanitizedInputs.callouts = callouts
+    sanitizedInputs.calloutLayout = inputs.calloutLayout ?? DEFAULT_CALLOUT_LAYOUT
+
+    const features = callouts.map((callout) => callout.headline)
+    const forcedConstraints = [
+      'MANDATORY: NO text, letters, numbers, labels or logos added anywhere in the image - callout text is added afterwards',
+      'MANDATORY: NO arrows, lines, circles, icons or other graphic overlays',
+      `MANDATORY: Keep ${CALLOUT_LAYOUTS[sanitizedInputs.calloutLayout].promptHint} empty (clean background only) for the callouts, with the product outside it`,
+      ...(features.length > 0 ? [`Make these product features clearly visible: ${features.join('; ')}`] : []),
+      'MANDATORY: Focus on actual product features, not marketing hype',
+    ]
+
+    sanitizedInputs.constraints = [
+      ...(sanitizedInputs.constraints || []),
+      ...forcedConstraints,
+    ]
+
+    overrides.push('Applied feature_callout mandatory constraints: no text in the image, callouts composited afterwards')
+
+    return { sanitizedInputs, overrides, warnings }
+  }
+  
   // Force feature_callout specific constraints
   const forcedConstraints = [
     'ALLOWED: Subtle text overlays for feature descriptions (only mode where text is permitted)',
@@ -354,21 +527,412 @@ function validatePackagingInputs(inputs: PromptInputs): ComplianceResult {
   return { sanitizedInputs, overrides, warnings }
 }
 
+// Disallowed in infographic chart text: unverifiable claims and brand
+// references (the competitor column is always "Others", never a brand)
+const INFOGRAPHIC_CHART_TERMS = [
+  ...FEATURE_CALLOUT_CLAIM_TERMS,
+  '®', '™', '©',
+  'leading brand', 'top brand', 'name brand', 'brand-name',
+]
+
+/**
+ * Remove unverifiable claims and brand references from comparison rows
+ * Rows left without a feature or a value are dropped
+ */
+function sanitizeComparisonRows(rows: ComparisonRow[]): { rows: ComparisonRow[]; warnings: string[] } {
+  const sanitizedRows: ComparisonRow[] = []
+  const warnings: string[] = []
+
+  const sanitizeValue = (value: ComparisonRow['ours']) =>
+    typeof value === 'string' ? sanitizeText(value, INFOGRAPHIC_CHART_TERMS) : value
+  const formatRow = (row: ComparisonRow) => `${row.feature}: ${row.ours} / ${row.competitor}`
+
+  for (const row of rows) {
+    const sanitized: ComparisonRow = {
+      feature: sanitizeText(row.feature, INFOGRAPHIC_CHART_TERMS),
+      ours: sanitizeValue(row.ours),
+      competitor: sanitizeValue(row.competitor),
+    }
+
+    if (!sanitized.feature || sanitized.ours === '' || sanitized.competitor === '') {
+      warnings.push(`Comparison row removed for unverifiable claim or brand reference: "${formatRow(row)}"`)
+      continue
+    }
+
+    if (sanitized.feature !== row.feature || sanitized.ours !== row.ours || sanitized.competitor !== row.competitor) {
+      warnings.push(`Comparison row contained unverifiable claims or brand references: "${formatRow(row)}" → "${formatRow(sanitized)}"`)
+    }
+
+    sanitizedRows.push(sanitized)
+  }
+
+  return { rows: sanitizedRows, warnings }
+}
+
+/**
+ * Validate and sanitize inputs for infographic mode
+ *
+ * Guardrails:
+ * - The model draws the product only, on pure white: the worker cuts it
+ *   out and composites the chart (lib/generation/infographic-compositor.ts)
+ * - No text, charts or logos from the model
+ * - No competitor products, logos or brand names in the image; in the rows
+ *   only generic brand references are caught (brand names are rejected at
+ *   enqueue when listed as brand kit banned words, see checkComparisonRows)
+ * - Chart text must be factual: unverifiable claims are removed
+ */
+function validateInfographicInputs(inputs: PromptInputs): ComplianceResult {
+  const overrides: string[] = []
+  const warnings: string[] = []
+  const sanitizedInputs: PromptInputs = { ...inputs }
+
+  if (inputs.productDescription && containsDisallowedTerms(inputs.productDescription, INFOGRAPHIC_CHART_TERMS)) {
+    const original = inputs.productDescription
+    sanitizedInputs.productDescription = sanitizeText(inputs.productDescription, INFOGRAPHIC_CHART_TERMS)
+    overrides.push('Removed unverifiable claims from description')
+    warnings.push(`Original description contained unverifiable claims: "${original}" → "${sanitizedInputs.productDescription}"`)
+  }
+
+  if (inputs.comparisonRows) {
+    const { rows, warnings: rowWarnings } = sanitizeComparisonRows(inputs.comparisonRows)
+    warnings.push(...rowWarnings)
+
+    if (rows.length !== inputs.comparisonRows.length) {
+      overrides.push('Removed comparison rows with unverifiable claims or brand references')
+    }
+
+    sanitizedInputs.comparisonRows = rows
+  }
+
+  if (inputs.chartTitle) {
+    const chartTitle = sanitizeText(inputs.chartTitle, INFOGRAPHIC_CHART_TERMS)
+
+    if (chartTitle !== inputs.chartTitle) {
+      warnings.push(`Chart title contained unverifiable claims or brand references: "${inputs.chartTitle}" → "${chartTitle}"`)
+    }
+
+    sanitizedInputs.chartTitle = chartTitle || undefined
+  }
+
+  // Force infographic specific constraints
+  const forcedConstraints = [
+    'MANDATORY: Product ONLY on a pure white background (RGB: 255, 255, 255) - it is cut out and placed in a comparison chart afterwards',
+    'MANDATORY: NO text, numbers, labels, charts, tables or logos added anywhere in the image',
+    'MANDATORY: NO competitor products, packaging, logos or brand names',
+    'MANDATORY: Whole product visible with clean edges, no props and no shadows on the background',
+  ]
+
+  sanitizedInputs.constraints = [
+    ...(sanitizedInputs.constraints || []),
+    ...forcedConstraints,
+  ]
+
+  overrides.push('Applied infographic mandatory constraints: product only on white, chart composited afterwards, no competitor brands')
+
+  return { sanitizedInputs, overrides, warnings }
+}
+
+// Disallowed in dimensions descriptions and constraints: measuring props and
+// scale objects the model would draw (the worker adds the lines and the
+// scale reference itself)
+const DIMENSIONS_DISALLOWED_TERMS = [
+  'ruler', 'tape measure', 'measuring tape', 'measurements', 'dimension lines',
+  'in hand', 'held by', 'next to', 'for scale', 'props',
+]
+
 /**
- * Validate and sanitize inputs based on mode
+ * Validate and sanitize inputs for dimensions mode
+ *
+ * Guardrails:
+ * - The model draws the product only, straight on, on pure white: the
+ *   worker cuts it out and composites the dimension lines, labels and scale
+ *   reference (lib/generation/dimensions-compositor.ts)
+ * - No text, numbers, rulers or measuring props from the model: the
+ *   measurements come from the request, never from the image
+ * - No perspective distortion, so the drawn lines match the product's sides
+ */
+function validateDimensionsInputs(inputs: PromptInputs): ComplianceResult {
+  const overrides: string[] = []
+  const warnings: string[] = []
+  const sanitizedInputs: PromptInputs = { ...inputs }
+
+  if (inputs.productDescription && containsDisallowedTerms(inputs.productDescription, DIMENSIONS_DISALLOWED_TERMS)) {
+    const original = inputs.productDescription
+    sanitizedInputs.productDescription = sanitizeText(inputs.productDescription, DIMENSIONS_DISALLOWED_TERMS)
+    overrides.push('Removed measuring props and scale objects from description for dimensions mode')
+    warnings.push(`Original description contained terms incompatible with dimensions: "${original}" → "${sanitizedInputs.productDescription}"`)
+  }
+
+  if (inputs.constraints && inputs.constraints.length > 0) {
+    const originalConstraints = [...inputs.constraints]
+    sanitizedInputs.constraints = inputs.constraints
+      .map(c => sanitizeText(c, DIMENSIONS_DISALLOWED_TERMS))
+      .filter(c => c.length > 0)
+
+    if (originalConstraints.length !== sanitizedInputs.constraints.length) {
+      overrides.push(`Removed ${originalConstraints.length - sanitizedInputs.constraints.length} constraints incompatible with dimensions mode`)
+      warnings.push('Some constraints were removed for violating dimensions rules')
+    }
+  }
+
+  // Force dimensions specific constraints
+  const forcedConstraints = [
+    'MANDATORY: Product ONLY on a pure white background (RGB: 255, 255, 255) - measurement lines are added afterwards',
+    'MANDATORY: NO text, numbers, rulers, arrows, measurement lines or labels anywhere in the image',
+    'MANDATORY: Straight-on front view at eye level with no perspective distortion',
+    'MANDATORY: No props, hands, people or reference objects - product ONLY, whole and unobstructed',
+  ]
+
+  sanitizedInputs.constraints = [
+    ...(sanitizedInputs.constraints || []),
+    ...forcedConstraints,
+  ]
+
+  overrides.push('Applied dimensions mandatory constraints: product only on white, straight-on view, measurements composited afterwards')
+
+  return { sanitizedInputs, overrides, warnings }
+}
+
+/**
+ * Validate and sanitize inputs for bundle mode
+ *
+ * Guardrails:
+ * - The products shown are the attached inputs: the worker arranges their
+ *   cut-outs (lib/generation/bundle-layout.ts) and the model only fills in
+ *   the scene around them
+ * - Claimed items must match the number of inputs (see checkShownItems)
+ * - No added, duplicated or missing items and no props that could look
+ *   included in the bundle
+ */
+function validateBundleInputs(inputs: PromptInputs): ComplianceResult {
+  const overrides: string[] = []
+  const warnings: string[] = []
+  const sanitizedInputs: PromptInputs = { ...inputs }
+
+  validateShownItems(inputs, sanitizedInputs, inputs.inputCount, overrides, warnings)
+
+  const layout = BUNDLE_LAYOUTS[inputs.bundleLayout ?? DEFAULT_BUNDLE_LAYOUT]
+
+  // Force bundle specific constraints
+  const forcedConstraints = [
+    inputs.inputCount !== undefined
+      ? `MANDATORY: Exactly ${inputs.inputCount} products, the ones already in the image - no added, duplicated or missing items`
+      : 'MANDATORY: Only the products already in the image - no added, duplicated or missing items',
+    'MANDATORY: Keep every product unchanged: same shape, colors, labels, position and size',
+    `MANDATORY: Products ${layout.promptHint}`,
+    'MANDATORY: No props or accessories that could look included in the bundle',
+    'MANDATORY: NO text, prices, badges or logos added to the image',
+  ]
+
+  sanitizedInputs.constraints = [
+    ...(sanitizedInputs.constraints || []),
+    ...forcedConstraints,
+  ]
+
+  overrides.push('Applied bundle mandatory constraints: only the attached products, unchanged, no added items')
+
+  return { sanitizedInputs, overrides, warnings }
+}
+
+/**
+ * Validate and sanitize inputs with the mode's guardrails (MODE_PROMPTS)
  */
 function validateInputs(mode: Mode, inputs: PromptInputs): ComplianceResult {
-  switch (mode) {
-    case 'main_white':
-      return validateMainWhiteInputs(inputs)
-    case 'lifestyle':
-      return validateLifestyleInputs(inputs)
-    case 'feature_callout':
-      return validateFeatureCalloutInputs(inputs)
-    case 'packaging':
-      return validatePackagingInputs(inputs)
-    default:
-      return { sanitizedInputs: inputs, overrides: [], warnings: [] }
+  return MODE_PROMPTS[mode].validateInputs(inputs)
+}
+
+// ============================================================================
+// Brand Kits
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Remove a brand kit's banned words from structured callouts (whole words only)
+ * Also used when callouts are edited after generation, with the kit
+ * recorded on the output (PUT /api/assets/[id]/callouts).
+ */
+export function removeBannedTermsFromCallouts(
+  callouts: Callout[],
+  kit: BrandKitSnapshot
+): { callouts: Callout[]; warnings: string[] } {
+  const warnings: string[] = []
+
+  const cleanedCallouts = callouts.map((callout) => {
+    const headline = removeWords(callout.headline, kit.bannedTerms)
+    const text = callout.text && removeWords(callout.text, kit.bannedTerms)
+
+    if (headline === callout.headline && text === callout.text) {
+      return callout
+    }
+
+    warnings.push(`Removed banned words of brand kit "${kit.name}" from callout "${callout.headline}"`)
+    return { ...callout, headline, text: text || undefined }
+  })
+
+  return { callouts: cleanedCallouts, warnings }
+}
+
+/**
+ * Remove a brand kit's banned words from comparison rows (whole words only)
+ */
+function removeBannedTermsFromRows(
+  rows: ComparisonRow[],
+  kit: BrandKitSnapshot
+): { rows: ComparisonRow[]; warnings: string[] } {
+  const warnings: string[] = []
+  const removeFromValue = (value: ComparisonRow['ours']) =>
+    typeof value === 'string' ? removeWords(value, kit.bannedTerms) : value
+
+  const cleanedRows = rows.map((row) => {
+    const cleaned = {
+      feature: removeWords(row.feature, kit.bannedTerms),
+      ours: removeFromValue(row.ours),
+      competitor: removeFromValue(row.competitor),
+    }
+
+    if (cleaned.feature === row.feature && cleaned.ours === row.ours && cleaned.competitor === row.competitor) {
+      return row
+    }
+
+    warnings.push(`Removed banned words of brand kit "${kit.name}" from comparison row "${row.feature}"`)
+    return cleaned
+  })
+
+  return { rows: cleanedRows, warnings }
+}
+
+/**
+ * Check comparison rows at enqueue time
+ *
+ * - Rows naming a banned word of the brand kit are rejected: list
+ *   competitor names there, since the chart guardrails only catch generic
+ *   brand references ("leading brand") and cannot recognize a brand name
+ * - The infographic guardrails (sanitizeComparisonRows) must leave at
+ *   least MIN_COMPARISON_ROWS rows to chart
+ *
+ * Returns an error message for the request, or the rows as the worker
+ * will chart them.
+ */
+export function checkComparisonRows(
+  rows: ComparisonRow[],
+  kit?: BrandKitSnapshot | null
+): { comparisonRows: ComparisonRow[] } | { error: string } {
+  if (kit && kit.bannedTerms.length > 0) {
+    for (const [index, row] of rows.entries()) {
+      const text = [row.feature, row.ours, row.competitor].filter((value) => typeof value === 'string').join(' ')
+      const term = findWord(text, kit.bannedTerms)
+
+      if (term) {
+        return { error: `comparisonRows[${index}] contains "${term}", a banned word of brand kit "${kit.name}"` }
+      }
+    }
+  }
+
+  const { rows: sanitizedRows } = sanitizeComparisonRows(rows)
+
+  if (sanitizedRows.length < MIN_COMPARISON_ROWS) {
+    return {
+      error: `comparisonRows: only ${sanitizedRows.length} of ${rows.length} rows are left after removing unverifiable claims and brand references; at least ${MIN_COMPARISON_ROWS} are needed`,
+    }
+  }
+
+  return { comparisonRows: sanitizedRows }
+}
+
+/**
+ * Merge a brand kit into the request inputs
+ *
+ * - Tone: the request's brandTone wins over the kit's
+ * - Banned words/props: removed from the description, callouts and chart
+ *   text (whole words only) and forbidden by a constraint; list competitor
+ *   names here to keep them off comparison charts
+ * - Default constraints: added for every mode
+ * - Color palette: added for every mode except those drawing the product
+ *   alone on white (productOnWhite in the registry); the infographic and
+ *   dimensions compositors color their charts and lines with it instead
+ * - Scene styles: lifestyle only
+ * - Callout typography: feature_callout only, when the model draws the
+ *   text (composited callouts use the bundled font)
+ *
+ * Runs before validateInputs, so kit constraints get the same guardrails
+ * as request constraints.
+ */
+function applyBrandKit(
+  mode: Mode,
+  inputs: PromptInputs,
+  kit: BrandKitSnapshot
+): { inputs: PromptInputs; warnings: string[] } {
+  const warnings: string[] = []
+  const constraints = [...(inputs.constraints || []), ...kit.defaultConstraints]
+  let productDescription = inputs.productDescription
+  let callouts = inputs.callouts
+  let comparisonRows = inputs.comparisonRows
+  let chartTitle = inputs.chartTitle
+
+  const removeBannedTerms = (text: string) => removeWords(text, kit.bannedTerms)
+
+  if (productDescription && kit.bannedTerms.length > 0) {
+    const original = productDescription
+    productDescription = removeBannedTerms(productDescription)
+
+    if (productDescription !== original) {
+      warnings.push(`Removed banned words of brand kit "${kit.name}" from description: "${original}" → "${productDescription}"`)
+    }
+  }
+
+  if (callouts && kit.bannedTerms.length > 0) {
+    const removed = removeBannedTermsFromCallouts(callouts, kit)
+    callouts = removed.callouts
+    warnings.push(...removed.warnings)
+  }
+
+  if (comparisonRows && kit.bannedTerms.length > 0) {
+    const removed = removeBannedTermsFromRows(comparisonRows, kit)
+    comparisonRows = removed.rows
+    warnings.push(...removed.warnings)
+  }
+
+  if (chartTitle && kit.bannedTerms.length > 0) {
+    const original = chartTitle
+    chartTitle = removeBannedTerms(chartTitle) || undefined
+
+    if (chartTitle !== original) {
+      warnings.push(`Removed banned words of brand kit "${kit.name}" from chart title`)
+    }
+  }
+
+  if (kit.bannedTerms.length > 0) {
+    constraints.push(`Never show: ${kit.bannedTerms.join(', ')}`)
+  }
+
+  // Written without '#', which the feature_callout guardrails read as a "#1" claim
+  if (kit.colorPalette.length > 0 && !GENERATION_MODES[mode].productOnWhite) {
+    const colors = kit.colorPalette.map((color) => `hex ${color.replace('#', '').toUpperCase()}`)
+    constraints.push(`Brand color palette: ${colors.join(', ')} - use for backgrounds, surfaces and accents`)
+  }
+
+  if (kit.sceneStyles.length > 0 && mode === 'lifestyle') {
+    constraints.push(`Preferred scene style: ${kit.sceneStyles.join(' or ')}`)
+  }
+
+  if (kit.calloutTypography && mode === 'feature_callout' && !callouts) {
+    constraints.push(`Callout typography: ${CALLOUT_TYPOGRAPHY[kit.calloutTypography].prompt} font`)
+  }
+
+  return {
+    inputs: {
+      ...inputs,
+      brandTone: inputs.brandTone || kit.tone || undefined,
+      productDescription,
+      constraints: constraints.length > 0 ? constraints : undefined,
+      callouts,
+      comparisonRows,
+      chartTitle,
+    },
+    warnings,
   }
 }
 
@@ -376,8 +940,8 @@ function validateInputs(mode: Mode, inputs: PromptInputs): ComplianceResult {
 // Helper Functions
 // ============================================================================
 
-function buildConstraintsText(additionalConstraints: string[] = []): string {
-  const allConstraints = [...AMAZON_COMPLIANCE_RULES, ...additionalConstraints]
+function buildConstraintsText(profile: MarketplaceProfile, additionalConstraints: string[] = []): string {
+  const allConstraints = [...profile.imageRules, ...additionalConstraints]
   return allConstraints.map(c => `- ${c}`).join('\n')
 }
 
@@ -385,6 +949,7 @@ function getToneDescription(tone?: string): string {
   const tones: Record<string, string> = {
     professional: 'professional, clean, and business-appropriate',
     luxury: 'luxurious, premium, and high-end',
+    casual: 'relaxed, friendly, and approachable',
     playful: 'fun, energetic, and approachable',
     minimal: 'minimalist, simple, and elegant',
     bold: 'bold, striking, and attention-grabbing',
@@ -414,26 +979,99 @@ function getCategoryContext(category?: string): string {
 // Prompt Templates
 // ============================================================================
 
+/**
+ * A prompt template version for a mode
+ * v1 of each mode is built in below; later versions are authored by admins
+ * and stored in prompt_templates (see lib/db/prompt-templates.ts)
+ */
+export interface PromptTemplate {
+  mode: Mode
+  version: string  // e.g. 'v1', 'v2'
+  body: string     // Prompt text with {{placeholders}}
+}
+
+export const BUILT_IN_PROMPT_VERSION = 'v1'
+
+/**
+ * Placeholders a template body may use, filled in from the sanitized
+ * inputs and the marketplace profile
+ */
+export const PROMPT_TEMPLATE_PLACEHOLDERS = {
+  product: 'Product description, e.g. "wireless headphones" (default: "a product")',
+  category: 'Category context, e.g. "modern tech product"',
+  tone: 'Brand tone description, e.g. "luxurious, premium, and high-end"',
+  marketplace: 'Marketplace name, e.g. "Amazon"',
+  requirements: 'Marketplace image rules and compliance constraints, one "- " line each',
+} as const
+
+export type PromptTemplatePlaceholder = keyof typeof PROMPT_TEMPLATE_PLACEHOLDERS
+
+// Every template must carry the marketplace rules and compliance constraints
+const REQUIRED_PLACEHOLDERS: PromptTemplatePlaceholder[] = ['requirements']
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+const VERSION_PATTERN = /^v[1-9][0-9]*$/
+
+export function isPromptVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version)
+}
+
+function isPlaceholder(name: string): name is PromptTemplatePlaceholder {
+  return Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATE_PLACEHOLDERS, name)
+}
+
+/**
+ * Check a template body before it is saved
+ * Returns the problems found (empty when the body is usable)
+ */
+export function validatePromptTemplateBody(body: string): string[] {
+  if (!body.trim()) {
+    return ['Template body is empty']
+  }
+
+  const errors: string[] = []
+  const used = new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))
+
+  for (const name of used) {
+    if (!isPlaceholder(name)) {
+      errors.push(`Unknown placeholder {{${name}}} (available: ${Object.keys(PROMPT_TEMPLATE_PLACEHOLDERS).join(', ')})`)
+    }
+  }
+
+  for (const name of REQUIRED_PLACEHOLDERS) {
+    if (!used.has(name)) {
+      errors.push(`Template must include {{${name}}}`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Fill in a template body's placeholders
+ */
+export function renderPromptTemplate(
+  body: string,
+  values: Record<PromptTemplatePlaceholder, string>
+): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    isPlaceholder(name) ? values[name] : match
+  )
+}
+
 /**
  * main_white_v1: Professional product photo on pure white background
- * Ideal for: Amazon main images, product catalogs, e-commerce listings
+ * Ideal for: Marketplace main images, product catalogs, e-commerce listings
  * 
- * STRICTEST MODE - Amazon Main Image Compliance:
+ * STRICTEST MODE - Main Image Compliance (Amazon rules by default):
  * - PURE white background (RGB: 255, 255, 255) - no exceptions
  * - NO props, accessories, or additional objects
  * - Realistic product representation only
  * - Centered composition
  * - NO text overlays, labels, or words anywhere
  */
-export function buildMainWhitePrompt(inputs: PromptInputs): PromptResult {
-  // Validate and sanitize inputs with compliance guardrails
-  const { sanitizedInputs, overrides, warnings } = validateInputs('main_white', inputs)
-  
-  const productDesc = sanitizedInputs.productDescription || 'a product'
-  const categoryContext = getCategoryContext(sanitizedInputs.productCategory)
-  const tone = getToneDescription(sanitizedInputs.brandTone)
-  
-  const template = `Create a professional product photography image of ${productDesc} (${categoryContext}) on a PURE WHITE BACKGROUND.
+const MAIN_WHITE_V1 = `Create a professional product photography image of {{product}} ({{category}}) on a PURE WHITE BACKGROUND.
 
 CRITICAL REQUIREMENTS (NO EXCEPTIONS):
 - Background: PURE white (RGB: 255, 255, 255) - absolutely no gradient, texture, or color
@@ -457,11 +1095,11 @@ LIGHTING:
 - Natural color representation of product
 
 PHOTOGRAPHY QUALITY:
-- ${tone} aesthetic
+- {{tone}} aesthetic
 - High-resolution commercial photography standard
 - Sharp focus throughout entire product
 - Professional studio setup quality
-- Suitable for Amazon main image requirements
+- Suitable for {{marketplace}} main image requirements
 
 FORBIDDEN ELEMENTS (STRICTLY PROHIBITED):
 - NO text, words, labels, or typography
@@ -472,25 +1110,9 @@ FORBIDDEN ELEMENTS (STRICTLY PROHIBITED):
 - NO shadows except subtle product drop shadow
 
 REQUIREMENTS:
-${buildConstraintsText(sanitizedInputs.constraints)}
+{{requirements}}
 
-Create a pristine, professional product image that meets Amazon's strictest main image guidelines.`
-
-  return {
-    prompt: template,
-    promptPayload: {
-      mode: 'main_white',
-      version: 'v1',
-      inputs,
-      sanitizedInputs: sanitizedInputs !== inputs ? sanitizedInputs : undefined,
-      constraints: [...AMAZON_COMPLIANCE_RULES, ...(sanitizedInputs.constraints || [])],
-      template: 'main_white_v1',
-      generatedAt: new Date().toISOString(),
-      complianceOverrides: overrides.length > 0 ? overrides : undefined,
-      complianceWarnings: warnings.length > 0 ? warnings : undefined,
-    },
-  }
-}
+Create a pristine, professional product image that meets {{marketplace}}'s main image guidelines.`
 
 /**
  * lifestyle_v1: Product in real-world context
@@ -503,15 +1125,7 @@ Create a pristine, professional product image that meets Amazon's strictest main
  * - Props are for context ONLY, not to suggest they're included
  * - No misrepresentation of what customer receives
  */
-export function buildLifestylePrompt(inputs: PromptInputs): PromptResult {
-  // Validate and sanitize inputs with compliance guardrails
-  const { sanitizedInputs, overrides, warnings } = validateInputs('lifestyle', inputs)
-  
-  const productDesc = sanitizedInputs.productDescription || 'a product'
-  const categoryContext = getCategoryContext(sanitizedInputs.productCategory)
-  const tone = getToneDescription(sanitizedInputs.brandTone)
-  
-  const template = `Create a lifestyle product photography image showing ${productDesc} (${categoryContext}) in a realistic, authentic real-world setting.
+const LIFESTYLE_V1 = `Create a lifestyle product photography image showing {{product}} ({{category}}) in a realistic, authentic real-world setting.
 
 CRITICAL ACCURACY REQUIREMENTS:
 - Product representation must be 100% accurate to actual product
@@ -542,7 +1156,7 @@ LIGHTING & ATMOSPHERE:
 - Colors rendered accurately without enhancement
 
 STYLE:
-- ${tone} aesthetic
+- {{tone}} aesthetic
 - Authentic and genuinely relatable
 - High-quality lifestyle photography
 - Aspirational yet realistically achievable scene
@@ -556,26 +1170,10 @@ FORBIDDEN ELEMENTS:
 - NO props that suggest a bundle or set
 
 REQUIREMENTS:
-${buildConstraintsText(sanitizedInputs.constraints)}
+{{requirements}}
 
 Create an authentic lifestyle image that shows product in realistic context while maintaining complete accuracy about what's included.`
 
-  return {
-    prompt: template,
-    promptPayload: {
-      mode: 'lifestyle',
-      version: 'v1',
-      inputs,
-      sanitizedInputs: sanitizedInputs !== inputs ? sanitizedInputs : undefined,
-      constraints: [...AMAZON_COMPLIANCE_RULES, ...(sanitizedInputs.constraints || [])],
-      template: 'lifestyle_v1',
-      generatedAt: new Date().toISOString(),
-      complianceOverrides: overrides.length > 0 ? overrides : undefined,
-      complianceWarnings: warnings.length > 0 ? warnings : undefined,
-    },
-  }
-}
-
 /**
  * feature_callout_v1: Highlight specific product features
  * Ideal for: Feature highlights, infographic-style images, benefit callouts
@@ -583,18 +1181,10 @@ Create an authentic lifestyle image that shows product in realistic context whil
  * KEY REQUIREMENTS:
  * - Text overlays ARE allowed (ONLY mode where text is permitted)
  * - Highlight exactly 3 key benefits/features
- * - Clean e-commerce style suitable for Amazon
+ * - Clean e-commerce style suitable for the marketplace
  * - Professional, informative, not promotional
  */
-export function buildFeatureCalloutPrompt(inputs: PromptInputs): PromptResult {
-  // Validate and sanitize inputs with compliance guardrails
-  const { sanitizedInputs, overrides, warnings } = validateInputs('feature_callout', inputs)
-  
-  const productDesc = sanitizedInputs.productDescription || 'a product'
-  const categoryContext = getCategoryContext(sanitizedInputs.productCategory)
-  const tone = getToneDescription(sanitizedInputs.brandTone)
-  
-  const template = `Create a feature callout product photography image for ${productDesc} (${categoryContext}) that highlights EXACTLY 3 key product benefits.
+const FEATURE_CALLOUT_V1 = `Create a feature callout product photography image for {{product}} ({{category}}) that highlights EXACTLY 3 key product benefits.
 
 COMPOSITION:
 - Clean, uncluttered background (light gray or white)
@@ -623,31 +1213,51 @@ LIGHTING:
 - No harsh shadows obscuring product details
 
 STYLE:
-- ${tone} aesthetic
+- {{tone}} aesthetic
 - Clean e-commerce presentation
 - Professional and informative (not promotional)
-- Amazon-ready image quality
+- {{marketplace}}-ready image quality
 
 REQUIREMENTS:
-${buildConstraintsText(sanitizedInputs.constraints)}
+{{requirements}}
 
-Create a professional feature callout image with exactly 3 benefits highlighted, suitable for Amazon product listings.`
+Create a professional feature callout image with exactly 3 benefits highlighted, suitable for {{marketplace}} product listings.`
 
-  return {
-    prompt: template,
-    promptPayload: {
-      mode: 'feature_callout',
-      version: 'v1',
-      inputs,
-      sanitizedInputs: sanitizedInputs !== inputs ? sanitizedInputs : undefined,
-      constraints: [...AMAZON_COMPLIANCE_RULES, ...(sanitizedInputs.constraints || [])],
-      template: 'feature_callout_v1',
-      generatedAt: new Date().toISOString(),
-      complianceOverrides: overrides.length > 0 ? overrides : undefined,
-      complianceWarnings: warnings.length > 0 ? warnings : undefined,
-    },
-  }
-}
+/**
+ * feature_callout_v1, composited: the v1 body for structured callouts
+ * Used instead of FEATURE_CALLOUT_V1 when the request has callouts: the
+ * worker composites their text, so the model draws the clean visual only
+ * and leaves the layout's callout area empty (see the requirements).
+ */
+const FEATURE_CALLOUT_COMPOSITED_V1 = `Create a feature callout product photography image for {{product}} ({{category}}) that serves as the clean base for feature callouts added afterwards.
+
+COMPOSITION:
+- Clean, uncluttered background (light gray or white)
+- Product positioned to showcase its key features
+- Generous empty background space for the callouts, as set out in the requirements
+- Visual hierarchy with product as primary focal point
+
+NO TEXT OR GRAPHICS:
+- Absolutely no text, letters, numbers, labels or logos added to the image
+- No arrows, lines, circles, icons, badges or infographic elements
+- Callout text and graphics are added after generation
+
+LIGHTING:
+- Bright, clear, professional lighting
+- Detail-revealing illumination on key features
+- Consistent lighting across entire image
+- No harsh shadows obscuring product details
+
+STYLE:
+- {{tone}} aesthetic
+- Clean e-commerce presentation
+- Professional and informative (not promotional)
+- {{marketplace}}-ready image quality
+
+REQUIREMENTS:
+{{requirements}}
+
+Create a clean, text-free feature image with the product's features clearly visible, suitable for {{marketplace}} product listings.`
 
 /**
  * packaging_v1: Product in retail packaging
@@ -660,15 +1270,7 @@ Create a professional feature callout image with exactly 3 benefits highlighted,
  * - Generic, professional packaging design only
  * - Realistic retail presentation
  */
-export function buildPackagingPrompt(inputs: PromptInputs): PromptResult {
-  // Validate and sanitize inputs with compliance guardrails
-  const { sanitizedInputs, overrides, warnings } = validateInputs('packaging', inputs)
-  
-  const productDesc = sanitizedInputs.productDescription || 'a product'
-  const categoryContext = getCategoryContext(sanitizedInputs.productCategory)
-  const tone = getToneDescription(sanitizedInputs.brandTone)
-  
-  const template = `Create a product packaging photography image showing ${productDesc} (${categoryContext}) in accurate, professional retail packaging.
+const PACKAGING_V1 = `Create a product packaging photography image showing {{product}} ({{category}}) in accurate, professional retail packaging.
 
 CRITICAL ACCURACY REQUIREMENTS:
 - Product and packaging shown EXACTLY as customer will receive
@@ -709,7 +1311,7 @@ LIGHTING & PHOTOGRAPHY:
 - Subtle shadows for depth without obscuring information
 
 STYLE:
-- ${tone} aesthetic
+- {{tone}} aesthetic
 - High-quality retail product photography
 - Professional and polished presentation
 - Suitable for e-commerce and in-store display
@@ -724,19 +1326,199 @@ STRICTLY FORBIDDEN:
 - NO quality marks that require actual certification
 
 REQUIREMENTS:
-${buildConstraintsText(sanitizedInputs.constraints)}
+{{requirements}}
 
 Create an accurate, professional packaging image with realistic retail presentation and NO fake claims or certifications.`
 
+/**
+ * infographic_v1: Product cutout for a comparison chart
+ * Ideal for: "Ours vs. Others" comparison charts, spec tables
+ *
+ * KEY REQUIREMENTS:
+ * - The model generates the product only, on pure white; the worker cuts
+ *   it out and composites the chart rows around it
+ * - NO text, charts or tables from the model
+ * - NO competitor products, logos or brand names
+ */
+const INFOGRAPHIC_V1 = `Create a clean studio product photograph of {{product}} ({{category}}) on a PURE WHITE BACKGROUND, to be cut out and placed in a comparison chart.
+
+CRITICAL REQUIREMENTS (NO EXCEPTIONS):
+- Background: PURE white (RGB: 255, 255, 255) - no gradient, texture, floor line or color
+- Product ONLY: No props, accessories, packaging or additional objects
+- NO text, numbers, labels, charts, tables, icons or logos added anywhere
+- NO competitor products, logos or brand names
+- Realistic representation: Product must look exactly as it would in real life
+
+COMPOSITION:
+- Whole product visible, centered, with white space on every side
+- Three-quarter or front angle that shows the product's shape clearly
+- Crisp, clean edges that separate cleanly from the background
+- No cast shadows or reflections on the background
+
+LIGHTING:
+- Bright, even, professional studio lighting
+- Accurate colors and materials
+- No overblown highlights that blend into the background
+
+STYLE:
+- {{tone}} aesthetic
+- High-resolution commercial photography standard
+- Suitable for a {{marketplace}} comparison chart image
+
+REQUIREMENTS:
+{{requirements}}
+
+Create a pristine product-only image on pure white, ready to be cut out for a comparison chart.`
+
+/**
+ * dimensions_v1: Straight-on product view for a dimensions image
+ * Ideal for: Size and measurement images, "what fits where" listing slots
+ *
+ * KEY REQUIREMENTS:
+ * - The model generates the product only, straight on, on pure white; the
+ *   worker cuts it out and composites the dimension lines, labels and
+ *   scale reference around it
+ * - NO text, numbers, rulers or measuring props from the model
+ * - NO perspective distortion
+ */
+const DIMENSIONS_V1 = `Create a clean studio product photograph of {{product}} ({{category}}) on a PURE WHITE BACKGROUND, to be cut out and shown with its measurements.
+
+CRITICAL REQUIREMENTS (NO EXCEPTIONS):
+- Background: PURE white (RGB: 255, 255, 255) - no gradient, texture, floor line or color
+- Product ONLY: No props, hands, people, packaging or reference objects
+- NO text, numbers, rulers, arrows, measurement lines or labels anywhere
+- Realistic representation: Product must look exactly as it would in real life, with true proportions
+
+COMPOSITION:
+- Straight-on front view at eye level, orthographic look with no perspective distortion
+- Whole product visible, centered, with white space on every side
+- Width and height of the product clearly readable from its silhouette
+- Crisp, clean edges that separate cleanly from the background
+- No cast shadows or reflections on the background
+
+LIGHTING:
+- Bright, even, professional studio lighting
+- Accurate colors and materials
+- No overblown highlights that blend into the background
+
+STYLE:
+- {{tone}} aesthetic
+- High-resolution commercial photography standard
+- Suitable for a {{marketplace}} dimensions image
+
+REQUIREMENTS:
+{{requirements}}
+
+Create a pristine, straight-on product-only image on pure white, ready to be cut out for a dimensions image.`
+
+/**
+ * bundle_v1: Several products in one group shot
+ * Ideal for: Bundle and kit listings, "what's in the box" images
+ *
+ * KEY REQUIREMENTS:
+ * - The worker arranges the cut-out products of every input asset in the
+ *   chosen layout; the model fills in one coherent scene around them
+ * - NO added, duplicated or missing items
+ * - NO text, or props that could look included
+ */
+const BUNDLE_V1 = `Create a group product photograph of {{product}} ({{category}}): the products already placed in the image, shown together as one bundle.
+
+CRITICAL REQUIREMENTS (NO EXCEPTIONS):
+- Keep every product already in the image exactly as it is: same shape, colors, labels, position and size
+- Show ONLY those products: do NOT add, duplicate, remove or replace any item
+- No extra products, accessories or props that could look included in the bundle
+- NO text, prices, badges or logos added anywhere
+- Realistic representation: Products must look exactly as they would in real life
+
+SCENE:
+- Fill the empty area around the products with one coherent background and surface
+- Consistent perspective, contact shadows and reflections so the products read as one photograph
+- Clean, uncluttered setting that keeps the focus on the products
+
+LIGHTING:
+- Soft, even, professional lighting from one consistent direction across all products
+- Accurate colors and materials
+
+STYLE:
+- {{tone}} aesthetic
+- High-resolution commercial photography standard
+- Suitable for a {{marketplace}} bundle or "what's in the box" image
+
+REQUIREMENTS:
+{{requirements}}
+
+Create one coherent group shot of exactly the products provided, with nothing added.`
+
+// ============================================================================
+// Mode Prompts
+// ============================================================================
+
+/**
+ * Server-side half of each mode in the registry (lib/generation/modes.ts):
+ * its built-in v1 body and the guardrails its inputs are sanitized with
+ */
+const MODE_PROMPTS: Record<Mode, { body: string; validateInputs: (inputs: PromptInputs) => ComplianceResult }> = {
+  main_white: { body: MAIN_WHITE_V1, validateInputs: validateMainWhiteInputs },
+  lifestyle: { body: LIFESTYLE_V1, validateInputs: validateLifestyleInputs },
+  feature_callout: { body: FEATURE_CALLOUT_V1, validateInputs: validateFeatureCalloutInputs },
+  packaging: { body: PACKAGING_V1, validateInputs: validatePackagingInputs },
+  infographic: { body: INFOGRAPHIC_V1, validateInputs: validateInfographicInputs },
+  dimensions: { body: DIMENSIONS_V1, validateInputs: validateDimensionsInputs },
+  bundle: { body: BUNDLE_V1, validateInputs: validateBundleInputs },
+}
+
+export const BUILT_IN_PROMPT_TEMPLATES = Object.fromEntries(
+  GENERATION_MODE_IDS.map((mode) => [
+    mode,
+    { mode, version: BUILT_IN_PROMPT_VERSION, body: MODE_PROMPTS[mode].body },
+  ])
+) as Record<Mode, PromptTemplate>
+
+/**
+ * Render a template for the given inputs
+ * Inputs are sanitized with the mode's compliance guardrails first, whichever
+ * version is used
+ */
+function renderPrompt(
+  template: PromptTemplate,
+  inputs: PromptInputs,
+  profile: MarketplaceProfile
+): PromptResult {
+  const { mode, version } = template
+  const { brandKit, ...requestInputs } = inputs
+
+  // Brand kit settings apply where the request leaves them open
+  const merged = brandKit
+    ? applyBrandKit(mode, requestInputs, brandKit)
+    : { inputs: requestInputs, warnings: [] }
+
+  // Validate and sanitize inputs with compliance guardrails
+  const { sanitizedInputs, overrides, warnings } = validateInputs(mode, merged.inputs)
+  warnings.unshift(...merged.warnings)
+
+  // Built-in v1 asks the model for text; structured callouts get the text-free body
+  const composited = mode === 'feature_callout' && sanitizedInputs.callouts !== undefined
+  const body = composited && template.body === FEATURE_CALLOUT_V1 ? FEATURE_CALLOUT_COMPOSITED_V1 : template.body
+
+  const prompt = renderPromptTemplate(body, {
+    product: sanitizedInputs.productDescription || 'a product',
+    category: getCategoryContext(sanitizedInputs.productCategory),
+    tone: getToneDescription(sanitizedInputs.brandTone),
+    marketplace: profile.name,
+    requirements: buildConstraintsText(profile, sanitizedInputs.constraints),
+  })
+
   return {
-    prompt: template,
+    prompt,
     promptPayload: {
-      mode: 'packaging',
-      version: 'v1',
-      inputs,
-      sanitizedInputs: sanitizedInputs !== inputs ? sanitizedInputs : undefined,
-      constraints: [...AMAZON_COMPLIANCE_RULES, ...(sanitizedInputs.constraints || [])],
-      template: 'packaging_v1',
+      mode,
+      version,
+      marketplace: profile.id,
+      inputs: requestInputs,
+      sanitizedInputs: sanitizedInputs !== requestInputs ? sanitizedInputs : undefined,
+      brandKit,
+      constraints: [...profile.imageRules, ...(sanitizedInputs.constraints || [])],
+      template: body === FEATURE_CALLOUT_COMPOSITED_V1 ? `${mode}_${version}_composited` : `${mode}_${version}`,
       generatedAt: new Date().toISOString(),
       complianceOverrides: overrides.length > 0 ? overrides : undefined,
       complianceWarnings: warnings.length > 0 ? warnings : undefined,
@@ -744,6 +1526,77 @@ Create an accurate, professional packaging image with realistic retail presentat
   }
 }
 
+/**
+ * Build a main_white prompt with the built-in v1 template
+ */
+export function buildMainWhitePrompt(
+  inputs: PromptInputs,
+  profile: MarketplaceProfile = getMarketplaceProfile(DEFAULT_MARKETPLACE)
+): PromptResult {
+  return renderPrompt(BUILT_IN_PROMPT_TEMPLATES.main_white, inputs, profile)
+}
+
+/**
+ * Build a lifestyle prompt with the built-in v1 template
+ */
+export function buildLifestylePrompt(
+  inputs: PromptInputs,
+  profile: MarketplaceProfile = getMarketplaceProfile(DEFAULT_MARKETPLACE)
+): PromptResult {
+  return renderPrompt(BUILT_IN_PROMPT_TEMPLATES.lifestyle, inputs, profile)
+}
+
+/**
+ * Build a feature_callout prompt with the built-in v1 template
+ * (its text-free variant when inputs.callouts is set)
+ */
+export function buildFeatureCalloutPrompt(
+  inputs: PromptInputs,
+  profile: MarketplaceProfile = getMarketplaceProfile(DEFAULT_MARKETPLACE)
+): PromptResult {
+  return renderPrompt(BUILT_IN_PROMPT_TEMPLATES.feature_callout, inputs, profile)
+}
+
+/**
+ * Build a packaging prompt with the built-in v1 template
+ */
+export function buildPackagingPrompt(
+  inputs: PromptInputs,
+  profile: MarketplaceProfile = getMarketplaceProfile(DEFAULT_MARKETPLACE)
+): PromptResult {
+  return renderPrompt(BUILT_IN_PROMPT_TEMPLATES.packaging, inputs, profile)
+}
+
+/**
+ * Build an infographic prompt with the built-in v1 template
+ */
+export function buildInfographicPrompt(
+  inputs: PromptInputs,
+  profile: MarketplaceProfile = getMarketplaceProfile(DEFAULT_MARKETPLACE)
+): PromptResult {
+  return renderPrompt(BUILT_IN_PROMPT_TEMPLATES.infographic, inputs, profile)
+}
+
+/**
+ * Build a dimensions prompt with the built-in v1 template
+ */
+export function buildDimensionsPrompt(
+  inputs: PromptInputs,
+  profile: MarketplaceProfile = getMarketplaceProfile(DEFAULT_MARKETPLACE)
+): PromptResult {
+  return renderPrompt(BUILT_IN_PROMPT_TEMPLATES.dimensions, inputs, profile)
+}
+
+/**
+ * Build a bundle prompt with the built-in v1 template
+ */
+export function buildBundlePrompt(
+  inputs: PromptInputs,
+  profile: MarketplaceProfile = getMarketplaceProfile(DEFAULT_MARKETPLACE)
+): PromptResult {
+  return renderPrompt(BUILT_IN_PROMPT_TEMPLATES.bundle, inputs, profile)
+}
+
 // ============================================================================
 // Main Builder Function
 // ============================================================================
@@ -753,19 +1606,30 @@ Create an accurate, professional packaging image with realistic retail presentat
  * 
  * @param mode - Generation mode
  * @param inputs - Structured prompt inputs
+ * @param marketplace - Marketplace profile whose image rules apply (default: amazon)
+ * @param template - Template version to render (default: the built-in v1;
+ *   resolve other versions with resolvePromptTemplate in lib/db/prompt-templates.ts)
  * @returns Prompt result with full prompt and audit payload
  */
-export function buildPrompt(mode: Mode, inputs: PromptInputs = {}): PromptResult {
-  switch (mode) {
-    case 'main_white':
-      return buildMainWhitePrompt(inputs)
-    case 'lifestyle':
-      return buildLifestylePrompt(inputs)
-    case 'feature_callout':
-      return buildFeatureCalloutPrompt(inputs)
-    case 'packaging':
-      return buildPackagingPrompt(inputs)
-    default:
-      throw new Error(`Unknown mode: ${mode}`)
+export function buildPrompt(
+  mode: Mode,
+  inputs: PromptInputs = {},
+  marketplace: MarketplaceId = DEFAULT_MARKETPLACE,
+  template: PromptTemplate = BUILT_IN_PROMPT_TEMPLATES[mode]
+): PromptResult {
+  const profile = getMarketplaceProfile(marketplace)
+
+  if (!isModeAllowed(profile, mode)) {
+    throw new Error(`Mode ${mode} is not allowed on ${profile.name}`)
+  }
+
+  if (!template) {
+    throw new Error(`Unknown mode: ${mode}`)
   }
+
+  if (template.mode !== mode) {
+    throw new Error(`Template ${template.mode}_${template.version} cannot build a ${mode} prompt`)
+  }
+
+  return renderPrompt(template, inputs, profile)
 }
@@ -0,0 +1,46 @@
+import 'server-only'
+import { createOpenAIProvider } from './openai'
+import { createMockProvider } from './mock'
+import { GenerationError } from '@/lib/generation/errors'
+import type { ImageProvider } from './types'
+
+export type { ImageProvider, ImageProviderCapabilities, ImageSize, GeneratedImage } from './types'
+export { parseImageSize } from './types'
+
+/**
+ * Image Provider Registry
+ *
+ * Providers are selected through configuration:
+ * - IMAGE_PROVIDER: provider name ('openai' | 'mock'), default 'openai'
+ * - IMAGE_PROVIDER_MODEL: optional model override for the selected provider
+ */
+const PROVIDERS = {
+  openai: createOpenAIProvider,
+  mock: createMockProvider,
+} as const
+
+export type ProviderName = keyof typeof PROVIDERS
+
+export const DEFAULT_PROVIDER: ProviderName = 'openai'
+
+export function isProviderName(name: string): name is ProviderName {
+  return name in PROVIDERS
+}
+
+/**
+ * Get the configured image provider
+ *
+ * @param name - Provider name (defaults to IMAGE_PROVIDER env var)
+ * @param model - Model override (defaults to IMAGE_PROVIDER_MODEL env var)
+ * @throws GenerationError if the provider is unknown or not configured
+ */
+export function getImageProvider(
+  name: string = process.env.IMAGE_PROVIDER || DEFAULT_PROVIDER,
+  model: string | undefined = process.env.IMAGE_PROVIDER_MODEL || undefined
+): ImageProvider {
+  if (!isProviderName(name)) {
+    throw new GenerationError('provider_misconfigured', `Unknown image provider: ${name}. Must be one of: ${Object.keys(PROVIDERS).join(', ')}`)
+  }
+
+  return PROVIDERS[name](model)
+}
@@ -0,0 +1,105 @@
+import 'server-only'
+import { createHash } from 'crypto'
+import sharp from 'sharp'
+import { GenerationError } from '@/lib/generation/errors'
+import {
+  parseImageSize,
+  type EditImageRequest,
+  type GenerateImageRequest,
+  type GeneratedImage,
+  type ImageProvider,
+  type UpscaleImageRequest,
+} from './types'
+
+/**
+ * Derive a stable RGB color from the request contents
+ */
+function seedColor(parts: Array<Buffer | string>): { r: number; g: number; b: number } {
+  const hash = createHash('sha256')
+  for (const part of parts) {
+    hash.update(part)
+  }
+  const digest = hash.digest()
+  return { r: digest[0], g: digest[1], b: digest[2] }
+}
+
+/**
+ * Local mock image provider
+ *
+ * Never calls the network. Edits return the input image resized to the
+ * requested size and tinted with a color derived from the input bytes and
+ * prompt, so the same request always produces the same output. Upscales
+ * are a plain resize. Useful for development without an OpenAI key and for
+ * exercising the pipeline.
+ */
+export function createMockProvider(model: string = 'mock-v1'): ImageProvider {
+  return {
+    name: 'mock',
+    model,
+    capabilities: {
+      edit: true,
+      textToImage: true,
+      sizes: ['256x256', '512x512', '1024x1024'],
+      maxInputBytes: 10 * 1024 * 1024,
+      costPerImageCents: 0,
+      upscale: true,
+      maxUpscaleSize: 4096,
+      costPerUpscaleCents: 0,
+    },
+
+    async editImage({ image, prompt, size, n = 1 }: EditImageRequest) {
+      const { width, height } = parseImageSize(size)
+      const images: GeneratedImage[] = []
+
+      for (let i = 0; i < n; i++) {
+        const data = await sharp(image)
+          .resize(width, height, { fit: 'contain', background: '#ffffff' })
+          .tint(seedColor([image, prompt, String(i)]))
+          .png()
+          .toBuffer()
+          .catch((error) => {
+            // Same classification a real provider gives an unreadable image
+            throw new GenerationError('invalid_input_image', error.message, { cause: error })
+          })
+
+        images.push({ data, mimeType: 'image/png', width, height })
+      }
+
+      return images
+    },
+
+    async generateImage({ prompt, size, n = 1 }: GenerateImageRequest) {
+      const { width, height } = parseImageSize(size)
+      const images: GeneratedImage[] = []
+
+      for (let i = 0; i < n; i++) {
+        const data = await sharp({
+          create: {
+            width,
+            height,
+            channels: 3,
+            background: seedColor([prompt, String(i)]),
+          },
+        })
+          .png()
+          .toBuffer()
+
+        images.push({ data, mimeType: 'image/png', width, height })
+      }
+
+      return images
+    },
+
+    async upscaleImage({ image, width, height }: UpscaleImageRequest) {
+      const data = await sharp(image)
+        .resize(width, height, { fit: 'contain', background: '#ffffff' })
+        .png()
+        .toBuffer()
+        .catch((error) => {
+          throw new GenerationError('invalid_input_image', error.message, { cause: error })
+        })
+
+      return { data, mimeType: 'image/png', width, height }
+    },
+  }
+}
@@ -0,0 +1,148 @@
+import 'server-only'
+import OpenAI from 'openai'
+import { GenerationError, toGenerationError } from '@/lib/generation/errors'
+import {
+  parseImageSize,
+  type EditImageRequest,
+  type GenerateImageRequest,
+  type GeneratedImage,
+  type ImageProvider,
+} from './types'
+
+/**
+ * Translate an OpenAI SDK error into a classified GenerationError
+ */
+function toProviderError(error: unknown): GenerationError {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new GenerationError('provider_timeout', error.message, { cause: error })
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new GenerationError('network_error', error.message, { cause: error })
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    const status = error.status ?? 0
+
+    if (status === 429) {
+      // insufficient_quota is a billing problem on our side, not a rate limit
+      if (error.code === 'insufficient_quota') {
+        return new GenerationError('provider_misconfigured', error.message, { cause: error })
+      }
+
+      const retryAfter = Number(error.headers?.get('retry-after'))
+      return new GenerationError('rate_limited', error.message, {
+        cause: error,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+      })
+    }
+
+    if (status === 408 || status >= 500) {
+      return new GenerationError('provider_unavailable', error.message, { cause: error })
+    }
+
+    if (status === 401 || status === 403) {
+      return new GenerationError('provider_auth', error.message, { cause: error })
+    }
+
+    if (status === 400 && error.code === 'content_policy_violation') {
+      return new GenerationError('content_policy', error.message, { cause: error })
+    }
+
+    if (status === 400 || status === 422) {
+      return new GenerationError('invalid_input_image', error.message, { cause: error })
+    }
+
+    return new GenerationError('provider_misconfigured', error.message, { cause: error })
+  }
+
+  return toGenerationError(error)
+}
+
+/**
+ * OpenAI image provider
+ *
+ * Uses the Images API. DALL-E 2 is the default model because it is the
+ * only one that supports image + prompt editing with our input photos.
+ */
+export function createOpenAIProvider(model: string = 'dall-e-2'): ImageProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new GenerationError('provider_misconfigured', 'OpenAI API key not configured')
+  }
+
+  const openai = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    maxRetries: 0,          // The job queue retries with backoff (see lib/generation/worker.ts)
+    timeout: 120 * 1000,
+  })
+
+  const toImages = (
+    data: OpenAI.Images.ImagesResponse['data'],
+    size: EditImageRequest['size']
+  ): GeneratedImage[] => {
+    const { width, height } = parseImageSize(size)
+    const images = (data || [])
+      .map((item) => item.b64_json)
+      .filter((b64): b64 is string => Boolean(b64))
+      .map((b64) => ({
+        data: Buffer.from(b64, 'base64'),
+        mimeType: 'image/png' as const,
+        width,
+        height,
+      }))
+
+    if (images.length === 0) {
+      throw new GenerationError('provider_bad_response', 'No image data returned from OpenAI')
+    }
+
+    return images
+  }
+
+  return {
+    name: 'openai',
+    model,
+    capabilities: {
+      edit: true,
+      textToImage: true,
+      sizes: ['256x256', '512x512', '1024x1024'],
+      maxInputBytes: 4 * 1024 * 1024, // Edit endpoint rejects images over 4MB
+      costPerImageCents: 2,           // DALL-E 2: $0.020 per image
+      upscale: false,                 // Images API has no upscaling; outputs are resampled locally
+    },
+
+    async editImage({ image, mimeType, prompt, size, n = 1 }: EditImageRequest) {
+      const inputFile = new File([new Uint8Array(image)], 'input.png', { type: mimeType })
+
+      const response = await openai.images
+        .edit({
+          model,
+          image: inputFile,
+          prompt,
+          n,
+          size,
+          response_format: 'b64_json', // Get base64 to avoid extra download
+        })
+        .catch((error) => {
+          throw toProviderError(error)
+        })
+
+      return toImages(response.data, size)
+    },
+
+    async generateImage({ prompt, size, n = 1 }: GenerateImageRequest) {
+      const response = await openai.images
+        .generate({
+          model,
+          prompt,
+          n,
+          size,
+          response_format: 'b64_json',
+        })
+        .catch((error) => {
+          throw toProviderError(error)
+        })
+
+      return toImages(response.data, size)
+    },
+  }
+}
@@ -0,0 +1,68 @@
+// =====================================================
+// IMAGE PROVIDER TYPES
+// =====================================================
+// Shared contract for every image generation backend
+
+export type ImageSize = '256x256' | '512x512' | '1024x1024'
+
+export interface ImageProviderCapabilities {
+  edit: boolean              // Supports image + prompt editing
+  textToImage: boolean       // Supports prompt-only generation
+  sizes: ImageSize[]         // Output sizes the provider can produce
+  maxInputBytes: number      // Largest input image accepted for edits
+  costPerImageCents: number  // Provider cost per generated image
+  upscale: boolean           // Supports upscaleImage
+  maxUpscaleSize?: number    // Longest side upscaleImage can produce
+  costPerUpscaleCents?: number  // Provider cost per upscaled image
+}
+
+export interface EditImageRequest {
+  image: Buffer
+  mimeType: string
+  prompt: string
+  size: ImageSize
+  n?: number
+}
+
+export interface GenerateImageRequest {
+  prompt: string
+  size: ImageSize
+  n?: number
+}
+
+export interface UpscaleImageRequest {
+  image: Buffer
+  width: number   // Target size in pixels
+  height: number
+}
+
+export interface GeneratedImage {
+  data: Buffer
+  mimeType: 'image/png'
+  width: number
+  height: number
+}
+
+/**
+ * Image generation backend
+ *
+ * Implementations throw GenerationError (lib/generation/errors.ts) so the
+ * worker can tell retryable failures from user-fixable and fatal ones.
+ */
+export interface ImageProvider {
+  name: string
+  model: string
+  capabilities: ImageProviderCapabilities
+  editImage(request: EditImageRequest): Promise<GeneratedImage[]>
+  generateImage(request: GenerateImageRequest): Promise<GeneratedImage[]>
+  // Only implemented when capabilities.upscale is true
+  upscaleImage?(request: UpscaleImageRequest): Promise<GeneratedImage>
+}
+
+/**
+ * Parse an ImageSize string into pixel dimensions
+ */
+export function parseImageSize(size: ImageSize): { width: number; height: number } {
+  const [width, height] = size.split('x').map(Number)
+  return { width, height }
+}
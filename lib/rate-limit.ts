@@ -1,4 +1,5 @@
 import 'server-only'
+import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getUserSubscription } from '@/lib/db/billing'
 
@@ -9,6 +10,9 @@ import { getUserSubscription } from '@/lib/db/billing'
  * - All users: 5 generations per minute
  * - Trial users: 100 generations per day
  * - Paid users: Unlimited daily generations (only per-minute limit)
+ *
+ * A request counts once against the per-minute limit, while every image
+ * it queues counts against the daily limit (see POST /api/generate/batch).
  */
 
 // Rate limit settings
@@ -105,7 +109,8 @@ async function getOrCreateCounter(
  */
 async function incrementCounter(
   userId: string,
-  counterType: CounterType
+  counterType: CounterType,
+  amount: number = 1
 ): Promise<UsageCounter | null> {
   const supabase = await createClient()
 
@@ -119,7 +124,7 @@ async function incrementCounter(
   // Increment count
   const { data, error } = await supabase
     .from('usage_counters')
-    .update({ count: counter.count + 1 })
+    .update({ count: counter.count + amount })
     .eq('id', counter.id)
     .select()
     .single()
@@ -239,20 +244,32 @@ async function checkRateLimit(
   return result
 }
 
-/**
- * Check all rate limits for user
- */
-export async function checkAllRateLimits(userId: string): Promise<{
+export interface RateLimitCheck {
   allowed: boolean
   perMinute: RateLimitResult
   perDay: RateLimitResult
   blockedBy?: 'per_minute' | 'per_day'
-}> {
+}
+
+/**
+ * Check all rate limits for user
+ * `images` is how many generations the request would queue
+ */
+export async function checkAllRateLimits(userId: string, images: number = 1): Promise<RateLimitCheck> {
   const [perMinuteResult, perDayResult] = await Promise.all([
     checkRateLimit(userId, 'per_minute'),
     checkRateLimit(userId, 'per_day'),
   ])
 
+  // Every image of the request has to fit in today's remaining quota
+  if (perDayResult.allowed && perDayResult.remaining < images) {
+    perDayResult.allowed = false
+    perDayResult.upgradeRequired = perDayResult.isTrialUser || false
+    perDayResult.message = perDayResult.isTrialUser
+      ? `This request needs ${images} generations but only ${perDayResult.remaining} remain today. Upgrade to a paid plan for unlimited daily generations!`
+      : `This request needs ${images} generations but only ${perDayResult.remaining} remain today.`
+  }
+
   let allowed = true
   let blockedBy: 'per_minute' | 'per_day' | undefined
 
@@ -274,12 +291,13 @@ export async function checkAllRateLimits(userId: string): Promise<{
 
 /**
  * Record generation usage (increment both counters)
+ * The request counts once per minute; each of its `images` counts per day
  */
-export async function recordGenerationUsage(userId: string): Promise<boolean> {
+export async function recordGenerationUsage(userId: string, images: number = 1): Promise<boolean> {
   try {
     await Promise.all([
       incrementCounter(userId, 'per_minute'),
-      incrementCounter(userId, 'per_day'),
+      incrementCounter(userId, 'per_day', images),
     ])
     return true
   } catch (error) {
@@ -288,6 +306,46 @@ export async function recordGenerationUsage(userId: string): Promise<boolean> {
   }
 }
 
+/**
+ * 429 response for a request blocked by checkAllRateLimits
+ * Includes an upgrade CTA code for trial users at their daily limit
+ */
+export function rateLimitExceededResponse(rateLimitCheck: RateLimitCheck): NextResponse {
+  const blockedLimit = rateLimitCheck.blockedBy === 'per_minute' 
+    ? rateLimitCheck.perMinute 
+    : rateLimitCheck.perDay
+
+  const upgradeRequired = blockedLimit.upgradeRequired || false
+
+  return NextResponse.json(
+    { 
+      error: 'Rate limit exceeded',
+      message: blockedLimit.message,
+      code: upgradeRequired ? 'UPGRADE_REQUIRED' : 'RATE_LIMIT_EXCEEDED',
+      rateLimit: {
+        type: rateLimitCheck.blockedBy,
+        limit: blockedLimit.limit,
+        current: blockedLimit.current,
+        remaining: blockedLimit.remaining,
+        resetAt: blockedLimit.resetAt.toISOString(),
+        isPerMinuteLimit: rateLimitCheck.blockedBy === 'per_minute',
+        isDailyLimit: rateLimitCheck.blockedBy === 'per_day',
+        upgradeRequired,
+        isTrialUser: blockedLimit.isTrialUser || false,
+      }
+    },
+    { 
+      status: 429,
+      headers: {
+        'X-RateLimit-Limit': String(blockedLimit.limit),
+        'X-RateLimit-Remaining': String(blockedLimit.remaining),
+        'X-RateLimit-Reset': blockedLimit.resetAt.toISOString(),
+        'Retry-After': String(Math.ceil((blockedLimit.resetAt.getTime() - Date.now()) / 1000)),
+      }
+    }
+  )
+}
+
 /**
  * Get usage stats for user
  */
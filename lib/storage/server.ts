@@ -1,4 +1,5 @@
 import 'server-only'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
 
 /**
@@ -23,6 +24,7 @@ export type BucketName = typeof BUCKETS[keyof typeof BUCKETS]
  * @param path - File path within the bucket (e.g., 'user-id/project-id/filename.jpg')
  * @param file - File to upload (File, Blob, or Buffer)
  * @param options - Upload options (contentType, cacheControl, upsert)
+ * @param client - Optional Supabase client (defaults to the request client)
  * @returns Upload result with path and error
  * 
  * @example
@@ -41,9 +43,10 @@ export async function uploadFile(
     contentType?: string
     cacheControl?: string
     upsert?: boolean
-  }
+  },
+  client?: SupabaseClient
 ) {
-  const supabase = await createClient()
+  const supabase = client ?? await createClient()
 
   try {
     const { data, error } = await supabase.storage
@@ -70,12 +73,50 @@ export async function uploadFile(
   }
 }
 
+/**
+ * Download a file from Supabase Storage
+ * 
+ * @param bucket - Bucket name
+ * @param path - File path within the bucket
+ * @param client - Optional Supabase client (defaults to the request client)
+ * @returns File contents as a Buffer
+ * 
+ * @example
+ * const result = await downloadFile(
+ *   BUCKETS.OUTPUTS,
+ *   `${userId}/${projectId}/image.png`
+ * )
+ */
+export async function downloadFile(bucket: BucketName, path: string, client?: SupabaseClient) {
+  const supabase = client ?? await createClient()
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .download(path)
+
+    if (error) {
+      console.error(`Error downloading file from ${bucket}/${path}:`, error)
+      return { data: null, error }
+    }
+
+    return { data: Buffer.from(await data.arrayBuffer()), error: null }
+  } catch (err) {
+    console.error(`Exception downloading file:`, err)
+    return { 
+      data: null, 
+      error: { message: err instanceof Error ? err.message : 'Unknown error' } 
+    }
+  }
+}
+
 /**
  * Generate a signed URL for a private file
  * 
  * @param bucket - Bucket name
  * @param path - File path within the bucket
  * @param expiresIn - Expiration time in seconds (default: 3600 = 1 hour)
+ * @param client - Optional Supabase client (defaults to the request client)
  * @returns Signed URL with expiration
  * 
  * @example
@@ -91,9 +132,10 @@ export async function uploadFile(
 export async function getSignedUrl(
   bucket: BucketName,
   path: string,
-  expiresIn: number = 3600
+  expiresIn: number = 3600,
+  client?: SupabaseClient
 ) {
-  const supabase = await createClient()
+  const supabase = client ?? await createClient()
 
   try {
     const { data, error } = await supabase.storage
@@ -157,6 +199,7 @@ export async function getSignedUrls(
  * 
  * @param bucket - Bucket name
  * @param path - File path to delete
+ * @param client - Optional Supabase client (defaults to the request client)
  * @returns Deletion result
  * 
  * @example
@@ -165,8 +208,8 @@ export async function getSignedUrls(
  *   `${userId}/${projectId}/image.jpg`
  * )
  */
-export async function deleteFile(bucket: BucketName, path: string) {
-  const supabase = await createClient()
+export async function deleteFile(bucket: BucketName, path: string, client?: SupabaseClient) {
+  const supabase = client ?? await createClient()
 
   try {
     const { data, error } = await supabase.storage
@@ -194,10 +237,11 @@ export async function deleteFile(bucket: BucketName, path: string) {
  * 
  * @param bucket - Bucket name
  * @param paths - Array of file paths to delete
+ * @param client - Optional Supabase client (defaults to the request client)
  * @returns Deletion result
  */
-export async function deleteFiles(bucket: BucketName, paths: string[]) {
-  const supabase = await createClient()
+export async function deleteFiles(bucket: BucketName, paths: string[], client?: SupabaseClient) {
+  const supabase = client ?? await createClient()
 
   try {
     const { data, error } = await supabase.storage
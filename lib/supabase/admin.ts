@@ -0,0 +1,25 @@
+import 'server-only'
+import { createClient as createSupabaseClient, type SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Create a service-role Supabase client
+ *
+ * Bypasses RLS and does not depend on request cookies, so it can be used
+ * outside a request (e.g. the generation worker). Never expose this client
+ * or the service role key to the browser.
+ */
+export function createAdminClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Missing Supabase environment variables. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY in your .env.local file.')
+  }
+
+  return createSupabaseClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Fonts read from disk by the callout compositor (lib/generation/callout-compositor.ts)
+  outputFileTracingIncludes: {
+    "/api/assets/[id]/callouts": ["./assets/fonts/**"],
+  },
 };
 
 export default nextConfig;
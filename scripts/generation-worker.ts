@@ -0,0 +1,35 @@
+/**
+ * Generation worker entrypoint
+ *
+ * Processes queued generation_jobs until stopped (SIGINT/SIGTERM finish the
+ * current job first). Run as many instances as needed; jobs are leased so
+ * each one is processed by a single worker.
+ *
+ * Run with: npm run worker
+ *
+ * Requires NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and the image
+ * provider settings (see .env.example) in .env.local.
+ */
+
+import './register-server-runtime'
+import { runGenerationWorker } from '../lib/generation/worker'
+
+const controller = new AbortController()
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, stopping after the current job...`)
+    controller.abort()
+  })
+}
+
+runGenerationWorker({
+  leaseSeconds: Number(process.env.WORKER_LEASE_SECONDS) || undefined,
+  pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL_MS) || undefined,
+  signal: controller.signal,
+})
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Generation worker crashed:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,17 @@
+/**
+ * Lets standalone scripts import modules marked with `import 'server-only'`
+ *
+ * Next.js resolves 'server-only' to an empty module on the server. Plain
+ * Node resolves it to a module that throws, so scripts (which only ever run
+ * on the server) pre-seed the module cache with an empty export instead.
+ * Import this before anything else.
+ */
+
+const serverOnlyPath = require.resolve('server-only')
+
+require.cache[serverOnlyPath] = {
+  id: serverOnlyPath,
+  filename: serverOnlyPath,
+  loaded: true,
+  exports: {},
+} as NodeJS.Module
@@ -0,0 +1,18 @@
+-- Add image provider tracking
+-- Records which image provider and model produced each job and output asset
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS provider TEXT,
+    ADD COLUMN IF NOT EXISTS model TEXT;
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS provider TEXT,
+    ADD COLUMN IF NOT EXISTS model TEXT;
+
+-- Index for comparing results across providers
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_provider ON generation_jobs(provider);
+
+COMMENT ON COLUMN generation_jobs.provider IS 'Image provider used for the job (e.g., openai, mock)';
+COMMENT ON COLUMN generation_jobs.model IS 'Provider model used for the job (e.g., dall-e-2)';
+COMMENT ON COLUMN assets.provider IS 'Image provider that generated this asset (outputs only)';
+COMMENT ON COLUMN assets.model IS 'Provider model that generated this asset (outputs only)';
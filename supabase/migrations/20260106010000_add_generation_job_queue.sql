@@ -0,0 +1,285 @@
+-- =====================================================
+-- GENERATION JOB QUEUE
+-- =====================================================
+-- Turns generation_jobs into a durable work queue:
+-- workers claim jobs with a lease, extend it with heartbeats,
+-- and a sweeper recovers jobs whose lease expired
+-- =====================================================
+
+-- =====================================================
+-- 1. QUEUE COLUMNS
+-- =====================================================
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS payload JSONB DEFAULT '{}'::jsonb NOT NULL,
+    ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS max_attempts INTEGER DEFAULT 3 NOT NULL,
+    ADD COLUMN IF NOT EXISTS locked_by TEXT,
+    ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN generation_jobs.payload IS 'Request parameters the worker needs to run the job (prompt inputs, prompt version, request ID)';
+COMMENT ON COLUMN generation_jobs.attempts IS 'Number of times a worker has claimed this job';
+COMMENT ON COLUMN generation_jobs.max_attempts IS 'Claims allowed before an expired lease fails the job';
+COMMENT ON COLUMN generation_jobs.locked_by IS 'ID of the worker currently holding the lease';
+COMMENT ON COLUMN generation_jobs.lease_expires_at IS 'When the current lease expires unless extended by a heartbeat';
+COMMENT ON COLUMN generation_jobs.heartbeat_at IS 'Last heartbeat from the worker holding the lease';
+COMMENT ON COLUMN generation_jobs.started_at IS 'When the most recent attempt started running';
+COMMENT ON COLUMN generation_jobs.completed_at IS 'When the job reached a terminal status';
+
+-- Claim order: oldest queued job first
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_queued
+    ON generation_jobs(created_at)
+    WHERE status = 'queued';
+
+-- Sweeper lookup: running jobs by lease expiry
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_lease_expires_at
+    ON generation_jobs(lease_expires_at)
+    WHERE status = 'running';
+
+-- =====================================================
+-- 2. LEGAL STATUS TRANSITIONS
+-- =====================================================
+-- queued  -> running   (worker claims the job)
+-- queued  -> failed    (job could not be started)
+-- running -> succeeded (worker finished)
+-- running -> failed    (worker gave up, or lease expired too often)
+-- running -> queued    (lease expired or worker released the job)
+
+CREATE OR REPLACE FUNCTION is_valid_job_transition(
+    p_from TEXT,
+    p_to TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT (p_from, p_to) IN (
+        ('queued', 'running'),
+        ('queued', 'failed'),
+        ('running', 'succeeded'),
+        ('running', 'failed'),
+        ('running', 'queued')
+    );
+$$;
+
+COMMENT ON FUNCTION is_valid_job_transition IS 'Returns true if a generation job may move from one status to another';
+
+-- Enforce the transition rules for every status change, not just RPC calls
+CREATE OR REPLACE FUNCTION enforce_job_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND NOT is_valid_job_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Illegal generation job status transition: % -> %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_generation_job_status_transition ON generation_jobs;
+
+CREATE TRIGGER enforce_generation_job_status_transition
+    BEFORE UPDATE OF status ON generation_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_job_status_transition();
+
+-- =====================================================
+-- 3. TRANSITION JOB STATUS (replaces original version)
+-- =====================================================
+-- Callable by the job owner or the service role (workers).
+-- When p_worker_id is given the caller must hold the job's lease,
+-- so a worker whose lease expired cannot overwrite a newer attempt.
+
+DROP FUNCTION IF EXISTS transition_job_status(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION transition_job_status(
+    p_job_id UUID,
+    p_new_status TEXT,
+    p_error TEXT DEFAULT NULL,
+    p_worker_id TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+      AND (user_id = auth.uid() OR auth.role() = 'service_role')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF NOT is_valid_job_transition(v_job.status, p_new_status) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_worker_id IS NOT NULL AND v_job.locked_by IS DISTINCT FROM p_worker_id THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE generation_jobs
+    SET
+        status = p_new_status,
+        error = p_error,
+        started_at = CASE WHEN p_new_status = 'running' THEN now() ELSE started_at END,
+        completed_at = CASE WHEN p_new_status IN ('succeeded', 'failed') THEN now() ELSE NULL END,
+        locked_by = CASE WHEN p_new_status = 'running' THEN locked_by ELSE NULL END,
+        lease_expires_at = CASE WHEN p_new_status = 'running' THEN lease_expires_at ELSE NULL END,
+        updated_at = now()
+    WHERE id = p_job_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+COMMENT ON FUNCTION transition_job_status IS 'Safely transition a job status, enforcing legal transitions and lease ownership';
+
+-- =====================================================
+-- 4. CLAIM JOB
+-- =====================================================
+-- Atomically claims the oldest queued job for a worker.
+-- SKIP LOCKED lets many workers poll without blocking each other.
+
+CREATE OR REPLACE FUNCTION claim_generation_job(
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE generation_jobs j
+    SET
+        status = 'running',
+        attempts = j.attempts + 1,
+        locked_by = p_worker_id,
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now(),
+        started_at = now(),
+        error = NULL,
+        updated_at = now()
+    WHERE j.id = (
+        SELECT id
+        FROM generation_jobs
+        WHERE status = 'queued'
+        ORDER BY created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+    )
+    RETURNING j.*;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_generation_job IS 'Claims the oldest queued generation job and leases it to a worker';
+
+-- =====================================================
+-- 5. HEARTBEAT
+-- =====================================================
+-- Extends the lease of a running job. Returns false if the worker
+-- no longer holds the lease (it should stop working on the job).
+
+CREATE OR REPLACE FUNCTION heartbeat_generation_job(
+    p_job_id UUID,
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE generation_jobs
+    SET
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now()
+    WHERE id = p_job_id
+      AND status = 'running'
+      AND locked_by = p_worker_id;
+
+    RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION heartbeat_generation_job IS 'Extends the lease of a running job held by the given worker';
+
+-- =====================================================
+-- 6. SWEEPER
+-- =====================================================
+-- Recovers running jobs whose lease expired (worker crashed or was
+-- recycled). Jobs with attempts left go back to the queue, the rest fail.
+
+CREATE OR REPLACE FUNCTION sweep_expired_generation_jobs()
+RETURNS TABLE (
+    job_id UUID,
+    new_status TEXT,
+    job_attempts INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE generation_jobs j
+    SET
+        status = CASE WHEN j.attempts < j.max_attempts THEN 'queued' ELSE 'failed' END,
+        error = CASE
+            WHEN j.attempts < j.max_attempts THEN NULL
+            ELSE format('Job lease expired after %s attempts', j.attempts)
+        END,
+        completed_at = CASE WHEN j.attempts < j.max_attempts THEN NULL ELSE now() END,
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = now()
+    WHERE j.id IN (
+        SELECT id
+        FROM generation_jobs
+        WHERE status = 'running'
+          AND lease_expires_at < now()
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.id, j.status, j.attempts;
+END;
+$$;
+
+COMMENT ON FUNCTION sweep_expired_generation_jobs IS 'Re-queues or fails running jobs whose worker lease expired';
+
+-- =====================================================
+-- 7. GRANTS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION transition_job_status(UUID, TEXT, TEXT, TEXT) TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_job(TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION heartbeat_generation_job(UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION sweep_expired_generation_jobs() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION claim_generation_job(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_generation_job(UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION sweep_expired_generation_jobs() TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. Queue columns (payload, attempts, lease, heartbeat, timing)
+--   2. is_valid_job_transition() + trigger enforcing it
+--   3. transition_job_status() with lease ownership check
+--   4. claim_generation_job() - SKIP LOCKED claim with lease
+--   5. heartbeat_generation_job() - lease extension
+--   6. sweep_expired_generation_jobs() - stuck-job recovery
+-- =====================================================
@@ -0,0 +1,205 @@
+-- =====================================================
+-- GENERATION JOB RETRIES
+-- =====================================================
+-- Classified failures: each job stores a typed error_code and
+-- a history of its attempts. Retryable failures go back to the
+-- queue with exponential backoff (run_after) until max_attempts.
+-- =====================================================
+
+-- =====================================================
+-- 1. RETRY COLUMNS
+-- =====================================================
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS error_code TEXT,
+    ADD COLUMN IF NOT EXISTS attempt_history JSONB DEFAULT '[]'::jsonb NOT NULL,
+    ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ;
+
+COMMENT ON COLUMN generation_jobs.error_code IS 'Machine-readable code of the most recent failure (see lib/generation/errors.ts)';
+COMMENT ON COLUMN generation_jobs.attempt_history IS 'One entry per finished attempt: attempt, worker, timing, outcome and error';
+COMMENT ON COLUMN generation_jobs.run_after IS 'Earliest time a queued job may be claimed (retry backoff)';
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_error_code
+    ON generation_jobs(error_code)
+    WHERE error_code IS NOT NULL;
+
+-- =====================================================
+-- 2. CLAIM JOB (replaces previous version)
+-- =====================================================
+-- Same as before, but skips jobs that are backing off.
+
+CREATE OR REPLACE FUNCTION claim_generation_job(
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE generation_jobs j
+    SET
+        status = 'running',
+        attempts = j.attempts + 1,
+        locked_by = p_worker_id,
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now(),
+        started_at = now(),
+        run_after = NULL,
+        updated_at = now()
+    WHERE j.id = (
+        SELECT id
+        FROM generation_jobs
+        WHERE status = 'queued'
+          AND (run_after IS NULL OR run_after <= now())
+        ORDER BY created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+    )
+    RETURNING j.*;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_generation_job IS 'Claims the oldest queued generation job that is not backing off and leases it to a worker';
+
+-- =====================================================
+-- 3. FINISH ATTEMPT
+-- =====================================================
+-- Ends the current attempt of a leased job and records it in
+-- attempt_history. p_status is the job's next status:
+--   succeeded - attempt produced an output
+--   failed    - attempt failed and will not be retried
+--   queued    - retryable failure, job waits p_retry_delay_seconds
+-- Returns false if the worker no longer holds the lease.
+
+CREATE OR REPLACE FUNCTION finish_generation_attempt(
+    p_job_id UUID,
+    p_worker_id TEXT,
+    p_status TEXT,
+    p_error_code TEXT DEFAULT NULL,
+    p_error TEXT DEFAULT NULL,
+    p_retry_delay_seconds INTEGER DEFAULT 0
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+    v_run_after TIMESTAMPTZ;
+BEGIN
+    IF p_status NOT IN ('succeeded', 'failed', 'queued') THEN
+        RAISE EXCEPTION 'Invalid attempt outcome status: %', p_status;
+    END IF;
+
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND
+       OR v_job.status <> 'running'
+       OR v_job.locked_by IS DISTINCT FROM p_worker_id THEN
+        RETURN FALSE;
+    END IF;
+
+    v_run_after := CASE
+        WHEN p_status = 'queued' THEN now() + make_interval(secs => GREATEST(p_retry_delay_seconds, 0))
+        ELSE NULL
+    END;
+
+    UPDATE generation_jobs
+    SET
+        status = p_status,
+        error = p_error,
+        error_code = p_error_code,
+        run_after = v_run_after,
+        completed_at = CASE WHEN p_status = 'queued' THEN NULL ELSE now() END,
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        attempt_history = attempt_history || jsonb_build_array(jsonb_build_object(
+            'attempt', v_job.attempts,
+            'worker_id', p_worker_id,
+            'started_at', v_job.started_at,
+            'finished_at', now(),
+            'outcome', CASE WHEN p_status = 'queued' THEN 'retrying' ELSE p_status END,
+            'error_code', p_error_code,
+            'retry_at', v_run_after
+        )),
+        updated_at = now()
+    WHERE id = p_job_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+COMMENT ON FUNCTION finish_generation_attempt IS 'Ends a leased attempt (succeeded, failed or queued for retry) and appends it to attempt_history';
+
+-- =====================================================
+-- 4. SWEEPER (replaces previous version)
+-- =====================================================
+-- Expired leases are recorded in attempt_history as well, and jobs
+-- that run out of attempts fail with error_code 'lease_expired'.
+
+CREATE OR REPLACE FUNCTION sweep_expired_generation_jobs()
+RETURNS TABLE (
+    job_id UUID,
+    new_status TEXT,
+    job_attempts INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE generation_jobs j
+    SET
+        status = CASE WHEN j.attempts < j.max_attempts THEN 'queued' ELSE 'failed' END,
+        error = CASE
+            WHEN j.attempts < j.max_attempts THEN NULL
+            ELSE format('Job lease expired after %s attempts', j.attempts)
+        END,
+        error_code = CASE WHEN j.attempts < j.max_attempts THEN j.error_code ELSE 'lease_expired' END,
+        completed_at = CASE WHEN j.attempts < j.max_attempts THEN NULL ELSE now() END,
+        attempt_history = j.attempt_history || jsonb_build_array(jsonb_build_object(
+            'attempt', j.attempts,
+            'worker_id', j.locked_by,
+            'started_at', j.started_at,
+            'finished_at', now(),
+            'outcome', 'lease_expired',
+            'error_code', 'lease_expired',
+            'retry_at', NULL
+        )),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = now()
+    WHERE j.id IN (
+        SELECT id
+        FROM generation_jobs
+        WHERE status = 'running'
+          AND lease_expires_at < now()
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.id, j.status, j.attempts;
+END;
+$$;
+
+COMMENT ON FUNCTION sweep_expired_generation_jobs IS 'Re-queues or fails running jobs whose worker lease expired, recording the lost attempt';
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION finish_generation_attempt(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION finish_generation_attempt(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. error_code, attempt_history, run_after columns
+--   2. claim_generation_job() respects run_after backoff
+--   3. finish_generation_attempt() - record outcome, schedule retry
+--   4. sweep_expired_generation_jobs() records expired attempts
+-- =====================================================
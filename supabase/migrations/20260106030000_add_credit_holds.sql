@@ -0,0 +1,454 @@
+-- =====================================================
+-- CREDIT HOLDS
+-- =====================================================
+-- Replaces check-then-spend with reservations:
+-- a hold is placed atomically when a generation job is
+-- created, captured when the job succeeds and released
+-- when it fails. Available balance subtracts active holds,
+-- so parallel requests can no longer overspend.
+-- =====================================================
+
+-- =====================================================
+-- 1. CREDIT HOLDS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.credit_holds (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    amount int NOT NULL CHECK (amount > 0),
+    status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'captured', 'released')),
+    ref_type text NOT NULL CHECK (ref_type IN ('job')),
+    ref_id uuid NOT NULL,
+    ledger_id uuid REFERENCES public.credit_ledger(id) ON DELETE SET NULL, -- ledger entry written on capture
+    release_reason text,
+    created_at timestamptz DEFAULT now(),
+    resolved_at timestamptz,
+    UNIQUE (ref_type, ref_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_holds_user_active
+    ON public.credit_holds(user_id)
+    WHERE status = 'active';
+
+ALTER TABLE public.credit_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit holds"
+    ON public.credit_holds
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+-- Holds are only changed through the functions below
+CREATE POLICY "Service role can manage credit holds"
+    ON public.credit_holds
+    FOR ALL
+    TO service_role
+    USING (true)
+    WITH CHECK (true);
+
+COMMENT ON TABLE public.credit_holds IS 'Credits reserved for in-flight work; captured into credit_ledger on success or released';
+
+-- =====================================================
+-- 2. BALANCE VIEW WITH HOLDS
+-- =====================================================
+-- balance   = sum of the ledger
+-- held      = credits reserved by active holds
+-- available = balance - held (what new work may use)
+
+CREATE OR REPLACE VIEW user_credit_balance AS
+SELECT
+    l.user_id,
+    COALESCE(SUM(l.delta), 0)::int AS balance,
+    COUNT(*) AS transaction_count,
+    MAX(l.created_at) AS last_transaction_at,
+    COALESCE(h.held, 0)::int AS held,
+    (COALESCE(SUM(l.delta), 0) - COALESCE(h.held, 0))::int AS available
+FROM public.credit_ledger l
+LEFT JOIN (
+    SELECT user_id, SUM(amount) AS held
+    FROM public.credit_holds
+    WHERE status = 'active'
+    GROUP BY user_id
+) h ON h.user_id = l.user_id
+GROUP BY l.user_id, h.held;
+
+COMMENT ON VIEW user_credit_balance IS 'Credit balance per user from credit_ledger, with active holds subtracted in available';
+
+-- Serializes credit changes per user (row locks cannot stop concurrent inserts)
+CREATE OR REPLACE FUNCTION lock_user_credits(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+    SELECT pg_advisory_xact_lock(hashtext('credits:' || p_user_id::text));
+$$;
+
+-- =====================================================
+-- 3. BALANCE FUNCTIONS USE AVAILABLE CREDITS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_user_credit_balance(p_user_id uuid)
+RETURNS int
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+    SELECT COALESCE(available, 0)
+    FROM user_credit_balance
+    WHERE user_id = p_user_id;
+$$;
+
+COMMENT ON FUNCTION get_user_credit_balance IS 'Returns credits available to spend (ledger balance minus active holds)';
+
+CREATE OR REPLACE FUNCTION has_sufficient_credits(
+    p_user_id uuid,
+    p_required_amount int DEFAULT 1
+)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+    SELECT COALESCE(available, 0) >= p_required_amount
+    FROM user_credit_balance
+    WHERE user_id = p_user_id;
+$$;
+
+COMMENT ON FUNCTION has_sufficient_credits IS 'Checks if user has sufficient available credits (after holds) for an operation';
+
+-- Direct spends may not dip into credits held for in-flight jobs
+CREATE OR REPLACE FUNCTION spend_credits(
+    p_user_id uuid,
+    p_amount int,
+    p_reason text DEFAULT 'generation',
+    p_ref_type text DEFAULT NULL,
+    p_ref_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_current_balance int;
+    v_ledger_id uuid;
+BEGIN
+    IF p_amount <= 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Amount must be greater than 0',
+            'balance', NULL
+        );
+    END IF;
+
+    PERFORM lock_user_credits(p_user_id);
+
+    SELECT COALESCE(available, 0) INTO v_current_balance
+    FROM user_credit_balance
+    WHERE user_id = p_user_id;
+
+    v_current_balance := COALESCE(v_current_balance, 0);
+
+    IF v_current_balance < p_amount THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Insufficient credits',
+            'balance', v_current_balance,
+            'required', p_amount,
+            'shortfall', p_amount - v_current_balance
+        );
+    END IF;
+
+    INSERT INTO public.credit_ledger (user_id, delta, reason, ref_type, ref_id)
+    VALUES (p_user_id, -p_amount, p_reason, p_ref_type, p_ref_id)
+    RETURNING id INTO v_ledger_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'ledger_id', v_ledger_id,
+        'amount_spent', p_amount,
+        'previous_balance', v_current_balance,
+        'new_balance', v_current_balance - p_amount
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_credit_summary(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+    v_balance int;
+    v_held int;
+    v_available int;
+    v_transaction_count int;
+    v_last_transaction timestamptz;
+    v_total_earned int;
+    v_total_spent int;
+    v_subscription_plan text;
+    v_monthly_allowance int;
+BEGIN
+    SELECT balance, held, available, transaction_count, last_transaction_at
+    INTO v_balance, v_held, v_available, v_transaction_count, v_last_transaction
+    FROM user_credit_balance
+    WHERE user_id = p_user_id;
+
+    IF v_balance IS NULL THEN
+        v_balance := 0;
+        v_held := 0;
+        v_available := 0;
+        v_transaction_count := 0;
+    END IF;
+
+    SELECT COALESCE(SUM(delta), 0) INTO v_total_earned
+    FROM public.credit_ledger
+    WHERE user_id = p_user_id AND delta > 0;
+
+    SELECT COALESCE(ABS(SUM(delta)), 0) INTO v_total_spent
+    FROM public.credit_ledger
+    WHERE user_id = p_user_id AND delta < 0;
+
+    SELECT s.plan_id, p.monthly_credits
+    INTO v_subscription_plan, v_monthly_allowance
+    FROM public.subscriptions s
+    JOIN public.plans p ON s.plan_id = p.id
+    WHERE s.user_id = p_user_id
+    LIMIT 1;
+
+    RETURN jsonb_build_object(
+        'balance', v_balance,
+        'held', v_held,
+        'available', v_available,
+        'transaction_count', v_transaction_count,
+        'last_transaction_at', v_last_transaction,
+        'total_earned', v_total_earned,
+        'total_spent', v_total_spent,
+        'subscription_plan', v_subscription_plan,
+        'monthly_allowance', v_monthly_allowance
+    );
+END;
+$$;
+
+-- =====================================================
+-- 4. CAPTURE AND RELEASE
+-- =====================================================
+
+-- Capture an active hold: writes the ledger entry and closes the hold.
+-- p_amount may be lower than the hold; the remainder is simply released.
+CREATE OR REPLACE FUNCTION capture_credit_hold(
+    p_ref_type text,
+    p_ref_id uuid,
+    p_amount int DEFAULT NULL,
+    p_reason text DEFAULT 'generation'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_hold public.credit_holds%ROWTYPE;
+    v_amount int;
+    v_ledger_id uuid;
+BEGIN
+    SELECT * INTO v_hold
+    FROM public.credit_holds
+    WHERE ref_type = p_ref_type
+      AND ref_id = p_ref_id
+      AND status = 'active'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'No active hold');
+    END IF;
+
+    v_amount := LEAST(COALESCE(p_amount, v_hold.amount), v_hold.amount);
+
+    IF v_amount > 0 THEN
+        INSERT INTO public.credit_ledger (user_id, delta, reason, ref_type, ref_id)
+        VALUES (v_hold.user_id, -v_amount, p_reason, p_ref_type, p_ref_id)
+        RETURNING id INTO v_ledger_id;
+    END IF;
+
+    UPDATE public.credit_holds
+    SET
+        status = 'captured',
+        ledger_id = v_ledger_id,
+        resolved_at = now()
+    WHERE id = v_hold.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'hold_id', v_hold.id,
+        'amount_captured', v_amount,
+        'amount_released', v_hold.amount - v_amount,
+        'ledger_id', v_ledger_id
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION capture_credit_hold IS 'Converts an active credit hold into a credit_ledger spend';
+
+CREATE OR REPLACE FUNCTION release_credit_hold(
+    p_ref_type text,
+    p_ref_id uuid,
+    p_reason text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE public.credit_holds
+    SET
+        status = 'released',
+        release_reason = p_reason,
+        resolved_at = now()
+    WHERE ref_type = p_ref_type
+      AND ref_id = p_ref_id
+      AND status = 'active';
+
+    RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION release_credit_hold IS 'Releases an active credit hold without charging the user';
+
+-- =====================================================
+-- 5. SETTLE JOB HOLDS ON STATUS CHANGE
+-- =====================================================
+-- Runs in the same transaction as the status update, so a job can
+-- never be marked succeeded without being charged (or failed while
+-- still holding credits), whichever path changes the status.
+
+CREATE OR REPLACE FUNCTION settle_job_credit_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NEW.status = 'succeeded' THEN
+        PERFORM capture_credit_hold('job', NEW.id);
+    ELSIF NEW.status = 'failed' THEN
+        PERFORM release_credit_hold('job', NEW.id, 'job_failed');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS settle_generation_job_credit_hold ON generation_jobs;
+
+CREATE TRIGGER settle_generation_job_credit_hold
+    AFTER UPDATE OF status ON generation_jobs
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION settle_job_credit_hold();
+
+-- =====================================================
+-- 6. CREATE JOB WITH HOLD
+-- =====================================================
+-- Creates a queued generation job for the calling user and
+-- reserves its credits in one transaction.
+
+CREATE OR REPLACE FUNCTION create_generation_job_with_hold(
+    p_project_id uuid,
+    p_mode text,
+    p_input_asset_id uuid,
+    p_cost_cents int DEFAULT 0,
+    p_provider text DEFAULT NULL,
+    p_model text DEFAULT NULL,
+    p_payload jsonb DEFAULT '{}'::jsonb,
+    p_credits int DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_available int;
+    v_job generation_jobs%ROWTYPE;
+    v_hold_id uuid;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    IF p_credits <= 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Credits must be greater than 0');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM projects WHERE id = p_project_id AND user_id = v_user_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Project not found');
+    END IF;
+
+    PERFORM lock_user_credits(v_user_id);
+
+    SELECT COALESCE(available, 0) INTO v_available
+    FROM user_credit_balance
+    WHERE user_id = v_user_id;
+
+    v_available := COALESCE(v_available, 0);
+
+    IF v_available < p_credits THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Insufficient credits',
+            'available', v_available,
+            'required', p_credits,
+            'shortfall', p_credits - v_available
+        );
+    END IF;
+
+    INSERT INTO generation_jobs (
+        user_id, project_id, status, mode, input_asset_id,
+        cost_cents, provider, model, payload
+    )
+    VALUES (
+        v_user_id, p_project_id, 'queued', p_mode, p_input_asset_id,
+        p_cost_cents, p_provider, p_model, COALESCE(p_payload, '{}'::jsonb)
+    )
+    RETURNING * INTO v_job;
+
+    INSERT INTO public.credit_holds (user_id, amount, ref_type, ref_id)
+    VALUES (v_user_id, p_credits, 'job', v_job.id)
+    RETURNING id INTO v_hold_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'job', to_jsonb(v_job),
+        'hold_id', v_hold_id,
+        'available', v_available - p_credits
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION create_generation_job_with_hold IS 'Creates a queued generation job and atomically reserves its credits';
+
+-- =====================================================
+-- 7. GRANTS
+-- =====================================================
+
+GRANT SELECT ON public.credit_holds TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION lock_user_credits(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION capture_credit_hold(text, uuid, int, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION release_credit_hold(text, uuid, text) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION capture_credit_hold(text, uuid, int, text) TO service_role;
+GRANT EXECUTE ON FUNCTION release_credit_hold(text, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION create_generation_job_with_hold(uuid, text, uuid, int, text, text, jsonb, int) TO authenticated;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. credit_holds table with RLS
+--   2. user_credit_balance.held / .available
+--   3. Balance, spend and summary functions use available credits
+--   4. capture_credit_hold() / release_credit_hold()
+--   5. Trigger settling job holds on succeeded / failed
+--   6. create_generation_job_with_hold() - atomic enqueue + reserve
+-- =====================================================
@@ -0,0 +1,135 @@
+-- =====================================================
+-- IDEMPOTENCY KEYS
+-- =====================================================
+-- Stores Idempotency-Key headers sent to POST endpoints
+-- (/api/generate, /api/upload) with a hash of the request
+-- and the response, so retries and double-clicks replay the
+-- original result instead of creating duplicates
+-- =====================================================
+
+-- =====================================================
+-- 1. IDEMPOTENCY KEYS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint text NOT NULL,
+    key text NOT NULL CHECK (char_length(key) BETWEEN 1 AND 255),
+    request_hash text NOT NULL,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+    response_status int,
+    response_body jsonb,
+    created_at timestamptz DEFAULT now(),
+    completed_at timestamptz,
+    expires_at timestamptz NOT NULL,
+    UNIQUE (user_id, endpoint, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at
+    ON public.idempotency_keys(user_id, expires_at);
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own idempotency keys"
+    ON public.idempotency_keys
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own idempotency keys"
+    ON public.idempotency_keys
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own idempotency keys"
+    ON public.idempotency_keys
+    FOR DELETE
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.idempotency_keys IS 'Idempotency-Key records for POST endpoints: request hash and stored response';
+COMMENT ON COLUMN public.idempotency_keys.request_hash IS 'SHA-256 of the request payload; a different payload with the same key is rejected';
+COMMENT ON COLUMN public.idempotency_keys.status IS 'pending while the first request runs, completed once its response is stored';
+
+-- =====================================================
+-- 2. BEGIN IDEMPOTENT REQUEST
+-- =====================================================
+-- Atomically claims a key for the calling user. Returns:
+--   { state: 'new' }                       - first use, caller processes the request
+--   { state: 'replay', response_status,
+--     response_body }                      - completed earlier, return stored response
+--   { state: 'in_progress' }               - first request is still running
+--   { state: 'mismatch' }                  - key was used with a different payload
+
+CREATE OR REPLACE FUNCTION begin_idempotent_request(
+    p_endpoint text,
+    p_key text,
+    p_request_hash text,
+    p_ttl_seconds int DEFAULT 86400
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_existing public.idempotency_keys%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Expired keys can be reused
+    DELETE FROM public.idempotency_keys
+    WHERE user_id = v_user_id
+      AND expires_at < now();
+
+    INSERT INTO public.idempotency_keys (user_id, endpoint, key, request_hash, expires_at)
+    VALUES (v_user_id, p_endpoint, p_key, p_request_hash, now() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (user_id, endpoint, key) DO NOTHING;
+
+    IF FOUND THEN
+        RETURN jsonb_build_object('state', 'new');
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM public.idempotency_keys
+    WHERE user_id = v_user_id
+      AND endpoint = p_endpoint
+      AND key = p_key;
+
+    IF v_existing.request_hash <> p_request_hash THEN
+        RETURN jsonb_build_object('state', 'mismatch');
+    END IF;
+
+    IF v_existing.status = 'pending' THEN
+        RETURN jsonb_build_object('state', 'in_progress');
+    END IF;
+
+    RETURN jsonb_build_object(
+        'state', 'replay',
+        'response_status', v_existing.response_status,
+        'response_body', v_existing.response_body
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION begin_idempotent_request IS 'Claims an idempotency key for the current user or reports how an earlier request with it ended';
+
+-- =====================================================
+-- 3. GRANTS
+-- =====================================================
+
+GRANT SELECT, UPDATE, DELETE ON public.idempotency_keys TO authenticated;
+GRANT EXECUTE ON FUNCTION begin_idempotent_request(text, text, text, int) TO authenticated;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. idempotency_keys table with RLS
+--   2. begin_idempotent_request() - atomic claim / replay / mismatch check
+-- =====================================================
@@ -0,0 +1,129 @@
+-- =====================================================
+-- GENERATION JOB EVENTS
+-- =====================================================
+-- Append-only log of job status transitions and worker
+-- stages, tailed by the SSE endpoints
+-- (/api/jobs/[id]/events and /api/jobs/events)
+-- =====================================================
+
+-- =====================================================
+-- 1. JOB PROGRESS COLUMNS
+-- =====================================================
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS stage TEXT,
+    ADD COLUMN IF NOT EXISTS output_asset_id UUID REFERENCES assets(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN generation_jobs.stage IS 'Current worker stage while running (downloading_input, calling_provider, uploading_output)';
+COMMENT ON COLUMN generation_jobs.output_asset_id IS 'Output asset created by the job';
+
+-- =====================================================
+-- 2. EVENTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS generation_job_events (
+    id BIGSERIAL PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES generation_jobs(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('status', 'stage')),
+    status TEXT NOT NULL,
+    stage TEXT,
+    output_asset_id UUID,
+    error_code TEXT,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Stream cursors: events after an ID, per job or per user
+CREATE INDEX IF NOT EXISTS idx_generation_job_events_job_id
+    ON generation_job_events(job_id, id);
+
+CREATE INDEX IF NOT EXISTS idx_generation_job_events_user_id
+    ON generation_job_events(user_id, id);
+
+CREATE INDEX IF NOT EXISTS idx_generation_job_events_created_at
+    ON generation_job_events(created_at);
+
+ALTER TABLE generation_job_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job events"
+    ON generation_job_events
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE generation_job_events IS 'Status transitions and worker stages per generation job, used for live progress streams';
+
+-- =====================================================
+-- 3. RECORD EVENTS FROM JOB CHANGES
+-- =====================================================
+-- Every path that changes a job (API, worker, sweeper) is covered.
+
+CREATE OR REPLACE FUNCTION record_generation_job_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO generation_job_events (job_id, user_id, type, status, stage, output_asset_id, error_code)
+        VALUES (NEW.id, NEW.user_id, 'status', NEW.status, NEW.stage, NEW.output_asset_id, NEW.error_code);
+    ELSIF NEW.stage IS DISTINCT FROM OLD.stage AND NEW.stage IS NOT NULL THEN
+        INSERT INTO generation_job_events (job_id, user_id, type, status, stage, output_asset_id, error_code)
+        VALUES (NEW.id, NEW.user_id, 'stage', NEW.status, NEW.stage, NEW.output_asset_id, NEW.error_code);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_generation_job_event ON generation_jobs;
+
+CREATE TRIGGER record_generation_job_event
+    AFTER INSERT OR UPDATE OF status, stage ON generation_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION record_generation_job_event();
+
+-- =====================================================
+-- 4. PRUNE OLD EVENTS
+-- =====================================================
+-- Events are only needed while a client may still be streaming;
+-- the job row keeps the final state.
+
+CREATE OR REPLACE FUNCTION prune_generation_job_events(
+    p_older_than INTERVAL DEFAULT INTERVAL '7 days'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM generation_job_events
+    WHERE created_at < now() - p_older_than;
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$;
+
+COMMENT ON FUNCTION prune_generation_job_events IS 'Deletes job events older than the given interval';
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+GRANT SELECT ON generation_job_events TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION prune_generation_job_events(INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION prune_generation_job_events(INTERVAL) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. generation_jobs.stage, generation_jobs.output_asset_id
+--   2. generation_job_events table with RLS
+--   3. Trigger recording status and stage changes
+--   4. prune_generation_job_events() - retention
+-- =====================================================
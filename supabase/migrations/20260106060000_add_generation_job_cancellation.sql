@@ -0,0 +1,378 @@
+-- =====================================================
+-- GENERATION JOB CANCELLATION
+-- =====================================================
+-- Adds a terminal 'canceled' status. Queued jobs are canceled
+-- immediately; running jobs get a cancel request that the worker
+-- honours at its next stage boundary. Either way the job's
+-- credit hold is released.
+-- =====================================================
+
+-- =====================================================
+-- 1. STATUS AND CANCEL REQUEST COLUMN
+-- =====================================================
+
+ALTER TABLE generation_jobs
+    DROP CONSTRAINT IF EXISTS generation_jobs_status_check;
+
+ALTER TABLE generation_jobs
+    ADD CONSTRAINT generation_jobs_status_check
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'canceled'));
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN generation_jobs.status IS 'Job status: queued, running, succeeded, failed, or canceled';
+COMMENT ON COLUMN generation_jobs.cancel_requested_at IS 'When the owner asked to cancel a running job; the worker stops at its next stage boundary';
+
+-- =====================================================
+-- 2. LEGAL STATUS TRANSITIONS (replaces previous version)
+-- =====================================================
+-- queued  -> canceled  (owner canceled before a worker claimed it)
+-- running -> canceled  (worker stopped after a cancel request)
+
+CREATE OR REPLACE FUNCTION is_valid_job_transition(
+    p_from TEXT,
+    p_to TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT (p_from, p_to) IN (
+        ('queued', 'running'),
+        ('queued', 'failed'),
+        ('queued', 'canceled'),
+        ('running', 'succeeded'),
+        ('running', 'failed'),
+        ('running', 'queued'),
+        ('running', 'canceled')
+    );
+$$;
+
+-- =====================================================
+-- 3. TRANSITION JOB STATUS (replaces previous version)
+-- =====================================================
+-- Same as before; 'canceled' is terminal, so it sets completed_at.
+
+CREATE OR REPLACE FUNCTION transition_job_status(
+    p_job_id UUID,
+    p_new_status TEXT,
+    p_error TEXT DEFAULT NULL,
+    p_worker_id TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+      AND (user_id = auth.uid() OR auth.role() = 'service_role')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF NOT is_valid_job_transition(v_job.status, p_new_status) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_worker_id IS NOT NULL AND v_job.locked_by IS DISTINCT FROM p_worker_id THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE generation_jobs
+    SET
+        status = p_new_status,
+        error = p_error,
+        started_at = CASE WHEN p_new_status = 'running' THEN now() ELSE started_at END,
+        completed_at = CASE WHEN p_new_status IN ('succeeded', 'failed', 'canceled') THEN now() ELSE NULL END,
+        locked_by = CASE WHEN p_new_status = 'running' THEN locked_by ELSE NULL END,
+        lease_expires_at = CASE WHEN p_new_status = 'running' THEN lease_expires_at ELSE NULL END,
+        updated_at = now()
+    WHERE id = p_job_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- =====================================================
+-- 4. CANCEL JOB
+-- =====================================================
+-- Called by the job owner. Returns jsonb:
+--   { success, status: 'canceled' }                   queued job canceled now
+--   { success, status: 'running', cancel_requested }  worker will stop it
+--   { success: false, error, status }                 job not found or finished
+
+CREATE OR REPLACE FUNCTION cancel_generation_job(
+    p_job_id UUID
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+      AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job not found');
+    END IF;
+
+    IF v_job.status = 'queued' THEN
+        UPDATE generation_jobs
+        SET
+            status = 'canceled',
+            cancel_requested_at = now(),
+            run_after = NULL,
+            completed_at = now(),
+            updated_at = now()
+        WHERE id = p_job_id;
+
+        RETURN jsonb_build_object('success', true, 'status', 'canceled', 'cancel_requested', false);
+    END IF;
+
+    IF v_job.status = 'running' THEN
+        UPDATE generation_jobs
+        SET
+            cancel_requested_at = COALESCE(cancel_requested_at, now()),
+            updated_at = now()
+        WHERE id = p_job_id;
+
+        RETURN jsonb_build_object('success', true, 'status', 'running', 'cancel_requested', true);
+    END IF;
+
+    RETURN jsonb_build_object('success', false, 'error', 'Job already finished', 'status', v_job.status);
+END;
+$$;
+
+COMMENT ON FUNCTION cancel_generation_job IS 'Cancels a queued job now, or asks the worker to stop a running job at its next stage boundary';
+
+-- =====================================================
+-- 5. HEARTBEAT (replaces previous version)
+-- =====================================================
+-- Now returns the lease state instead of a boolean:
+--   held             - keep working
+--   cancel_requested - lease extended, but the owner canceled the job
+--   lost             - the worker no longer holds the lease
+
+DROP FUNCTION IF EXISTS heartbeat_generation_job(UUID, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION heartbeat_generation_job(
+    p_job_id UUID,
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_cancel_requested_at TIMESTAMPTZ;
+BEGIN
+    UPDATE generation_jobs
+    SET
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = now()
+    WHERE id = p_job_id
+      AND status = 'running'
+      AND locked_by = p_worker_id
+    RETURNING cancel_requested_at INTO v_cancel_requested_at;
+
+    IF NOT FOUND THEN
+        RETURN 'lost';
+    END IF;
+
+    RETURN CASE WHEN v_cancel_requested_at IS NULL THEN 'held' ELSE 'cancel_requested' END;
+END;
+$$;
+
+COMMENT ON FUNCTION heartbeat_generation_job IS 'Extends the lease of a running job and reports whether it is held, lost or has a cancel request';
+
+-- =====================================================
+-- 6. FINISH ATTEMPT (replaces previous version)
+-- =====================================================
+-- Accepts 'canceled' as an outcome, and a retry requested for a
+-- job the owner canceled ends the job as canceled instead.
+
+CREATE OR REPLACE FUNCTION finish_generation_attempt(
+    p_job_id UUID,
+    p_worker_id TEXT,
+    p_status TEXT,
+    p_error_code TEXT DEFAULT NULL,
+    p_error TEXT DEFAULT NULL,
+    p_retry_delay_seconds INTEGER DEFAULT 0
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+    v_status TEXT := p_status;
+    v_run_after TIMESTAMPTZ;
+BEGIN
+    IF p_status NOT IN ('succeeded', 'failed', 'queued', 'canceled') THEN
+        RAISE EXCEPTION 'Invalid attempt outcome status: %', p_status;
+    END IF;
+
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND
+       OR v_job.status <> 'running'
+       OR v_job.locked_by IS DISTINCT FROM p_worker_id THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_status = 'queued' AND v_job.cancel_requested_at IS NOT NULL THEN
+        v_status := 'canceled';
+    END IF;
+
+    v_run_after := CASE
+        WHEN v_status = 'queued' THEN now() + make_interval(secs => GREATEST(p_retry_delay_seconds, 0))
+        ELSE NULL
+    END;
+
+    UPDATE generation_jobs
+    SET
+        status = v_status,
+        error = p_error,
+        error_code = p_error_code,
+        run_after = v_run_after,
+        completed_at = CASE WHEN v_status = 'queued' THEN NULL ELSE now() END,
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        attempt_history = attempt_history || jsonb_build_array(jsonb_build_object(
+            'attempt', v_job.attempts,
+            'worker_id', p_worker_id,
+            'started_at', v_job.started_at,
+            'finished_at', now(),
+            'outcome', CASE WHEN v_status = 'queued' THEN 'retrying' ELSE v_status END,
+            'error_code', p_error_code,
+            'retry_at', v_run_after
+        )),
+        updated_at = now()
+    WHERE id = p_job_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- =====================================================
+-- 7. SWEEPER (replaces previous version)
+-- =====================================================
+-- A job whose lease expired after a cancel request is canceled
+-- rather than re-queued or failed.
+
+CREATE OR REPLACE FUNCTION sweep_expired_generation_jobs()
+RETURNS TABLE (
+    job_id UUID,
+    new_status TEXT,
+    job_attempts INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE generation_jobs j
+    SET
+        status = CASE
+            WHEN j.cancel_requested_at IS NOT NULL THEN 'canceled'
+            WHEN j.attempts < j.max_attempts THEN 'queued'
+            ELSE 'failed'
+        END,
+        error = CASE
+            WHEN j.cancel_requested_at IS NOT NULL OR j.attempts < j.max_attempts THEN NULL
+            ELSE format('Job lease expired after %s attempts', j.attempts)
+        END,
+        error_code = CASE
+            WHEN j.cancel_requested_at IS NOT NULL THEN NULL
+            WHEN j.attempts < j.max_attempts THEN j.error_code
+            ELSE 'lease_expired'
+        END,
+        completed_at = CASE
+            WHEN j.cancel_requested_at IS NULL AND j.attempts < j.max_attempts THEN NULL
+            ELSE now()
+        END,
+        attempt_history = j.attempt_history || jsonb_build_array(jsonb_build_object(
+            'attempt', j.attempts,
+            'worker_id', j.locked_by,
+            'started_at', j.started_at,
+            'finished_at', now(),
+            'outcome', 'lease_expired',
+            'error_code', 'lease_expired',
+            'retry_at', NULL
+        )),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = now()
+    WHERE j.id IN (
+        SELECT id
+        FROM generation_jobs
+        WHERE status = 'running'
+          AND lease_expires_at < now()
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.id, j.status, j.attempts;
+END;
+$$;
+
+-- =====================================================
+-- 8. SETTLE JOB HOLDS (replaces previous version)
+-- =====================================================
+-- Canceled jobs release their hold, like failed ones.
+
+CREATE OR REPLACE FUNCTION settle_job_credit_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NEW.status = 'succeeded' THEN
+        PERFORM capture_credit_hold('job', NEW.id);
+    ELSIF NEW.status = 'failed' THEN
+        PERFORM release_credit_hold('job', NEW.id, 'job_failed');
+    ELSIF NEW.status = 'canceled' THEN
+        PERFORM release_credit_hold('job', NEW.id, 'job_canceled');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- 9. GRANTS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION cancel_generation_job(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION cancel_generation_job(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION heartbeat_generation_job(UUID, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION heartbeat_generation_job(UUID, TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. 'canceled' status and cancel_requested_at column
+--   2. queued/running -> canceled transitions
+--   3. transition_job_status() treats canceled as terminal
+--   4. cancel_generation_job() - owner cancellation
+--   5. heartbeat_generation_job() reports cancel requests
+--   6. finish_generation_attempt() accepts 'canceled'
+--   7. sweep_expired_generation_jobs() cancels abandoned cancel requests
+--   8. settle_job_credit_hold() releases holds of canceled jobs
+-- =====================================================
@@ -0,0 +1,177 @@
+-- =====================================================
+-- GENERATION BATCHES
+-- =====================================================
+-- A batch groups the child generation_jobs created from one
+-- input by POST /api/generate/batch (e.g. a full listing set:
+-- main image, lifestyle shots, feature callout, packaging).
+-- All children and their credit holds are created together,
+-- after a single check of the total credit cost.
+-- =====================================================
+
+-- =====================================================
+-- 1. BATCHES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS generation_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    input_asset_id UUID REFERENCES assets(id) ON DELETE SET NULL,
+    items JSONB DEFAULT '[]'::jsonb NOT NULL,
+    total_jobs INTEGER NOT NULL CHECK (total_jobs > 0),
+    total_credits INTEGER NOT NULL CHECK (total_credits > 0),
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_batches_user_id ON generation_batches(user_id);
+CREATE INDEX IF NOT EXISTS idx_generation_batches_project_id ON generation_batches(project_id);
+CREATE INDEX IF NOT EXISTS idx_generation_batches_created_at ON generation_batches(created_at DESC);
+
+ALTER TABLE generation_batches ENABLE ROW LEVEL SECURITY;
+
+-- Batches are created through create_generation_batch_with_holds() only
+CREATE POLICY "Users can view own generation batches"
+    ON generation_batches
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_generation_batches_updated_at
+    BEFORE UPDATE ON generation_batches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE generation_batches IS 'Groups of generation jobs created from one input in a single request';
+COMMENT ON COLUMN generation_batches.items IS 'Requested entries: [{mode, count, inputs}]';
+COMMENT ON COLUMN generation_batches.total_jobs IS 'Number of child jobs created';
+COMMENT ON COLUMN generation_batches.total_credits IS 'Credits held for the whole batch when it was created';
+
+-- =====================================================
+-- 2. CHILD JOBS
+-- =====================================================
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES generation_batches(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN generation_jobs.batch_id IS 'Batch this job was created in, if any';
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_batch_id
+    ON generation_jobs(batch_id)
+    WHERE batch_id IS NOT NULL;
+
+-- =====================================================
+-- 3. CREATE BATCH WITH HOLDS
+-- =====================================================
+-- Creates the batch, one queued job per element of p_jobs
+-- ({mode, payload}) and a 1-credit hold per job, in one
+-- transaction. Nothing is created unless the user has enough
+-- available credits for every job.
+
+CREATE OR REPLACE FUNCTION create_generation_batch_with_holds(
+    p_project_id uuid,
+    p_input_asset_id uuid,
+    p_items jsonb,
+    p_jobs jsonb,
+    p_cost_cents int DEFAULT 0,
+    p_provider text DEFAULT NULL,
+    p_model text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_total int := jsonb_array_length(COALESCE(p_jobs, '[]'::jsonb));
+    v_available int;
+    v_batch generation_batches%ROWTYPE;
+    v_job generation_jobs%ROWTYPE;
+    v_jobs jsonb := '[]'::jsonb;
+    v_entry jsonb;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    IF v_total = 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Batch has no jobs');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM projects WHERE id = p_project_id AND user_id = v_user_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Project not found');
+    END IF;
+
+    PERFORM lock_user_credits(v_user_id);
+
+    SELECT COALESCE(available, 0) INTO v_available
+    FROM user_credit_balance
+    WHERE user_id = v_user_id;
+
+    v_available := COALESCE(v_available, 0);
+
+    IF v_available < v_total THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Insufficient credits',
+            'available', v_available,
+            'required', v_total,
+            'shortfall', v_total - v_available
+        );
+    END IF;
+
+    INSERT INTO generation_batches (
+        user_id, project_id, input_asset_id, items, total_jobs, total_credits
+    )
+    VALUES (
+        v_user_id, p_project_id, p_input_asset_id, COALESCE(p_items, '[]'::jsonb), v_total, v_total
+    )
+    RETURNING * INTO v_batch;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_jobs)
+    LOOP
+        INSERT INTO generation_jobs (
+            user_id, project_id, batch_id, status, mode, input_asset_id,
+            cost_cents, provider, model, payload
+        )
+        VALUES (
+            v_user_id, p_project_id, v_batch.id, 'queued', v_entry->>'mode', p_input_asset_id,
+            p_cost_cents, p_provider, p_model, COALESCE(v_entry->'payload', '{}'::jsonb)
+        )
+        RETURNING * INTO v_job;
+
+        INSERT INTO public.credit_holds (user_id, amount, ref_type, ref_id)
+        VALUES (v_user_id, 1, 'job', v_job.id);
+
+        v_jobs := v_jobs || jsonb_build_array(to_jsonb(v_job));
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'batch', to_jsonb(v_batch),
+        'jobs', v_jobs,
+        'available', v_available - v_total
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION create_generation_batch_with_holds IS 'Creates a generation batch with its queued child jobs, reserving one credit per job after checking the total';
+
+-- =====================================================
+-- 4. GRANTS
+-- =====================================================
+
+GRANT SELECT ON generation_batches TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION create_generation_batch_with_holds(uuid, uuid, jsonb, jsonb, int, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_generation_batch_with_holds(uuid, uuid, jsonb, jsonb, int, text, text) TO authenticated;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. generation_batches table with RLS
+--   2. generation_jobs.batch_id
+--   3. create_generation_batch_with_holds() - atomic batch enqueue + reserve
+-- =====================================================
@@ -0,0 +1,345 @@
+-- =====================================================
+-- GENERATION JOB VARIANTS
+-- =====================================================
+-- A job may ask the provider for several variants of the
+-- same image. Each variant is stored as an output asset,
+-- shown to the user as a selectable set, and only the
+-- variants they keep are charged:
+--   - the job holds 1 credit per requested variant
+--   - on success the hold stays active until the user picks
+--   - select_job_variants() captures 1 credit per kept variant
+--     and releases the rest
+--   - discarded variants are purged from storage by the worker
+--     once their grace period ends
+-- Single-variant jobs are charged on success as before.
+-- =====================================================
+
+-- =====================================================
+-- 1. JOB VARIANT COLUMNS
+-- =====================================================
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS variant_count INTEGER DEFAULT 1 NOT NULL CHECK (variant_count BETWEEN 1 AND 4),
+    ADD COLUMN IF NOT EXISTS variants_generated INTEGER,
+    ADD COLUMN IF NOT EXISTS variants_kept INTEGER,
+    ADD COLUMN IF NOT EXISTS variants_selected_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN generation_jobs.variant_count IS 'Variants requested from the provider (1 credit held per variant)';
+COMMENT ON COLUMN generation_jobs.variants_generated IS 'Variants the provider returned and were stored';
+COMMENT ON COLUMN generation_jobs.variants_kept IS 'Variants the user kept (and was charged for)';
+COMMENT ON COLUMN generation_jobs.variants_selected_at IS 'When the kept variants were chosen; NULL while the selection is pending';
+
+-- Succeeded multi-variant jobs still waiting for a selection
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_pending_variants
+    ON generation_jobs(completed_at)
+    WHERE variant_count > 1 AND status = 'succeeded' AND variants_selected_at IS NULL;
+
+-- =====================================================
+-- 2. ASSET VARIANT COLUMNS
+-- =====================================================
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS generation_job_id UUID REFERENCES generation_jobs(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS variant_index INTEGER,
+    ADD COLUMN IF NOT EXISTS variant_status TEXT CHECK (variant_status IN ('pending', 'kept', 'discarded')),
+    ADD COLUMN IF NOT EXISTS discard_after TIMESTAMPTZ;
+
+COMMENT ON COLUMN assets.generation_job_id IS 'Generation job that created this output';
+COMMENT ON COLUMN assets.variant_index IS 'Position of this output in its job''s variant set (0-based)';
+COMMENT ON COLUMN assets.variant_status IS 'pending, kept or discarded for multi-variant outputs; NULL otherwise';
+COMMENT ON COLUMN assets.discard_after IS 'When a discarded variant is removed from storage';
+
+CREATE INDEX IF NOT EXISTS idx_assets_generation_job_id
+    ON assets(generation_job_id)
+    WHERE generation_job_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_assets_discard_after
+    ON assets(discard_after)
+    WHERE variant_status = 'discarded';
+
+-- =====================================================
+-- 3. CREATE JOB WITH HOLD (replaces previous version)
+-- =====================================================
+-- Adds p_variant_count; callers hold one credit per variant.
+
+DROP FUNCTION IF EXISTS create_generation_job_with_hold(uuid, text, uuid, int, text, text, jsonb, int);
+
+CREATE OR REPLACE FUNCTION create_generation_job_with_hold(
+    p_project_id uuid,
+    p_mode text,
+    p_input_asset_id uuid,
+    p_cost_cents int DEFAULT 0,
+    p_provider text DEFAULT NULL,
+    p_model text DEFAULT NULL,
+    p_payload jsonb DEFAULT '{}'::jsonb,
+    p_credits int DEFAULT 1,
+    p_variant_count int DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_available int;
+    v_job generation_jobs%ROWTYPE;
+    v_hold_id uuid;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    IF p_credits <= 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Credits must be greater than 0');
+    END IF;
+
+    IF p_variant_count NOT BETWEEN 1 AND 4 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Variant count must be between 1 and 4');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM projects WHERE id = p_project_id AND user_id = v_user_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Project not found');
+    END IF;
+
+    PERFORM lock_user_credits(v_user_id);
+
+    SELECT COALESCE(available, 0) INTO v_available
+    FROM user_credit_balance
+    WHERE user_id = v_user_id;
+
+    v_available := COALESCE(v_available, 0);
+
+    IF v_available < p_credits THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Insufficient credits',
+            'available', v_available,
+            'required', p_credits,
+            'shortfall', p_credits - v_available
+        );
+    END IF;
+
+    INSERT INTO generation_jobs (
+        user_id, project_id, status, mode, input_asset_id,
+        cost_cents, provider, model, payload, variant_count
+    )
+    VALUES (
+        v_user_id, p_project_id, 'queued', p_mode, p_input_asset_id,
+        p_cost_cents, p_provider, p_model, COALESCE(p_payload, '{}'::jsonb), p_variant_count
+    )
+    RETURNING * INTO v_job;
+
+    INSERT INTO public.credit_holds (user_id, amount, ref_type, ref_id)
+    VALUES (v_user_id, p_credits, 'job', v_job.id)
+    RETURNING id INTO v_hold_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'job', to_jsonb(v_job),
+        'hold_id', v_hold_id,
+        'available', v_available - p_credits
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION create_generation_job_with_hold IS 'Creates a queued generation job and atomically reserves its credits';
+
+-- =====================================================
+-- 4. SETTLE JOB HOLDS (replaces previous version)
+-- =====================================================
+-- Multi-variant jobs keep their hold on success; it is
+-- settled by select_job_variants() instead.
+
+CREATE OR REPLACE FUNCTION settle_job_credit_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF NEW.status = 'succeeded' THEN
+        IF NEW.variant_count <= 1 THEN
+            PERFORM capture_credit_hold('job', NEW.id);
+        END IF;
+    ELSIF NEW.status = 'failed' THEN
+        PERFORM release_credit_hold('job', NEW.id, 'job_failed');
+    ELSIF NEW.status = 'canceled' THEN
+        PERFORM release_credit_hold('job', NEW.id, 'job_canceled');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- 5. SELECT VARIANTS
+-- =====================================================
+-- Settles a succeeded multi-variant job for the calling user:
+-- listed variants are kept, the others discarded (purged after
+-- p_grace_hours). Captures 1 credit per kept variant and
+-- releases the rest of the hold. A job's selection is final.
+
+CREATE OR REPLACE FUNCTION select_job_variants(
+    p_job_id uuid,
+    p_keep_asset_ids uuid[],
+    p_grace_hours int DEFAULT 24
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+    v_kept int;
+    v_discarded int;
+BEGIN
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+      AND (user_id = auth.uid() OR auth.role() = 'service_role')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job not found');
+    END IF;
+
+    IF v_job.status <> 'succeeded' OR v_job.variant_count <= 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job has no variants to select');
+    END IF;
+
+    IF v_job.variants_selected_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Variants already selected',
+            'kept', v_job.variants_kept
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM unnest(COALESCE(p_keep_asset_ids, '{}')) AS k(asset_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM assets
+            WHERE id = k.asset_id
+              AND generation_job_id = p_job_id
+              AND variant_status = 'pending'
+        )
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Unknown variant');
+    END IF;
+
+    UPDATE assets
+    SET variant_status = 'kept'
+    WHERE generation_job_id = p_job_id
+      AND variant_status = 'pending'
+      AND id = ANY(COALESCE(p_keep_asset_ids, '{}'));
+
+    GET DIAGNOSTICS v_kept = ROW_COUNT;
+
+    UPDATE assets
+    SET
+        variant_status = 'discarded',
+        discard_after = now() + make_interval(hours => GREATEST(p_grace_hours, 0))
+    WHERE generation_job_id = p_job_id
+      AND variant_status = 'pending';
+
+    GET DIAGNOSTICS v_discarded = ROW_COUNT;
+
+    IF v_kept > 0 THEN
+        PERFORM capture_credit_hold('job', p_job_id, v_kept);
+    ELSE
+        PERFORM release_credit_hold('job', p_job_id, 'variants_discarded');
+    END IF;
+
+    UPDATE generation_jobs
+    SET
+        variants_kept = v_kept,
+        variants_selected_at = now(),
+        -- Point the job at a variant that is staying
+        output_asset_id = COALESCE(
+            (SELECT id FROM assets
+             WHERE generation_job_id = p_job_id AND variant_status = 'kept'
+             ORDER BY variant_index
+             LIMIT 1),
+            output_asset_id
+        )
+    WHERE id = p_job_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'kept', v_kept,
+        'discarded', v_discarded,
+        'credits_charged', v_kept
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION select_job_variants IS 'Keeps the chosen variants of a multi-variant job, charging 1 credit each and releasing the rest';
+
+-- =====================================================
+-- 6. FINALIZE ABANDONED SELECTIONS
+-- =====================================================
+-- Selections left pending past p_window_hours keep every
+-- variant (charged like a normal job), so holds are never
+-- left open indefinitely.
+
+CREATE OR REPLACE FUNCTION finalize_expired_variant_selections(
+    p_window_hours int DEFAULT 168
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job_id uuid;
+    v_keep uuid[];
+    v_count int := 0;
+BEGIN
+    FOR v_job_id IN
+        SELECT id
+        FROM generation_jobs
+        WHERE status = 'succeeded'
+          AND variant_count > 1
+          AND variants_selected_at IS NULL
+          AND completed_at < now() - make_interval(hours => p_window_hours)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        SELECT COALESCE(array_agg(id), '{}') INTO v_keep
+        FROM assets
+        WHERE generation_job_id = v_job_id AND variant_status = 'pending';
+
+        PERFORM select_job_variants(v_job_id, v_keep);
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION finalize_expired_variant_selections IS 'Keeps all variants of jobs whose selection window expired';
+
+-- =====================================================
+-- 7. GRANTS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION create_generation_job_with_hold(uuid, text, uuid, int, text, text, jsonb, int, int) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_generation_job_with_hold(uuid, text, uuid, int, text, text, jsonb, int, int) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION select_job_variants(uuid, uuid[], int) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION select_job_variants(uuid, uuid[], int) TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION finalize_expired_variant_selections(int) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION finalize_expired_variant_selections(int) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. generation_jobs.variant_count / variants_generated / variants_kept / variants_selected_at
+--   2. assets.generation_job_id / variant_index / variant_status / discard_after
+--   3. create_generation_job_with_hold() takes p_variant_count
+--   4. settle_job_credit_hold() defers multi-variant jobs to the selection
+--   5. select_job_variants() - keep/discard with per-variant charging
+--   6. finalize_expired_variant_selections() - keeps unselected sets after a week
+-- =====================================================
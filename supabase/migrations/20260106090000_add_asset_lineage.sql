@@ -0,0 +1,28 @@
+-- =====================================================
+-- ASSET LINEAGE
+-- =====================================================
+-- Outputs made with "Regenerate" / "Edit and regenerate"
+-- point at the output they were made from. The job keeps
+-- the link in payload.parentAssetId next to the other
+-- request parameters; the worker copies it onto the asset.
+-- =====================================================
+
+-- =====================================================
+-- 1. PARENT ASSET
+-- =====================================================
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS parent_asset_id UUID REFERENCES assets(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN assets.parent_asset_id IS 'Output this asset was regenerated from, if any';
+
+CREATE INDEX IF NOT EXISTS idx_assets_parent_asset_id
+    ON assets(parent_asset_id)
+    WHERE parent_asset_id IS NOT NULL;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. assets.parent_asset_id
+-- =====================================================
@@ -0,0 +1,31 @@
+-- =====================================================
+-- ASSET DERIVATIVES
+-- =====================================================
+-- Derived copies of an asset (e.g. the preprocessed
+-- square RGBA PNG sent to the image provider) are stored
+-- as assets linked to their source through
+-- source_asset_id and identified by a derivative_key, so
+-- retries and later jobs reuse them instead of redoing
+-- the work.
+-- =====================================================
+
+-- =====================================================
+-- 1. DERIVATIVE KEY
+-- =====================================================
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS derivative_key TEXT;
+
+COMMENT ON COLUMN assets.derivative_key IS 'Identifies a derived copy of source_asset_id (what was done to it and with which settings); NULL for uploads and outputs';
+
+-- One derivative per source and key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assets_source_derivative_key
+    ON assets(source_asset_id, derivative_key)
+    WHERE derivative_key IS NOT NULL;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. assets.derivative_key with a unique (source_asset_id, derivative_key) index
+-- =====================================================
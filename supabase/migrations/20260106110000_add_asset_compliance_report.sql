@@ -0,0 +1,30 @@
+-- =====================================================
+-- OUTPUT COMPLIANCE REPORTS
+-- =====================================================
+-- The worker scores every output against the compliance
+-- rules of its mode (pure white border, product fill,
+-- minimum size, no text for main images) and stores the
+-- structured result on the asset for the gallery badge.
+-- =====================================================
+
+-- =====================================================
+-- 1. COMPLIANCE REPORT
+-- =====================================================
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS compliance_report JSONB;
+
+COMMENT ON COLUMN assets.compliance_report IS
+    'Pixel compliance checks of an output: { version, mode, status (pass|warn|fail), rules: [{ rule, status, message, value, threshold }], checked_at }. NULL for inputs and unchecked outputs';
+
+-- Lets listings filter on the overall result
+CREATE INDEX IF NOT EXISTS idx_assets_compliance_status
+    ON assets((compliance_report->>'status'))
+    WHERE compliance_report IS NOT NULL;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. assets.compliance_report (+ index on its status)
+-- =====================================================
@@ -0,0 +1,32 @@
+-- =====================================================
+-- PROJECT MARKETPLACE PROFILE
+-- =====================================================
+-- Each project targets a marketplace whose image rules
+-- drive prompt building and output compliance checks
+-- (profiles live in lib/marketplaces.ts). Jobs record
+-- the profile they used in payload.marketplace and the
+-- outputs in prompt_payload.marketplace.
+-- =====================================================
+
+-- =====================================================
+-- 1. MARKETPLACE
+-- =====================================================
+
+ALTER TABLE projects
+    ADD COLUMN IF NOT EXISTS marketplace TEXT NOT NULL DEFAULT 'amazon';
+
+ALTER TABLE projects
+    DROP CONSTRAINT IF EXISTS projects_marketplace_check;
+
+ALTER TABLE projects
+    ADD CONSTRAINT projects_marketplace_check
+    CHECK (marketplace IN ('amazon', 'walmart', 'etsy', 'ebay', 'shopify'));
+
+COMMENT ON COLUMN projects.marketplace IS 'Marketplace profile used for new generations (amazon, walmart, etsy, ebay, shopify)';
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. projects.marketplace (default 'amazon')
+-- =====================================================
@@ -0,0 +1,190 @@
+-- =====================================================
+-- UPSCALE JOBS
+-- =====================================================
+-- Outputs are generated at 1024x1024, below the zoom
+-- resolutions marketplaces prefer (Amazon zoom needs
+-- 1600px+). An upscale job turns an existing output into
+-- a high-resolution output linked to it through
+-- assets.parent_asset_id:
+--   - generation_jobs.job_type tells the worker which
+--     pipeline to run ('generate' or 'upscale')
+--   - the job's input_asset_id is the output being upscaled
+--   - plans set their own credit price per upscale
+--     (plans.upscale_credits), held like any other job
+-- =====================================================
+
+-- =====================================================
+-- 1. JOB TYPE
+-- =====================================================
+
+ALTER TABLE generation_jobs
+    ADD COLUMN IF NOT EXISTS job_type TEXT NOT NULL DEFAULT 'generate';
+
+ALTER TABLE generation_jobs
+    DROP CONSTRAINT IF EXISTS generation_jobs_job_type_check;
+
+ALTER TABLE generation_jobs
+    ADD CONSTRAINT generation_jobs_job_type_check
+    CHECK (job_type IN ('generate', 'upscale'));
+
+COMMENT ON COLUMN generation_jobs.job_type IS 'generate (new image from an input) or upscale (high-resolution copy of an output)';
+
+-- =====================================================
+-- 2. PLAN UPSCALE PRICE
+-- =====================================================
+
+ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS upscale_credits INTEGER NOT NULL DEFAULT 1 CHECK (upscale_credits > 0);
+
+COMMENT ON COLUMN plans.upscale_credits IS 'Credits charged per upscaled output';
+
+UPDATE plans SET upscale_credits = 2 WHERE id = 'starter';
+UPDATE plans SET upscale_credits = 1 WHERE id IN ('pro', 'brand', 'agency');
+
+-- =====================================================
+-- 3. UPSCALE CREDIT PRICE
+-- =====================================================
+-- Price of the user's current plan; users without a live
+-- subscription pay the starter price. Users may only look
+-- up their own price.
+
+CREATE OR REPLACE FUNCTION get_upscale_credit_price(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_credits int;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() AND auth.role() IS DISTINCT FROM 'service_role' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT p.upscale_credits INTO v_credits
+    FROM public.subscriptions s
+    JOIN public.plans p ON s.plan_id = p.id
+    WHERE s.user_id = p_user_id
+      AND s.status IN ('trialing', 'active', 'past_due')
+    LIMIT 1;
+
+    IF v_credits IS NULL THEN
+        SELECT upscale_credits INTO v_credits
+        FROM public.plans
+        WHERE id = 'starter';
+    END IF;
+
+    RETURN COALESCE(v_credits, 1);
+END;
+$$;
+
+COMMENT ON FUNCTION get_upscale_credit_price IS 'Credits one upscale costs the user on their current plan';
+
+-- =====================================================
+-- 4. CREATE UPSCALE JOB WITH HOLD
+-- =====================================================
+-- Queues an upscale of one of the caller's outputs and
+-- holds the plan's upscale price in the same transaction.
+-- The hold is settled by settle_job_credit_hold() like any
+-- single-variant job.
+
+CREATE OR REPLACE FUNCTION create_upscale_job_with_hold(
+    p_source_asset_id uuid,
+    p_cost_cents int DEFAULT 0,
+    p_provider text DEFAULT NULL,
+    p_model text DEFAULT NULL,
+    p_payload jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_source assets%ROWTYPE;
+    v_credits int;
+    v_available int;
+    v_job generation_jobs%ROWTYPE;
+    v_hold_id uuid;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    SELECT * INTO v_source
+    FROM assets
+    WHERE id = p_source_asset_id AND user_id = v_user_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Asset not found');
+    END IF;
+
+    IF v_source.kind <> 'output' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only outputs can be upscaled');
+    END IF;
+
+    v_credits := get_upscale_credit_price(v_user_id);
+
+    PERFORM lock_user_credits(v_user_id);
+
+    SELECT COALESCE(available, 0) INTO v_available
+    FROM user_credit_balance
+    WHERE user_id = v_user_id;
+
+    v_available := COALESCE(v_available, 0);
+
+    IF v_available < v_credits THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Insufficient credits',
+            'available', v_available,
+            'required', v_credits,
+            'shortfall', v_credits - v_available
+        );
+    END IF;
+
+    INSERT INTO generation_jobs (
+        user_id, project_id, status, mode, input_asset_id,
+        cost_cents, provider, model, payload, job_type
+    )
+    VALUES (
+        v_user_id, v_source.project_id, 'queued', v_source.mode, v_source.id,
+        p_cost_cents, p_provider, p_model, COALESCE(p_payload, '{}'::jsonb), 'upscale'
+    )
+    RETURNING * INTO v_job;
+
+    INSERT INTO public.credit_holds (user_id, amount, ref_type, ref_id)
+    VALUES (v_user_id, v_credits, 'job', v_job.id)
+    RETURNING id INTO v_hold_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'job', to_jsonb(v_job),
+        'hold_id', v_hold_id,
+        'credits', v_credits,
+        'available', v_available - v_credits
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION create_upscale_job_with_hold IS 'Creates a queued upscale job for an output and atomically reserves its plan price in credits';
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION get_upscale_credit_price(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_upscale_credit_price(uuid) TO authenticated, service_role;
+
+REVOKE EXECUTE ON FUNCTION create_upscale_job_with_hold(uuid, int, text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_upscale_job_with_hold(uuid, int, text, text, jsonb) TO authenticated;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. generation_jobs.job_type ('generate' | 'upscale')
+--   2. plans.upscale_credits (starter 2, other plans 1)
+--   3. get_upscale_credit_price() - plan price with starter fallback
+--   4. create_upscale_job_with_hold() - queue an upscale and hold its price
+-- =====================================================
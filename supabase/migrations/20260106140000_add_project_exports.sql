@@ -0,0 +1,136 @@
+-- =====================================================
+-- PROJECT EXPORTS
+-- =====================================================
+-- GET /api/projects/[id]/export streams small ZIP exports
+-- directly. Larger ones are queued here, built by the worker,
+-- stored in the outputs bucket and handed out as a signed link.
+-- =====================================================
+
+-- =====================================================
+-- 1. EXPORTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS project_exports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')) DEFAULT 'queued',
+    asset_ids UUID[] NOT NULL,
+    include_inputs BOOLEAN DEFAULT false NOT NULL,
+    storage_path TEXT,
+    size_bytes BIGINT,
+    error TEXT,
+    attempts INTEGER DEFAULT 0 NOT NULL,
+    max_attempts INTEGER DEFAULT 3 NOT NULL,
+    locked_by TEXT,
+    lease_expires_at TIMESTAMPTZ,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_exports_user_id ON project_exports(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_exports_project_id ON project_exports(project_id);
+
+-- Claim order: oldest queued export first
+CREATE INDEX IF NOT EXISTS idx_project_exports_queued
+    ON project_exports(created_at)
+    WHERE status = 'queued';
+
+ALTER TABLE project_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own project exports"
+    ON project_exports
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Workers (service role) update exports; users only create them
+CREATE POLICY "Users can create exports of own projects"
+    ON project_exports
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM projects WHERE id = project_id AND user_id = auth.uid()
+        )
+    );
+
+CREATE TRIGGER update_project_exports_updated_at
+    BEFORE UPDATE ON project_exports
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE project_exports IS 'Background ZIP exports of project outputs';
+COMMENT ON COLUMN project_exports.asset_ids IS 'Outputs to export, resolved when the export was requested';
+COMMENT ON COLUMN project_exports.include_inputs IS 'Also export the inputs the outputs were generated from';
+COMMENT ON COLUMN project_exports.storage_path IS 'ZIP path in the outputs bucket once the export succeeded';
+COMMENT ON COLUMN project_exports.size_bytes IS 'Size of the ZIP in bytes';
+
+-- =====================================================
+-- 2. CLAIM EXPORT
+-- =====================================================
+-- Claims the oldest queued export, or one whose lease expired
+-- (worker crashed mid-export). Expired exports without attempts
+-- left are failed first.
+
+CREATE OR REPLACE FUNCTION claim_project_export(
+    p_worker_id TEXT,
+    p_lease_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF project_exports
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    UPDATE project_exports
+    SET
+        status = 'failed',
+        error = format('Export lease expired after %s attempts', attempts),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        completed_at = now()
+    WHERE status = 'running'
+      AND lease_expires_at < now()
+      AND attempts >= max_attempts;
+
+    RETURN QUERY
+    UPDATE project_exports e
+    SET
+        status = 'running',
+        attempts = e.attempts + 1,
+        locked_by = p_worker_id,
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        started_at = now(),
+        error = NULL
+    WHERE e.id = (
+        SELECT id
+        FROM project_exports
+        WHERE status = 'queued'
+           OR (status = 'running' AND lease_expires_at < now())
+        ORDER BY created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+    )
+    RETURNING e.*;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_project_export IS 'Claims the oldest queued (or abandoned) project export and leases it to a worker';
+
+-- =====================================================
+-- 3. GRANTS
+-- =====================================================
+
+GRANT SELECT, INSERT ON project_exports TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION claim_project_export(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_project_export(TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. project_exports table with RLS
+--   2. claim_project_export() - SKIP LOCKED claim with lease recovery
+-- =====================================================
@@ -0,0 +1,165 @@
+-- =====================================================
+-- PROMPT TEMPLATES
+-- =====================================================
+-- Versioned prompt templates per generation mode. v1 of every
+-- mode is built into lib/prompts.ts; admins author v2+ here as
+-- drafts and publish them. Published templates are immutable so
+-- outputs generated with a version stay reproducible.
+-- =====================================================
+
+-- =====================================================
+-- 1. TEMPLATES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mode TEXT NOT NULL CHECK (mode IN ('main_white', 'lifestyle', 'feature_callout', 'packaging')),
+    version TEXT NOT NULL CHECK (version ~ '^v[0-9]+$' AND version <> 'v1'),
+    status TEXT NOT NULL CHECK (status IN ('draft', 'published')) DEFAULT 'draft',
+    body TEXT NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    published_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (mode, version)
+);
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Generation routes resolve published templates as the user;
+-- drafts are only read and written by admins (service role)
+CREATE POLICY "Authenticated users can view published prompt templates"
+    ON prompt_templates
+    FOR SELECT
+    TO authenticated
+    USING (status = 'published');
+
+CREATE TRIGGER update_prompt_templates_updated_at
+    BEFORE UPDATE ON prompt_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE prompt_templates IS 'Admin-authored prompt template versions (v2+) per generation mode';
+COMMENT ON COLUMN prompt_templates.body IS 'Template text with {{placeholders}} (see PROMPT_TEMPLATE_PLACEHOLDERS in lib/prompts.ts)';
+COMMENT ON COLUMN prompt_templates.status IS 'draft: editable, not usable for generation; published: immutable and selectable';
+
+-- =====================================================
+-- 2. IMMUTABLE PUBLISHED TEMPLATES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION protect_published_prompt_templates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status = 'published' THEN
+            RAISE EXCEPTION 'Published prompt template %/% cannot be deleted', OLD.mode, OLD.version;
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status = 'published' AND (
+        NEW.status <> OLD.status
+        OR NEW.body <> OLD.body
+        OR NEW.mode <> OLD.mode
+        OR NEW.version <> OLD.version
+    ) THEN
+        RAISE EXCEPTION 'Published prompt template %/% cannot be changed', OLD.mode, OLD.version;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_published_prompt_templates
+    BEFORE UPDATE OR DELETE ON prompt_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_published_prompt_templates();
+
+-- =====================================================
+-- 3. CURRENT VERSION POINTER
+-- =====================================================
+-- The version used when a request does not name one. Modes
+-- without a row use the built-in v1.
+
+CREATE TABLE IF NOT EXISTS prompt_template_current (
+    mode TEXT PRIMARY KEY CHECK (mode IN ('main_white', 'lifestyle', 'feature_callout', 'packaging')),
+    version TEXT NOT NULL CHECK (version ~ '^v[0-9]+$'),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE prompt_template_current ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view current prompt versions"
+    ON prompt_template_current
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+COMMENT ON TABLE prompt_template_current IS 'Current prompt template version per mode (default v1)';
+
+-- =====================================================
+-- 4. PUBLISH TEMPLATE
+-- =====================================================
+-- Publishes a draft and makes it the mode's current version
+-- in one transaction.
+
+CREATE OR REPLACE FUNCTION publish_prompt_template(
+    p_template_id UUID,
+    p_published_by UUID
+)
+RETURNS SETOF prompt_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_template prompt_templates;
+BEGIN
+    UPDATE prompt_templates
+    SET
+        status = 'published',
+        published_by = p_published_by,
+        published_at = now()
+    WHERE id = p_template_id
+      AND status = 'draft'
+    RETURNING * INTO v_template;
+
+    IF v_template.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO prompt_template_current (mode, version, updated_by, updated_at)
+    VALUES (v_template.mode, v_template.version, p_published_by, now())
+    ON CONFLICT (mode) DO UPDATE
+    SET version = EXCLUDED.version,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = EXCLUDED.updated_at;
+
+    RETURN NEXT v_template;
+END;
+$$;
+
+COMMENT ON FUNCTION publish_prompt_template IS 'Publishes a draft prompt template and points its mode''s current version at it';
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+GRANT SELECT ON prompt_templates TO authenticated;
+GRANT SELECT ON prompt_template_current TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION publish_prompt_template(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION publish_prompt_template(UUID, UUID) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. prompt_templates table (drafts and immutable published versions)
+--   2. prompt_template_current table (current version per mode)
+--   3. publish_prompt_template() - publish and repoint in one step
+-- =====================================================
@@ -0,0 +1,218 @@
+-- =====================================================
+-- PROMPT EXPERIMENTS
+-- =====================================================
+-- A/B tests between prompt template versions of a mode.
+-- While an experiment runs, generation requests that do not
+-- name a promptVersion are assigned a variant by weight; the
+-- job payload records the experimentId and the version. Results
+-- compare failures, kept variants, downloads, regenerations and
+-- compliance per version.
+-- =====================================================
+
+-- =====================================================
+-- 1. ASSET DOWNLOADS
+-- =====================================================
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS downloaded_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN assets.downloaded_at IS 'First time the output was downloaded (single download, export or listing package)';
+
+-- =====================================================
+-- 2. EXPERIMENTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mode TEXT NOT NULL CHECK (mode IN ('main_white', 'lifestyle', 'feature_callout', 'packaging')),
+    name TEXT NOT NULL,
+    notes TEXT,
+    status TEXT NOT NULL CHECK (status IN ('running', 'completed')) DEFAULT 'running',
+    variants JSONB NOT NULL CHECK (jsonb_typeof(variants) = 'array' AND jsonb_array_length(variants) >= 2),
+    winner_version TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    ended_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- At most one running experiment per mode
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_running_mode
+    ON prompt_experiments(mode)
+    WHERE status = 'running';
+
+-- Results look up an experiment's jobs by payload
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_experiment_id
+    ON generation_jobs((payload->>'experimentId'))
+    WHERE payload ? 'experimentId';
+
+ALTER TABLE prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Generation routes assign variants as the user; experiments
+-- are created and ended by admins (service role)
+CREATE POLICY "Authenticated users can view running prompt experiments"
+    ON prompt_experiments
+    FOR SELECT
+    TO authenticated
+    USING (status = 'running');
+
+CREATE TRIGGER update_prompt_experiments_updated_at
+    BEFORE UPDATE ON prompt_experiments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE prompt_experiments IS 'A/B tests between prompt template versions of a mode';
+COMMENT ON COLUMN prompt_experiments.variants IS 'Versions under test with relative weights: [{ "version": "v1", "weight": 50 }, ...]';
+COMMENT ON COLUMN prompt_experiments.winner_version IS 'Version promoted to current when the experiment completed (null if stopped without a winner)';
+
+-- =====================================================
+-- 3. EXPERIMENT RESULTS
+-- =====================================================
+-- Per-version outcome counts. Kept/discarded come from variant
+-- selections (discarded rows are purged later); downloads,
+-- regenerations and compliance are counted over the outputs
+-- the user has (single outputs and kept variants).
+
+CREATE OR REPLACE FUNCTION get_prompt_experiment_results(p_experiment_id UUID)
+RETURNS TABLE (
+    prompt_version TEXT,
+    jobs BIGINT,
+    succeeded_jobs BIGINT,
+    failed_jobs BIGINT,
+    variants_selected BIGINT,
+    variants_kept BIGINT,
+    outputs BIGINT,
+    downloaded_outputs BIGINT,
+    regenerated_outputs BIGINT,
+    compliance_checked BIGINT,
+    compliance_passed BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    WITH experiment_jobs AS (
+        SELECT
+            id,
+            status,
+            payload->>'promptVersion' AS prompt_version,
+            variants_generated,
+            variants_kept,
+            variants_selected_at
+        FROM generation_jobs
+        WHERE payload->>'experimentId' = p_experiment_id::text
+    ),
+    job_stats AS (
+        SELECT
+            prompt_version,
+            count(*) AS jobs,
+            count(*) FILTER (WHERE status = 'succeeded') AS succeeded_jobs,
+            count(*) FILTER (WHERE status = 'failed') AS failed_jobs,
+            coalesce(sum(variants_generated) FILTER (WHERE variants_selected_at IS NOT NULL), 0) AS variants_selected,
+            coalesce(sum(variants_kept) FILTER (WHERE variants_selected_at IS NOT NULL), 0) AS variants_kept
+        FROM experiment_jobs
+        GROUP BY prompt_version
+    ),
+    output_stats AS (
+        SELECT
+            j.prompt_version,
+            count(*) AS outputs,
+            count(*) FILTER (WHERE a.downloaded_at IS NOT NULL) AS downloaded_outputs,
+            count(*) FILTER (
+                WHERE EXISTS (SELECT 1 FROM assets r WHERE r.parent_asset_id = a.id)
+            ) AS regenerated_outputs,
+            count(*) FILTER (WHERE a.compliance_report IS NOT NULL) AS compliance_checked,
+            count(*) FILTER (WHERE a.compliance_report->>'status' = 'pass') AS compliance_passed
+        FROM experiment_jobs j
+        JOIN assets a ON a.generation_job_id = j.id
+        WHERE a.kind = 'output'
+          AND a.derivative_key IS NULL
+          AND (a.variant_status IS NULL OR a.variant_status = 'kept')
+        GROUP BY j.prompt_version
+    )
+    SELECT
+        js.prompt_version,
+        js.jobs,
+        js.succeeded_jobs,
+        js.failed_jobs,
+        js.variants_selected,
+        js.variants_kept,
+        coalesce(os.outputs, 0),
+        coalesce(os.downloaded_outputs, 0),
+        coalesce(os.regenerated_outputs, 0),
+        coalesce(os.compliance_checked, 0),
+        coalesce(os.compliance_passed, 0)
+    FROM job_stats js
+    LEFT JOIN output_stats os ON os.prompt_version = js.prompt_version
+    ORDER BY js.prompt_version;
+$$;
+
+COMMENT ON FUNCTION get_prompt_experiment_results IS 'Outcome counts per prompt version for a prompt experiment';
+
+-- =====================================================
+-- 4. PROMOTE WINNER
+-- =====================================================
+-- Completes a running experiment and makes the winning version
+-- its mode's current prompt version in one transaction.
+
+CREATE OR REPLACE FUNCTION promote_prompt_experiment_winner(
+    p_experiment_id UUID,
+    p_version TEXT,
+    p_promoted_by UUID
+)
+RETURNS SETOF prompt_experiments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_experiment prompt_experiments;
+BEGIN
+    UPDATE prompt_experiments
+    SET
+        status = 'completed',
+        winner_version = p_version,
+        ended_at = now()
+    WHERE id = p_experiment_id
+      AND status = 'running'
+      AND variants @> jsonb_build_array(jsonb_build_object('version', p_version))
+    RETURNING * INTO v_experiment;
+
+    IF v_experiment.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO prompt_template_current (mode, version, updated_by, updated_at)
+    VALUES (v_experiment.mode, p_version, p_promoted_by, now())
+    ON CONFLICT (mode) DO UPDATE
+    SET version = EXCLUDED.version,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = EXCLUDED.updated_at;
+
+    RETURN NEXT v_experiment;
+END;
+$$;
+
+COMMENT ON FUNCTION promote_prompt_experiment_winner IS 'Completes a prompt experiment and points its mode''s current version at the winner';
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+GRANT SELECT ON prompt_experiments TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION get_prompt_experiment_results(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_prompt_experiment_results(UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION promote_prompt_experiment_winner(UUID, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION promote_prompt_experiment_winner(UUID, TEXT, UUID) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. assets.downloaded_at
+--   2. prompt_experiments table (one running experiment per mode)
+--   3. get_prompt_experiment_results() - outcome counts per version
+--   4. promote_prompt_experiment_winner() - complete and repoint in one step
+-- =====================================================
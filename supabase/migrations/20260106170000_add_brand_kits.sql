@@ -0,0 +1,100 @@
+-- =====================================================
+-- BRAND KITS
+-- =====================================================
+-- Named sets of brand settings (tone, color palette, scene
+-- styles, banned words/props, callout typography and default
+-- constraints) that a user can attach to a project. Generation
+-- routes snapshot the project's kit into the job payload and
+-- the prompt builder merges it into the prompt inputs; outputs
+-- record the applied kit in prompt_payload.brandKit.
+-- =====================================================
+
+-- =====================================================
+-- 1. BRAND TONES
+-- =====================================================
+-- The workspace has always offered 'casual'; allow it as a
+-- default tone too (tones live in lib/brand-kits.ts)
+
+ALTER TABLE user_preferences
+    DROP CONSTRAINT IF EXISTS user_preferences_default_brand_tone_check;
+
+ALTER TABLE user_preferences
+    ADD CONSTRAINT user_preferences_default_brand_tone_check
+    CHECK (default_brand_tone IN ('professional', 'luxury', 'casual', 'playful', 'minimal', 'bold'));
+
+-- =====================================================
+-- 2. BRAND KITS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS brand_kits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+    tone TEXT CHECK (tone IN ('professional', 'luxury', 'casual', 'playful', 'minimal', 'bold')),
+    color_palette TEXT[] NOT NULL DEFAULT '{}',
+    scene_styles TEXT[] NOT NULL DEFAULT '{}',
+    banned_terms TEXT[] NOT NULL DEFAULT '{}',
+    callout_typography TEXT CHECK (callout_typography IN ('modern_sans', 'classic_serif', 'rounded', 'condensed', 'handwritten')),
+    default_constraints TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_kits_user_id ON brand_kits(user_id);
+
+ALTER TABLE brand_kits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own brand kits"
+    ON brand_kits
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own brand kits"
+    ON brand_kits
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own brand kits"
+    ON brand_kits
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own brand kits"
+    ON brand_kits
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_brand_kits_updated_at
+    BEFORE UPDATE ON brand_kits
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE brand_kits IS 'Named brand settings merged into the prompt inputs of a project''s generations';
+COMMENT ON COLUMN brand_kits.tone IS 'Brand tone used when a request does not set brandTone';
+COMMENT ON COLUMN brand_kits.color_palette IS 'Brand colors as #RRGGBB hex codes';
+COMMENT ON COLUMN brand_kits.scene_styles IS 'Preferred scene styles for lifestyle images';
+COMMENT ON COLUMN brand_kits.banned_terms IS 'Words and props that must never appear (removed from descriptions and forbidden in prompts)';
+COMMENT ON COLUMN brand_kits.callout_typography IS 'Typography style for feature callout text';
+COMMENT ON COLUMN brand_kits.default_constraints IS 'Constraints added to every generation';
+
+-- =====================================================
+-- 3. PROJECT BRAND KIT
+-- =====================================================
+
+ALTER TABLE projects
+    ADD COLUMN IF NOT EXISTS brand_kit_id UUID REFERENCES brand_kits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_brand_kit_id ON projects(brand_kit_id);
+
+COMMENT ON COLUMN projects.brand_kit_id IS 'Brand kit applied to new generations (null for none)';
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. 'casual' as a user_preferences.default_brand_tone
+--   2. brand_kits table (own-row RLS)
+--   3. projects.brand_kit_id
+-- =====================================================
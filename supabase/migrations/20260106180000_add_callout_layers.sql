@@ -0,0 +1,34 @@
+-- =====================================================
+-- CALLOUT LAYERS
+-- =====================================================
+-- feature_callout outputs generated with structured callouts
+-- (headline, text, icon, anchor) get their text composited by
+-- the worker instead of drawn by the image model. The layer is
+-- kept on the output so the text can be edited and re-rendered
+-- (PUT /api/assets/[id]/callouts) without generating again.
+-- =====================================================
+
+-- =====================================================
+-- 1. ASSET CALLOUT LAYER
+-- =====================================================
+-- {
+--   "version": "v1",
+--   "layout": "sides",
+--   "callouts": [{ "headline": "...", "text": "...", "icon": "check",
+--                  "anchor": { "x": 0.42, "y": 0.35 } }],
+--   "accent_color": "#2563eb",
+--   "base_storage_path": "<user>/<project>/layers/<uuid>.png",
+--   "rendered_at": "..."
+-- }
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS callout_layer JSONB;
+
+COMMENT ON COLUMN assets.callout_layer IS 'Callout text composited onto a feature_callout output, with the path of its text-free base image (null when the model drew the text)';
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. assets.callout_layer
+-- =====================================================
@@ -0,0 +1,303 @@
+-- =====================================================
+-- GENERATION MODES
+-- =====================================================
+-- The modes the database accepts now live in one table,
+-- mirroring the registry in lib/generation/modes.ts, instead
+-- of a CHECK list on every table with a mode column. Adding a
+-- mode is a single INSERT here.
+--
+-- Modes may cost more than one credit per image: batch jobs
+-- carry their price, and variant selection charges each kept
+-- variant the job's per-variant price.
+-- =====================================================
+
+-- =====================================================
+-- 1. MODES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS generation_modes (
+    id TEXT PRIMARY KEY,
+    created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE generation_modes ENABLE ROW LEVEL SECURITY;
+
+-- Readable by all authenticated users; changed by migrations only
+CREATE POLICY "Generation modes are viewable by authenticated users"
+    ON generation_modes
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+COMMENT ON TABLE generation_modes IS 'Generation modes the app supports (ids of GENERATION_MODES in lib/generation/modes.ts)';
+
+INSERT INTO generation_modes (id)
+VALUES ('main_white'), ('lifestyle'), ('feature_callout'), ('packaging')
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- 2. MODE COLUMNS REFERENCE THE TABLE
+-- =====================================================
+-- Replaces the CHECK lists of the earlier migrations.
+-- generation_jobs.mode had no constraint before.
+
+ALTER TABLE assets DROP CONSTRAINT IF EXISTS assets_mode_check;
+ALTER TABLE assets
+    ADD CONSTRAINT assets_mode_fkey FOREIGN KEY (mode) REFERENCES generation_modes(id);
+
+ALTER TABLE generation_jobs
+    ADD CONSTRAINT generation_jobs_mode_fkey FOREIGN KEY (mode) REFERENCES generation_modes(id);
+
+ALTER TABLE prompt_templates DROP CONSTRAINT IF EXISTS prompt_templates_mode_check;
+ALTER TABLE prompt_templates
+    ADD CONSTRAINT prompt_templates_mode_fkey FOREIGN KEY (mode) REFERENCES generation_modes(id);
+
+ALTER TABLE prompt_template_current DROP CONSTRAINT IF EXISTS prompt_template_current_mode_check;
+ALTER TABLE prompt_template_current
+    ADD CONSTRAINT prompt_template_current_mode_fkey FOREIGN KEY (mode) REFERENCES generation_modes(id);
+
+ALTER TABLE prompt_experiments DROP CONSTRAINT IF EXISTS prompt_experiments_mode_check;
+ALTER TABLE prompt_experiments
+    ADD CONSTRAINT prompt_experiments_mode_fkey FOREIGN KEY (mode) REFERENCES generation_modes(id);
+
+COMMENT ON COLUMN assets.mode IS 'Mode of the asset (see generation_modes)';
+COMMENT ON COLUMN generation_jobs.mode IS 'Generation mode (see generation_modes)';
+
+-- =====================================================
+-- 3. CREATE BATCH WITH HOLDS (replaces previous version)
+-- =====================================================
+-- Each element of p_jobs is {mode, payload, credits}; the
+-- job's hold is its credits (1 when missing). Nothing is
+-- created unless the user has enough available credits for
+-- the total.
+
+CREATE OR REPLACE FUNCTION create_generation_batch_with_holds(
+    p_project_id uuid,
+    p_input_asset_id uuid,
+    p_items jsonb,
+    p_jobs jsonb,
+    p_cost_cents int DEFAULT 0,
+    p_provider text DEFAULT NULL,
+    p_model text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_total int := jsonb_array_length(COALESCE(p_jobs, '[]'::jsonb));
+    v_credits int;
+    v_available int;
+    v_batch generation_batches%ROWTYPE;
+    v_job generation_jobs%ROWTYPE;
+    v_jobs jsonb := '[]'::jsonb;
+    v_entry jsonb;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+    END IF;
+
+    IF v_total = 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Batch has no jobs');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_jobs) AS j(entry)
+        WHERE COALESCE((j.entry->>'credits')::int, 1) <= 0
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Credits must be greater than 0');
+    END IF;
+
+    SELECT SUM(COALESCE((j.entry->>'credits')::int, 1)) INTO v_credits
+    FROM jsonb_array_elements(p_jobs) AS j(entry);
+
+    IF NOT EXISTS (
+        SELECT 1 FROM projects WHERE id = p_project_id AND user_id = v_user_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Project not found');
+    END IF;
+
+    PERFORM lock_user_credits(v_user_id);
+
+    SELECT COALESCE(available, 0) INTO v_available
+    FROM user_credit_balance
+    WHERE user_id = v_user_id;
+
+    v_available := COALESCE(v_available, 0);
+
+    IF v_available < v_credits THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Insufficient credits',
+            'available', v_available,
+            'required', v_credits,
+            'shortfall', v_credits - v_available
+        );
+    END IF;
+
+    INSERT INTO generation_batches (
+        user_id, project_id, input_asset_id, items, total_jobs, total_credits
+    )
+    VALUES (
+        v_user_id, p_project_id, p_input_asset_id, COALESCE(p_items, '[]'::jsonb), v_total, v_credits
+    )
+    RETURNING * INTO v_batch;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_jobs)
+    LOOP
+        INSERT INTO generation_jobs (
+            user_id, project_id, batch_id, status, mode, input_asset_id,
+            cost_cents, provider, model, payload
+        )
+        VALUES (
+            v_user_id, p_project_id, v_batch.id, 'queued', v_entry->>'mode', p_input_asset_id,
+            p_cost_cents, p_provider, p_model, COALESCE(v_entry->'payload', '{}'::jsonb)
+        )
+        RETURNING * INTO v_job;
+
+        INSERT INTO public.credit_holds (user_id, amount, ref_type, ref_id)
+        VALUES (v_user_id, COALESCE((v_entry->>'credits')::int, 1), 'job', v_job.id);
+
+        v_jobs := v_jobs || jsonb_build_array(to_jsonb(v_job));
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'batch', to_jsonb(v_batch),
+        'jobs', v_jobs,
+        'available', v_available - v_credits
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION create_generation_batch_with_holds IS 'Creates a generation batch with its queued child jobs, reserving each job''s credits after checking the total';
+
+-- =====================================================
+-- 4. SELECT VARIANTS (replaces previous version)
+-- =====================================================
+-- Kept variants are charged the job's per-variant price (its
+-- hold divided by its variant count) instead of 1 credit.
+
+CREATE OR REPLACE FUNCTION select_job_variants(
+    p_job_id uuid,
+    p_keep_asset_ids uuid[],
+    p_grace_hours int DEFAULT 24
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+    v_kept int;
+    v_discarded int;
+    v_price int;
+BEGIN
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+      AND (user_id = auth.uid() OR auth.role() = 'service_role')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job not found');
+    END IF;
+
+    IF v_job.status <> 'succeeded' OR v_job.variant_count <= 1 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job has no variants to select');
+    END IF;
+
+    IF v_job.variants_selected_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Variants already selected',
+            'kept', v_job.variants_kept
+        );
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM unnest(COALESCE(p_keep_asset_ids, '{}')) AS k(asset_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM assets
+            WHERE id = k.asset_id
+              AND generation_job_id = p_job_id
+              AND variant_status = 'pending'
+        )
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Unknown variant');
+    END IF;
+
+    SELECT amount / v_job.variant_count INTO v_price
+    FROM public.credit_holds
+    WHERE ref_type = 'job'
+      AND ref_id = p_job_id
+      AND status = 'active';
+
+    v_price := GREATEST(COALESCE(v_price, 1), 1);
+
+    UPDATE assets
+    SET variant_status = 'kept'
+    WHERE generation_job_id = p_job_id
+      AND variant_status = 'pending'
+      AND id = ANY(COALESCE(p_keep_asset_ids, '{}'));
+
+    GET DIAGNOSTICS v_kept = ROW_COUNT;
+
+    UPDATE assets
+    SET
+        variant_status = 'discarded',
+        discard_after = now() + make_interval(hours => GREATEST(p_grace_hours, 0))
+    WHERE generation_job_id = p_job_id
+      AND variant_status = 'pending';
+
+    GET DIAGNOSTICS v_discarded = ROW_COUNT;
+
+    IF v_kept > 0 THEN
+        PERFORM capture_credit_hold('job', p_job_id, v_kept * v_price);
+    ELSE
+        PERFORM release_credit_hold('job', p_job_id, 'variants_discarded');
+    END IF;
+
+    UPDATE generation_jobs
+    SET
+        variants_kept = v_kept,
+        variants_selected_at = now(),
+        -- Point the job at a variant that is staying
+        output_asset_id = COALESCE(
+            (SELECT id FROM assets
+             WHERE generation_job_id = p_job_id AND variant_status = 'kept'
+             ORDER BY variant_index
+             LIMIT 1),
+            output_asset_id
+        )
+    WHERE id = p_job_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'kept', v_kept,
+        'discarded', v_discarded,
+        'credits_charged', v_kept * v_price
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION select_job_variants IS 'Keeps the chosen variants of a multi-variant job, charging the per-variant price for each and releasing the rest';
+
+-- =====================================================
+-- 5. GRANTS
+-- =====================================================
+
+GRANT SELECT ON generation_modes TO authenticated;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. generation_modes table with RLS (seeded with the four modes)
+--   2. mode foreign keys on assets, generation_jobs, prompt_templates,
+--      prompt_template_current and prompt_experiments
+--   3. create_generation_batch_with_holds() - per-job credits
+--   4. select_job_variants() - per-variant price of the job
+-- =====================================================
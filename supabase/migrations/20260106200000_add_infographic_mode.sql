@@ -0,0 +1,23 @@
+-- =====================================================
+-- INFOGRAPHIC MODE
+-- =====================================================
+-- "Ours vs. Others" comparison charts and spec tables. The
+-- chart rows travel in the job payload (promptInputs.comparisonRows)
+-- and are composited by the worker, so no new columns are
+-- needed: the mode only has to be accepted.
+-- =====================================================
+
+-- =====================================================
+-- 1. MODE
+-- =====================================================
+
+INSERT INTO generation_modes (id)
+VALUES ('infographic')
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. 'infographic' generation mode
+-- =====================================================
@@ -0,0 +1,24 @@
+-- =====================================================
+-- DIMENSIONS MODE
+-- =====================================================
+-- Size reference images with measurement lines. The
+-- measurements and scale reference travel in the job payload
+-- (promptInputs.dimensions, promptInputs.scaleReference) and
+-- are composited by the worker, so no new columns are
+-- needed: the mode only has to be accepted.
+-- =====================================================
+
+-- =====================================================
+-- 1. MODE
+-- =====================================================
+
+INSERT INTO generation_modes (id)
+VALUES ('dimensions')
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. 'dimensions' generation mode
+-- =====================================================
@@ -0,0 +1,40 @@
+-- =====================================================
+-- BUNDLE MODE
+-- =====================================================
+-- Group shots of several products ("what's in the box").
+-- A bundle job takes 2-6 input assets of the project: the
+-- job keeps them in payload.inputAssetIds (input_asset_id
+-- is the first) and the worker records all of them on each
+-- output, so lineage covers every product shown.
+-- =====================================================
+
+-- =====================================================
+-- 1. MODE
+-- =====================================================
+
+INSERT INTO generation_modes (id)
+VALUES ('bundle')
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- 2. SOURCE ASSETS
+-- =====================================================
+
+ALTER TABLE assets
+    ADD COLUMN IF NOT EXISTS source_asset_ids UUID[];
+
+COMMENT ON COLUMN assets.source_asset_ids IS
+    'Every input a bundle output was generated from, in layout order (source_asset_id is the first); null for single-input assets';
+
+-- "Outputs derived from this input" looks inside the array
+CREATE INDEX IF NOT EXISTS idx_assets_source_asset_ids
+    ON assets USING GIN (source_asset_ids)
+    WHERE source_asset_ids IS NOT NULL;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. 'bundle' generation mode
+--   2. assets.source_asset_ids
+-- =====================================================
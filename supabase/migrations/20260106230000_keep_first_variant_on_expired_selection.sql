@@ -0,0 +1,70 @@
+-- =====================================================
+-- EXPIRED VARIANT SELECTIONS KEEP ONE VARIANT
+-- =====================================================
+-- finalize_expired_variant_selections() used to keep (and
+-- charge) every variant of a set left unpicked, so an
+-- abandoned 4-variant job cost 4 credits without the user
+-- ever choosing anything. It now keeps only the first
+-- variant, charged like a single-image job, and discards
+-- the rest with the usual grace period.
+-- =====================================================
+
+-- =====================================================
+-- 1. FINALIZE ABANDONED SELECTIONS
+-- =====================================================
+-- Selections left pending past p_window_hours keep the
+-- lowest variant_index still pending (variant 0, which the
+-- job's output_asset_id already points at) and charge its
+-- per-variant price. Every other variant is discarded and
+-- the rest of the hold released, so holds are never left
+-- open indefinitely and users pay for one image at most.
+
+CREATE OR REPLACE FUNCTION finalize_expired_variant_selections(
+    p_window_hours int DEFAULT 168
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_job_id uuid;
+    v_keep uuid[];
+    v_count int := 0;
+BEGIN
+    FOR v_job_id IN
+        SELECT id
+        FROM generation_jobs
+        WHERE status = 'succeeded'
+          AND variant_count > 1
+          AND variants_selected_at IS NULL
+          AND completed_at < now() - make_interval(hours => p_window_hours)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        SELECT COALESCE(array_agg(id), '{}') INTO v_keep
+        FROM (
+            SELECT id
+            FROM assets
+            WHERE generation_job_id = v_job_id AND variant_status = 'pending'
+            ORDER BY variant_index
+            LIMIT 1
+        ) AS first_variant;
+
+        PERFORM select_job_variants(v_job_id, v_keep);
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION finalize_expired_variant_selections IS 'Keeps only the first variant of jobs whose selection window expired, charging 1 variant and discarding the rest';
+
+REVOKE EXECUTE ON FUNCTION finalize_expired_variant_selections(int) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION finalize_expired_variant_selections(int) TO service_role;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. finalize_expired_variant_selections() - keeps only the first variant
+-- =====================================================
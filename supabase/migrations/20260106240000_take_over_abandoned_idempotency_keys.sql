@@ -0,0 +1,99 @@
+-- =====================================================
+-- ABANDONED IDEMPOTENCY KEYS
+-- =====================================================
+-- A request that crashed before completing or releasing its
+-- key left the row 'pending', so every retry with that key got
+-- 409 in_progress until the key expired (24 hours). Pending
+-- rows older than a short lease are now treated as abandoned
+-- and taken over by the next request with the same payload.
+-- =====================================================
+
+-- =====================================================
+-- 1. BEGIN IDEMPOTENT REQUEST
+-- =====================================================
+-- Same states as before. A 'pending' row older than
+-- p_pending_lease_seconds (default 5 minutes, far longer than
+-- any request takes) is claimed again: its clock restarts and
+-- the caller gets { state: 'new' }. The row lock taken by the
+-- UPDATE lets only one of several concurrent retries win.
+
+DROP FUNCTION IF EXISTS begin_idempotent_request(text, text, text, int);
+
+CREATE OR REPLACE FUNCTION begin_idempotent_request(
+    p_endpoint text,
+    p_key text,
+    p_request_hash text,
+    p_ttl_seconds int DEFAULT 86400,
+    p_pending_lease_seconds int DEFAULT 300
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_existing public.idempotency_keys%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Expired keys can be reused
+    DELETE FROM public.idempotency_keys
+    WHERE user_id = v_user_id
+      AND expires_at < now();
+
+    INSERT INTO public.idempotency_keys (user_id, endpoint, key, request_hash, expires_at)
+    VALUES (v_user_id, p_endpoint, p_key, p_request_hash, now() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (user_id, endpoint, key) DO NOTHING;
+
+    IF FOUND THEN
+        RETURN jsonb_build_object('state', 'new');
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM public.idempotency_keys
+    WHERE user_id = v_user_id
+      AND endpoint = p_endpoint
+      AND key = p_key;
+
+    IF v_existing.request_hash <> p_request_hash THEN
+        RETURN jsonb_build_object('state', 'mismatch');
+    END IF;
+
+    IF v_existing.status = 'pending' THEN
+        -- The first request never finished: take the key over
+        UPDATE public.idempotency_keys
+        SET
+            created_at = now(),
+            expires_at = now() + make_interval(secs => p_ttl_seconds)
+        WHERE id = v_existing.id
+          AND status = 'pending'
+          AND created_at < now() - make_interval(secs => GREATEST(p_pending_lease_seconds, 0));
+
+        IF FOUND THEN
+            RETURN jsonb_build_object('state', 'new');
+        END IF;
+
+        RETURN jsonb_build_object('state', 'in_progress');
+    END IF;
+
+    RETURN jsonb_build_object(
+        'state', 'replay',
+        'response_status', v_existing.response_status,
+        'response_body', v_existing.response_body
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION begin_idempotent_request IS 'Claims an idempotency key for the current user (taking over pending keys abandoned past the lease) or reports how an earlier request with it ended';
+
+REVOKE EXECUTE ON FUNCTION begin_idempotent_request(text, text, text, int, int) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION begin_idempotent_request(text, text, text, int, int) TO authenticated;
+
+-- =====================================================
+-- MIGRATION COMPLETE
+-- =====================================================
+-- Added:
+--   1. begin_idempotent_request() takes over pending keys older than p_pending_lease_seconds
+-- =====================================================